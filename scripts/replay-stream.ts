@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Local DynamoDB Stream Replayer
+ *
+ * Feeds member changes through the same stream handler the Lambda uses,
+ * so the DynamoDB → OpenSearch sync path can be tested offline.
+ *
+ * Sources:
+ * 1. `--fixture <file>`: a JSON fixture, either a Lambda-shaped
+ *    `{ "Records": [...] }` event or a list of
+ *    `{ "eventName", "oldImage", "newImage" }` changes in plain JSON
+ * 2. `--dynamodb`: changes in DynamoDB Local since the last replay,
+ *    derived by diffing the table against a snapshot file (the first run
+ *    replays every item as an INSERT)
+ *
+ * @remarks
+ * Reads configuration from .env.local like the API (OPENSEARCH_NODE,
+ * DYNAMODB_ENDPOINT, ...). The snapshot is only updated when every record
+ * succeeded, so a failed replay is retried in full on the next run.
+ *
+ * @example
+ * ```bash
+ * npm run stream:replay -- --fixture scripts/fixtures/member-stream.json
+ * npm run stream:replay -- --dynamodb
+ * npm run stream:replay -- --dynamodb --snapshot /tmp/members.snapshot.json --batch-size 25
+ * ```
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { NestFactory } from '@nestjs/core';
+import { MembershipStreamModule } from '../src/membership/membership-stream.module';
+import { MembershipStreamHandler } from '../src/membership/membership-stream.handler';
+import { MembershipRepository } from '../src/membership/membership.repository';
+import { diffMemberSnapshots, parseStreamFixture } from '../src/membership/membership-stream.replay';
+import { Member, MemberStreamRecord } from '../src/membership/interfaces';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Default snapshot of the table as of the last successful replay. */
+const DEFAULT_SNAPSHOT_PATH = '.stream-replay-snapshot.json';
+
+/** Default records per handler invocation (Lambda's default batch size). */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Reads the value following a flag, e.g. `--fixture <file>`.
+ */
+function readFlag(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Sources                                        */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Scans the whole members table.
+ */
+async function scanMembers(repository: MembershipRepository): Promise<Member[]> {
+    const members: Member[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+
+    do {
+        const page = await repository.scanPage(100, lastKey);
+        members.push(...page.items);
+        lastKey = page.lastEvaluatedKey;
+    } while (lastKey);
+
+    return members;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Main                                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Main entrypoint for the replayer.
+ */
+async function main(): Promise<void> {
+    const fixturePath = readFlag('--fixture');
+    const fromDynamoDb = process.argv.includes('--dynamodb');
+    const snapshotPath = readFlag('--snapshot') ?? DEFAULT_SNAPSHOT_PATH;
+    const batchSize = parseInt(readFlag('--batch-size') ?? String(DEFAULT_BATCH_SIZE), 10);
+
+    if (!fixturePath === !fromDynamoDb) {
+        console.error('Usage: replay-stream (--fixture <file> | --dynamodb [--snapshot <file>]) [--batch-size <n>]');
+        process.exit(1);
+    }
+
+    const app = await NestFactory.createApplicationContext(MembershipStreamModule, { logger: ['error', 'warn'] });
+    const handler = app.get(MembershipStreamHandler);
+
+    let records: MemberStreamRecord[];
+    let current: Member[] | undefined;
+
+    if (fixturePath) {
+        records = parseStreamFixture(JSON.parse(readFileSync(fixturePath, 'utf8'))).Records;
+        console.log(`Replaying ${records.length} record(s) from ${fixturePath}`);
+    } else {
+        const previous: Member[] = existsSync(snapshotPath)
+            ? JSON.parse(readFileSync(snapshotPath, 'utf8'))
+            : [];
+        current = await scanMembers(app.get(MembershipRepository));
+        records = diffMemberSnapshots(previous, current);
+        console.log(`Replaying ${records.length} change(s) from DynamoDB (snapshot: ${snapshotPath})`);
+    }
+
+    let failed = 0;
+    for (let i = 0; i < records.length && failed === 0; i += batchSize) {
+        const batch = records.slice(i, i + batchSize);
+        const response = await handler.handle({ Records: batch });
+        failed = response.batchItemFailures.length;
+
+        for (const record of batch) {
+            const status = response.batchItemFailures.some(
+                (f) => f.itemIdentifier === record.dynamodb.SequenceNumber,
+            ) ? 'FAILED' : 'ok';
+            console.log(`  ${record.dynamodb.SequenceNumber} ${record.eventName.padEnd(6)} ${status}`);
+        }
+    }
+
+    await app.close();
+
+    if (failed > 0) {
+        console.error(`\n${failed} record(s) failed; snapshot not updated.`);
+        process.exit(1);
+    }
+
+    if (current) {
+        writeFileSync(snapshotPath, JSON.stringify(current, null, 2));
+    }
+    console.log('\nReplay complete.');
+}
+
+main().catch((error) => {
+    console.error('\nReplay failed:', error);
+    process.exit(1);
+});
@@ -21,6 +21,7 @@ import { DynamoDBClient, CreateTableCommand, DescribeTableCommand } from '@aws-s
 import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { Client } from '@opensearch-project/opensearch';
 import { Client as PgClient } from 'pg';
+import { MEMBER_INDEX_MAPPINGS, MEMBER_INDEX_SETTINGS } from '../src/membership/membership.mappings';
 
 /* -------------------------------------------------------------------------- */
 /*                              Configuration                                  */
@@ -348,28 +349,6 @@ const mockLocations = [
     },
 ];
 
-/* -------------------------------------------------------------------------- */
-/*                          OpenSearch Configuration                           */
-/* -------------------------------------------------------------------------- */
-
-/**
- * OpenSearch index mappings for the 'members' index.
- *
- * @remarks
- * - `member_id` and `email` are keyword fields for exact matching
- * - `fname`, `lname`, `status_notes` are text fields for full-text search
- */
-const indexMappings = {
-    properties: {
-        member_id: { type: 'keyword' },
-        email: { type: 'keyword' },
-        fname: { type: 'text', analyzer: 'standard' },
-        lname: { type: 'text', analyzer: 'standard' },
-        status_notes: { type: 'text', analyzer: 'standard' },
-        tags: { type: 'keyword' },
-    },
-};
-
 /* -------------------------------------------------------------------------- */
 /*                              PII Redaction                                  */
 /* -------------------------------------------------------------------------- */
@@ -463,25 +442,32 @@ async function seedDynamoDB(): Promise<void> {
 async function createOpenSearchIndex(): Promise<void> {
     console.log('Creating OpenSearch index...');
 
+    // `members` is an alias over versioned indices; drop every version and
+    // any concrete index left from before aliases were introduced
+    const aliased = await opensearchClient.indices.existsAlias({ name: 'members' });
     const exists = await opensearchClient.indices.exists({ index: 'members' });
 
-    if (exists.body) {
+    if (exists.body && !aliased.body) {
         console.log('   Deleting existing index...');
         await opensearchClient.indices.delete({ index: 'members' });
     }
+    console.log('   Deleting existing index versions...');
+    await opensearchClient.indices.delete({ index: 'members_v*' });
 
     await opensearchClient.indices.create({
-        index: 'members',
+        index: 'members_v1',
         body: {
-            mappings: indexMappings,
+            aliases: { members: {} },
+            mappings: MEMBER_INDEX_MAPPINGS,
             settings: {
                 number_of_shards: 1,
                 number_of_replicas: 0,
+                ...MEMBER_INDEX_SETTINGS,
             },
         },
     });
 
-    console.log('   Index created');
+    console.log('   Index members_v1 created behind alias members');
 }
 
 /**
@@ -501,8 +487,14 @@ async function indexToOpenSearch(): Promise<void> {
             email: member.email.toLowerCase(),
             fname: member.fname,
             lname: member.lname,
+            lname_suggest: member.lname,
             status_notes: member.status_notes ? redact(member.status_notes) : undefined,
             tags: member.tags,
+            location_id: member.location_id,
+            enrollment_date: member.enrollment_date,
+            monthly_visits: member.monthly_visits,
+            created_at: member.created_at,
+            updated_at: member.updated_at,
         };
 
         await opensearchClient.index({
@@ -547,10 +539,19 @@ async function seedLocations(): Promise<void> {
                 staffing JSONB NOT NULL,
                 contract_logic JSONB NOT NULL,
                 operational_rules JSONB NOT NULL,
-                status_events JSONB DEFAULT '[]'
+                status_events JSONB DEFAULT '[]',
+                updated_at TIMESTAMPTZ(3) NOT NULL DEFAULT now(),
+                version INTEGER NOT NULL DEFAULT 1
             )
         `);
 
+        // Change tracking for the delta sync (tables created before it existed)
+        await pgClient.query('ALTER TABLE locations ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ(3) NOT NULL DEFAULT now()');
+        await pgClient.query('CREATE INDEX IF NOT EXISTS idx_locations_updated_at ON locations (updated_at, location_id)');
+
+        // Optimistic concurrency for the admin API
+        await pgClient.query('ALTER TABLE locations ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1');
+
         // Clear existing data
         await pgClient.query('TRUNCATE TABLE locations');
 
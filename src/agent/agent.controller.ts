@@ -4,16 +4,27 @@
  * HTTP endpoints for LLM-powered analysis.
  */
 
-import { Controller, Post, Get, Body, UseGuards, Request } from '@nestjs/common';
+import { Controller, Post, Get, Body, UseGuards, Request, Res, HttpException, UsePipes, ValidationPipe } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
-import { AgentService } from './agent.service';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiBody, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
+import { AgentService, AnalyzeRequest } from './agent.service';
 import { AnalyzeRequestDto } from './dto/analyze-request.dto';
 import { AuthenticatedUser } from '../shared/auth';
-import { Insight } from './interfaces';
+import { AnalysisEvent, Insight } from './interfaces';
+
+/**
+ * Copies the client's fields into an analysis request. `conversation` is
+ * never taken from a client; only ConversationsService sets it, from the
+ * stored turns.
+ */
+function toAnalyzeRequest({ question, locationId, limit, mode, payout }: AnalyzeRequestDto): AnalyzeRequest {
+    return { question, locationId, limit, mode, payout };
+}
 
 @ApiTags('agent')
 @Controller('agent')
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }))
 export class AgentController {
     constructor(private agentService: AgentService) { }
 
@@ -29,7 +40,60 @@ export class AgentController {
         @Body() request: AnalyzeRequestDto,
         @Request() req: { user: AuthenticatedUser },
     ): Promise<Insight> {
-        return this.agentService.analyze(request, req.user);
+        return this.agentService.analyze(toAnalyzeRequest(request), req.user);
+    }
+
+    /**
+     * Analyzes data like POST /agent/analyze, reporting each pipeline stage
+     * as a server-sent event and ending with the insight.
+     *
+     * @remarks
+     * The stream opens with the first event, so a question rejected by the
+     * input guardrails still gets a plain HTTP error. Once streaming, a
+     * failure is sent as an `error` event. Events stop if the client
+     * disconnects; the analysis itself runs to completion.
+     */
+    @Post('analyze/stream')
+    @UseGuards(AuthGuard('jwt'))
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Streaming LLM-powered analysis',
+        description: 'Server-sent events: guardrails, retrieval or tools, provisional tokens, citations, grounding, revised (if the checks changed the answer), then insight (or error)',
+    })
+    @ApiProduces('text/event-stream')
+    @ApiBody({ type: AnalyzeRequestDto })
+    async analyzeStream(
+        @Body() request: AnalyzeRequestDto,
+        @Request() req: { user: AuthenticatedUser },
+        @Res() res: Response,
+    ): Promise<void> {
+        let closed = false;
+        res.on('close', () => {
+            closed = true;
+        });
+
+        const send = (event: AnalysisEvent) => {
+            if (closed) return;
+            if (!res.headersSent) {
+                res.status(200);
+                res.setHeader('Content-Type', 'text/event-stream');
+                res.setHeader('Cache-Control', 'no-cache');
+                res.setHeader('Connection', 'keep-alive');
+                // Stop reverse proxies from buffering the stream
+                res.setHeader('X-Accel-Buffering', 'no');
+                res.flushHeaders();
+            }
+            res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        };
+
+        try {
+            const insight = await this.agentService.analyze(toAnalyzeRequest(request), req.user, send);
+            send({ type: 'insight', data: insight });
+        } catch (error) {
+            if (!res.headersSent) throw error;
+            send({ type: 'error', data: { message: error instanceof HttpException ? error.message : 'Analysis failed' } });
+        }
+        res.end();
     }
 
     /**
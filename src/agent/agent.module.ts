@@ -10,6 +10,8 @@ import { Module } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { MembershipModule } from '../membership';
 import { LocationsModule } from '../locations';
+import { SharedOpenSearchModule } from '../shared/opensearch';
+import { SharedRateLimitModule } from '../shared/rate-limit';
 import { SharedRedactionModule } from '../shared/redaction';
 import { LLM_PROVIDER } from './interfaces';
 import { GeminiProvider, BedrockProvider } from './providers';
@@ -19,16 +21,18 @@ import {
     PromptInjectionDetector,
     PIIScanner,
     OutputValidator,
-    RateLimiter,
     GuardrailsService,
 } from './guardrails';
-import { GroundingService } from './grounding';
+import { CitationVerifier, GroundingService } from './grounding';
+import { RetrievalPlanner, RetrievalService } from './retrieval';
+import { AgentToolsService, ToolLoopService } from './tools';
+import { ConversationsController, ConversationsService } from './conversations';
 import { AgentService } from './agent.service';
 import { AgentController } from './agent.controller';
 
 @Module({
-    imports: [MembershipModule, LocationsModule, SharedRedactionModule],
-    controllers: [AgentController],
+    imports: [MembershipModule, LocationsModule, SharedOpenSearchModule, SharedRateLimitModule, SharedRedactionModule],
+    controllers: [AgentController, ConversationsController],
     providers: [
         // LLM Providers
         GeminiProvider,
@@ -57,12 +61,21 @@ import { AgentController } from './agent.controller';
         PromptInjectionDetector,
         PIIScanner,
         OutputValidator,
-        RateLimiter,
         GuardrailsService,
         GroundingService,
+        CitationVerifier,
+
+        // Retrieval
+        RetrievalPlanner,
+        RetrievalService,
+
+        // Tools mode
+        AgentToolsService,
+        ToolLoopService,
 
         // Agent
         AgentService,
+        ConversationsService,
     ],
     exports: [AgentService, GuardrailsService, GroundingService],
 })
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Agent Service Tests
+ */
+
+import { RedactionService } from '../shared/redaction';
+import { AgentService } from './agent.service';
+import { CitationVerifier } from './grounding';
+import { GuardrailsService, InputValidator, OutputValidator, PIIScanner, PromptInjectionDetector } from './guardrails';
+import { AnalysisEvent, LLMAnalysisResult } from './interfaces';
+
+describe('AgentService', () => {
+    let service: AgentService;
+    let llmProvider: any;
+    let grounding: any;
+    let events: AnalysisEvent[];
+
+    const user = { userId: 'u1', roles: ['auditor'], tenantId: 'rcm-internal', tenantType: 'internal' } as any;
+    const question = 'Which members at GYM_101 are at risk?';
+
+    /** Streams the answer's summary in chunks, then returns the answer */
+    const streams = (answer: LLMAnalysisResult) => {
+        llmProvider.analyzeStream.mockImplementation(async (_q: string, _c: string, _s: string, onText: (text: string) => void) => {
+            for (const chunk of answer.summary.match(/.{1,8}/g) ?? []) onText(chunk);
+            return answer;
+        });
+    };
+
+    const streamedText = () => events
+        .filter((event): event is Extract<AnalysisEvent, { type: 'token' }> => event.type === 'token')
+        .map((event) => event.data.text)
+        .join('');
+
+    beforeEach(() => {
+        events = [];
+        llmProvider = {
+            getName: () => 'gemini',
+            analyzeStream: jest.fn(),
+        };
+        grounding = { check: jest.fn().mockResolvedValue({ grounded: true, score: 1, reason: 'supported' }) };
+        const retrieval = {
+            retrieve: jest.fn().mockResolvedValue({
+                records: [{
+                    vertical: 'members',
+                    id: 'mem-001',
+                    score: 1,
+                    matched_by: ['members:location_members:GYM_101'],
+                    document: { member_id: 'mem-001', location_id: 'GYM_101', tags: ['at-risk'] },
+                }],
+                found: { members: 1, locations: 0 },
+                report: {
+                    keywords: ['risk'],
+                    entities: {},
+                    steps: [],
+                    budget_chars: 1000,
+                    used_chars: 100,
+                    included: { members: ['mem-001'], locations: [] },
+                    omitted: 0,
+                },
+            }),
+        };
+        const guardrails = new GuardrailsService(
+            new InputValidator(),
+            new PromptInjectionDetector(),
+            new PIIScanner(),
+            new OutputValidator(),
+            { checkAndIncrement: jest.fn(), complete: jest.fn() } as any,
+        );
+
+        service = new AgentService(
+            llmProvider,
+            retrieval as any,
+            {} as any,
+            {} as any,
+            new RedactionService(),
+            guardrails,
+            grounding,
+            new CitationVerifier(),
+        );
+    });
+
+    describe('streaming', () => {
+        it('should mark tokens provisional and revise a streamed fabricated citation', async () => {
+            streams({ summary: 'mem-001 is at risk [mem-001]. So is mem-999 [mem-999].', confidence: 'medium' });
+
+            const insight = await service.analyze({ question }, user, (event) => events.push(event));
+
+            expect(streamedText()).toContain('[mem-999]');
+            expect(events.filter((event) => event.type === 'token').every((event) => event.data.provisional)).toBe(true);
+
+            const types = events.map((event) => event.type);
+            const revised = events.find((event) => event.type === 'revised');
+            expect(types.indexOf('revised')).toBeGreaterThan(types.lastIndexOf('token'));
+            expect(types.indexOf('revised')).toBeGreaterThan(types.indexOf('citations'));
+            expect(revised?.data).toEqual({ summary: insight.summary, reasoning: insight.reasoning });
+            expect(insight.summary).not.toContain('[mem-999]');
+            expect(insight.citations?.fabricated_ids).toEqual(['mem-999']);
+        });
+
+        it('should not revise an answer the checks leave unchanged', async () => {
+            streams({ summary: 'mem-001 is at risk [mem-001].', confidence: 'medium' });
+
+            const insight = await service.analyze({ question }, user, (event) => events.push(event));
+
+            expect(streamedText()).toBe(insight.summary);
+            expect(events.map((event) => event.type)).not.toContain('revised');
+        });
+
+        it('should revise streamed tokens with the fallback when the analysis fails after them', async () => {
+            streams({ summary: 'mem-001 is at risk [mem-001].', confidence: 'medium' });
+            grounding.check.mockRejectedValue(new Error('Grounding unavailable'));
+
+            const insight = await service.analyze({ question }, user, (event) => events.push(event));
+
+            expect(insight.confidence).toBe('low');
+            expect(events[events.length - 1]).toEqual({
+                type: 'revised',
+                data: { summary: insight.summary, reasoning: insight.reasoning },
+            });
+        });
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Conversation Interfaces
+ *
+ * Stored conversation sessions and the context carried into a new turn.
+ */
+
+import { Insight } from '../interfaces';
+import { RecordIds } from '../retrieval/retrieval.interface';
+
+/**
+ * One question and answer, as stored (redacted).
+ */
+export interface ConversationTurn {
+    /** 1-based position in the conversation */
+    turn: number;
+
+    question: string;
+
+    /** The answer's summary */
+    summary: string;
+
+    confidence: Insight['confidence'];
+    mode: 'retrieval' | 'tools';
+
+    /** Record IDs cited in the summary */
+    cited_ids: RecordIds;
+
+    /** Earlier turns given to the LLM as history */
+    context_turns: number[];
+
+    created_at: string;
+}
+
+/**
+ * A conversation session, owned by one user within one tenant.
+ */
+export interface Conversation {
+    conversation_id: string;
+    user_id: string;
+    tenant_id: string;
+    title?: string;
+
+    /** Oldest first */
+    turns: ConversationTurn[];
+    turn_count: number;
+
+    created_at: string;
+    updated_at: string;
+
+    /** Refreshed on every turn; expired conversations are not found */
+    expires_at: string;
+}
+
+/**
+ * Conversation listing entry.
+ */
+export type ConversationSummary = Omit<Conversation, 'turns'>;
+
+/**
+ * What a new turn knows about the conversation so far.
+ */
+export interface ConversationContext {
+    /** Every earlier question, screened with the new one for split injections */
+    priorQuestions: string[];
+
+    /** Earlier turns rendered for the prompt, within the history budget */
+    history: string;
+
+    /** Turns included in `history` */
+    turns: number[];
+
+    /** IDs cited by those turns, most recent first, for retrieval */
+    carried: RecordIds;
+}
+
+/**
+ * Result of appending a turn.
+ */
+export interface ConversationTurnResult {
+    conversation_id: string;
+    turn: ConversationTurn;
+    insight: Insight;
+}
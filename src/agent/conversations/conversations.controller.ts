@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Conversations Controller
+ *
+ * HTTP endpoints for multi-turn agent conversations.
+ *
+ * @remarks
+ * Endpoints:
+ * - POST /agent/conversations - Start a conversation
+ * - GET /agent/conversations - List the caller's conversations
+ * - GET /agent/conversations/:id - Read a conversation with its turns
+ * - POST /agent/conversations/:id/turns - Ask the next question
+ * - DELETE /agent/conversations/:id - Delete a conversation
+ *
+ * Conversations are private to the user (and tenant) that started them.
+ */
+
+import { Body, Controller, Delete, Get, Param, Post, Query, Request, UseGuards, UsePipes, ValidationPipe } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedUser } from '../../shared/auth';
+import { AnalyzeRequestDto, CreateConversationDto } from '../dto';
+import { Conversation, ConversationSummary, ConversationTurnResult } from './conversation.interface';
+import { ConversationsService } from './conversations.service';
+
+@ApiTags('agent')
+@ApiBearerAuth()
+@Controller('agent/conversations')
+@UseGuards(AuthGuard('jwt'))
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }))
+export class ConversationsController {
+    constructor(private conversationsService: ConversationsService) { }
+
+    @Post()
+    @ApiOperation({ summary: 'Start a conversation', description: 'Follow-up questions are asked as turns' })
+    @ApiBody({ type: CreateConversationDto })
+    async create(
+        @Body() request: CreateConversationDto,
+        @Request() req: { user: AuthenticatedUser },
+    ): Promise<Conversation> {
+        return this.conversationsService.create(req.user, request?.title);
+    }
+
+    /**
+     * Lists the caller's conversations, most recently active first.
+     *
+     * @param limit - Page size (default: 20, max: 100)
+     * @param offset - Conversations to skip (default: 0)
+     */
+    @Get()
+    @ApiOperation({ summary: 'List conversations', description: 'Live conversations of the caller, without turns' })
+    async list(
+        @Request() req: { user: AuthenticatedUser },
+        @Query('limit') limitParam?: string,
+        @Query('offset') offsetParam?: string,
+    ): Promise<{ conversations: ConversationSummary[]; total: number }> {
+        const limit = Math.min(Math.max(parseInt(limitParam || '20', 10) || 20, 1), 100);
+        const offset = Math.max(parseInt(offsetParam || '0', 10) || 0, 0);
+
+        return this.conversationsService.list(req.user, limit, offset);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a conversation', description: 'The conversation with its stored (redacted) turns' })
+    async get(
+        @Param('id') id: string,
+        @Request() req: { user: AuthenticatedUser },
+    ): Promise<Conversation> {
+        return this.conversationsService.get(id, req.user);
+    }
+
+    /**
+     * Analyzes the next question with the conversation's earlier turns as
+     * context, and stores the turn.
+     */
+    @Post(':id/turns')
+    @ApiOperation({
+        summary: 'Ask a follow-up question',
+        description: 'Runs an analysis with the earlier turns and the records they cited as context',
+    })
+    @ApiBody({ type: AnalyzeRequestDto })
+    async appendTurn(
+        @Param('id') id: string,
+        @Body() request: AnalyzeRequestDto,
+        @Request() req: { user: AuthenticatedUser },
+    ): Promise<ConversationTurnResult> {
+        return this.conversationsService.appendTurn(id, request, req.user);
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Delete a conversation' })
+    async delete(
+        @Param('id') id: string,
+        @Request() req: { user: AuthenticatedUser },
+    ): Promise<{ conversation_id: string; deleted: boolean }> {
+        return this.conversationsService.delete(id, req.user);
+    }
+}
@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Conversations Service
+ *
+ * Multi-turn conversation sessions for the agent, so follow-ups such as
+ * "and which of those are at GYM_104?" can build on earlier answers.
+ *
+ * @remarks
+ * Conversations are stored in the `agent_conversations` OpenSearch index,
+ * one document per conversation with its turns. Questions, answers and
+ * titles go through the RedactionService before they are stored.
+ *
+ * A conversation belongs to the user and tenant that created it; for
+ * anyone else, and once expired, it is not found. It expires
+ * AGENT_CONVERSATION_TTL_HOURS (default 24) after its last turn, and
+ * expired conversations are deleted hourly.
+ *
+ * A new turn runs a normal analysis with:
+ * - every earlier question, screened with the new one by the input
+ *   guardrails (see GuardrailsService.preProcess)
+ * - the most recent turns as history, within AGENT_HISTORY_BUDGET_CHARS
+ *   (default 2000); turns that fail the injection check are left out
+ * - the record IDs those turns cited, looked up by retrieval
+ */
+
+import { ConflictException, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { AuthenticatedUser } from '../../shared/auth';
+import { OpenSearchProvider } from '../../shared/opensearch';
+import { RedactionService } from '../../shared/redaction';
+import { AgentService, AnalyzeRequest } from '../agent.service';
+import { GuardrailsService } from '../guardrails';
+import { findRecordIds } from '../retrieval/retrieval-planner';
+import {
+    Conversation,
+    ConversationContext,
+    ConversationSummary,
+    ConversationTurn,
+    ConversationTurnResult,
+} from './conversation.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Index Mappings                                 */
+/* -------------------------------------------------------------------------- */
+
+const CONVERSATION_INDEX_MAPPINGS = {
+    properties: {
+        conversation_id: { type: 'keyword' },
+        user_id: { type: 'keyword' },
+        tenant_id: { type: 'keyword' },
+        title: { type: 'keyword' },
+        turn_count: { type: 'integer' },
+        created_at: { type: 'date' },
+        updated_at: { type: 'date' },
+        expires_at: { type: 'date' },
+        // Read back whole; never searched
+        turns: { type: 'object', enabled: false },
+    },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Turns per conversation; start a new one after that */
+const MAX_TURNS = 50;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class ConversationsService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ConversationsService.name);
+
+    /** OpenSearch index holding conversations */
+    private readonly INDEX_NAME = 'agent_conversations';
+
+    private timer?: NodeJS.Timeout;
+
+    /** Set once the conversation index is known to exist */
+    private indexReady = false;
+
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private agentService: AgentService,
+        private guardrails: GuardrailsService,
+        private redactionService: RedactionService,
+        private configService: ConfigService,
+    ) { }
+
+    onModuleInit(): void {
+        this.timer = setInterval(() => {
+            this.purgeExpired().catch((error) => {
+                this.logger.error({ msg: 'Expired conversation purge failed', error });
+            });
+        }, PURGE_INTERVAL_MS);
+        // Never keep the process alive just for the schedule
+        this.timer.unref();
+    }
+
+    onModuleDestroy(): void {
+        clearInterval(this.timer);
+    }
+
+    /**
+     * Starts a conversation for the caller.
+     */
+    async create(user: AuthenticatedUser, title?: string): Promise<Conversation> {
+        await this.ensureIndex();
+
+        const now = new Date();
+        const conversation: Conversation = {
+            conversation_id: randomUUID(),
+            user_id: user.userId,
+            tenant_id: user.tenantId,
+            ...(title && { title: this.redactionService.redact(title) }),
+            turns: [],
+            turn_count: 0,
+            created_at: now.toISOString(),
+            updated_at: now.toISOString(),
+            expires_at: this.expiresAt(now),
+        };
+
+        await this.opensearchProvider.getClient().index({
+            index: this.INDEX_NAME,
+            id: conversation.conversation_id,
+            body: conversation,
+            op_type: 'create',
+            refresh: true,
+        });
+
+        this.logger.log({ msg: 'Conversation created', conversationId: conversation.conversation_id, userId: user.userId });
+        return conversation;
+    }
+
+    /**
+     * Lists the caller's live conversations, most recently active first.
+     *
+     * @param limit - Page size
+     * @param offset - Conversations to skip
+     */
+    async list(
+        user: AuthenticatedUser,
+        limit = 20,
+        offset = 0,
+    ): Promise<{ conversations: ConversationSummary[]; total: number }> {
+        await this.ensureIndex();
+
+        const response = await this.opensearchProvider.getClient().search({
+            index: this.INDEX_NAME,
+            body: {
+                query: {
+                    bool: {
+                        filter: [
+                            { term: { user_id: user.userId } },
+                            { term: { tenant_id: user.tenantId } },
+                            { range: { expires_at: { gt: 'now' } } },
+                        ],
+                    },
+                },
+                _source: { excludes: ['turns'] },
+                sort: [{ updated_at: 'desc' }],
+                from: offset,
+                size: limit,
+                track_total_hits: true,
+            },
+        });
+
+        return {
+            conversations: response.body.hits.hits.map((hit: { _source: ConversationSummary }) => hit._source),
+            total: response.body.hits.total.value,
+        };
+    }
+
+    /**
+     * Returns one of the caller's conversations with its turns.
+     *
+     * @throws NotFoundException if it does not exist, has expired or
+     *         belongs to another user or tenant
+     */
+    async get(conversationId: string, user: AuthenticatedUser): Promise<Conversation> {
+        return (await this.load(conversationId, user)).conversation;
+    }
+
+    /**
+     * Deletes one of the caller's conversations.
+     *
+     * @throws NotFoundException as for get()
+     */
+    async delete(conversationId: string, user: AuthenticatedUser): Promise<{ conversation_id: string; deleted: boolean }> {
+        await this.load(conversationId, user);
+
+        await this.opensearchProvider.getClient().delete({
+            index: this.INDEX_NAME,
+            id: conversationId,
+            refresh: true,
+        });
+
+        this.logger.log({ msg: 'Conversation deleted', conversationId, userId: user.userId });
+        return { conversation_id: conversationId, deleted: true };
+    }
+
+    /**
+     * Asks the next question in a conversation and stores the turn.
+     *
+     * @returns The stored turn and the full insight
+     * @throws NotFoundException as for get()
+     * @throws ConflictException if the conversation is full, or another turn
+     *         was stored while this one was being answered
+     *
+     * @remarks
+     * A question rejected by the input guardrails fails the request and is
+     * not stored; a fallback answer is stored like any other.
+     */
+    async appendTurn(
+        conversationId: string,
+        request: Omit<AnalyzeRequest, 'conversation'>,
+        user: AuthenticatedUser,
+    ): Promise<ConversationTurnResult> {
+        const { conversation, seqNo, primaryTerm } = await this.load(conversationId, user);
+        if (conversation.turns.length >= MAX_TURNS) {
+            throw new ConflictException(`Conversation ${conversationId} has reached ${MAX_TURNS} turns; start a new one`);
+        }
+
+        const context = this.buildContext(conversation.turns);
+        const insight = await this.agentService.analyze({ ...request, conversation: context }, user);
+
+        const now = new Date();
+        const summary = this.redactionService.redact(insight.summary);
+        const turn: ConversationTurn = {
+            turn: conversation.turns.length + 1,
+            question: this.redactionService.redact(request.question),
+            summary,
+            confidence: insight.confidence,
+            mode: request.mode ?? 'retrieval',
+            cited_ids: findRecordIds(summary),
+            context_turns: context.turns,
+            created_at: now.toISOString(),
+        };
+        const updated: Conversation = {
+            ...conversation,
+            turns: [...conversation.turns, turn],
+            turn_count: turn.turn,
+            updated_at: now.toISOString(),
+            expires_at: this.expiresAt(now),
+        };
+
+        try {
+            await this.opensearchProvider.getClient().index({
+                index: this.INDEX_NAME,
+                id: conversationId,
+                body: updated,
+                if_seq_no: seqNo,
+                if_primary_term: primaryTerm,
+                refresh: true,
+            });
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 409) {
+                throw new ConflictException(`Conversation ${conversationId} was updated by another turn; retry`);
+            }
+            throw error;
+        }
+
+        this.logger.log({
+            msg: 'Conversation turn stored',
+            conversationId,
+            turn: turn.turn,
+            contextTurns: context.turns.length,
+        });
+
+        return { conversation_id: conversationId, turn, insight };
+    }
+
+    /**
+     * Deletes conversations past their expiry.
+     *
+     * @returns Conversations deleted
+     */
+    async purgeExpired(): Promise<number> {
+        await this.ensureIndex();
+
+        const response = await this.opensearchProvider.getClient().delete_by_query({
+            index: this.INDEX_NAME,
+            body: { query: { range: { expires_at: { lte: 'now' } } } },
+            refresh: true,
+        });
+
+        const deleted = response.body.deleted ?? 0;
+        if (deleted > 0) {
+            this.logger.log({ msg: 'Expired conversations purged', deleted });
+        }
+        return deleted;
+    }
+
+    /* ---- Helpers ---- */
+
+    /**
+     * Selects the most recent turns that pass the injection check and fit
+     * the history budget, and collects the record IDs they cited.
+     */
+    private buildContext(turns: ConversationTurn[]): ConversationContext {
+        const budget = Number(this.configService.get('AGENT_HISTORY_BUDGET_CHARS') ?? 2000);
+
+        const included: ConversationTurn[] = [];
+        const lines: string[] = [];
+        let used = 0;
+        for (const turn of [...turns].reverse()) {
+            if (!this.guardrails.checkPriorTurn(turn.question, turn.summary)) continue;
+
+            const line = `[turn ${turn.turn}] Q: ${turn.question}\nA: ${turn.summary}`;
+            // Older turns only make sense with the newer ones, so stop at the first that does not fit
+            if (used + line.length + 1 > budget) break;
+            included.push(turn);
+            lines.unshift(line);
+            used += line.length + 1;
+        }
+
+        const unique = (ids: string[]) => [...new Set(ids)];
+        return {
+            priorQuestions: turns.map((turn) => turn.question),
+            history: lines.join('\n'),
+            turns: included.map((turn) => turn.turn).reverse(),
+            carried: {
+                member_ids: unique(included.flatMap((turn) => turn.cited_ids.member_ids)),
+                location_ids: unique(included.flatMap((turn) => turn.cited_ids.location_ids)),
+            },
+        };
+    }
+
+    /**
+     * Reads a conversation with its version, enforcing ownership and expiry.
+     */
+    private async load(
+        conversationId: string,
+        user: AuthenticatedUser,
+    ): Promise<{ conversation: Conversation; seqNo: number; primaryTerm: number }> {
+        await this.ensureIndex();
+
+        let response;
+        try {
+            response = await this.opensearchProvider.getClient().get({
+                index: this.INDEX_NAME,
+                id: conversationId,
+            });
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) {
+                throw new NotFoundException(`Conversation ${conversationId} not found`);
+            }
+            throw error;
+        }
+
+        const conversation = response.body._source as Conversation;
+        // Someone else's conversation is reported exactly like a missing one
+        if (
+            conversation.user_id !== user.userId ||
+            conversation.tenant_id !== user.tenantId ||
+            Date.parse(conversation.expires_at) <= Date.now()
+        ) {
+            throw new NotFoundException(`Conversation ${conversationId} not found`);
+        }
+
+        return { conversation, seqNo: response.body._seq_no, primaryTerm: response.body._primary_term };
+    }
+
+    private expiresAt(from: Date): string {
+        const ttlHours = Number(this.configService.get('AGENT_CONVERSATION_TTL_HOURS') ?? 24);
+        return new Date(from.getTime() + ttlHours * 60 * 60 * 1000).toISOString();
+    }
+
+    private async ensureIndex(): Promise<void> {
+        if (this.indexReady) return;
+        await this.opensearchProvider.ensureIndex(this.INDEX_NAME, CONVERSATION_INDEX_MAPPINGS);
+        this.indexReady = true;
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Conversations Barrel Export
+ */
+
+export * from './conversation.interface';
+export * from './conversations.service';
+export * from './conversations.controller';
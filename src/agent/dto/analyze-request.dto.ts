@@ -2,8 +2,10 @@
  * @fileoverview Analyze Request DTO
  */
 
-import { IsString, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import { IsString, IsOptional, IsNumber, Min, Max, ValidateNested, IsIn } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PayoutEstimateRequestDto } from '../../locations';
 
 export class AnalyzeRequestDto {
     @ApiProperty({ example: 'Which members are at-risk and need follow-up?', description: 'Business question to analyze' })
@@ -15,11 +17,28 @@ export class AnalyzeRequestDto {
     @IsString()
     locationId?: string;
 
-    @ApiPropertyOptional({ example: 10, description: 'Max data points to analyze (1-500)' })
+    @ApiPropertyOptional({ example: 10, description: 'Max records per retrieval search (1-500; member searches return at most 100, location searches 10)' })
     @IsOptional()
     @IsNumber()
     @Min(1)
     @Max(500)
     limit?: number;
-}
 
+    @ApiPropertyOptional({
+        enum: ['retrieval', 'tools'],
+        default: 'retrieval',
+        description: 'retrieval: one LLM call over context retrieved for the question; tools: the LLM calls search tools over several steps and the response carries the tool trace',
+    })
+    @IsOptional()
+    @IsIn(['retrieval', 'tools'])
+    mode?: 'retrieval' | 'tools';
+
+    @ApiPropertyOptional({
+        type: PayoutEstimateRequestDto,
+        description: 'Member activity for a period; with locationId, the contract payout is computed and given to the analysis as evidence',
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => PayoutEstimateRequestDto)
+    payout?: PayoutEstimateRequestDto;
+}
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Create Conversation DTO
+ */
+
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateConversationDto {
+    @ApiPropertyOptional({ example: 'At-risk members, east region', description: 'Label shown when listing conversations' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    title?: string;
+}
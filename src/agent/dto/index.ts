@@ -3,3 +3,4 @@
  */
 
 export * from './analyze-request.dto';
+export * from './create-conversation.dto';
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Citation Verifier Tests
+ */
+
+import { CitationEvidence, CitationVerifier, collectCitationEvidence } from './citation-verifier';
+
+describe('CitationVerifier', () => {
+    const verifier = new CitationVerifier();
+
+    const evidence = (): CitationEvidence => collectCitationEvidence([
+        { location_id: 'GYM_101', name: 'Downtown', base_rate: 15.5, max_capacity: 200, latest_event_date: '2024-06-01' },
+        { member_id: 'mem-001', location_id: 'GYM_101', monthly_visits: 12.4, tags: ['at-risk'] },
+        { member_id: 'mem-002', location_id: 'GYM_101', monthly_visits: 3, status_notes: ['Missed 4 classes'] },
+        { total: 7 },
+    ]);
+
+    it('should verify citations whose claims match the cited records', () => {
+        const { summary, report } = verifier.verify({
+            summary: 'GYM_101 charges $15.50 per visit [GYM_101]. mem-001 visits about 12 times a month [mem-001].',
+            reasoning: 'mem-002 missed 4 classes [mem-002].',
+        }, evidence());
+
+        expect(report.verified).toBe(true);
+        expect(report.citations.map((c) => [c.id, c.field, c.status])).toEqual([
+            ['GYM_101', 'summary', 'verified'],
+            ['mem-001', 'summary', 'verified'],
+            ['mem-002', 'reasoning', 'verified'],
+        ]);
+        expect(summary).toContain('[GYM_101]');
+    });
+
+    it('should strip bracketed citations of records that were not in the context', () => {
+        const { summary, reasoning, report } = verifier.verify({
+            summary: 'Two members are at risk [mem-001, mem-999]. GYM_404 is closing [GYM_404].',
+            reasoning: 'Based on [GYM_404] and [mem-001].',
+        }, evidence());
+
+        expect(summary).toBe('Two members are at risk [mem-001]. GYM_404 is closing.');
+        expect(reasoning).toBe('Based on and [mem-001].');
+        expect(report.fabricated_ids).toEqual(['mem-999', 'GYM_404']);
+        expect(report.citations.filter((c) => c.status === 'fabricated').map((c) => c.id))
+            .toEqual(['mem-999', 'GYM_404', 'GYM_404']);
+        expect(report.verified).toBe(false);
+    });
+
+    it('should flag numbers the cited records do not support', () => {
+        const { report } = verifier.verify({
+            summary: 'GYM_101 is at 250 of 200 capacity since 2024-06-01 [GYM_101].',
+        }, evidence());
+
+        expect(report.citations).toEqual([expect.objectContaining({
+            id: 'GYM_101',
+            status: 'number_mismatch',
+            unsupported_numbers: ['250'],
+        })]);
+    });
+
+    it('should accept counts of the cited records and totals shown outside records', () => {
+        const { report } = verifier.verify({
+            summary: '2 members visit rarely [mem-001] [mem-002]. 7 members at GYM_101 are at risk [GYM_101].',
+        }, evidence());
+
+        expect(report.citations.every((c) => c.status === 'verified')).toBe(true);
+    });
+
+    it('should not check a number against records the claim does not cite', () => {
+        const { report } = verifier.verify({ summary: 'mem-002 has 200 visits in Q4 [mem-002].' }, evidence());
+
+        expect(report.citations[0]).toEqual(expect.objectContaining({ status: 'number_mismatch', unsupported_numbers: ['200'] }));
+    });
+
+    it('should report claims with numbers but no citation', () => {
+        const { report } = verifier.verify({
+            summary: 'Enrollment rose 40% this quarter. The requested information is otherwise not available.',
+        }, evidence());
+
+        expect(report.citations).toEqual([]);
+        expect(report.uncited_claims).toEqual(['Enrollment rose 40% this quarter.']);
+        expect(report.verified).toBe(false);
+    });
+
+    it('should collect records and loose numbers from tool results and payout estimates', () => {
+        const collected = collectCitationEvidence([
+            { total: 7, members: [{ member_id: 'MEM-001', tags: ['at-risk'] }] },
+            { total: 1, groups: [{ value: 'at-risk', count: 7 }] },
+            { location_id: 'gym_101', total: 1250, line_items: [{ quantity: 10, unit_rate: 25, amount: 250 }] },
+        ]);
+
+        expect(collected.records.map((r) => [r.vertical, r.id])).toEqual([['members', 'mem-001'], ['locations', 'GYM_101']]);
+        expect(collected.aggregates).toEqual([7, 1, 7]);
+    });
+});
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Citation Verifier
+ *
+ * Checks the record citations in an LLM answer against the records that
+ * were actually in its context, without an LLM call. Runs before the
+ * LLM-based GroundingService check.
+ *
+ * @remarks
+ * Every member ID (`mem-001`) and location ID (`GYM_101`) in the summary
+ * and reasoning is a citation, bracketed or not. Each sentence is a claim;
+ * a citation is:
+ * - fabricated: no record with that ID was in the context. Bracketed
+ *   fabricated citations are stripped from the answer; IDs in running text
+ *   are left in place and only reported
+ * - number_mismatch: a number in the claim is not supported (see below)
+ * - verified: otherwise
+ *
+ * A number is supported if it matches, at the precision written, a value
+ * in one of the claim's cited records (numbers inside text fields and
+ * dates included), a count or total shown outside any record, or the
+ * number of records the claim cites. Sentences with numbers but no
+ * citation are reported as uncited claims.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { findRecordIds } from '../retrieval/retrieval-planner';
+import { RetrievalVertical } from '../retrieval/retrieval.interface';
+
+const citationCounter = new Counter({
+    name: 'agent_citations_total',
+    help: 'Citations in analysis answers by verification status',
+    labelNames: ['status'],
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * What the LLM was shown, as the verifier needs it.
+ */
+export interface CitationEvidence {
+    /** Records by ID; a record may appear more than once (e.g. location and payout) */
+    records: Array<{ vertical: RetrievalVertical; id: string; document: unknown }>;
+
+    /** Counts and totals shown outside any record */
+    aggregates: number[];
+}
+
+/**
+ * Verification status of one citation.
+ */
+export type CitationStatus = 'verified' | 'number_mismatch' | 'fabricated';
+
+/**
+ * One cited ID in one claim.
+ */
+export interface CitationCheck {
+    id: string;
+    vertical: RetrievalVertical;
+
+    /** Answer field the claim is in */
+    field: 'summary' | 'reasoning';
+
+    /** Sentence containing the citation, as the LLM wrote it */
+    claim: string;
+
+    status: CitationStatus;
+
+    /** Numbers in the claim that the cited records do not support */
+    unsupported_numbers: string[];
+}
+
+/**
+ * Per-citation results, returned with the insight.
+ */
+export interface CitationReport {
+    /** True if every citation is verified and no claim with numbers lacks a citation */
+    verified: boolean;
+
+    citations: CitationCheck[];
+
+    /** IDs cited but not in the context; their bracketed citations were stripped */
+    fabricated_ids: string[];
+
+    /** Sentences stating numbers without citing a record */
+    uncited_claims: string[];
+}
+
+/**
+ * Answer text with fabricated citations stripped, and the report.
+ */
+export interface CitationVerification {
+    summary: string;
+    reasoning?: string;
+    report: CitationReport;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Helpers                                        */
+/* -------------------------------------------------------------------------- */
+
+const RECORD_ID_PATTERN = /\b(?:mem-\d+|gym_\d+)\b/gi;
+
+/** Decimal numbers, with optional thousands separators; not digits inside words such as `Q4` */
+const NUMBER_PATTERN = /(?<![A-Za-z_\d.,])\d+(?:,\d{3})*(?:\.\d+)?/g;
+
+/** Sentence ends: punctuation followed by whitespace */
+const SENTENCE_BREAK = /(?<=[.!?])\s+/;
+
+/** Bracketed citations, e.g. `[GYM_101]` or `[mem-001, mem-002]`, with the space before them */
+const CITATION_BRACKET = /(\s*)\[([^\]]*)\]/g;
+
+/**
+ * Collects the records (objects with a member_id or location_id) and the
+ * loose numbers (counts, totals) in evidence such as retrieved documents,
+ * tool results or a payout estimate.
+ */
+export function collectCitationEvidence(
+    value: unknown,
+    into: CitationEvidence = { records: [], aggregates: [] },
+): CitationEvidence {
+    if (typeof value === 'number') {
+        into.aggregates.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach((item) => collectCitationEvidence(item, into));
+    } else if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        if (typeof record.member_id === 'string') {
+            into.records.push({ vertical: 'members', id: record.member_id.toLowerCase(), document: record });
+        } else if (typeof record.location_id === 'string') {
+            into.records.push({ vertical: 'locations', id: record.location_id.toUpperCase(), document: record });
+        } else {
+            Object.values(record).forEach((item) => collectCitationEvidence(item, into));
+        }
+    }
+    return into;
+}
+
+/**
+ * Every number in a record: numeric fields and numbers inside text fields.
+ */
+function numbersIn(value: unknown): number[] {
+    if (typeof value === 'number') return [value];
+    if (typeof value === 'string') return parseNumbers(value.replace(RECORD_ID_PATTERN, ' ')).map((n) => n.value);
+    if (Array.isArray(value)) return value.flatMap(numbersIn);
+    if (value && typeof value === 'object') return Object.values(value).flatMap(numbersIn);
+    return [];
+}
+
+function parseNumbers(text: string): Array<{ text: string; value: number; decimals: number }> {
+    return (text.match(NUMBER_PATTERN) ?? []).map((token) => ({
+        text: token,
+        value: Number(token.replace(/,/g, '')),
+        decimals: token.split('.')[1]?.length ?? 0,
+    }));
+}
+
+/**
+ * Normalizes a lone record ID (`MEM-001` → `mem-001`), or null if the text is not one.
+ */
+function asRecordId(text: string): string | null {
+    const trimmed = text.trim();
+    if (/^mem-\d+$/i.test(trimmed)) return trimmed.toLowerCase();
+    if (/^gym_\d+$/i.test(trimmed)) return trimmed.toUpperCase();
+    return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Verifier Implementation                        */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class CitationVerifier {
+    private readonly logger = new Logger(CitationVerifier.name);
+
+    /**
+     * Verifies an answer's citations against its evidence.
+     *
+     * @param answer - LLM summary and reasoning
+     * @param evidence - Records and aggregates the LLM was shown
+     */
+    verify(answer: { summary: string; reasoning?: string }, evidence: CitationEvidence): CitationVerification {
+        const records = new Map<string, number[]>();
+        for (const record of evidence.records) {
+            records.set(record.id, [...(records.get(record.id) ?? []), ...numbersIn(record.document)]);
+        }
+
+        const citations: CitationCheck[] = [];
+        const uncited: string[] = [];
+        const fields: Array<['summary' | 'reasoning', string]> = [['summary', answer.summary]];
+        if (answer.reasoning) fields.push(['reasoning', answer.reasoning]);
+
+        for (const [field, text] of fields) {
+            for (const claim of text.split(SENTENCE_BREAK).filter((sentence) => sentence.trim())) {
+                const cited = findRecordIds(claim);
+                const ids = [...cited.member_ids, ...cited.location_ids];
+                const numbers = parseNumbers(claim.replace(RECORD_ID_PATTERN, ' '));
+
+                if (ids.length === 0) {
+                    if (numbers.length > 0) uncited.push(claim);
+                    continue;
+                }
+
+                const supported = [
+                    ...ids.flatMap((id) => records.get(id) ?? []),
+                    ...evidence.aggregates,
+                    ids.length,
+                ];
+                const unsupported = numbers
+                    .filter((n) => !supported.some((value) => Number(value.toFixed(n.decimals)) === n.value))
+                    .map((n) => n.text);
+
+                for (const id of ids) {
+                    const status: CitationStatus = !records.has(id)
+                        ? 'fabricated'
+                        : unsupported.length > 0 ? 'number_mismatch' : 'verified';
+                    citations.push({
+                        id,
+                        vertical: cited.member_ids.includes(id) ? 'members' : 'locations',
+                        field,
+                        claim,
+                        status,
+                        unsupported_numbers: status === 'fabricated' ? [] : unsupported,
+                    });
+                }
+            }
+        }
+
+        citations.forEach((citation) => citationCounter.inc({ status: citation.status }));
+        const fabricated = [...new Set(citations.filter((c) => c.status === 'fabricated').map((c) => c.id))];
+        if (fabricated.length > 0) {
+            this.logger.warn({ msg: 'Fabricated citations stripped from answer', ids: fabricated });
+        }
+
+        return {
+            summary: this.strip(answer.summary, fabricated),
+            ...(answer.reasoning !== undefined && { reasoning: this.strip(answer.reasoning, fabricated) }),
+            report: {
+                verified: citations.every((c) => c.status === 'verified') && uncited.length === 0,
+                citations,
+                fabricated_ids: fabricated,
+                uncited_claims: uncited,
+            },
+        };
+    }
+
+    /**
+     * Removes fabricated IDs from bracketed citations, and brackets left empty.
+     */
+    private strip(text: string, fabricated: string[]): string {
+        if (fabricated.length === 0) return text;
+
+        return text.replace(CITATION_BRACKET, (match, space: string, inner: string) => {
+            const parts = inner.split(',');
+            const kept = parts.filter((part) => {
+                const id = asRecordId(part);
+                return !id || !fabricated.includes(id);
+            });
+            if (kept.length === parts.length) return match;
+            if (kept.length === 0) return '';
+            return `${space}[${kept.map((part) => part.trim()).join(', ')}]`;
+        });
+    }
+}
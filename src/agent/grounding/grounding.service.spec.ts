@@ -8,6 +8,8 @@ describe('GroundingService', () => {
     beforeEach(() => {
         mockLLMProvider = {
             analyze: jest.fn(),
+            analyzeStream: jest.fn(),
+            chat: jest.fn(),
             getName: jest.fn().mockReturnValue('mock'),
         };
 
@@ -3,3 +3,4 @@
  */
 
 export * from './grounding.service';
+export * from './citation-verifier';
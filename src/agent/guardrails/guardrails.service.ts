@@ -8,8 +8,9 @@ import { Injectable, BadRequestException, Logger } from '@nestjs/common';
 import { InputValidator } from './input-validator';
 import { PromptInjectionDetector } from './prompt-injection';
 import { PIIScanner } from './pii-scanner';
+import { PIIStreamFilter } from './pii-stream-filter';
 import { OutputValidator } from './output-validator';
-import { RateLimiter } from './rate-limiter';
+import { RateLimiter } from '../../shared/rate-limit';
 import { LLMAnalysisResult } from '../interfaces';
 
 /**
@@ -30,6 +31,14 @@ export interface PostProcessResult {
     error?: string;
 }
 
+/**
+ * Tool call screening result.
+ */
+export interface ToolCallCheckResult {
+    allowed: boolean;
+    error?: string;
+}
+
 @Injectable()
 export class GuardrailsService {
     private readonly logger = new Logger(GuardrailsService.name);
@@ -44,10 +53,18 @@ export class GuardrailsService {
 
     /**
      * Pre-processes request before sending to LLM.
+     *
+     * @param priorQuestions - Earlier questions of the conversation, if any
+     *
+     * @remarks
+     * In a conversation the questions are also screened as one text, so an
+     * injection split across turns ("ignore all" … "previous instructions")
+     * is blocked on the turn that completes it.
      */
     preProcess(
         question: string,
         userId: string,
+        priorQuestions: string[] = [],
     ): PreProcessResult {
         try {
             // 1. Rate limiting
@@ -67,6 +84,13 @@ export class GuardrailsService {
                 return { allowed: false, error: `Blocked: ${injectionResult.reason}` };
             }
 
+            if (priorQuestions.length > 0) {
+                const conversationResult = this.injectionDetector.detect([...priorQuestions, sanitized].join(' '));
+                if (conversationResult.blocked) {
+                    return { allowed: false, error: `Blocked: ${conversationResult.reason} (across conversation turns)` };
+                }
+            }
+
             // 4. PII scan (block if found in question)
             const piiResult = this.piiScanner.scan(sanitized);
             if (piiResult.containsPII) {
@@ -126,6 +150,59 @@ export class GuardrailsService {
         }
     }
 
+    /**
+     * Screens a tool call's arguments before the tool runs.
+     *
+     * @remarks
+     * Arguments are written by the LLM after it has read untrusted data, so
+     * every string in them gets the injection and PII checks the question
+     * gets. Rate limiting is not applied: the request was already counted.
+     */
+    checkToolCall(tool: string, args: Record<string, unknown>): ToolCallCheckResult {
+        for (const value of this.collectStrings(args)) {
+            const injectionResult = this.injectionDetector.detect(value);
+            if (injectionResult.blocked) {
+                return { allowed: false, error: `Blocked: ${injectionResult.reason}` };
+            }
+
+            const piiResult = this.piiScanner.scan(value);
+            if (piiResult.containsPII) {
+                this.logger.warn({ msg: 'PII in tool arguments', tool, detectedTypes: piiResult.detectedTypes });
+                return {
+                    allowed: false,
+                    error: `Tool arguments contain sensitive data (${piiResult.detectedTypes.join(', ')})`,
+                };
+            }
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * Screens a stored conversation turn before it is replayed into the prompt.
+     *
+     * @remarks
+     * Earlier answers were written by the LLM after it read untrusted data,
+     * so they get the injection check again; a turn that fails it is left
+     * out of the history.
+     */
+    checkPriorTurn(question: string, summary: string): boolean {
+        const injectionResult = this.injectionDetector.detect(`${question}\n${summary}`);
+        if (injectionResult.blocked) {
+            this.logger.warn({ msg: 'Prior turn left out of conversation history', reason: injectionResult.reason });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Creates a filter that redacts PII from streamed LLM text before it
+     * reaches the client.
+     */
+    createStreamFilter(): PIIStreamFilter {
+        return new PIIStreamFilter(this.piiScanner);
+    }
+
     /**
      * Handles errors and returns safe fallback.
      */
@@ -140,4 +217,11 @@ export class GuardrailsService {
 
         return this.outputValidator.getFallbackResponse();
     }
+
+    private collectStrings(value: unknown): string[] {
+        if (typeof value === 'string') return [value];
+        if (Array.isArray(value)) return value.flatMap((item) => this.collectStrings(item));
+        if (value && typeof value === 'object') return Object.values(value).flatMap((item) => this.collectStrings(item));
+        return [];
+    }
 }
@@ -5,6 +5,6 @@
 export * from './input-validator';
 export * from './prompt-injection';
 export * from './pii-scanner';
+export * from './pii-stream-filter';
 export * from './output-validator';
-export * from './rate-limiter';
 export * from './guardrails.service';
@@ -78,6 +78,15 @@ export class PIIScanner {
         };
     }
 
+    /**
+     * Returns the [start, end) offsets of every PII match in text.
+     */
+    findSpans(text: string): Array<[number, number]> {
+        return PII_PATTERNS.flatMap(({ pattern }) =>
+            [...text.matchAll(new RegExp(pattern))].map((m): [number, number] => [m.index!, m.index! + m[0].length]),
+        );
+    }
+
     /**
      * Throws if PII is detected in question.
      */
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview PII Stream Filter Tests
+ */
+
+import { PIIScanner } from './pii-scanner';
+import { PIIStreamFilter } from './pii-stream-filter';
+
+describe('PIIStreamFilter', () => {
+    const stream = (chunks: string[]) => {
+        const filter = new PIIStreamFilter(new PIIScanner());
+        const released = chunks.map((chunk) => filter.push(chunk));
+        return { released, text: released.join('') + filter.flush() };
+    };
+
+    it('should pass clean text through unchanged', () => {
+        const text = 'GYM_101 enrolled 12 members in November, up from 9 in October [GYM_101].';
+
+        expect(stream(text.match(/.{1,5}/g)!).text).toBe(text);
+    });
+
+    it('should redact an email split across chunks', () => {
+        const { text } = stream(['Contact john.d', 'oe@exam', 'ple.com for the roster of GYM_101 members today.']);
+
+        expect(text).toBe('Contact [EMAIL REDACTED] for the roster of GYM_101 members today.');
+    });
+
+    it('should redact a phone number with spaces split across chunks', () => {
+        const { text } = stream(['Coordinator line is 555 ', '123 ', '4567 and the gym opens at six every weekday morning.']);
+
+        expect(text).toContain('[PHONE REDACTED]');
+        expect(text).not.toContain('4567');
+    });
+
+    it('should never release part of a match', () => {
+        const { released } = stream(['Reach pat.lee@', 'example.com', ' about the at-risk cohort at GYM_102 this week please.']);
+
+        released.forEach((chunk) => expect(chunk).not.toMatch(/pat\.lee|example\.com/));
+    });
+
+    it('should hold back the tail until flushed', () => {
+        const filter = new PIIStreamFilter(new PIIScanner());
+
+        expect(filter.push('short')).toBe('');
+        expect(filter.flush()).toBe('short');
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview PII Stream Filter
+ *
+ * Redacts PII from text that arrives in chunks, such as streamed LLM
+ * tokens, before it is forwarded to the client.
+ *
+ * @remarks
+ * A chunk boundary can split an email or a phone number, and neither half
+ * matches a PII pattern on its own. The filter therefore holds back the
+ * last HOLD_CHARS characters, only releases text up to a whitespace
+ * boundary, and never cuts through a match found in the buffered text.
+ * Released text is scanned with PIIScanner. Call flush() at the end of
+ * the stream to release the rest.
+ */
+
+import { PIIScanner } from './pii-scanner';
+
+/**
+ * Longest tail that may still grow into a PII match; covers the longest
+ * pattern containing spaces (member ID with label, ~25 chars).
+ */
+const HOLD_CHARS = 32;
+
+export class PIIStreamFilter {
+    private pending = '';
+
+    constructor(private readonly scanner: PIIScanner) { }
+
+    /**
+     * Adds a chunk and returns the text that is safe to forward, possibly empty.
+     */
+    push(chunk: string): string {
+        this.pending += chunk;
+
+        let cut = this.lastWhitespaceBefore(this.pending.length - HOLD_CHARS);
+        if (cut <= 0) return '';
+
+        // Move the cut before any match it would split
+        let moved = true;
+        while (moved) {
+            moved = false;
+            for (const [start, end] of this.scanner.findSpans(this.pending)) {
+                if (start < cut && cut < end) {
+                    cut = start;
+                    moved = true;
+                }
+            }
+        }
+        if (cut <= 0) return '';
+
+        const released = this.pending.slice(0, cut);
+        this.pending = this.pending.slice(cut);
+        return this.scanner.scan(released).redacted;
+    }
+
+    /**
+     * Returns the remaining text, redacted.
+     */
+    flush(): string {
+        const rest = this.pending;
+        this.pending = '';
+        return rest ? this.scanner.scan(rest).redacted : '';
+    }
+
+    /**
+     * Offset just after the last whitespace at or before `limit`, or 0.
+     */
+    private lastWhitespaceBefore(limit: number): number {
+        for (let i = Math.min(limit, this.pending.length - 1); i >= 0; i--) {
+            if (/\s/.test(this.pending[i])) return i + 1;
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Analysis Event Interface
+ *
+ * Pipeline stage events emitted while an analysis streams.
+ */
+
+import { CitationReport } from '../grounding/citation-verifier';
+import { GroundingResult } from '../grounding/grounding.service';
+import { RetrievalReport } from '../retrieval/retrieval.interface';
+import { ToolTraceEntry } from '../tools/agent-tool.interface';
+import { Insight } from './insight.interface';
+
+/**
+ * Event emitted by a streaming analysis, in pipeline order.
+ * - guardrails: the question passed input guardrails
+ * - retrieval: context retrieved (retrieval mode)
+ * - tools: tool loop finished (tools mode)
+ * - token: PII-filtered chunk of raw LLM output (retrieval mode); provisional,
+ *   as it has not yet been checked for citations or output guardrails
+ * - citations: the answer's citations checked against the context
+ * - grounding: grounding verdict on the answer
+ * - revised: the checked answer, when it differs from what the tokens said
+ * - insight: the final, post-processed answer; authoritative over tokens
+ * - error: the analysis could not start or the stream failed
+ */
+export type AnalysisEvent =
+    | { type: 'guardrails'; data: { allowed: true } }
+    | { type: 'retrieval'; data: RetrievalReport }
+    | { type: 'tools'; data: { trace: ToolTraceEntry[] } }
+    | { type: 'token'; data: { text: string; provisional: true } }
+    | { type: 'citations'; data: CitationReport }
+    | { type: 'grounding'; data: GroundingResult }
+    | { type: 'revised'; data: { summary: string; reasoning?: string } }
+    | { type: 'insight'; data: Insight }
+    | { type: 'error'; data: { message: string } };
+
+/**
+ * Receives analysis events as they happen.
+ */
+export type AnalysisEventSink = (event: AnalysisEvent) => void;
@@ -4,3 +4,4 @@
 
 export * from './llm-provider.interface';
 export * from './insight.interface';
+export * from './analysis-event.interface';
@@ -4,6 +4,11 @@
  * Result structure for agent analysis.
  */
 
+import { PayoutEstimate } from '../../locations';
+import { CitationReport } from '../grounding/citation-verifier';
+import { RetrievalReport } from '../retrieval/retrieval.interface';
+import { ToolTraceEntry } from '../tools/agent-tool.interface';
+
 /**
  * Insight from agent analysis.
  */
@@ -18,4 +23,16 @@ export interface Insight {
     };
     generatedAt: string;
     provider: string;
+
+    /** Contract payout computed for the analysis, when one was requested */
+    payoutEstimate?: PayoutEstimate;
+
+    /** How the context was retrieved: plan, step hits and records included */
+    retrieval?: RetrievalReport;
+
+    /** Tool calls made in tools mode, in order, including rejected ones */
+    toolTrace?: ToolTraceEntry[];
+
+    /** Each cited record ID checked against the records in the context */
+    citations?: CitationReport;
 }
@@ -14,6 +14,66 @@ export interface LLMAnalysisResult {
     reasoning?: string;
 }
 
+/**
+ * Tool the LLM may call, described by a JSON Schema for its arguments.
+ */
+export interface LLMToolDefinition {
+    name: string;
+    description: string;
+
+    /** JSON Schema (object) for the arguments */
+    parameters: Record<string, unknown>;
+}
+
+/**
+ * Tool call requested by the LLM.
+ */
+export interface LLMToolCall {
+    /** Provider-assigned ID that the result must echo */
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+/**
+ * Result of a tool call, sent back to the LLM.
+ */
+export interface LLMToolResult {
+    callId: string;
+    name: string;
+
+    /** JSON-encoded result or error */
+    content: string;
+}
+
+/**
+ * Turn in a tool-calling conversation.
+ */
+export type LLMMessage =
+    | { role: 'user'; content: string }
+    | { role: 'assistant'; content?: string; toolCalls?: LLMToolCall[] }
+    | { role: 'tool'; results: LLMToolResult[] };
+
+/**
+ * Request for one tool-calling turn.
+ */
+export interface LLMChatRequest {
+    system: string;
+    messages: LLMMessage[];
+    tools: LLMToolDefinition[];
+
+    /** 'none' makes the model answer instead of calling tools. Defaults to 'auto'. */
+    toolChoice?: 'auto' | 'none';
+}
+
+/**
+ * Model reply: tool calls to run, or final text.
+ */
+export interface LLMChatResponse {
+    text: string;
+    toolCalls: LLMToolCall[];
+}
+
 /**
  * LLM provider interface for analysis operations.
  */
@@ -28,6 +88,32 @@ export interface LLMProvider {
      */
     analyze(question: string, context: string, systemPrompt?: string): Promise<LLMAnalysisResult>;
 
+    /**
+     * Analyzes like analyze(), passing the response text to onText as it is
+     * generated.
+     *
+     * @remarks
+     * A callback rather than an async iterator, so the whole call, stream
+     * included, runs as one unit under the circuit breaker and its timeout.
+     *
+     * @param onText - Receives each chunk of raw response text
+     * @returns Analysis result parsed from the complete response
+     */
+    analyzeStream(
+        question: string,
+        context: string,
+        systemPrompt: string | undefined,
+        onText: (text: string) => void,
+    ): Promise<LLMAnalysisResult>;
+
+    /**
+     * Runs one turn of a tool-calling conversation.
+     *
+     * @param request - System prompt, conversation so far and available tools
+     * @returns Requested tool calls, or the final text when there are none
+     */
+    chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+
     /**
      * Returns the provider name for logging/metrics.
      */
@@ -9,6 +9,9 @@
  * - Traffic stays in VPC via Bedrock endpoint
  * - All context must be redacted before calling this provider
  * - Inference data not used for model training (AWS policy)
+ *
+ * Tool calling uses the Anthropic Messages tool_use / tool_result blocks;
+ * streaming reads the text deltas of InvokeModelWithResponseStream.
  */
 
 import { Injectable, Logger } from '@nestjs/common';
@@ -16,8 +19,23 @@ import { ConfigService } from '@nestjs/config';
 import {
     BedrockRuntimeClient,
     InvokeModelCommand,
+    InvokeModelWithResponseStreamCommand,
 } from '@aws-sdk/client-bedrock-runtime';
-import { LLMProvider, LLMAnalysisResult } from '../interfaces';
+import {
+    LLMProvider,
+    LLMAnalysisResult,
+    LLMChatRequest,
+    LLMChatResponse,
+    LLMMessage,
+} from '../interfaces';
+import { parseAnalysisResult } from './response-parser';
+
+/**
+ * Content block of an Anthropic Messages response.
+ */
+type ContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
 
 @Injectable()
 export class BedrockProvider implements LLMProvider {
@@ -38,25 +56,74 @@ export class BedrockProvider implements LLMProvider {
     }
 
     async analyze(question: string, context: string, systemPrompt?: string): Promise<LLMAnalysisResult> {
-        const prompt = this.buildPrompt(question, context, !!systemPrompt);
+        try {
+            const command = new InvokeModelCommand({
+                modelId: this.modelId,
+                contentType: 'application/json',
+                accept: 'application/json',
+                body: JSON.stringify(this.buildBody(question, context, systemPrompt)),
+            });
+
+            const response = await this.client.send(command);
+            const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+            const text = responseBody.content?.[0]?.text || '';
 
+            return parseAnalysisResult(text, this.logger);
+        } catch (error) {
+            this.logger.error({ msg: 'Bedrock API error', error, modelId: this.modelId });
+            throw error;
+        }
+    }
+
+    async analyzeStream(
+        question: string,
+        context: string,
+        systemPrompt: string | undefined,
+        onText: (text: string) => void,
+    ): Promise<LLMAnalysisResult> {
         try {
-            const body: any = {
+            const command = new InvokeModelWithResponseStreamCommand({
+                modelId: this.modelId,
+                contentType: 'application/json',
+                accept: 'application/json',
+                body: JSON.stringify(this.buildBody(question, context, systemPrompt)),
+            });
+
+            const response = await this.client.send(command);
+            const decoder = new TextDecoder();
+            let text = '';
+            for await (const event of response.body ?? []) {
+                if (!event.chunk?.bytes) continue;
+
+                const payload = JSON.parse(decoder.decode(event.chunk.bytes));
+                if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+                    text += payload.delta.text;
+                    onText(payload.delta.text);
+                }
+            }
+
+            return parseAnalysisResult(text, this.logger);
+        } catch (error) {
+            this.logger.error({ msg: 'Bedrock API error', error, modelId: this.modelId });
+            throw error;
+        }
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        try {
+            const body = {
                 anthropic_version: 'bedrock-2023-05-31',
                 max_tokens: 1024,
-                messages: [
-                    {
-                        role: 'user',
-                        content: prompt,
-                    },
-                ],
+                system: request.system,
+                messages: request.messages.map((m) => this.toMessage(m)),
+                tools: request.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters,
+                })),
+                tool_choice: { type: request.toolChoice ?? 'auto' },
             };
 
-            // If system prompt is provided, add it to the body
-            if (systemPrompt) {
-                body.system = systemPrompt;
-            }
-
             const command = new InvokeModelCommand({
                 modelId: this.modelId,
                 contentType: 'application/json',
@@ -66,15 +133,71 @@ export class BedrockProvider implements LLMProvider {
 
             const response = await this.client.send(command);
             const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-            const text = responseBody.content?.[0]?.text || '';
-
-            return this.parseResponse(text);
+            const blocks: ContentBlock[] = responseBody.content ?? [];
+
+            return {
+                text: blocks
+                    .flatMap((block) => (block.type === 'text' ? [block.text] : []))
+                    .join(''),
+                toolCalls: blocks.flatMap((block) => (block.type === 'tool_use'
+                    ? [{ id: block.id, name: block.name, arguments: block.input }]
+                    : [])),
+            };
         } catch (error) {
             this.logger.error({ msg: 'Bedrock API error', error, modelId: this.modelId });
             throw error;
         }
     }
 
+    private toMessage(message: LLMMessage): { role: 'user' | 'assistant'; content: unknown } {
+        switch (message.role) {
+            case 'user':
+                return { role: 'user', content: message.content };
+            case 'assistant':
+                return {
+                    role: 'assistant',
+                    content: [
+                        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+                        ...(message.toolCalls ?? []).map((call) => ({
+                            type: 'tool_use',
+                            id: call.id,
+                            name: call.name,
+                            input: call.arguments,
+                        })),
+                    ],
+                };
+            case 'tool':
+                return {
+                    role: 'user',
+                    content: message.results.map((result) => ({
+                        type: 'tool_result',
+                        tool_use_id: result.callId,
+                        content: result.content,
+                    })),
+                };
+        }
+    }
+
+    private buildBody(question: string, context: string, systemPrompt?: string): Record<string, unknown> {
+        const body: Record<string, unknown> = {
+            anthropic_version: 'bedrock-2023-05-31',
+            max_tokens: 1024,
+            messages: [
+                {
+                    role: 'user',
+                    content: this.buildPrompt(question, context, !!systemPrompt),
+                },
+            ],
+        };
+
+        // If system prompt is provided, add it to the body
+        if (systemPrompt) {
+            body.system = systemPrompt;
+        }
+
+        return body;
+    }
+
     private buildPrompt(question: string, context: string, hasSystemPrompt: boolean): string {
         if (hasSystemPrompt) {
             // Instruction-anchored mode: system prompt handles rules, user prompt only context + question
@@ -112,20 +235,4 @@ IMPORTANT:
 - If data is insufficient, set confidence to "low"
 - Focus on actionable insights`;
     }
-
-    private parseResponse(response: string): LLMAnalysisResult {
-        try {
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                return JSON.parse(jsonMatch[0]);
-            }
-        } catch (e) {
-            this.logger.warn({ msg: 'Failed to parse JSON response, using raw text', error: e });
-        }
-
-        return {
-            summary: response,
-            confidence: 'medium',
-        };
-    }
 }
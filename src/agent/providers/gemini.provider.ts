@@ -2,6 +2,8 @@
  * @fileoverview Gemini LLM Provider
  *
  * Local development provider using Google Gemini API.
+ * Tool calling uses Gemini function declarations; Gemini does not assign
+ * call IDs, so calls are numbered within each reply.
  *
  * @remarks
  * Security:
@@ -11,8 +13,20 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { LLMProvider, LLMAnalysisResult } from '../interfaces';
+import {
+    Content,
+    FunctionCallingMode,
+    FunctionDeclarationSchema,
+    GoogleGenerativeAI,
+} from '@google/generative-ai';
+import {
+    LLMProvider,
+    LLMAnalysisResult,
+    LLMChatRequest,
+    LLMChatResponse,
+    LLMMessage,
+} from '../interfaces';
+import { parseAnalysisResult } from './response-parser';
 
 @Injectable()
 export class GeminiProvider implements LLMProvider {
@@ -39,31 +53,117 @@ export class GeminiProvider implements LLMProvider {
     }
 
     async analyze(question: string, context: string, systemPrompt?: string): Promise<LLMAnalysisResult> {
-        let activeModel = this.model;
+        const prompt = this.buildPrompt(question, context, !!systemPrompt);
 
-        // If a system prompt is provided, re-get the model with system instructions
-        // to ensure strict adherence and separate instruction from data.
-        if (systemPrompt) {
-            const genAI = new GoogleGenerativeAI(this.config.get<string>('GEMINI_API_KEY') || 'MISSING_KEY');
-            activeModel = genAI.getGenerativeModel({
-                model: 'gemini-2.5-flash',
-                systemInstruction: systemPrompt,
-            });
+        try {
+            const result = await this.modelFor(systemPrompt).generateContent(prompt);
+            const response = result.response.text();
+
+            return parseAnalysisResult(response, this.logger);
+        } catch (error) {
+            this.logger.error({ msg: 'Gemini API error', error });
+            throw error;
         }
+    }
 
+    async analyzeStream(
+        question: string,
+        context: string,
+        systemPrompt: string | undefined,
+        onText: (text: string) => void,
+    ): Promise<LLMAnalysisResult> {
         const prompt = this.buildPrompt(question, context, !!systemPrompt);
 
         try {
-            const result = await activeModel.generateContent(prompt);
-            const response = result.response.text();
+            const result = await this.modelFor(systemPrompt).generateContentStream(prompt);
+            let response = '';
+            for await (const chunk of result.stream) {
+                const text = chunk.text();
+                if (!text) continue;
+                response += text;
+                onText(text);
+            }
+
+            return parseAnalysisResult(response, this.logger);
+        } catch (error) {
+            this.logger.error({ msg: 'Gemini API error', error });
+            throw error;
+        }
+    }
+
+    private modelFor(systemPrompt?: string) {
+        if (!systemPrompt) return this.model;
 
-            return this.parseResponse(response);
+        // If a system prompt is provided, re-get the model with system instructions
+        // to ensure strict adherence and separate instruction from data.
+        const genAI = new GoogleGenerativeAI(this.config.get<string>('GEMINI_API_KEY') || 'MISSING_KEY');
+        return genAI.getGenerativeModel({
+            model: 'gemini-2.5-flash',
+            systemInstruction: systemPrompt,
+        });
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        const genAI = new GoogleGenerativeAI(this.config.get<string>('GEMINI_API_KEY') || 'MISSING_KEY');
+        const model = genAI.getGenerativeModel({
+            model: 'gemini-2.5-flash',
+            systemInstruction: request.system,
+            tools: [{
+                functionDeclarations: request.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+                })),
+            }],
+            toolConfig: {
+                functionCallingConfig: {
+                    mode: request.toolChoice === 'none' ? FunctionCallingMode.NONE : FunctionCallingMode.AUTO,
+                },
+            },
+        });
+
+        try {
+            const result = await model.generateContent({ contents: request.messages.map((m) => this.toContent(m)) });
+            const calls = result.response.functionCalls() ?? [];
+
+            return {
+                text: calls.length > 0 ? '' : result.response.text(),
+                toolCalls: calls.map((call, i) => ({
+                    id: `${call.name}-${i}`,
+                    name: call.name,
+                    arguments: (call.args ?? {}) as Record<string, unknown>,
+                })),
+            };
         } catch (error) {
             this.logger.error({ msg: 'Gemini API error', error });
             throw error;
         }
     }
 
+    private toContent(message: LLMMessage): Content {
+        switch (message.role) {
+            case 'user':
+                return { role: 'user', parts: [{ text: message.content }] };
+            case 'assistant':
+                return {
+                    role: 'model',
+                    parts: [
+                        ...(message.content ? [{ text: message.content }] : []),
+                        ...(message.toolCalls ?? []).map((call) => ({
+                            functionCall: { name: call.name, args: call.arguments },
+                        })),
+                    ],
+                };
+            case 'tool':
+                return {
+                    role: 'function',
+                    parts: message.results.map((result) => ({
+                        functionResponse: { name: result.name, response: { content: result.content } },
+                    })),
+                };
+        }
+    }
+
     private buildPrompt(question: string, context: string, hasSystemPrompt: boolean): string {
         if (hasSystemPrompt) {
             // When system prompt is used, the prompt only contains user data/question
@@ -93,21 +193,4 @@ IMPORTANT:
 - If data is insufficient, set confidence to "low"
 - Focus on actionable insights`;
     }
-
-    private parseResponse(response: string): LLMAnalysisResult {
-        try {
-            // Extract JSON from response (may have markdown code blocks)
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                return JSON.parse(jsonMatch[0]);
-            }
-        } catch (e) {
-            this.logger.warn({ msg: 'Failed to parse JSON response, using raw text', error: e });
-        }
-
-        return {
-            summary: response,
-            confidence: 'medium',
-        };
-    }
 }
@@ -4,3 +4,4 @@
 
 export * from './gemini.provider';
 export * from './bedrock.provider';
+export * from './response-parser';
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview LLM Response Parser
+ *
+ * Reads the JSON analysis format the prompts ask for out of model text.
+ */
+
+import { Logger } from '@nestjs/common';
+import { LLMAnalysisResult } from '../interfaces';
+
+/**
+ * Parses an analysis result from model text.
+ *
+ * @remarks
+ * The JSON may be wrapped in prose or markdown code blocks. Text without
+ * parseable JSON becomes the summary with medium confidence.
+ */
+export function parseAnalysisResult(response: string, logger: Logger): LLMAnalysisResult {
+    try {
+        // Extract JSON from response (may have markdown code blocks)
+        const jsonMatch = response.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+            return JSON.parse(jsonMatch[0]);
+        }
+    } catch (e) {
+        logger.warn({ msg: 'Failed to parse JSON response, using raw text', error: e });
+    }
+
+    return {
+        summary: response,
+        confidence: 'medium',
+    };
+}
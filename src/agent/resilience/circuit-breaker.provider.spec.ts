@@ -25,6 +25,12 @@ describe('CircuitBreakerProvider', () => {
         mockProvider = {
             getName: jest.fn().mockReturnValue('mock-provider'),
             analyze: jest.fn().mockResolvedValue(successResponse),
+            analyzeStream: jest.fn().mockImplementation(async (_q, _c, _s, onText) => {
+                onText('{"summary": ');
+                onText('"Test analysis result"}');
+                return successResponse;
+            }),
+            chat: jest.fn().mockResolvedValue({ text: '', toolCalls: [] }),
         };
 
         // Fast timeouts for testing
@@ -108,6 +114,61 @@ describe('CircuitBreakerProvider', () => {
             expect(result.confidence).toBe('low');
             expect(result.reasoning).toContain('Circuit breaker');
         });
+
+        it('should answer chat turns with the fallback once open', async () => {
+            mockProvider.analyze.mockRejectedValue(new Error('Provider error'));
+
+            for (let i = 0; i < 3; i++) {
+                try {
+                    await circuitBreaker.analyze('q', 'c');
+                } catch {
+                    // Expected failures
+                }
+            }
+
+            const result = await circuitBreaker.chat({ system: 's', messages: [], tools: [] });
+
+            expect(mockProvider.chat).not.toHaveBeenCalled();
+            expect(result.toolCalls).toEqual([]);
+            expect(JSON.parse(result.text).summary).toContain('temporarily unavailable');
+        });
+    });
+
+    describe('analyzeStream', () => {
+        it('should pass text through while the call is running', async () => {
+            const chunks: string[] = [];
+
+            const result = await circuitBreaker.analyzeStream('q', 'c', 's', (text) => chunks.push(text));
+
+            expect(result).toEqual(successResponse);
+            expect(chunks.join('')).toBe('{"summary": "Test analysis result"}');
+        });
+
+        it('should drop text that arrives after the timeout', async () => {
+            let late: (text: string) => void = () => undefined;
+            mockProvider.analyzeStream.mockImplementationOnce((_q, _c, _s, onText) => {
+                late = onText;
+                return new Promise(() => undefined);
+            });
+            const chunks: string[] = [];
+
+            const result = await circuitBreaker.analyzeStream('q', 'c', 's', (text) => chunks.push(text));
+            late('too late');
+
+            expect(result.summary).toContain('temporarily unavailable');
+            expect(chunks).toEqual([]);
+        });
+    });
+
+    describe('chat (closed circuit)', () => {
+        it('should pass through to underlying provider', async () => {
+            const request = { system: 's', messages: [{ role: 'user' as const, content: 'q' }], tools: [] };
+            const reply = { text: '', toolCalls: [{ id: 't1', name: 'search_members', arguments: {} }] };
+            mockProvider.chat.mockResolvedValueOnce(reply);
+
+            await expect(circuitBreaker.chat(request)).resolves.toEqual(reply);
+            expect(mockProvider.chat).toHaveBeenCalledWith(request);
+        });
     });
 
     describe('getState', () => {
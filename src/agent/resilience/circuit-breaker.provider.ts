@@ -4,6 +4,8 @@
  * Wraps any LLM provider with Opossum circuit breaker for resilience.
  * When the underlying provider fails repeatedly, the circuit opens
  * and returns a graceful fallback instead of cascading failures.
+ * Analysis and tool-calling turns share one breaker, since both fail
+ * together when the provider is down.
  *
  * @remarks
  * States:
@@ -14,7 +16,7 @@
 
 import * as CircuitBreaker from 'opossum';
 import { Logger } from '@nestjs/common';
-import { LLMProvider, LLMAnalysisResult } from '../interfaces';
+import { LLMProvider, LLMAnalysisResult, LLMChatRequest, LLMChatResponse } from '../interfaces';
 import { Gauge, Counter } from 'prom-client';
 
 // Prometheus metrics for circuit state visibility
@@ -30,6 +32,16 @@ const circuitEvents = new Counter({
     labelNames: ['provider', 'event'],
 });
 
+/** Answer returned while the circuit is open */
+const FALLBACK_RESULT: LLMAnalysisResult = {
+    summary: 'Analysis temporarily unavailable. The AI service is experiencing issues and will recover shortly.',
+    confidence: 'low',
+    reasoning: 'Circuit breaker active - LLM provider unavailable',
+};
+
+/** Provider call the breaker guards */
+type ProviderCall = 'analyze' | 'chat';
+
 export interface CircuitBreakerOptions {
     /** Request timeout in ms (default: 30000) */
     timeout?: number;
@@ -62,9 +74,9 @@ export class CircuitBreakerProvider implements LLMProvider {
             volumeThreshold: 3,            // Min 3 requests before stats count
         };
 
-        // Create circuit breaker wrapping the analyze method
+        // Create circuit breaker wrapping the provider calls
         this.breaker = new CircuitBreaker(
-            (q: string, c: string, s?: string) => this.provider.analyze(q, c, s),
+            (_kind: ProviderCall, call: () => Promise<unknown>) => call(),
             { ...defaults, ...options },
         );
 
@@ -87,7 +99,38 @@ export class CircuitBreakerProvider implements LLMProvider {
         context: string,
         systemPrompt?: string,
     ): Promise<LLMAnalysisResult> {
-        return this.breaker.fire(question, context, systemPrompt) as Promise<LLMAnalysisResult>;
+        return this.breaker.fire(
+            'analyze',
+            () => this.provider.analyze(question, context, systemPrompt),
+        ) as Promise<LLMAnalysisResult>;
+    }
+
+    /**
+     * Streams under the breaker: the whole stream counts as one call for
+     * the timeout and failure stats. Text arriving after a timeout is
+     * dropped, and an open circuit yields the fallback with no text.
+     */
+    async analyzeStream(
+        question: string,
+        context: string,
+        systemPrompt: string | undefined,
+        onText: (text: string) => void,
+    ): Promise<LLMAnalysisResult> {
+        let live = true;
+        try {
+            return await (this.breaker.fire(
+                'analyze',
+                () => this.provider.analyzeStream(question, context, systemPrompt, (text) => {
+                    if (live) onText(text);
+                }),
+            ) as Promise<LLMAnalysisResult>);
+        } finally {
+            live = false;
+        }
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        return this.breaker.fire('chat', () => this.provider.chat(request)) as Promise<LLMChatResponse>;
     }
 
     /**
@@ -137,17 +180,16 @@ export class CircuitBreakerProvider implements LLMProvider {
         });
 
         // Fallback when circuit is open
-        this.breaker.fallback(() => {
+        // A chat fallback is a final answer, which ends the tool loop
+        this.breaker.fallback((kind: ProviderCall) => {
             circuitEvents.inc({ provider: name, event: 'fallback' });
             this.logger.warn({
                 msg: 'Circuit breaker fallback triggered',
                 provider: name,
             });
-            return {
-                summary: 'Analysis temporarily unavailable. The AI service is experiencing issues and will recover shortly.',
-                confidence: 'low' as const,
-                reasoning: 'Circuit breaker active - LLM provider unavailable',
-            };
+            return kind === 'chat'
+                ? { text: JSON.stringify(FALLBACK_RESULT), toolCalls: [] }
+                : { ...FALLBACK_RESULT };
         });
 
         // Log timeouts
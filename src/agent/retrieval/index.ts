@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Retrieval Barrel Export
+ */
+
+export * from './retrieval.interface';
+export * from './retrieval-planner';
+export * from './retrieval.service';
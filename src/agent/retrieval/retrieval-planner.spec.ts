@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Retrieval Planner Tests
+ */
+
+import { findRecordIds, RetrievalPlanner } from './retrieval-planner';
+
+describe('RetrievalPlanner', () => {
+    const planner = new RetrievalPlanner();
+
+    it('should look up named members and locations exactly', () => {
+        const plan = planner.plan('Why did MEM-004 stop visiting gym_102?');
+
+        expect(plan.entities.member_ids).toEqual(['mem-004']);
+        expect(plan.entities.location_ids).toEqual(['GYM_102']);
+        expect(plan.steps).toEqual(expect.arrayContaining([
+            expect.objectContaining({ id: 'members:member_id:mem-004', query: { member_id: 'mem-004', limit: 1 } }),
+            expect.objectContaining({ id: 'locations:location_id:GYM_102', query: { location_id: 'GYM_102', limit: 1 } }),
+            expect.objectContaining({ id: 'members:location_members:GYM_102', query: { location_id: 'GYM_102', limit: 25 } }),
+        ]));
+    });
+
+    it('should add the focus location from the request', () => {
+        const plan = planner.plan('How is enrollment going?', 'GYM_101', 40);
+
+        expect(plan.entities.location_ids).toEqual(['GYM_101']);
+        expect(plan.steps).toEqual(expect.arrayContaining([
+            expect.objectContaining({ id: 'members:location_members:GYM_101', query: { location_id: 'GYM_101', limit: 40 } }),
+        ]));
+    });
+
+    it('should try words and word pairs as tags and keep stopwords out of keywords', () => {
+        const plan = planner.plan('Which members are at risk of churning?');
+
+        expect(plan.keywords).toEqual(['risk', 'churning']);
+        expect(plan.entities.tag_candidates).toEqual(expect.arrayContaining(['risk', 'churning', 'at-risk']));
+        expect(plan.steps).toEqual(expect.arrayContaining([
+            expect.objectContaining({ id: 'members:tags', query: expect.objectContaining({ tag_mode: 'any' }) }),
+            expect.objectContaining({ id: 'members:keywords', query: { q: 'risk churning', limit: 25 } }),
+            expect.objectContaining({ id: 'locations:keywords', query: { q: 'risk churning', limit: 10 } }),
+        ]));
+    });
+
+    it('should filter locations on named rate models', () => {
+        const plan = planner.plan('Compare per participant and new-enrollee contracts');
+
+        expect(plan.entities.rate_models).toEqual(['per_participant', 'new_enrollee']);
+        expect(plan.steps.filter((step) => step.purpose === 'rate_model').map((step) => step.query))
+            .toEqual([
+                { rate_model: 'per_participant', limit: 10 },
+                { rate_model: 'new_enrollee', limit: 10 },
+            ]);
+    });
+
+    it('should weight exact lookups above keyword matches', () => {
+        const plan = planner.plan('Status of mem-001 and recent visits');
+        const weight = (id: string) => plan.steps.find((step) => step.id === id)?.weight ?? 0;
+
+        expect(weight('members:member_id:mem-001')).toBeGreaterThan(weight('members:tags'));
+        expect(weight('members:tags')).toBeGreaterThan(weight('members:keywords'));
+    });
+
+    it('should keep a broad fallback per vertical out of the main steps', () => {
+        const plan = planner.plan('What are the trends?');
+
+        expect(plan.steps.some((step) => step.purpose === 'broad')).toBe(false);
+        expect(plan.fallback.map((step) => step.id)).toEqual(['members:broad', 'locations:broad']);
+    });
+
+    it('should look up IDs carried from earlier turns below IDs named in the question', () => {
+        const plan = planner.plan('And which of those are at GYM_104?', undefined, 25, {
+            member_ids: ['mem-001', 'mem-007'],
+            location_ids: ['GYM_104', 'GYM_102'],
+        });
+        const weight = (id: string) => plan.steps.find((step) => step.id === id)?.weight ?? 0;
+
+        expect(plan.entities.carried).toEqual({ member_ids: ['mem-001', 'mem-007'], location_ids: ['GYM_102'] });
+        expect(plan.steps).toEqual(expect.arrayContaining([
+            expect.objectContaining({ id: 'members:conversation:mem-007', query: { member_id: 'mem-007', limit: 1 } }),
+            expect.objectContaining({ id: 'locations:conversation:GYM_102', query: { location_id: 'GYM_102', limit: 1 } }),
+        ]));
+        expect(weight('locations:location_id:GYM_104')).toBeGreaterThan(weight('locations:conversation:GYM_102'));
+    });
+
+    it('should find record IDs in text, normalized and deduplicated', () => {
+        expect(findRecordIds('GYM_102 has 2 at-risk members [mem-001, MEM-001] [gym_102] [GYM_104]')).toEqual({
+            member_ids: ['mem-001'],
+            location_ids: ['GYM_102', 'GYM_104'],
+        });
+    });
+});
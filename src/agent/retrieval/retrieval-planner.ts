@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Retrieval Planner
+ *
+ * Turns a sanitized question (and the request's focus location) into
+ * targeted member and location searches, so the LLM sees the records the
+ * question is about instead of an arbitrary sample.
+ *
+ * @remarks
+ * Planning is deterministic and needs no LLM call:
+ * - member IDs (`mem-001`) and location IDs (`GYM_101`) become exact lookups
+ * - a named or focus location also pulls its members
+ * - words and hyphenated word pairs are tried as member tags (`at risk` →
+ *   `at-risk`); tags that do not exist simply match nothing
+ * - rate model names (`per participant`) become location filters
+ * - the remaining non-stopwords become a free-text query on both verticals
+ * - in a conversation, IDs cited in earlier answers become lookups too, at
+ *   a lower weight than IDs named in the question
+ *
+ * Each vertical also gets a broad, unfiltered fallback step, run only if
+ * the targeted steps find nothing in that vertical (e.g. for aggregate
+ * questions such as "what are the enrollment trends?").
+ */
+
+import { Injectable } from '@nestjs/common';
+import { RATE_MODELS } from '../../locations';
+import { RecordIds, RetrievalPlan, RetrievalStep } from './retrieval.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+const MEMBER_ID_PATTERN = /\bmem-\d+\b/gi;
+const LOCATION_ID_PATTERN = /\bgym_\d+\b/gi;
+
+/** Lowercase words, keeping hyphenated compounds such as `at-risk` whole */
+const WORD_PATTERN = /[a-z0-9]+(?:-[a-z0-9]+)*/g;
+
+/**
+ * Words that carry no retrieval signal in analysis questions.
+ */
+const STOPWORDS = new Set([
+    'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'compare', 'did', 'do',
+    'does', 'for', 'from', 'give', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'list', 'many',
+    'me', 'member', 'members', 'most', 'much', 'need', 'needs', 'of', 'on', 'or', 'our', 'show', 'that',
+    'the', 'their', 'them', 'there', 'these', 'they', 'this', 'those', 'to', 'us', 'vs', 'was', 'we',
+    'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'location', 'locations', 'gym',
+    'gyms', 'tell', 'you',
+]);
+
+/** Relative weight of each step purpose when ranking hits */
+const WEIGHTS = {
+    member_id: 5,
+    location_id: 5,
+    location_members: 3,
+    tags: 2,
+    rate_model: 2,
+    keywords: 1,
+    conversation: 2,
+    broad: 0.5,
+} as const;
+
+/** Maximum locations per step; there are far fewer locations than members */
+const LOCATION_STEP_LIMIT = 10;
+
+/** Carried-over IDs looked up per vertical; the first (most recent) win */
+const MAX_CARRIED_IDS = 10;
+
+/* -------------------------------------------------------------------------- */
+/*                              Helpers                                        */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Finds the member and location IDs mentioned in a text, normalized
+ * (`mem-001`, `GYM_101`) and in order of first mention.
+ */
+export function findRecordIds(text: string): RecordIds {
+    return {
+        member_ids: [...new Set(text.match(MEMBER_ID_PATTERN)?.map((id) => id.toLowerCase()) ?? [])],
+        location_ids: [...new Set(text.match(LOCATION_ID_PATTERN)?.map((id) => id.toUpperCase()) ?? [])],
+    };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Planner Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class RetrievalPlanner {
+    /**
+     * Plans the searches for a question.
+     *
+     * @param question - Sanitized question
+     * @param locationId - Focus location from the request, if any
+     * @param limit - Hits per member step (locations are capped lower)
+     * @param carried - IDs cited earlier in the conversation, most recent first
+     */
+    plan(
+        question: string,
+        locationId?: string,
+        limit = 25,
+        carried: RecordIds = { member_ids: [], location_ids: [] },
+    ): RetrievalPlan {
+        const named = findRecordIds(question);
+        const memberIds = named.member_ids;
+        const locationIds = this.unique([...(locationId ? [locationId] : []), ...named.location_ids]);
+        const carriedMemberIds = carried.member_ids
+            .filter((id) => !memberIds.includes(id))
+            .slice(0, MAX_CARRIED_IDS);
+        const carriedLocationIds = carried.location_ids
+            .filter((id) => !locationIds.includes(id))
+            .slice(0, MAX_CARRIED_IDS);
+
+        const text = question
+            .replace(MEMBER_ID_PATTERN, ' ')
+            .replace(LOCATION_ID_PATTERN, ' ')
+            .toLowerCase();
+        const rateModels = RATE_MODELS.filter((model) => text.replace(/[\s-]+/g, '_').includes(model));
+        const words = text.match(WORD_PATTERN) ?? [];
+        const keywords = this.unique(words.filter((word) => word.length > 1 && !STOPWORDS.has(word)));
+        const tags = this.unique([
+            ...keywords,
+            ...words.slice(1).map((word, i) => `${words[i]}-${word}`),
+        ]);
+
+        const locationLimit = Math.min(limit, LOCATION_STEP_LIMIT);
+        const steps: RetrievalStep[] = [
+            ...memberIds.map((id): RetrievalStep => ({
+                id: `members:member_id:${id}`,
+                vertical: 'members',
+                purpose: 'member_id',
+                query: { member_id: id, limit: 1 },
+                weight: WEIGHTS.member_id,
+            })),
+            ...locationIds.flatMap((id): RetrievalStep[] => [
+                {
+                    id: `locations:location_id:${id}`,
+                    vertical: 'locations',
+                    purpose: 'location_id',
+                    query: { location_id: id, limit: 1 },
+                    weight: WEIGHTS.location_id,
+                },
+                {
+                    id: `members:location_members:${id}`,
+                    vertical: 'members',
+                    purpose: 'location_members',
+                    query: { location_id: id, limit },
+                    weight: WEIGHTS.location_members,
+                },
+            ]),
+            ...rateModels.map((model): RetrievalStep => ({
+                id: `locations:rate_model:${model}`,
+                vertical: 'locations',
+                purpose: 'rate_model',
+                query: { rate_model: model, limit: locationLimit },
+                weight: WEIGHTS.rate_model,
+            })),
+            ...carriedMemberIds.map((id): RetrievalStep => ({
+                id: `members:conversation:${id}`,
+                vertical: 'members',
+                purpose: 'conversation',
+                query: { member_id: id, limit: 1 },
+                weight: WEIGHTS.conversation,
+            })),
+            ...carriedLocationIds.map((id): RetrievalStep => ({
+                id: `locations:conversation:${id}`,
+                vertical: 'locations',
+                purpose: 'conversation',
+                query: { location_id: id, limit: 1 },
+                weight: WEIGHTS.conversation,
+            })),
+        ];
+
+        if (tags.length > 0) {
+            steps.push({
+                id: 'members:tags',
+                vertical: 'members',
+                purpose: 'tags',
+                query: { tags, tag_mode: 'any', limit },
+                weight: WEIGHTS.tags,
+            });
+        }
+
+        if (keywords.length > 0) {
+            const q = keywords.join(' ');
+            steps.push(
+                {
+                    id: 'members:keywords',
+                    vertical: 'members',
+                    purpose: 'keywords',
+                    query: { q, limit },
+                    weight: WEIGHTS.keywords,
+                },
+                {
+                    id: 'locations:keywords',
+                    vertical: 'locations',
+                    purpose: 'keywords',
+                    query: { q, limit: locationLimit },
+                    weight: WEIGHTS.keywords,
+                },
+            );
+        }
+
+        return {
+            keywords,
+            entities: {
+                member_ids: memberIds,
+                location_ids: locationIds,
+                tag_candidates: tags,
+                rate_models: rateModels,
+                carried: { member_ids: carriedMemberIds, location_ids: carriedLocationIds },
+            },
+            steps,
+            fallback: [
+                { id: 'members:broad', vertical: 'members', purpose: 'broad', query: { limit }, weight: WEIGHTS.broad },
+                {
+                    id: 'locations:broad',
+                    vertical: 'locations',
+                    purpose: 'broad',
+                    query: { limit: locationLimit },
+                    weight: WEIGHTS.broad,
+                },
+            ],
+        };
+    }
+
+    private unique(values: string[]): string[] {
+        return [...new Set(values)];
+    }
+}
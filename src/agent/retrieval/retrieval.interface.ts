@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Retrieval Interfaces
+ *
+ * Plan, steps and results of question-aware retrieval for the agent.
+ */
+
+import { LocationSearchQuery, LocationIndexDocument } from '../../locations';
+import { SearchQuery, SearchResult } from '../../membership';
+
+/**
+ * Vertical a retrieval step reads from.
+ */
+export type RetrievalVertical = 'members' | 'locations';
+
+/**
+ * Why a step is in the plan.
+ * - member_id: a member named in the question
+ * - location_id: a location named in the question or the request focus
+ * - location_members: members of a named location
+ * - tags: members carrying a tag named in the question
+ * - rate_model: locations on a rate model named in the question
+ * - keywords: free-text match on the question's remaining words
+ * - conversation: a record cited earlier in the conversation, so follow-ups
+ *   such as "which of those…" can refer back to it
+ * - broad: unfiltered sample, used only when the targeted steps found
+ *   nothing in the vertical
+ */
+export type RetrievalPurpose =
+    | 'member_id'
+    | 'location_id'
+    | 'location_members'
+    | 'tags'
+    | 'rate_model'
+    | 'keywords'
+    | 'conversation'
+    | 'broad';
+
+/**
+ * Member and location IDs, e.g. those cited in an answer.
+ */
+export interface RecordIds {
+    member_ids: string[];
+    location_ids: string[];
+}
+
+/**
+ * One targeted search.
+ */
+export interface RetrievalStep {
+    /** Unique within the plan, e.g. `members:tags` */
+    id: string;
+
+    vertical: RetrievalVertical;
+    purpose: RetrievalPurpose;
+
+    /** Query passed to the vertical's search; `limit` is the step's hit budget */
+    query: SearchQuery | LocationSearchQuery;
+
+    /** How strongly a hit from this step counts when ranking */
+    weight: number;
+}
+
+/**
+ * Targeted searches derived from a question.
+ */
+export interface RetrievalPlan {
+    /** Question words used for keyword matching (stopwords and IDs removed) */
+    keywords: string[];
+
+    /** Entities recognized in the question or request */
+    entities: {
+        member_ids: string[];
+        location_ids: string[];
+
+        /** Words and word pairs tried as tags; only existing tags match */
+        tag_candidates: string[];
+
+        rate_models: string[];
+
+        /** IDs carried over from earlier turns and not named in the question */
+        carried: RecordIds;
+    };
+
+    steps: RetrievalStep[];
+
+    /** One broad step per vertical, run only if `steps` find nothing there */
+    fallback: RetrievalStep[];
+}
+
+/**
+ * A step as executed, for the audit report.
+ */
+export interface RetrievalStepReport extends RetrievalStep {
+    /** Hits returned */
+    hits: number;
+
+    /** Set if the search failed; the other steps still count */
+    error?: string;
+}
+
+/**
+ * Audit record of a retrieval, returned with the analysis.
+ */
+export interface RetrievalReport {
+    keywords: string[];
+    entities: RetrievalPlan['entities'];
+    /** Steps executed, including any fallback */
+    steps: RetrievalStepReport[];
+
+    /** Context characters available and used */
+    budget_chars: number;
+    used_chars: number;
+
+    /** IDs of the records given to the LLM, most relevant first */
+    included: { members: string[]; locations: string[] };
+
+    /** Ranked records left out because the budget was spent */
+    omitted: number;
+}
+
+/**
+ * A retrieved record with its rank score.
+ */
+export interface RankedRecord {
+    vertical: RetrievalVertical;
+    id: string;
+
+    /** Weighted reciprocal-rank score summed over the steps that found it */
+    score: number;
+
+    /** Steps that found the record */
+    matched_by: string[];
+
+    /** The record projected to the fields given to the LLM */
+    document: Partial<SearchResult> | Partial<LocationIndexDocument>;
+}
+
+/**
+ * Records chosen for the LLM context, with the audit report.
+ */
+export interface RetrievalResult {
+    /** Records within the context budget, most relevant first */
+    records: RankedRecord[];
+
+    /** Distinct records found before the budget was applied */
+    found: { members: number; locations: number };
+
+    report: RetrievalReport;
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Retrieval Service Tests
+ */
+
+import { RetrievalPlanner } from './retrieval-planner';
+import { RetrievalService } from './retrieval.service';
+
+describe('RetrievalService', () => {
+    let service: RetrievalService;
+    let membershipSearch: any;
+    let locationsSearch: any;
+    let config: Record<string, string>;
+
+    const user = { userId: 'u1', roles: ['auditor'], tenantId: 'rcm-internal', tenantType: 'internal' } as any;
+    const member = (id: string, extra: object = {}) => ({
+        member_id: id,
+        email: `${id}@example.com`,
+        fname: 'Pat',
+        lname: 'Lee',
+        tags: ['at-risk'],
+        location_id: 'GYM_101',
+        ...extra,
+    });
+
+    beforeEach(() => {
+        config = {};
+        membershipSearch = { search: jest.fn().mockResolvedValue({ results: [], total: 0 }) };
+        locationsSearch = { search: jest.fn().mockResolvedValue({ results: [], total: 0 }) };
+        service = new RetrievalService(
+            new RetrievalPlanner(),
+            membershipSearch,
+            locationsSearch,
+            { get: (key: string) => config[key] } as any,
+        );
+    });
+
+    it('should rank records found by several steps first', async () => {
+        membershipSearch.search.mockImplementation(async (query: any) => {
+            if (query.member_id) return { results: [member('mem-002')] };
+            if (query.tags) return { results: [member('mem-001'), member('mem-002')] };
+            return { results: [member('mem-003')] };
+        });
+
+        const result = await service.retrieve('Is mem-002 at risk?', user);
+
+        expect(result.records.map((record) => record.id)).toEqual(['mem-002', 'mem-001', 'mem-003']);
+        expect(result.records[0].matched_by).toEqual(['members:member_id:mem-002', 'members:tags']);
+        expect(membershipSearch.search).toHaveBeenCalledWith(expect.objectContaining({ member_id: 'mem-002' }), user);
+    });
+
+    it('should keep names and emails out of the context documents', async () => {
+        membershipSearch.search.mockResolvedValue({ results: [member('mem-001', { monthly_visits: 4 })] });
+
+        const result = await service.retrieve('at risk', user);
+
+        expect(result.records[0].document).toEqual({
+            member_id: 'mem-001',
+            tags: ['at-risk'],
+            location_id: 'GYM_101',
+            monthly_visits: 4,
+        });
+    });
+
+    it('should run the broad fallback only for verticals the targeted steps missed', async () => {
+        membershipSearch.search.mockImplementation(async (query: any) =>
+            ({ results: query.tags ? [member('mem-001')] : [] }));
+
+        const result = await service.retrieve('at risk', user);
+        const ids = result.report.steps.map((step) => step.id);
+
+        expect(ids).toContain('locations:broad');
+        expect(ids).not.toContain('members:broad');
+    });
+
+    it('should report a failed step and keep the other results', async () => {
+        membershipSearch.search.mockImplementation(async (query: any) => {
+            if (query.tags) throw new Error('search unavailable');
+            return { results: [member('mem-001')] };
+        });
+
+        const result = await service.retrieve('at risk', user);
+
+        expect(result.report.steps.find((step) => step.id === 'members:tags'))
+            .toEqual(expect.objectContaining({ hits: 0, error: 'search unavailable' }));
+        expect(result.report.included.members).toEqual(['mem-001']);
+    });
+
+    it('should fill the context budget in rank order and count what is left out', async () => {
+        config.AGENT_CONTEXT_BUDGET_CHARS = '150';
+        membershipSearch.search.mockResolvedValue({
+            results: ['mem-001', 'mem-002', 'mem-003', 'mem-004'].map((id) => member(id)),
+        });
+
+        const result = await service.retrieve('at risk', user);
+
+        expect(result.found.members).toBe(4);
+        expect(result.report.included.members).toEqual(['mem-001', 'mem-002']);
+        expect(result.report.omitted).toBe(2);
+        expect(result.report.used_chars).toBeLessThanOrEqual(150);
+        expect(result.report.budget_chars).toBe(150);
+    });
+});
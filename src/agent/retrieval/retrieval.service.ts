@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Retrieval Service
+ *
+ * Executes a RetrievalPlanner plan, ranks the hits and fills the LLM
+ * context budget with the most relevant records.
+ *
+ * @remarks
+ * Ranking is weighted reciprocal rank fusion: a record scores
+ * `weight / (60 + rank)` for every step that found it, so records found by
+ * several targeted steps, or near the top of a strongly weighted one, come
+ * first. Searches run with the caller's identity, so RBAC field filtering,
+ * redaction and tenant isolation apply exactly as for the search APIs.
+ *
+ * Records are projected to the fields the analysis needs (no names or
+ * emails) and added in rank order while they fit in
+ * AGENT_CONTEXT_BUDGET_CHARS (default 8000); the rest are counted as
+ * omitted in the report.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthenticatedUser } from '../../shared/auth';
+import { LocationIndexDocument, LocationSearchQuery, LocationsSearchService } from '../../locations';
+import { MembershipSearchService, SearchQuery, SearchResult } from '../../membership';
+import { RetrievalPlanner } from './retrieval-planner';
+import {
+    RankedRecord,
+    RecordIds,
+    RetrievalResult,
+    RetrievalStep,
+    RetrievalStepReport,
+    RetrievalVertical,
+} from './retrieval.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Reciprocal rank fusion constant; damps the advantage of the very top ranks */
+const RRF_K = 60;
+
+/** Member fields given to the LLM; names and emails stay out of the context */
+const MEMBER_CONTEXT_FIELDS: (keyof SearchResult)[] = [
+    'member_id', 'tags', 'location_id', 'enrollment_date', 'monthly_visits', 'status_notes',
+];
+
+/** Location fields given to the LLM */
+const LOCATION_CONTEXT_FIELDS: (keyof LocationIndexDocument)[] = [
+    'location_id', 'name', 'region', 'market_segment', 'rate_model', 'base_rate',
+    'conversion_bonus_enabled', 'initial_participant_bonus', 'coordinator_tenure_days',
+    'last_manager_change_date', 'is_24_7', 'max_capacity', 'guest_policy', 'latest_event',
+    'latest_event_date',
+];
+
+/* -------------------------------------------------------------------------- */
+/*                              Helpers                                        */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Renders a record as one context line; the budget counts these lines.
+ */
+export function renderRecord(record: RankedRecord): string {
+    return JSON.stringify(record.document);
+}
+
+/**
+ * Projects a member search result to the fields given to the LLM.
+ */
+export function memberContextDocument(member: SearchResult): Partial<SearchResult> {
+    return pick(member, MEMBER_CONTEXT_FIELDS);
+}
+
+/**
+ * Projects a location to the fields given to the LLM.
+ */
+export function locationContextDocument(location: LocationIndexDocument): Partial<LocationIndexDocument> {
+    return pick(location, LOCATION_CONTEXT_FIELDS);
+}
+
+function pick<T extends object>(source: T, fields: (keyof T)[]): Partial<T> {
+    return Object.fromEntries(
+        fields.filter((field) => source[field] !== undefined).map((field) => [field, source[field]]),
+    ) as Partial<T>;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class RetrievalService {
+    private readonly logger = new Logger(RetrievalService.name);
+
+    constructor(
+        private planner: RetrievalPlanner,
+        private membershipSearch: MembershipSearchService,
+        private locationsSearch: LocationsSearchService,
+        private configService: ConfigService,
+    ) { }
+
+    /**
+     * Retrieves the records most relevant to a question.
+     *
+     * @param question - Sanitized question
+     * @param user - Caller; every search runs under their RBAC and tenant scope
+     * @param locationId - Focus location from the request, if any
+     * @param limit - Hits per member step
+     * @param carried - IDs cited earlier in the conversation, most recent first
+     * @returns Ranked records within the context budget and the audit report
+     */
+    async retrieve(
+        question: string,
+        user: AuthenticatedUser,
+        locationId?: string,
+        limit?: number,
+        carried?: RecordIds,
+    ): Promise<RetrievalResult> {
+        const budget = Number(this.configService.get('AGENT_CONTEXT_BUDGET_CHARS') ?? 8000);
+        const plan = this.planner.plan(question, locationId, limit, carried);
+
+        const executed = await Promise.all(plan.steps.map((step) => this.runStep(step, user)));
+
+        // Verticals the targeted steps found nothing in get their broad sample
+        const empty = (vertical: RetrievalVertical) =>
+            executed.every((run) => run.report.vertical !== vertical || run.hits.length === 0);
+        const fallback = plan.fallback.filter((step) => empty(step.vertical));
+        executed.push(...await Promise.all(fallback.map((step) => this.runStep(step, user))));
+
+        const ranked = this.rank(executed);
+
+        const records: RankedRecord[] = [];
+        let used = 0;
+        for (const record of ranked) {
+            const size = renderRecord(record).length + 1;
+            if (used + size > budget) continue;
+            records.push(record);
+            used += size;
+        }
+
+        const idsOf = (vertical: RetrievalVertical) =>
+            records.filter((record) => record.vertical === vertical).map((record) => record.id);
+        const countOf = (vertical: RetrievalVertical) =>
+            ranked.filter((record) => record.vertical === vertical).length;
+
+        return {
+            records,
+            found: { members: countOf('members'), locations: countOf('locations') },
+            report: {
+                keywords: plan.keywords,
+                entities: plan.entities,
+                steps: executed.map((run) => run.report),
+                budget_chars: budget,
+                used_chars: used,
+                included: { members: idsOf('members'), locations: idsOf('locations') },
+                omitted: ranked.length - records.length,
+            },
+        };
+    }
+
+    /**
+     * Runs one step; a failed search is reported instead of failing the retrieval.
+     */
+    private async runStep(
+        step: RetrievalStep,
+        user: AuthenticatedUser,
+    ): Promise<{ report: RetrievalStepReport; hits: Array<{ id: string; document: RankedRecord['document'] }> }> {
+        try {
+            const hits = step.vertical === 'members'
+                ? (await this.membershipSearch.search(step.query as SearchQuery, user)).results
+                    .map((member) => ({ id: member.member_id, document: memberContextDocument(member) }))
+                : (await this.locationsSearch.search(step.query as LocationSearchQuery, user)).results
+                    .map((location) => ({
+                        id: location.location_id,
+                        document: locationContextDocument(location),
+                    }));
+
+            return { report: { ...step, hits: hits.length }, hits };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn({ msg: 'Retrieval step failed', step: step.id, error: message });
+            return { report: { ...step, hits: 0, error: message }, hits: [] };
+        }
+    }
+
+    /**
+     * Fuses the steps' hit lists into one ranking.
+     */
+    private rank(
+        executed: Array<{ report: RetrievalStepReport; hits: Array<{ id: string; document: RankedRecord['document'] }> }>,
+    ): RankedRecord[] {
+        const records = new Map<string, RankedRecord>();
+
+        for (const { report, hits } of executed) {
+            hits.forEach((hit, rank) => {
+                const key = `${report.vertical}:${hit.id}`;
+                const record = records.get(key) ?? {
+                    vertical: report.vertical,
+                    id: hit.id,
+                    score: 0,
+                    matched_by: [],
+                    document: hit.document,
+                };
+                record.score += report.weight / (RRF_K + rank + 1);
+                record.matched_by.push(report.id);
+                records.set(key, record);
+            });
+        }
+
+        // ID order breaks ties so the same hits always rank the same
+        return [...records.values()].sort((a, b) =>
+            b.score - a.score || a.vertical.localeCompare(b.vertical) || a.id.localeCompare(b.id),
+        );
+    }
+}
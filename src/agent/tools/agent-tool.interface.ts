@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Agent Tool Interfaces
+ *
+ * Tools the LLM can call in tool mode, and the trace of the calls made.
+ */
+
+import { ZodType } from 'zod';
+import { AuthenticatedUser } from '../../shared/auth';
+import { LLMAnalysisResult, LLMToolDefinition } from '../interfaces';
+import { RetrievalVertical } from '../retrieval/retrieval.interface';
+
+/**
+ * Output of a tool run.
+ */
+export interface AgentToolOutput {
+    /** JSON-serializable result given to the LLM */
+    result: unknown;
+
+    /** IDs of the records in the result */
+    recordIds: string[];
+}
+
+/**
+ * A typed tool over the search services.
+ */
+export interface AgentTool<A = any> {
+    definition: LLMToolDefinition;
+
+    /** Vertical the tool reads, for counting the records analyzed */
+    vertical: RetrievalVertical;
+
+    /** Arguments schema; mirrors `definition.parameters` */
+    schema: ZodType<A>;
+
+    /** Runs the tool as the caller, so RBAC and tenant scoping apply */
+    run(args: A, user: AuthenticatedUser): Promise<AgentToolOutput>;
+}
+
+/**
+ * Outcome of a tool call.
+ * - ok: the tool ran
+ * - rejected: unknown tool, invalid arguments, blocked by guardrails or over
+ *   the per-step call limit; the tool did not run
+ * - error: the tool ran and failed
+ */
+export type ToolCallStatus = 'ok' | 'rejected' | 'error';
+
+/**
+ * One tool call, as returned with the answer.
+ */
+export interface ToolTraceEntry {
+    /** Loop step (1-based) the call was made in */
+    step: number;
+
+    tool: string;
+    arguments: Record<string, unknown>;
+    status: ToolCallStatus;
+
+    /** Redacted result given to the LLM (status ok) */
+    result?: unknown;
+
+    /** Why the call was rejected or failed */
+    error?: string;
+
+    /** IDs of the records returned */
+    record_ids: string[];
+
+    duration_ms: number;
+}
+
+/**
+ * Outcome of a tool loop.
+ */
+export interface ToolLoopResult {
+    answer: LLMAnalysisResult;
+    trace: ToolTraceEntry[];
+
+    /** Redacted tool results, for grounding the answer */
+    evidence: string;
+
+    /** LLM turns taken */
+    steps: number;
+
+    /** Distinct records returned per vertical */
+    records: Record<RetrievalVertical, number>;
+}
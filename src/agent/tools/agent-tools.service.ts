@@ -0,0 +1,342 @@
+/**
+ * @fileoverview Agent Tools Service
+ *
+ * The fixed set of typed tools the LLM can call in tool mode, and their
+ * guarded execution.
+ *
+ * @remarks
+ * Every call goes through the same gates before it runs:
+ * 1. the tool must be in the registry
+ * 2. the arguments must match the tool's schema (strict, so unknown
+ *    arguments are refused rather than ignored)
+ * 3. GuardrailsService.checkToolCall screens the argument strings for
+ *    injection and PII
+ *
+ * Tools run with the caller's identity, so search RBAC, field filtering
+ * and tenant scoping apply exactly as for the HTTP APIs. Results are
+ * projected to non-PII fields and redacted again before the LLM sees them.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { z } from 'zod';
+import {
+    LOCATION_FACET_FIELDS,
+    LocationIndexDocument,
+    LocationSearchQuery,
+    LocationsSearchService,
+    RATE_MODELS,
+    RateModel,
+} from '../../locations';
+import { MEMBER_FACET_FIELDS, MembershipSearchService, SearchQuery } from '../../membership';
+import { AuthenticatedUser } from '../../shared/auth';
+import { RedactionService } from '../../shared/redaction';
+import { GuardrailsService } from '../guardrails';
+import { LLMToolCall, LLMToolDefinition, LLMToolResult } from '../interfaces';
+import { locationContextDocument, memberContextDocument } from '../retrieval';
+import { AgentTool, ToolTraceEntry } from './agent-tool.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Most records a search tool returns; keeps each result small */
+const MEMBER_TOOL_LIMIT = 25;
+const LOCATION_TOOL_LIMIT = 10;
+
+/** Newest status events returned by the timeline tool */
+const TIMELINE_EVENT_LIMIT = 20;
+
+const toolCallsCounter = new Counter({
+    name: 'agent_tool_calls_total',
+    help: 'Agent tool calls by tool and outcome',
+    labelNames: ['tool', 'status'],
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Argument Schemas                               */
+/* -------------------------------------------------------------------------- */
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected YYYY-MM-DD');
+const id = z.string().min(1).max(50);
+const text = z.string().min(1).max(200);
+
+const memberFilters = {
+    q: text.optional(),
+    member_id: id.optional(),
+    location_id: id.optional(),
+    tags: z.array(id).min(1).max(10).optional(),
+    tag_mode: z.enum(['any', 'all']).optional(),
+};
+
+const locationFilters = {
+    q: text.optional(),
+    location_id: id.optional(),
+    region: id.optional(),
+    rate_model: z.enum(RATE_MODELS as [RateModel, ...RateModel[]]).optional(),
+    event_type: z.array(id).min(1).max(10).optional(),
+    event_from: isoDate.optional(),
+    event_to: isoDate.optional(),
+};
+
+const searchMembersSchema = z.object({
+    ...memberFilters,
+    limit: z.number().int().min(1).max(MEMBER_TOOL_LIMIT).optional(),
+}).strict();
+
+const countMembersSchema = z.object({
+    ...memberFilters,
+    group_by: z.enum(MEMBER_FACET_FIELDS),
+}).strict();
+
+const searchLocationsSchema = z.object({
+    ...locationFilters,
+    limit: z.number().int().min(1).max(LOCATION_TOOL_LIMIT).optional(),
+}).strict();
+
+const countLocationsSchema = z.object({
+    ...locationFilters,
+    group_by: z.enum(LOCATION_FACET_FIELDS),
+}).strict();
+
+const timelineSchema = z.object({ location_id: id }).strict();
+
+/* -------------------------------------------------------------------------- */
+/*                              Parameter Schemas (JSON)                       */
+/* -------------------------------------------------------------------------- */
+
+const MEMBER_FILTER_PARAMETERS = {
+    q: { type: 'string', description: 'Free-text query over member fields' },
+    member_id: { type: 'string', description: 'Exact member ID, e.g. mem-001' },
+    location_id: { type: 'string', description: 'Home location ID, e.g. GYM_101' },
+    tags: { type: 'array', items: { type: 'string' }, description: 'Member tags, e.g. at-risk' },
+    tag_mode: { type: 'string', enum: ['any', 'all'], description: 'Whether any or all tags must match' },
+};
+
+const LOCATION_FILTER_PARAMETERS = {
+    q: { type: 'string', description: 'Free-text query over location fields' },
+    location_id: { type: 'string', description: 'Exact location ID, e.g. GYM_101' },
+    region: { type: 'string', description: 'Region name' },
+    rate_model: { type: 'string', enum: [...RATE_MODELS], description: 'Contract rate model' },
+    event_type: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only locations with a status event of one of these types, e.g. COORDINATOR_ASSIGNED',
+    },
+    event_from: { type: 'string', description: 'Only locations with a status event on or after this date (YYYY-MM-DD)' },
+    event_to: { type: 'string', description: 'Only locations with a status event on or before this date (YYYY-MM-DD)' },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class AgentToolsService {
+    private readonly logger = new Logger(AgentToolsService.name);
+    private readonly tools: Map<string, AgentTool>;
+
+    constructor(
+        private membershipSearch: MembershipSearchService,
+        private locationsSearch: LocationsSearchService,
+        private guardrails: GuardrailsService,
+        private redactionService: RedactionService,
+    ) {
+        this.tools = new Map(this.createTools().map((tool) => [tool.definition.name, tool]));
+    }
+
+    /**
+     * Tool definitions to offer the LLM.
+     */
+    definitions(): LLMToolDefinition[] {
+        return [...this.tools.values()].map((tool) => tool.definition);
+    }
+
+    /**
+     * Vertical a tool reads, if it exists.
+     */
+    verticalOf(name: string): AgentTool['vertical'] | undefined {
+        return this.tools.get(name)?.vertical;
+    }
+
+    /**
+     * Runs a tool call through the gates and the tool.
+     *
+     * @returns The result to send back to the LLM and the trace entry; a
+     *          rejected or failed call yields an `{ error }` result instead
+     *          of throwing, so the LLM can correct itself
+     */
+    async execute(
+        call: LLMToolCall,
+        step: number,
+        user: AuthenticatedUser,
+    ): Promise<{ result: LLMToolResult; trace: ToolTraceEntry }> {
+        const started = Date.now();
+        const tool = this.tools.get(call.name);
+
+        const finish = (entry: Pick<ToolTraceEntry, 'status' | 'result' | 'error' | 'record_ids'>) => {
+            toolCallsCounter.inc({ tool: tool ? call.name : 'unknown', status: entry.status });
+            const trace: ToolTraceEntry = {
+                step,
+                tool: call.name,
+                arguments: call.arguments,
+                ...entry,
+                duration_ms: Date.now() - started,
+            };
+            const content = JSON.stringify(entry.status === 'ok' ? entry.result : { error: entry.error });
+            return { result: { callId: call.id, name: call.name, content }, trace };
+        };
+
+        if (!tool) {
+            return finish({ status: 'rejected', error: `Unknown tool: ${call.name}`, record_ids: [] });
+        }
+
+        const parsed = tool.schema.safeParse(call.arguments);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+            return finish({ status: 'rejected', error: `Invalid arguments: ${issues.join('; ')}`, record_ids: [] });
+        }
+
+        const check = this.guardrails.checkToolCall(call.name, call.arguments);
+        if (!check.allowed) {
+            return finish({ status: 'rejected', error: check.error, record_ids: [] });
+        }
+
+        try {
+            const output = await tool.run(parsed.data, user);
+
+            // Defense in depth: results are already role-filtered and redacted by the search services
+            const result = JSON.parse(this.redactionService.redact(JSON.stringify(output.result)));
+            return finish({ status: 'ok', result, record_ids: output.recordIds });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn({ msg: 'Agent tool failed', tool: call.name, error: message });
+            return finish({ status: 'error', error: message, record_ids: [] });
+        }
+    }
+
+    private createTools(): AgentTool[] {
+        const searchMembers: AgentTool<z.infer<typeof searchMembersSchema>> = {
+            definition: {
+                name: 'search_members',
+                description: 'Finds members by ID, home location, tags or free text. '
+                    + `Returns up to ${MEMBER_TOOL_LIMIT} members (no names or emails) and the total match count.`,
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        ...MEMBER_FILTER_PARAMETERS,
+                        limit: { type: 'integer', minimum: 1, maximum: MEMBER_TOOL_LIMIT },
+                    },
+                },
+            },
+            vertical: 'members',
+            schema: searchMembersSchema,
+            run: async (args, user) => {
+                const page = await this.membershipSearch.search(args as SearchQuery, user);
+                const members = page.results.map(memberContextDocument);
+                return { result: { total: page.total, members }, recordIds: page.results.map((m) => m.member_id) };
+            },
+        };
+
+        const countMembers: AgentTool<z.infer<typeof countMembersSchema>> = {
+            definition: {
+                name: 'count_members',
+                description: 'Counts members matching the filters, grouped by a field.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        ...MEMBER_FILTER_PARAMETERS,
+                        group_by: { type: 'string', enum: [...MEMBER_FACET_FIELDS] },
+                    },
+                    required: ['group_by'],
+                },
+            },
+            vertical: 'members',
+            schema: countMembersSchema,
+            run: async ({ group_by, ...filters }, user) => {
+                const page = await this.membershipSearch.search(
+                    { ...filters, facets: [group_by], limit: 1 } as SearchQuery,
+                    user,
+                );
+                return { result: { total: page.total, groups: page.facets?.[group_by] ?? [] }, recordIds: [] };
+            },
+        };
+
+        const searchLocations: AgentTool<z.infer<typeof searchLocationsSchema>> = {
+            definition: {
+                name: 'search_locations',
+                description: 'Finds locations by ID, region, rate model, status events or free text. '
+                    + `Returns up to ${LOCATION_TOOL_LIMIT} locations with contract terms, coordinator tenure `
+                    + 'and latest event, and the total match count.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        ...LOCATION_FILTER_PARAMETERS,
+                        limit: { type: 'integer', minimum: 1, maximum: LOCATION_TOOL_LIMIT },
+                    },
+                },
+            },
+            vertical: 'locations',
+            schema: searchLocationsSchema,
+            run: async (args, user) => {
+                const page = await this.locationsSearch.search(
+                    { ...args, limit: args.limit ?? LOCATION_TOOL_LIMIT } as LocationSearchQuery,
+                    user,
+                );
+                const locations = page.results.map((l) => locationContextDocument(l as LocationIndexDocument));
+                return { result: { total: page.total, locations }, recordIds: page.results.map((l) => l.location_id) };
+            },
+        };
+
+        const countLocations: AgentTool<z.infer<typeof countLocationsSchema>> = {
+            definition: {
+                name: 'count_locations',
+                description: 'Counts locations matching the filters, grouped by a field.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        ...LOCATION_FILTER_PARAMETERS,
+                        group_by: { type: 'string', enum: [...LOCATION_FACET_FIELDS] },
+                    },
+                    required: ['group_by'],
+                },
+            },
+            vertical: 'locations',
+            schema: countLocationsSchema,
+            run: async ({ group_by, ...filters }, user) => {
+                const page = await this.locationsSearch.search(
+                    { ...filters, facets: [group_by], limit: 1 } as LocationSearchQuery,
+                    user,
+                );
+                return { result: { total: page.total, groups: page.facets?.[group_by] ?? [] }, recordIds: [] };
+            },
+        };
+
+        const locationTimeline: AgentTool<z.infer<typeof timelineSchema>> = {
+            definition: {
+                name: 'get_location_timeline',
+                description: `Returns a location's ${TIMELINE_EVENT_LIMIT} most recent status events `
+                    + '(e.g. COORDINATOR_ASSIGNED, RATE_CHANGE), newest first.',
+                parameters: {
+                    type: 'object',
+                    properties: { location_id: { type: 'string', description: 'Location ID, e.g. GYM_101' } },
+                    required: ['location_id'],
+                },
+            },
+            vertical: 'locations',
+            schema: timelineSchema,
+            run: async ({ location_id }, user) => {
+                const timeline = await this.locationsSearch.findTimeline(location_id, user);
+                if (!timeline) {
+                    return { result: { error: `Location ${location_id} not found` }, recordIds: [] };
+                }
+                return {
+                    result: { ...timeline, events: timeline.events.slice(0, TIMELINE_EVENT_LIMIT) },
+                    recordIds: [timeline.location_id],
+                };
+            },
+        };
+
+        return [searchMembers, countMembers, searchLocations, countLocations, locationTimeline];
+    }
+}
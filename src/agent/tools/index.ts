@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Agent Tools Barrel Export
+ */
+
+export * from './agent-tool.interface';
+export * from './agent-tools.service';
+export * from './tool-loop.service';
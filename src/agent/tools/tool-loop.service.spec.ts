@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Tool Loop Service Tests
+ */
+
+import { ToolLoopError, ToolLoopService } from './tool-loop.service';
+
+describe('ToolLoopService', () => {
+    let service: ToolLoopService;
+    let llm: any;
+    let tools: any;
+    let config: Record<string, string>;
+
+    const user = { userId: 'u1', roles: ['auditor'], tenantId: 'rcm-internal', tenantType: 'internal' } as any;
+    const answer = JSON.stringify({ summary: 'GYM_102 has 2 at-risk members [GYM_102]', confidence: 'high' });
+    const toolCall = (id: string, name = 'search_members') => ({ id, name, arguments: { tags: ['at-risk'] } });
+
+    beforeEach(() => {
+        config = {};
+        llm = { chat: jest.fn() };
+        tools = {
+            definitions: jest.fn().mockReturnValue([{ name: 'search_members', description: 'd', parameters: { type: 'object' } }]),
+            verticalOf: jest.fn().mockReturnValue('members'),
+            execute: jest.fn().mockImplementation(async (call: any, step: number) => ({
+                result: { callId: call.id, name: call.name, content: '{"total":1}' },
+                trace: { step, tool: call.name, arguments: call.arguments, status: 'ok', record_ids: [`mem-${call.id}`], duration_ms: 1 },
+            })),
+        };
+        service = new ToolLoopService(llm, tools, { get: (key: string) => config[key] } as any);
+    });
+
+    it('should run tool calls and feed the results back until the LLM answers', async () => {
+        llm.chat
+            .mockResolvedValueOnce({ text: '', toolCalls: [toolCall('1'), toolCall('2')] })
+            .mockResolvedValueOnce({ text: answer, toolCalls: [] });
+
+        const result = await service.run('Which members are at risk?', 'SYSTEM', user, 'FOCUS: Location ID GYM_102');
+
+        expect(result.answer.summary).toContain('GYM_102');
+        expect(result.steps).toBe(2);
+        expect(result.trace.map((entry) => entry.step)).toEqual([1, 1]);
+        expect(result.records).toEqual({ members: 2, locations: 0 });
+        expect(result.evidence).toContain('FOCUS: Location ID GYM_102');
+        expect(result.evidence).toContain('[search_members] {"total":1}');
+        expect(tools.execute).toHaveBeenCalledWith(toolCall('1'), 1, user);
+
+        const secondTurn = llm.chat.mock.calls[1][0];
+        expect(secondTurn.messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'tool']);
+        expect(secondTurn.messages[2].results.map((r: any) => r.callId)).toEqual(['1', '2']);
+    });
+
+    it('should show conversation history to the LLM without counting it as evidence', async () => {
+        llm.chat.mockResolvedValueOnce({ text: answer, toolCalls: [] });
+
+        const result = await service.run('And at GYM_104?', 'SYSTEM', user, '', 'CONVERSATION SO FAR: [turn 1] Q: at-risk?');
+
+        expect(llm.chat.mock.calls[0][0].messages[0].content).toBe(
+            'QUESTION: And at GYM_104?\n\nCONVERSATION SO FAR: [turn 1] Q: at-risk?',
+        );
+        expect(result.evidence).toBe('');
+    });
+
+    it('should force an answer once the step limit is reached', async () => {
+        config.AGENT_MAX_TOOL_STEPS = '2';
+        llm.chat
+            .mockResolvedValueOnce({ text: '', toolCalls: [toolCall('1')] })
+            .mockResolvedValueOnce({ text: '', toolCalls: [toolCall('2')] })
+            .mockResolvedValueOnce({ text: answer, toolCalls: [] });
+
+        const result = await service.run('q', 'SYSTEM', user);
+
+        expect(llm.chat).toHaveBeenCalledTimes(3);
+        expect(llm.chat.mock.calls[2][0]).toEqual(expect.objectContaining({ toolChoice: 'none' }));
+        expect(llm.chat.mock.calls[2][0].system).toContain('STEP LIMIT REACHED');
+        expect(result.trace).toHaveLength(2);
+    });
+
+    it('should reject calls beyond the per-step limit', async () => {
+        llm.chat
+            .mockResolvedValueOnce({ text: '', toolCalls: ['1', '2', '3', '4', '5', '6'].map((id) => toolCall(id)) })
+            .mockResolvedValueOnce({ text: answer, toolCalls: [] });
+
+        const result = await service.run('q', 'SYSTEM', user);
+
+        expect(tools.execute).toHaveBeenCalledTimes(5);
+        expect(result.trace[5]).toEqual(expect.objectContaining({ status: 'rejected', error: expect.stringContaining('Call limit') }));
+    });
+
+    it('should carry the trace so far when the loop fails', async () => {
+        llm.chat
+            .mockResolvedValueOnce({ text: '', toolCalls: [toolCall('1')] })
+            .mockRejectedValueOnce(new Error('LLM timeout'));
+
+        const failure = service.run('q', 'SYSTEM', user);
+
+        await expect(failure).rejects.toBeInstanceOf(ToolLoopError);
+        await expect(failure).rejects.toEqual(expect.objectContaining({
+            message: 'LLM timeout',
+            trace: [expect.objectContaining({ tool: 'search_members', status: 'ok' })],
+        }));
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Tool Loop Service
+ *
+ * Runs the bounded tool-calling conversation behind tool mode: the LLM
+ * calls tools until it has enough evidence, then answers.
+ *
+ * @remarks
+ * Bounds:
+ * - at most AGENT_MAX_TOOL_STEPS (default 5) turns may call tools; the turn
+ *   after that is made with tool choice 'none', so the LLM must answer
+ *   from what it has gathered
+ * - at most MAX_CALLS_PER_STEP calls run per turn; extra calls are rejected
+ *   and traced
+ *
+ * Every call, including rejected ones, is in the returned trace. If the
+ * loop fails, the ToolLoopError carries the trace so far.
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthenticatedUser } from '../../shared/auth';
+import { LLM_PROVIDER, LLMAnalysisResult, LLMMessage, LLMProvider } from '../interfaces';
+import { parseAnalysisResult } from '../providers/response-parser';
+import { RetrievalVertical } from '../retrieval/retrieval.interface';
+import { ToolLoopResult, ToolTraceEntry } from './agent-tool.interface';
+import { AgentToolsService } from './agent-tools.service';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Tool calls run per turn; more are rejected */
+const MAX_CALLS_PER_STEP = 5;
+
+/** Appended to the system prompt for the closing turn */
+const STEP_LIMIT_NOTICE = `
+STEP LIMIT REACHED:
+- No more tools can be called.
+- Answer now, in the required JSON format, from the tool results above.`;
+
+/**
+ * Tool loop failure, with the calls made before it.
+ */
+export class ToolLoopError extends Error {
+    constructor(message: string, readonly trace: ToolTraceEntry[]) {
+        super(message);
+        this.name = 'ToolLoopError';
+    }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class ToolLoopService {
+    private readonly logger = new Logger(ToolLoopService.name);
+
+    constructor(
+        @Inject(LLM_PROVIDER) private llmProvider: LLMProvider,
+        private tools: AgentToolsService,
+        private configService: ConfigService,
+    ) { }
+
+    /**
+     * Answers a question by letting the LLM call tools.
+     *
+     * @param question - Sanitized question
+     * @param systemPrompt - Authority and output rules for the LLM
+     * @param user - Caller; every tool runs under their RBAC and tenant scope
+     * @param context - Evidence known up front (focus location, payout), if any
+     * @param history - Earlier conversation turns; shown to the LLM but not evidence
+     */
+    async run(
+        question: string,
+        systemPrompt: string,
+        user: AuthenticatedUser,
+        context = '',
+        history = '',
+    ): Promise<ToolLoopResult> {
+        const maxSteps = Number(this.configService.get('AGENT_MAX_TOOL_STEPS') ?? 5);
+        const definitions = this.tools.definitions();
+        const trace: ToolTraceEntry[] = [];
+        const evidence: string[] = context ? [context] : [];
+        const messages: LLMMessage[] = [{
+            role: 'user',
+            content: [`QUESTION: ${question}`, history, context].filter(Boolean).join('\n\n'),
+        }];
+
+        let answer: LLMAnalysisResult | undefined;
+        let step = 0;
+
+        try {
+            while (!answer) {
+                step += 1;
+                const closing = step > maxSteps;
+                const response = await this.llmProvider.chat({
+                    system: closing ? systemPrompt + STEP_LIMIT_NOTICE : systemPrompt,
+                    messages,
+                    tools: definitions,
+                    toolChoice: closing ? 'none' : 'auto',
+                });
+
+                if (response.toolCalls.length === 0 || closing) {
+                    if (!response.text.trim()) {
+                        throw new Error('LLM returned neither tool calls nor an answer');
+                    }
+                    answer = parseAnalysisResult(response.text, this.logger);
+                    break;
+                }
+
+                messages.push({ role: 'assistant', content: response.text || undefined, toolCalls: response.toolCalls });
+
+                const executed = await Promise.all(response.toolCalls.map((call, i) => {
+                    if (i < MAX_CALLS_PER_STEP) return this.tools.execute(call, step, user);
+
+                    const error = `Call limit reached: at most ${MAX_CALLS_PER_STEP} tool calls per step`;
+                    return {
+                        result: { callId: call.id, name: call.name, content: JSON.stringify({ error }) },
+                        trace: {
+                            step,
+                            tool: call.name,
+                            arguments: call.arguments,
+                            status: 'rejected' as const,
+                            error,
+                            record_ids: [],
+                            duration_ms: 0,
+                        },
+                    };
+                }));
+
+                messages.push({ role: 'tool', results: executed.map((e) => e.result) });
+                for (const { result, trace: entry } of executed) {
+                    trace.push(entry);
+                    if (entry.status === 'ok') evidence.push(`[${result.name}] ${result.content}`);
+                }
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new ToolLoopError(message, trace);
+        }
+
+        this.logger.log({
+            msg: 'Tool loop completed',
+            steps: step,
+            toolCalls: trace.length,
+            rejected: trace.filter((entry) => entry.status !== 'ok').length,
+        });
+
+        return {
+            answer,
+            trace,
+            evidence: evidence.join('\n'),
+            steps: step,
+            records: { members: this.countRecords(trace, 'members'), locations: this.countRecords(trace, 'locations') },
+        };
+    }
+
+    private countRecords(trace: ToolTraceEntry[], vertical: RetrievalVertical): number {
+        return new Set(
+            trace.filter((entry) => this.tools.verticalOf(entry.tool) === vertical).flatMap((entry) => entry.record_ids),
+        ).size;
+    }
+}
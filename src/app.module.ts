@@ -12,6 +12,7 @@ import { SharedAuthModule } from './shared/auth';
 import { MembershipModule } from './membership';
 import { LocationsModule } from './locations';
 import { AgentModule } from './agent';
+import { SearchModule } from './search';
 import { LocationEntity } from './locations/entities';
 import { LoggerModule } from 'nestjs-pino';
 import { PrometheusModule } from '@willsoto/nestjs-prometheus';
@@ -90,6 +91,7 @@ import { PrometheusModule } from '@willsoto/nestjs-prometheus';
         // Feature modules
         MembershipModule,
         LocationsModule,
+        SearchModule,
         AgentModule,
     ],
 })
@@ -20,6 +20,8 @@ const envSchema = z.object({
     POSTGRES_USER: z.string().default('postgres'),
     POSTGRES_PASSWORD: z.string().default('postgres'),
     POSTGRES_DB: z.string().default('locations'),
+    // Locations delta sync schedule; 0 disables it
+    LOCATIONS_SYNC_INTERVAL_MS: z.string().transform(Number).default('60000'),
 
     // Auth
     JWT_ISSUER: z.string(),
@@ -29,6 +31,11 @@ const envSchema = z.object({
     LLM_PROVIDER: z.enum(['gemini', 'bedrock']).default('gemini'),
     GEMINI_API_KEY: z.string().optional(),
     BEDROCK_MODEL_ID: z.string().default('anthropic.claude-3-sonnet-20240229-v1:0'),
+    AGENT_CONTEXT_BUDGET_CHARS: z.string().transform(Number).default('8000'),
+    AGENT_MAX_TOOL_STEPS: z.string().transform(Number).default('5'),
+    // Conversations expire this long after their last turn
+    AGENT_CONVERSATION_TTL_HOURS: z.string().transform(Number).default('24'),
+    AGENT_HISTORY_BUDGET_CHARS: z.string().transform(Number).default('2000'),
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
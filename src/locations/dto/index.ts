@@ -2,5 +2,8 @@
  * @fileoverview Locations DTOs Barrel Export
  */
 
-// DTOs will be added here as needed
-export { };
+export * from './location-search-response.dto';
+export * from './location-suggest-response.dto';
+export * from './location-timeline.dto';
+export * from './location-write.dto';
+export * from './payout-estimate.dto';
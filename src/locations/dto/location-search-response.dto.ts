@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Location Search Response DTO
+ *
+ * Paginated response envelope for location search.
+ */
+
+import { FacetResults } from '../../shared/facets';
+import { HighlightFragments } from '../../shared/highlight';
+import { LocationIndexDocument } from '../interfaces';
+
+/**
+ * Location search hit, with matched fragments when highlight=true.
+ */
+export type LocationSearchResultItem = LocationIndexDocument & { highlights?: HighlightFragments };
+
+/**
+ * Paginated location search response.
+ *
+ * @remarks
+ * Mirrors the membership SearchResponseDto so both verticals page the same way.
+ */
+export class LocationSearchResponseDto {
+    /** Results for the current page */
+    results: LocationSearchResultItem[];
+
+    /** Total matching locations across all pages */
+    total: number;
+
+    /** Opaque cursor for the next page, absent on the last page */
+    nextCursor?: string;
+
+    /** Relative link to the next page, absent on the last page */
+    next?: string;
+
+    /** Terms aggregation counts, present only when facets were requested */
+    facets?: FacetResults;
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Location Suggest Response DTO
+ *
+ * Response DTO for location name type-ahead suggestions.
+ */
+
+/**
+ * Type-ahead suggestion for a location.
+ */
+export interface LocationSuggestion {
+    location_id: string;
+    name: string;
+}
+
+/**
+ * Location suggestions in relevance order.
+ */
+export class LocationSuggestResponseDto {
+    suggestions: LocationSuggestion[];
+}
@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Location Timeline DTO
+ *
+ * Response for GET /locations/:id/timeline.
+ */
+
+import { LocationStatusEvent } from '../interfaces';
+
+/**
+ * A location's full status event history.
+ */
+export class LocationTimelineDto {
+    location_id: string;
+    name: string;
+
+    /** Every status event, newest first */
+    events: LocationStatusEvent[];
+}
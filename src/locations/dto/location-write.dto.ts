@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Location Write DTOs
+ *
+ * Request bodies for the admin create/replace/patch endpoints. Every JSONB
+ * section is validated field by field, so malformed sections are rejected
+ * with 400 before they reach PostgreSQL or the index.
+ */
+
+import { Type } from 'class-transformer';
+import {
+    IsArray,
+    IsBoolean,
+    IsDefined,
+    IsIn,
+    IsInt,
+    IsISO8601,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Matches,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { RateModel } from '../interfaces';
+
+/** Rate models accepted in contract_logic */
+export const RATE_MODELS: RateModel[] = [
+    'standard',
+    'per_participant',
+    'conversion_rate',
+    'new_enrollee',
+    'admin_enrollee',
+];
+
+/** 24-hour `HH:MM` */
+const HOUR_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/* -------------------------------------------------------------------------- */
+/*                              Sections                                       */
+/* -------------------------------------------------------------------------- */
+
+export class LocationMetadataDto {
+    @ApiProperty({ example: 'Downtown Fitness' })
+    @IsString()
+    @IsNotEmpty()
+    name: string;
+
+    @ApiProperty({ example: 'Southeast' })
+    @IsString()
+    @IsNotEmpty()
+    region: string;
+
+    @ApiProperty({ example: 'Premium' })
+    @IsString()
+    @IsNotEmpty()
+    market_segment: string;
+}
+
+export class LocationStaffingDto {
+    @ApiProperty({ example: 'COORD_001' })
+    @IsString()
+    @IsNotEmpty()
+    coordinator_id: string;
+
+    @ApiProperty({ example: 'Jordan Lee' })
+    @IsString()
+    @IsNotEmpty()
+    coordinator_name: string;
+
+    @ApiProperty({ example: 420 })
+    @IsInt()
+    @Min(0)
+    coordinator_tenure_days: number;
+
+    @ApiProperty({ example: '2024-01-15', description: 'ISO 8601 date' })
+    @IsISO8601()
+    last_manager_change_date: string;
+
+    @ApiProperty({ example: 'rcm/southeast/downtown' })
+    @IsString()
+    @IsNotEmpty()
+    org_path: string;
+}
+
+export class LocationContractLogicDto {
+    @ApiProperty({ enum: RATE_MODELS })
+    @IsIn(RATE_MODELS)
+    rate_model: RateModel;
+
+    @ApiProperty({ example: 15 })
+    @IsNumber()
+    @Min(0)
+    base_rate: number;
+
+    @ApiProperty()
+    @IsBoolean()
+    conversion_bonus_enabled: boolean;
+
+    @ApiPropertyOptional({ example: 25 })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    initial_participant_bonus?: number;
+
+    @ApiPropertyOptional({ example: 'SPRING24' })
+    @IsOptional()
+    @IsString()
+    current_promo_code?: string;
+}
+
+export class LocationOperationalRulesDto {
+    @ApiProperty({ example: '06:00', description: '24-hour HH:MM' })
+    @Matches(HOUR_PATTERN, { message: 'opening_hour must be HH:MM (24-hour)' })
+    opening_hour: string;
+
+    @ApiProperty({ example: '22:00', description: '24-hour HH:MM' })
+    @Matches(HOUR_PATTERN, { message: 'closing_hour must be HH:MM (24-hour)' })
+    closing_hour: string;
+
+    @ApiProperty()
+    @IsBoolean()
+    is_24_7: boolean;
+
+    @ApiProperty({ example: 200 })
+    @IsInt()
+    @Min(1)
+    max_capacity: number;
+
+    @ApiProperty({ example: 'Members may bring one guest per visit' })
+    @IsString()
+    guest_policy: string;
+}
+
+export class LocationStatusEventDto {
+    @ApiProperty({ example: '2024-06-01', description: 'ISO 8601 date' })
+    @IsISO8601()
+    date: string;
+
+    @ApiProperty({ example: 'manager_change' })
+    @IsString()
+    @IsNotEmpty()
+    event: string;
+
+    @ApiProperty({ example: 'New coordinator assigned' })
+    @IsString()
+    detail: string;
+}
+
+/* ---- Partial sections for PATCH ---- */
+
+export class LocationMetadataPatchDto extends PartialType(LocationMetadataDto) { }
+export class LocationStaffingPatchDto extends PartialType(LocationStaffingDto) { }
+export class LocationContractLogicPatchDto extends PartialType(LocationContractLogicDto) { }
+export class LocationOperationalRulesPatchDto extends PartialType(LocationOperationalRulesDto) { }
+
+/* -------------------------------------------------------------------------- */
+/*                              Request Bodies                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Full location body, used to replace a location (PUT).
+ */
+export class ReplaceLocationDto {
+    @ApiProperty({ type: LocationMetadataDto })
+    @IsDefined()
+    @ValidateNested()
+    @Type(() => LocationMetadataDto)
+    metadata: LocationMetadataDto;
+
+    @ApiProperty({ type: LocationStaffingDto })
+    @IsDefined()
+    @ValidateNested()
+    @Type(() => LocationStaffingDto)
+    staffing: LocationStaffingDto;
+
+    @ApiProperty({ type: LocationContractLogicDto })
+    @IsDefined()
+    @ValidateNested()
+    @Type(() => LocationContractLogicDto)
+    contract_logic: LocationContractLogicDto;
+
+    @ApiProperty({ type: LocationOperationalRulesDto })
+    @IsDefined()
+    @ValidateNested()
+    @Type(() => LocationOperationalRulesDto)
+    operational_rules: LocationOperationalRulesDto;
+
+    @ApiPropertyOptional({ type: [LocationStatusEventDto], description: 'Newest first; default []' })
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => LocationStatusEventDto)
+    status_events?: LocationStatusEventDto[];
+}
+
+/**
+ * Body for creating a location (POST).
+ */
+export class CreateLocationDto extends ReplaceLocationDto {
+    @ApiProperty({ example: 'GYM_200' })
+    @Matches(/^[A-Za-z0-9_-]+$/, { message: 'location_id may only contain letters, digits, _ and -' })
+    @MaxLength(50)
+    location_id: string;
+}
+
+/**
+ * Partial section updates (PATCH). Each section given is merged field by
+ * field into the stored one; status_events, when given, replaces the list.
+ */
+export class PatchLocationDto {
+    @ApiPropertyOptional({ type: LocationMetadataPatchDto })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => LocationMetadataPatchDto)
+    metadata?: LocationMetadataPatchDto;
+
+    @ApiPropertyOptional({ type: LocationStaffingPatchDto })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => LocationStaffingPatchDto)
+    staffing?: LocationStaffingPatchDto;
+
+    @ApiPropertyOptional({ type: LocationContractLogicPatchDto })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => LocationContractLogicPatchDto)
+    contract_logic?: LocationContractLogicPatchDto;
+
+    @ApiPropertyOptional({ type: LocationOperationalRulesPatchDto })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => LocationOperationalRulesPatchDto)
+    operational_rules?: LocationOperationalRulesPatchDto;
+
+    @ApiPropertyOptional({ type: [LocationStatusEventDto] })
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => LocationStatusEventDto)
+    status_events?: LocationStatusEventDto[];
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Payout Estimate DTOs
+ *
+ * Request body for POST /locations/:id/payout-estimate.
+ */
+
+import { Type } from 'class-transformer';
+import { IsDefined, IsInt, IsISO8601, IsOptional, Min, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MemberActivityDto {
+    @ApiProperty({ example: 12, description: 'New member enrollments' })
+    @IsInt()
+    @Min(0)
+    enrollments: number;
+
+    @ApiProperty({ example: 480, description: 'Member check-ins' })
+    @IsInt()
+    @Min(0)
+    visits: number;
+
+    @ApiProperty({ example: 3, description: 'Trials converted to paid memberships' })
+    @IsInt()
+    @Min(0)
+    conversions: number;
+
+    @ApiPropertyOptional({ example: 95, description: 'Distinct members who visited; required by per_participant' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    participants?: number;
+
+    @ApiPropertyOptional({ example: 4, description: 'Enrollments processed by location staff; required by admin_enrollee' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    admin_enrollments?: number;
+}
+
+export class PayoutEstimateRequestDto {
+    @ApiProperty({ example: '2025-11-01', description: 'First day of the period (ISO 8601)' })
+    @IsISO8601()
+    period_start: string;
+
+    @ApiProperty({ example: '2025-11-30', description: 'Last day of the period (ISO 8601, inclusive)' })
+    @IsISO8601()
+    period_end: string;
+
+    @ApiProperty({ type: MemberActivityDto })
+    @IsDefined()
+    @ValidateNested()
+    @Type(() => MemberActivityDto)
+    activity: MemberActivityDto;
+}
@@ -5,7 +5,7 @@
  * Uses JSONB columns for nested structures.
  */
 
-import { Entity, PrimaryColumn, Column } from 'typeorm';
+import { Entity, PrimaryColumn, Column, Index, UpdateDateColumn, VersionColumn } from 'typeorm';
 import {
     LocationMetadata,
     LocationStaffing,
@@ -15,6 +15,7 @@ import {
 } from '../interfaces';
 
 @Entity('locations')
+@Index('idx_locations_updated_at', ['updated_at', 'location_id'])
 export class LocationEntity {
     @PrimaryColumn()
     location_id: string;
@@ -33,4 +34,18 @@ export class LocationEntity {
 
     @Column('jsonb', { default: [] })
     status_events: LocationStatusEvent[];
+
+    /**
+     * Set by TypeORM on every save; drives the delta sync. Millisecond
+     * precision so it round-trips through a JS Date exactly.
+     */
+    @UpdateDateColumn({ type: 'timestamptz', precision: 3 })
+    updated_at: Date;
+
+    /**
+     * Incremented by TypeORM on every save; admin writes must name the
+     * version they read (optimistic concurrency).
+     */
+    @VersionColumn({ default: 1 })
+    version: number;
 }
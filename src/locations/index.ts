@@ -5,6 +5,12 @@
 export * from './locations.module';
 export * from './locations.repository';
 export * from './locations-indexer.service';
+export * from './locations-delta-sync.service';
+export * from './locations-admin.service';
 export * from './locations-search.service';
+export * from './locations-payout.service';
+export * from './payout';
+export * from './locations.mappings';
+export * from './dto';
 export * from './interfaces';
 export * from './entities';
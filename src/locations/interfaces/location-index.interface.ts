@@ -4,7 +4,7 @@
  * Flattened structure for OpenSearch indexing.
  */
 
-import { RateModel } from './location.interface';
+import { LocationStatusEvent, RateModel } from './location.interface';
 
 /**
  * Denormalized location document for OpenSearch.
@@ -29,4 +29,14 @@ export interface LocationIndexDocument {
     latest_event?: string;
     latest_event_date?: string;
     latest_event_detail?: string;
+    /** Full event history (nested); served by the timeline endpoint, not search */
+    status_events?: LocationStatusEvent[];
+    /** Copy of name for search-as-you-type; excluded from API responses */
+    name_suggest?: string;
 }
+
+/**
+ * Short location summary attached to other verticals' results
+ * (e.g. member search with expand=location).
+ */
+export type LocationSummary = Pick<LocationIndexDocument, 'location_id' | 'name' | 'region' | 'market_segment' | 'rate_model'>;
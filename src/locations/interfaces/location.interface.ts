@@ -75,4 +75,10 @@ export interface Location {
     contract_logic: LocationContractLogic;
     operational_rules: LocationOperationalRules;
     status_events: LocationStatusEvent[];
+
+    /** Last write, maintained by PostgreSQL/TypeORM; absent on new records */
+    updated_at?: Date;
+
+    /** Optimistic concurrency version, incremented on every write; absent on new records */
+    version?: number;
 }
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Locations Admin Controller
+ *
+ * Admin API for editing locations. Every write updates PostgreSQL and then
+ * the `locations` index before responding.
+ *
+ * @remarks
+ * Endpoints (internal admins only):
+ * - POST   /admin/locations     - Create a location
+ * - GET    /admin/locations/:id - Read a location with its version
+ * - PUT    /admin/locations/:id - Replace every section
+ * - PATCH  /admin/locations/:id - Merge the given sections field by field
+ * - DELETE /admin/locations/:id - Delete a location
+ *
+ * Optimistic concurrency uses HTTP preconditions: reads and writes return
+ * the location's version as an `ETag`, and PUT, PATCH and DELETE require
+ * it back in `If-Match`. A missing header is refused with 428, a version
+ * that is no longer current with 412.
+ */
+
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    Headers,
+    HttpException,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    PreconditionFailedException,
+    Put,
+    Res,
+    UseGuards,
+    UsePipes,
+    ValidationPipe,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { InternalOnlyGuard, Roles, RolesGuard } from '../shared/auth';
+import { CreateLocationDto, PatchLocationDto, ReplaceLocationDto } from './dto';
+import { LocationDeleteResult, LocationsAdminService, LocationWriteResult } from './locations-admin.service';
+import { Location } from './interfaces';
+
+/* -------------------------------------------------------------------------- */
+/*                              Helpers                                        */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Reads the version from an `If-Match` header (`"3"`, `W/"3"` or `3`).
+ *
+ * @throws HttpException (428) if the header is missing
+ * @throws PreconditionFailedException (412) if it is not a version
+ */
+export function parseIfMatch(header: string | undefined): number {
+    if (!header) {
+        throw new HttpException(
+            'If-Match with the location version (its ETag) is required',
+            HttpStatus.PRECONDITION_REQUIRED,
+        );
+    }
+
+    const value = header.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+    if (!/^\d+$/.test(value)) {
+        throw new PreconditionFailedException(`If-Match ${header} is not a location version`);
+    }
+    return parseInt(value, 10);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Controller Implementation                      */
+/* -------------------------------------------------------------------------- */
+
+@ApiTags('admin')
+@ApiBearerAuth()
+@Controller('admin/locations')
+@UseGuards(AuthGuard('jwt'), RolesGuard, InternalOnlyGuard)
+@Roles('admin')
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }))
+export class LocationsAdminController {
+    constructor(private adminService: LocationsAdminService) { }
+
+    /**
+     * Creates a location and indexes it.
+     *
+     * @throws ConflictException (409) if the location ID is taken
+     */
+    @Post()
+    @ApiOperation({ summary: 'Create a location' })
+    async create(
+        @Body() dto: CreateLocationDto,
+        @Res({ passthrough: true }) res: Response,
+    ): Promise<LocationWriteResult> {
+        return this.withETag(res, await this.adminService.create(dto));
+    }
+
+    /**
+     * Reads a location from PostgreSQL; its ETag is the version to send back
+     * in If-Match.
+     *
+     * @throws NotFoundException (404) if the location does not exist
+     */
+    @Get(':id')
+    @ApiOperation({ summary: 'Read a location with its version' })
+    async get(
+        @Param('id') id: string,
+        @Res({ passthrough: true }) res: Response,
+    ): Promise<Location> {
+        const location = await this.adminService.get(id);
+        res.setHeader('ETag', `"${location.version}"`);
+        return location;
+    }
+
+    /**
+     * Replaces every section of a location.
+     *
+     * @throws PreconditionFailedException (412) if If-Match is not the current version
+     */
+    @Put(':id')
+    @ApiOperation({ summary: 'Replace a location' })
+    @ApiHeader({ name: 'If-Match', description: 'ETag of the version being replaced', required: true })
+    async replace(
+        @Param('id') id: string,
+        @Body() dto: ReplaceLocationDto,
+        @Headers('if-match') ifMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response,
+    ): Promise<LocationWriteResult> {
+        return this.withETag(res, await this.adminService.replace(id, dto, parseIfMatch(ifMatch)));
+    }
+
+    /**
+     * Merges the given sections into a location.
+     *
+     * @throws PreconditionFailedException (412) if If-Match is not the current version
+     * @throws UnprocessableEntityException (422) if the merged location is invalid
+     */
+    @Patch(':id')
+    @ApiOperation({ summary: 'Update parts of a location' })
+    @ApiHeader({ name: 'If-Match', description: 'ETag of the version being updated', required: true })
+    async patch(
+        @Param('id') id: string,
+        @Body() dto: PatchLocationDto,
+        @Headers('if-match') ifMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response,
+    ): Promise<LocationWriteResult> {
+        return this.withETag(res, await this.adminService.patch(id, dto, parseIfMatch(ifMatch)));
+    }
+
+    /**
+     * Deletes a location and removes it from the index.
+     *
+     * @throws PreconditionFailedException (412) if If-Match is not the current version
+     */
+    @Delete(':id')
+    @ApiOperation({ summary: 'Delete a location' })
+    @ApiHeader({ name: 'If-Match', description: 'ETag of the version being deleted', required: true })
+    async remove(
+        @Param('id') id: string,
+        @Headers('if-match') ifMatch: string | undefined,
+    ): Promise<LocationDeleteResult> {
+        return this.adminService.remove(id, parseIfMatch(ifMatch));
+    }
+
+    /* ---- Helpers ---- */
+
+    private withETag(res: Response, result: LocationWriteResult): LocationWriteResult {
+        res.setHeader('ETag', `"${result.location.version}"`);
+        return result;
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Locations Admin Service Tests
+ */
+
+import {
+    ConflictException,
+    NotFoundException,
+    PreconditionFailedException,
+    UnprocessableEntityException,
+} from '@nestjs/common';
+import { LocationsAdminService } from './locations-admin.service';
+import { parseIfMatch } from './locations-admin.controller';
+import { Location } from './interfaces';
+
+describe('LocationsAdminService', () => {
+    let service: LocationsAdminService;
+    let repository: any;
+    let indexer: any;
+    let quarantine: any;
+    let stored: Map<string, Location>;
+
+    const location = (overrides: Partial<Location> = {}): Location => ({
+        location_id: 'GYM_200',
+        metadata: { name: 'Downtown Fitness', region: 'Southeast', market_segment: 'Premium' },
+        staffing: {
+            coordinator_id: 'COORD_001',
+            coordinator_name: 'Jordan Lee',
+            coordinator_tenure_days: 420,
+            last_manager_change_date: '2024-01-15',
+            org_path: 'rcm/southeast/downtown',
+        },
+        contract_logic: { rate_model: 'standard', base_rate: 15, conversion_bonus_enabled: false },
+        operational_rules: {
+            opening_hour: '06:00',
+            closing_hour: '22:00',
+            is_24_7: false,
+            max_capacity: 200,
+            guest_policy: 'One guest per visit',
+        },
+        status_events: [],
+        version: 1,
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        stored = new Map();
+        repository = {
+            findById: jest.fn(async (id: string) => stored.get(id) ?? null),
+            insert: jest.fn(async (loc: Location) => {
+                if (stored.has(loc.location_id)) return null;
+                stored.set(loc.location_id, { ...loc, version: 1 });
+                return stored.get(loc.location_id);
+            }),
+            updateIfVersion: jest.fn(async (id: string, version: number, changes: object) => {
+                const current = stored.get(id);
+                if (!current || current.version !== version) return false;
+                stored.set(id, { ...current, ...changes, version: version + 1 });
+                return true;
+            }),
+            deleteIfVersion: jest.fn(async (id: string, version: number) => {
+                if (stored.get(id)?.version !== version) return false;
+                return stored.delete(id);
+            }),
+        };
+        indexer = {
+            indexLocation: jest.fn().mockResolvedValue(undefined),
+            deleteLocation: jest.fn().mockResolvedValue(undefined),
+        };
+        quarantine = { quarantine: jest.fn().mockResolvedValue(undefined) };
+
+        service = new LocationsAdminService(repository, indexer, quarantine);
+    });
+
+    describe('create', () => {
+        it('should store and index a new location', async () => {
+            const result = await service.create(location() as any);
+
+            expect(result).toEqual({ location: expect.objectContaining({ version: 1 }), indexed: true });
+            expect(indexer.indexLocation).toHaveBeenCalledWith(expect.objectContaining({ location_id: 'GYM_200' }));
+        });
+
+        it('should refuse an ID that is taken', async () => {
+            stored.set('GYM_200', location());
+
+            await expect(service.create(location() as any)).rejects.toBeInstanceOf(ConflictException);
+            expect(indexer.indexLocation).not.toHaveBeenCalled();
+        });
+
+        it('should keep the write and quarantine the location when indexing fails', async () => {
+            indexer.indexLocation.mockRejectedValueOnce(new Error('cluster unavailable'));
+
+            const result = await service.create(location() as any);
+
+            expect(result.indexed).toBe(false);
+            expect(stored.has('GYM_200')).toBe(true);
+            expect(quarantine.quarantine).toHaveBeenCalledWith('locations', [expect.objectContaining({
+                recordId: 'GYM_200',
+                reason: 'indexing',
+                errors: ['cluster unavailable'],
+            })]);
+        });
+    });
+
+    describe('replace', () => {
+        beforeEach(() => stored.set('GYM_200', location()));
+
+        it('should write the new sections, bump the version and reindex', async () => {
+            const { location_id: _, version: __, ...body } = location({
+                metadata: { name: 'Uptown Fitness', region: 'Southeast', market_segment: 'Premium' },
+            });
+
+            const result = await service.replace('GYM_200', body as any, 1);
+
+            expect(result.location.version).toBe(2);
+            expect(result.location.metadata.name).toBe('Uptown Fitness');
+            expect(indexer.indexLocation).toHaveBeenCalledWith(result.location);
+        });
+
+        it('should refuse a write based on a stale version', async () => {
+            await expect(service.replace('GYM_200', location() as any, 0))
+                .rejects.toBeInstanceOf(PreconditionFailedException);
+            expect(indexer.indexLocation).not.toHaveBeenCalled();
+        });
+
+        it('should 404 for unknown locations', async () => {
+            await expect(service.replace('GYM_404', location() as any, 1))
+                .rejects.toBeInstanceOf(NotFoundException);
+        });
+    });
+
+    describe('patch', () => {
+        beforeEach(() => stored.set('GYM_200', location()));
+
+        it('should merge the given fields into their sections', async () => {
+            const result = await service.patch('GYM_200', { contract_logic: { base_rate: 20 } }, 1);
+
+            expect(result.location.contract_logic).toEqual({
+                rate_model: 'standard',
+                base_rate: 20,
+                conversion_bonus_enabled: false,
+            });
+            expect(result.location.metadata.name).toBe('Downtown Fitness');
+        });
+
+        it('should refuse a patch that leaves the location invalid', async () => {
+            await expect(service.patch('GYM_200', { metadata: { name: null as any } }, 1))
+                .rejects.toBeInstanceOf(UnprocessableEntityException);
+            expect(repository.updateIfVersion).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a patch based on a stale version', async () => {
+            await expect(service.patch('GYM_200', { metadata: { name: 'Uptown' } }, 3))
+                .rejects.toBeInstanceOf(PreconditionFailedException);
+        });
+
+        it('should lose to a write that lands between its read and its update', async () => {
+            repository.updateIfVersion.mockImplementationOnce(async () => {
+                stored.set('GYM_200', location({ version: 2 }));
+                return false;
+            });
+
+            await expect(service.patch('GYM_200', { metadata: { name: 'Uptown' } }, 1))
+                .rejects.toBeInstanceOf(PreconditionFailedException);
+        });
+    });
+
+    describe('remove', () => {
+        beforeEach(() => stored.set('GYM_200', location()));
+
+        it('should delete the row and the index document', async () => {
+            await expect(service.remove('GYM_200', 1)).resolves.toEqual({ location_id: 'GYM_200', indexed: true });
+            expect(indexer.deleteLocation).toHaveBeenCalledWith('GYM_200');
+        });
+
+        it('should refuse a delete based on a stale version', async () => {
+            await expect(service.remove('GYM_200', 2)).rejects.toBeInstanceOf(PreconditionFailedException);
+            expect(stored.has('GYM_200')).toBe(true);
+        });
+    });
+});
+
+describe('parseIfMatch', () => {
+    it('should accept strong, weak and bare versions', () => {
+        expect(parseIfMatch('"3"')).toBe(3);
+        expect(parseIfMatch('W/"3"')).toBe(3);
+        expect(parseIfMatch('3')).toBe(3);
+    });
+
+    it('should require the header', () => {
+        expect(() => parseIfMatch(undefined)).toThrow(expect.objectContaining({ status: 428 }));
+    });
+
+    it('should refuse anything that is not a version', () => {
+        expect(() => parseIfMatch('*')).toThrow(PreconditionFailedException);
+    });
+});
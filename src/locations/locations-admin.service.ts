@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Locations Admin Service
+ *
+ * Create, replace, patch and delete locations in PostgreSQL, keeping the
+ * `locations` index in step with every write.
+ *
+ * @remarks
+ * Optimistic concurrency: every location carries a `version` that each
+ * write increments. Updates and deletes name the version they were based
+ * on and are refused with 412 if the location has moved on, so two admins
+ * editing the same location cannot silently overwrite each other.
+ *
+ * The index is updated synchronously after the row is committed. If that
+ * fails the write still stands: the location is quarantined and the
+ * response reports `indexed: false`. The delta sync also picks the row up
+ * on its next run, since the write moved its `updated_at`.
+ */
+
+import {
+    ConflictException,
+    Injectable,
+    Logger,
+    NotFoundException,
+    PreconditionFailedException,
+    UnprocessableEntityException,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { QuarantineService } from '../shared/quarantine';
+import { CreateLocationDto, PatchLocationDto, ReplaceLocationDto } from './dto';
+import { LocationsIndexerService } from './locations-indexer.service';
+import { LocationChanges, LocationsRepository } from './locations.repository';
+import { Location } from './interfaces';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Outcome of an admin write.
+ */
+export interface LocationWriteResult {
+    /** The location as stored, with its new version */
+    location: Location;
+
+    /** Whether the index was updated; false means it was quarantined */
+    indexed: boolean;
+}
+
+/**
+ * Outcome of an admin delete.
+ */
+export interface LocationDeleteResult {
+    location_id: string;
+
+    /** Whether the document was removed from the index */
+    indexed: boolean;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class LocationsAdminService {
+    private readonly logger = new Logger(LocationsAdminService.name);
+
+    constructor(
+        private locationsRepository: LocationsRepository,
+        private indexerService: LocationsIndexerService,
+        private quarantineService: QuarantineService,
+    ) { }
+
+    /**
+     * Reads a location from PostgreSQL, with its current version.
+     *
+     * @throws NotFoundException if the location does not exist
+     */
+    async get(locationId: string): Promise<Location> {
+        const location = await this.locationsRepository.findById(locationId);
+        if (!location) {
+            throw new NotFoundException(`Location ${locationId} not found`);
+        }
+        return location;
+    }
+
+    /**
+     * Creates a location and indexes it.
+     *
+     * @throws ConflictException if the location ID is taken
+     */
+    async create(dto: CreateLocationDto): Promise<LocationWriteResult> {
+        const location = await this.locationsRepository.insert({
+            location_id: dto.location_id,
+            ...this.toChanges(dto),
+        });
+        if (!location) {
+            throw new ConflictException(`Location ${dto.location_id} already exists`);
+        }
+
+        this.logger.log({ msg: 'Location created', location_id: location.location_id });
+        return { location, indexed: await this.reindex(location) };
+    }
+
+    /**
+     * Replaces every section of a location.
+     *
+     * @param version - Version the replacement was based on
+     * @throws NotFoundException if the location does not exist
+     * @throws PreconditionFailedException if the location is no longer at `version`
+     */
+    async replace(locationId: string, dto: ReplaceLocationDto, version: number): Promise<LocationWriteResult> {
+        return this.update(locationId, version, this.toChanges(dto));
+    }
+
+    /**
+     * Merges the given sections into a location, field by field.
+     *
+     * @param version - Version the patch was based on
+     * @throws NotFoundException if the location does not exist
+     * @throws PreconditionFailedException if the location is no longer at `version`
+     * @throws UnprocessableEntityException if the merged location is invalid
+     *         (e.g. a required field patched to null)
+     */
+    async patch(locationId: string, dto: PatchLocationDto, version: number): Promise<LocationWriteResult> {
+        const current = await this.get(locationId);
+        this.assertVersion(current, version);
+
+        const merged = {
+            metadata: { ...current.metadata, ...dto.metadata },
+            staffing: { ...current.staffing, ...dto.staffing },
+            contract_logic: { ...current.contract_logic, ...dto.contract_logic },
+            operational_rules: { ...current.operational_rules, ...dto.operational_rules },
+            status_events: dto.status_events ?? current.status_events,
+        };
+
+        const errors = await validate(plainToInstance(ReplaceLocationDto, merged));
+        if (errors.length > 0) {
+            throw new UnprocessableEntityException({
+                message: 'Patched location is invalid',
+                errors: errors.flatMap((e) => this.describe(e)),
+            });
+        }
+
+        // Still conditional: another write may land between the read and this update
+        return this.update(locationId, version, this.toChanges(merged));
+    }
+
+    /**
+     * Deletes a location and removes it from the index.
+     *
+     * @param version - Version the delete was based on
+     * @throws NotFoundException if the location does not exist
+     * @throws PreconditionFailedException if the location is no longer at `version`
+     */
+    async remove(locationId: string, version: number): Promise<LocationDeleteResult> {
+        if (!await this.locationsRepository.deleteIfVersion(locationId, version)) {
+            await this.refuse(locationId, version);
+        }
+        this.logger.log({ msg: 'Location deleted', location_id: locationId });
+
+        try {
+            await this.indexerService.deleteLocation(locationId);
+            return { location_id: locationId, indexed: true };
+        } catch {
+            // Nothing left in PostgreSQL to quarantine; the next full reindex sweeps the orphan
+            return { location_id: locationId, indexed: false };
+        }
+    }
+
+    /* ---- Helpers ---- */
+
+    private async update(locationId: string, version: number, changes: LocationChanges): Promise<LocationWriteResult> {
+        if (!await this.locationsRepository.updateIfVersion(locationId, version, changes)) {
+            await this.refuse(locationId, version);
+        }
+
+        const location = await this.get(locationId);
+        this.logger.log({ msg: 'Location updated', location_id: locationId, version: location.version });
+        return { location, indexed: await this.reindex(location) };
+    }
+
+    /**
+     * @throws PreconditionFailedException if the location is not at `version`
+     */
+    private assertVersion(location: Location, version: number): void {
+        if (location.version !== version) {
+            throw new PreconditionFailedException(
+                `Location ${location.location_id} is at version ${location.version}, not ${version}`,
+            );
+        }
+    }
+
+    /**
+     * Explains why a conditional write matched no row.
+     *
+     * @throws NotFoundException if the location does not exist
+     * @throws PreconditionFailedException otherwise: another write changed it first
+     */
+    private async refuse(locationId: string, version: number): Promise<never> {
+        const current = await this.get(locationId);
+        throw new PreconditionFailedException(
+            `Location ${locationId} is at version ${current.version}, not ${version}`,
+        );
+    }
+
+    /**
+     * Indexes a written location, quarantining it if OpenSearch fails.
+     *
+     * @returns Whether the index was updated
+     */
+    private async reindex(location: Location): Promise<boolean> {
+        try {
+            await this.indexerService.indexLocation(location);
+            return true;
+        } catch (error) {
+            await this.quarantineService.quarantine('locations', [{
+                recordId: location.location_id,
+                reason: 'indexing',
+                errors: [error instanceof Error ? error.message : String(error)],
+                payload: location,
+            }]);
+            return false;
+        }
+    }
+
+    /**
+     * Copies only the known sections, so DTO instances are stored as plain JSON.
+     */
+    private toChanges(body: ReplaceLocationDto): LocationChanges {
+        return JSON.parse(JSON.stringify({
+            metadata: body.metadata,
+            staffing: body.staffing,
+            contract_logic: body.contract_logic,
+            operational_rules: body.operational_rules,
+            status_events: body.status_events ?? [],
+        }));
+    }
+
+    private describe(error: ValidationError, path = ''): string[] {
+        const property = path ? `${path}.${error.property}` : error.property;
+        return [
+            ...Object.values(error.constraints ?? {}).map((message) => `${property}: ${message}`),
+            ...(error.children ?? []).flatMap((child) => this.describe(child, property)),
+        ];
+    }
+}
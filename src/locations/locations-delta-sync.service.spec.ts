@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Locations Delta Sync Service Tests
+ */
+
+import { ConflictException } from '@nestjs/common';
+import { LocationsDeltaSyncService } from './locations-delta-sync.service';
+
+describe('LocationsDeltaSyncService', () => {
+    let service: LocationsDeltaSyncService;
+    let client: any;
+    let provider: any;
+    let indexer: any;
+    let config: any;
+
+    const cursor = { updatedAt: '2024-06-01T00:00:00.000Z', locationId: 'GYM_101' };
+
+    beforeEach(() => {
+        client = {
+            get: jest.fn().mockRejectedValue({ statusCode: 404 }),
+            index: jest.fn().mockResolvedValue({ body: {} }),
+        };
+        provider = {
+            getClient: () => client,
+            ensureIndex: jest.fn().mockResolvedValue(undefined),
+        };
+        indexer = {
+            indexChanges: jest.fn(async (_after, options) => {
+                const result = { processed: 1, success: 1, failed: 0, cursor };
+                await options.onPage(result);
+                return result;
+            }),
+        };
+        config = { get: jest.fn().mockReturnValue(0) };
+
+        service = new LocationsDeltaSyncService(provider, indexer, config);
+    });
+
+    afterEach(() => service.onModuleDestroy());
+
+    it('should index every change on the first run and save the checkpoint', async () => {
+        const result = await service.sync();
+
+        expect(indexer.indexChanges).toHaveBeenCalledWith(undefined, expect.objectContaining({ before: expect.any(Date) }));
+        expect(client.index).toHaveBeenCalledWith(expect.objectContaining({
+            index: 'sync_checkpoints',
+            id: 'locations',
+            body: expect.objectContaining({ cursor }),
+        }));
+        expect(result).toEqual(expect.objectContaining({ processed: 1, cursor }));
+    });
+
+    it('should continue from the stored checkpoint, leaving unsettled changes for later', async () => {
+        client.get.mockResolvedValueOnce({ body: { _source: { cursor } } });
+        const before = Date.now();
+
+        await service.sync();
+
+        const [after, options] = indexer.indexChanges.mock.calls[0];
+        expect(after).toEqual(cursor);
+        expect(options.before.getTime()).toBeLessThanOrEqual(before - 5_000);
+    });
+
+    it('should refuse to overlap a running sync', async () => {
+        let finish!: () => void;
+        indexer.indexChanges.mockImplementationOnce(() => new Promise((resolve) => {
+            finish = () => resolve({ processed: 0, success: 0, failed: 0 });
+        }));
+
+        const first = service.sync();
+        await expect(service.sync()).rejects.toBeInstanceOf(ConflictException);
+
+        await new Promise((resolve) => setImmediate(resolve));
+        finish();
+        await first;
+    });
+
+    it('should run on the configured schedule', async () => {
+        jest.useFakeTimers();
+        config.get.mockReturnValue(1000);
+
+        try {
+            service.onModuleInit();
+            jest.advanceTimersByTime(1000);
+
+            expect(client.get).toHaveBeenCalled();
+        } finally {
+            service.onModuleDestroy();
+            jest.useRealTimers();
+        }
+    });
+});
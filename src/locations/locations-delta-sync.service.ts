@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Locations Delta Sync Service
+ *
+ * Keeps the locations index current between full reindexes by indexing
+ * only the rows changed since the last run.
+ *
+ * @remarks
+ * Change tracking uses the `updated_at` column TypeORM maintains on every
+ * save. Each run reads rows after its checkpoint, an `(updated_at,
+ * location_id)` keyset position stored in the `sync_checkpoints` index, and
+ * saves the checkpoint after every page so an interrupted run continues
+ * where it stopped.
+ *
+ * Rows updated in the last SETTLE_MS are left for the next run: a
+ * transaction stamps `updated_at` when it writes but becomes visible only
+ * when it commits, and a row committed behind the checkpoint would be
+ * skipped for good. Writes that bypass TypeORM must set `updated_at`
+ * themselves.
+ *
+ * Rows that fail to index are quarantined (see QuarantineService) and the
+ * checkpoint moves past them.
+ *
+ * Deleted rows leave no change to read; they are removed by deleteLocation
+ * or by the orphan sweep of the next full reindex.
+ *
+ * Runs every LOCATIONS_SYNC_INTERVAL_MS (default 60s, 0 disables) and on
+ * demand through `POST /admin/locations/sync`. Runs never overlap within an
+ * instance; overlapping runs across instances only repeat idempotent writes.
+ */
+
+import { ConflictException, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Counter } from 'prom-client';
+import { OpenSearchProvider } from '../shared/opensearch';
+import { LocationChangesResult, LocationsIndexerService } from './locations-indexer.service';
+import { LocationChangeCursor } from './locations.repository';
+
+/* -------------------------------------------------------------------------- */
+/*                              Prometheus Metrics                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Counter for delta sync runs, labeled by outcome.
+ */
+const deltaSyncCounter = new Counter({
+    name: 'locations_delta_sync_runs_total',
+    help: 'Total number of locations delta sync runs',
+    labelNames: ['status'],
+});
+
+/**
+ * Counter for changed locations read by delta sync.
+ */
+const deltaSyncRecordsCounter = new Counter({
+    name: 'locations_delta_sync_records_total',
+    help: 'Total number of changed locations read by delta sync',
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Outcome of one delta sync run.
+ */
+export interface LocationsDeltaSyncResult extends LocationChangesResult {
+    durationMs: number;
+}
+
+/**
+ * Stored delta sync checkpoint.
+ */
+interface DeltaSyncCheckpoint {
+    /** Last change indexed; absent until the first change is indexed */
+    cursor?: LocationChangeCursor;
+
+    updated_at: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class LocationsDeltaSyncService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(LocationsDeltaSyncService.name);
+
+    /** OpenSearch index holding sync checkpoints, one document per source */
+    private readonly CHECKPOINT_INDEX = 'sync_checkpoints';
+    private readonly CHECKPOINT_ID = 'locations';
+
+    /** Changes younger than this are left for the next run */
+    private readonly SETTLE_MS = 5_000;
+
+    private readonly BATCH_SIZE = 100;
+
+    private timer?: NodeJS.Timeout;
+    private running = false;
+
+    /** Set once the checkpoint index is known to exist */
+    private indexReady = false;
+
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private indexerService: LocationsIndexerService,
+        private configService: ConfigService,
+    ) { }
+
+    onModuleInit(): void {
+        const intervalMs = Number(this.configService.get('LOCATIONS_SYNC_INTERVAL_MS') ?? 60_000);
+        if (!intervalMs) {
+            this.logger.log({ msg: 'Locations delta sync schedule disabled' });
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.sync().catch((error) => {
+                if (error instanceof ConflictException) return;
+                this.logger.error({ msg: 'Scheduled locations delta sync failed', error });
+            });
+        }, intervalMs);
+        // Never keep the process alive just for the schedule
+        this.timer.unref();
+    }
+
+    onModuleDestroy(): void {
+        clearInterval(this.timer);
+    }
+
+    /**
+     * Indexes locations changed since the last run.
+     *
+     * @returns Counts, the new checkpoint and the duration
+     * @throws ConflictException if a run is already in progress on this instance
+     */
+    async sync(): Promise<LocationsDeltaSyncResult> {
+        if (this.running) {
+            throw new ConflictException('A locations delta sync is already running');
+        }
+        this.running = true;
+        const startTime = Date.now();
+
+        try {
+            const checkpoint = await this.loadCheckpoint();
+
+            const result = await this.indexerService.indexChanges(checkpoint?.cursor, {
+                before: new Date(startTime - this.SETTLE_MS),
+                batchSize: this.BATCH_SIZE,
+                onPage: (progress) => this.saveCheckpoint(progress.cursor),
+            });
+
+            deltaSyncCounter.inc({ status: 'success' });
+            deltaSyncRecordsCounter.inc(result.processed);
+            const durationMs = Date.now() - startTime;
+
+            if (result.processed > 0) {
+                this.logger.log({ msg: 'Locations delta sync completed', ...result, durationMs });
+            }
+            return { ...result, durationMs };
+        } catch (error) {
+            deltaSyncCounter.inc({ status: 'error' });
+            throw error;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /* ---- Persistence ---- */
+
+    private async loadCheckpoint(): Promise<DeltaSyncCheckpoint | undefined> {
+        try {
+            const response = await this.opensearchProvider.getClient().get({
+                index: this.CHECKPOINT_INDEX,
+                id: this.CHECKPOINT_ID,
+            });
+            return response.body._source as DeltaSyncCheckpoint;
+        } catch (error: unknown) {
+            // First run: index everything
+            if ((error as { statusCode?: number }).statusCode === 404) return undefined;
+            throw error;
+        }
+    }
+
+    private async saveCheckpoint(cursor: LocationChangeCursor | undefined): Promise<void> {
+        if (!this.indexReady) {
+            await this.opensearchProvider.ensureIndex(this.CHECKPOINT_INDEX, {
+                properties: { updated_at: { type: 'date' }, cursor: { type: 'object', enabled: false } },
+            });
+            this.indexReady = true;
+        }
+
+        const checkpoint: DeltaSyncCheckpoint = { cursor, updated_at: new Date().toISOString() };
+        await this.opensearchProvider.getClient().index({
+            index: this.CHECKPOINT_INDEX,
+            id: this.CHECKPOINT_ID,
+            body: checkpoint,
+            refresh: true,
+        });
+    }
+}
@@ -1,35 +1,112 @@
 /**
  * @fileoverview Locations Indexer Controller
  *
- * Admin API endpoints for location index management.
+ * Admin API endpoints for location index management. Reindexes run as
+ * background jobs tracked through /admin/jobs/:id; delta syncs are small
+ * and run inline.
  */
 
-import { Controller, Post, Query, UseGuards } from '@nestjs/common';
+import { Controller, HttpCode, Post, Query, Request, UseGuards } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { LocationsIndexerService, LocationsReindexResult } from './locations-indexer.service';
-import { RolesGuard, Roles } from '../shared/auth';
+import { LOCATIONS_REINDEX_JOB, LocationsIndexerService, LocationsRollbackResult } from './locations-indexer.service';
+import { LOCATIONS_RECONCILE_JOB } from './locations-reconcile.service';
+import { LocationsDeltaSyncResult, LocationsDeltaSyncService } from './locations-delta-sync.service';
+import { AuthenticatedUser, InternalOnlyGuard, RolesGuard, Roles } from '../shared/auth';
+import { Job, JobsService } from '../shared/jobs';
 
 @Controller('admin/locations')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
 export class LocationsIndexerController {
-    constructor(private indexerService: LocationsIndexerService) { }
+    constructor(
+        private indexerService: LocationsIndexerService,
+        private jobsService: JobsService,
+        private deltaSyncService: LocationsDeltaSyncService,
+    ) { }
 
     /**
-     * Triggers full reindex of all locations from PostgreSQL.
+     * Starts a full reindex of all locations from PostgreSQL in the background.
      *
      * @param batchSize - Records per batch (default: 100, max: 1000)
-     * @returns Reindex result with counts and duration
+     * @param maxFailed - Records lost to the new index (failed and not quarantined, or
+     *                    missing) tolerated before the swap is refused (default: 0)
+     * @returns The started job; its result holds the counts and swapped indices
+     * @throws ConflictException (409) if a location reindex is already running
+     * @throws ForbiddenException (403) for external admins
      */
     @Post('reindex')
+    @HttpCode(202)
     @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
     async reindex(
         @Query('batchSize') batchSizeParam?: string,
-    ): Promise<LocationsReindexResult> {
+        @Query('maxFailed') maxFailedParam?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<Job> {
         const batchSize = Math.min(
             Math.max(parseInt(batchSizeParam || '100', 10), 1),
             1000,
         );
+        const maxFailed = Math.max(parseInt(maxFailedParam || '0', 10) || 0, 0);
 
-        return this.indexerService.reindexAll(batchSize);
+        return this.jobsService.start(LOCATIONS_REINDEX_JOB, { batchSize, maxFailed }, req!.user.userId);
+    }
+
+    /**
+     * Points the `locations` alias back at the version the last reindex replaced.
+     *
+     * @throws ConflictException (409) if no previous version is kept
+     * @throws ForbiddenException (403) for external admins
+     */
+    @Post('reindex/rollback')
+    @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
+    async rollback(): Promise<LocationsRollbackResult> {
+        return this.indexerService.rollback();
+    }
+
+    /**
+     * Indexes locations changed since the last delta sync now, without
+     * waiting for the schedule.
+     *
+     * @returns Counts and the new checkpoint
+     * @throws ConflictException (409) if a delta sync is already running
+     * @throws ForbiddenException (403) for external admins
+     */
+    @Post('sync')
+    @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
+    async sync(): Promise<LocationsDeltaSyncResult> {
+        return this.deltaSyncService.sync();
+    }
+
+    /**
+     * Starts a job comparing the locations index with PostgreSQL.
+     *
+     * @param batchSize - Records per batch (default: 100, max: 1000)
+     * @param repair - `true` to re-index missing and stale documents and
+     *                 delete orphans; otherwise drift is only reported
+     * @returns The started job; its result is the drift report
+     * @throws ConflictException (409) if a reconciliation is already running
+     *
+     * @remarks
+     * **Internal admins only**: the report lists every location, and a
+     * repair writes to the shared index. Drift counts are also exported as
+     * the `search_index_drift_documents` gauge.
+     */
+    @Post('reconcile')
+    @HttpCode(202)
+    @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
+    async reconcile(
+        @Query('batchSize') batchSizeParam?: string,
+        @Query('repair') repairParam?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<Job> {
+        const batchSize = Math.min(
+            Math.max(parseInt(batchSizeParam || '100', 10), 1),
+            1000,
+        );
+
+        return this.jobsService.start(LOCATIONS_RECONCILE_JOB, { batchSize, repair: repairParam === 'true' }, req!.user.userId);
     }
 }
@@ -8,6 +8,7 @@ describe('LocationsIndexerService', () => {
     let service: LocationsIndexerService;
     let mockOpenSearchProvider: any;
     let mockLocationsRepository: any;
+    let mockQuarantine: any;
 
     const mockLocation = {
         location_id: 'GYM_101',
@@ -45,25 +46,55 @@ describe('LocationsIndexerService', () => {
         ],
     };
 
+    const context = { checkpoint: jest.fn().mockResolvedValue(undefined) };
+
+    const reindexJob = (checkpoint = {}, progress = { processed: 0, success: 0, failed: 0 }): any => ({
+        job_id: 'job-1',
+        kind: 'locations-reindex',
+        status: 'running',
+        params: { batchSize: 100 },
+        progress,
+        checkpoint,
+    });
+
     beforeEach(() => {
+        context.checkpoint.mockClear();
         mockOpenSearchProvider = {
+            ensureIndex: jest.fn().mockResolvedValue(undefined),
+            listIndexVersions: jest.fn().mockResolvedValue([{ index: 'locations_v1', version: 1 }]),
+            getAliasIndices: jest.fn().mockResolvedValue(['locations_v1']),
+            countDocuments: jest.fn().mockResolvedValue(1),
+            swapAlias: jest.fn().mockResolvedValue('locations_v1'),
             getClient: jest.fn().mockReturnValue({
                 index: jest.fn().mockResolvedValue({ body: {} }),
                 bulk: jest.fn().mockResolvedValue({ body: { errors: false, items: [] } }),
+                delete: jest.fn().mockResolvedValue({ body: {} }),
+                search: jest.fn().mockResolvedValue({ body: { hits: { hits: [] } } }),
+                indices: {
+                    delete: jest.fn().mockResolvedValue({ body: {} }),
+                    exists: jest.fn().mockResolvedValue({ body: true }),
+                },
             }),
         };
 
         mockLocationsRepository = {
             scanPage: jest.fn().mockResolvedValue({
                 items: [mockLocation],
-                total: 1,
                 hasMore: false,
             }),
+            findChangedSince: jest.fn().mockResolvedValue({ items: [], hasMore: false }),
+            findAllIds: jest.fn().mockResolvedValue(new Set(['GYM_101'])),
+            count: jest.fn().mockResolvedValue(1),
+        };
+
+        mockQuarantine = {
+            quarantine: jest.fn(async (_vertical: string, entries: unknown[]) => entries.length),
         };
 
         service = new LocationsIndexerService(
             mockOpenSearchProvider,
             mockLocationsRepository,
+            mockQuarantine,
         );
     });
 
@@ -105,6 +136,22 @@ describe('LocationsIndexerService', () => {
 
             expect(indexCall.body.latest_event).toBe('COORDINATOR_ASSIGNED');
             expect(indexCall.body.latest_event_date).toBe('2023-11-15');
+            expect(indexCall.body.status_events).toEqual(mockLocation.status_events);
+        });
+    });
+
+    describe('deleteLocation', () => {
+        it('should delete the document by location_id', async () => {
+            await service.deleteLocation('GYM_101');
+
+            expect(mockOpenSearchProvider.getClient().delete).toHaveBeenCalledWith(
+                expect.objectContaining({ index: 'locations', id: 'GYM_101' }),
+            );
+        });
+
+        it('should treat an already-missing document as deleted', async () => {
+            mockOpenSearchProvider.getClient().delete.mockRejectedValueOnce({ statusCode: 404 });
+            await expect(service.deleteLocation('GYM_999')).resolves.toBeUndefined();
         });
     });
 
@@ -114,17 +161,146 @@ describe('LocationsIndexerService', () => {
 
             expect(result.success).toBe(2);
             expect(result.failed).toBe(0);
+            expect(mockQuarantine.quarantine).toHaveBeenCalledWith('locations', []);
+        });
+
+        it('should quarantine locations rejected by OpenSearch', async () => {
+            mockOpenSearchProvider.getClient().bulk.mockResolvedValueOnce({
+                body: {
+                    errors: true,
+                    items: [{ index: { error: { type: 'mapper_parsing_exception', reason: 'failed to parse' } } }],
+                },
+            });
+
+            const result = await service.bulkIndex([mockLocation]);
+
+            expect(result.failed).toBe(1);
+            expect(mockQuarantine.quarantine).toHaveBeenCalledWith('locations', [
+                expect.objectContaining({ recordId: mockLocation.location_id, reason: 'indexing' }),
+            ]);
         });
     });
 
-    describe('reindexAll', () => {
+    describe('run (reindex job)', () => {
         it('should reindex all locations from repository', async () => {
-            const result = await service.reindexAll(100);
+            const result = await service.run(reindexJob(), context);
 
             expect(result.total).toBe(1);
             expect(result.success).toBe(1);
             expect(result.failed).toBe(0);
             expect(result.durationMs).toBeDefined();
         });
+
+        it('should sweep locations deleted during the scan out of the new index', async () => {
+            const client = mockOpenSearchProvider.getClient();
+            client.search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        hits: [
+                            { _id: 'GYM_101', _source: { location_id: 'GYM_101' }, sort: ['GYM_101'] },
+                            { _id: 'GYM_999', _source: { location_id: 'GYM_999' }, sort: ['GYM_999'] },
+                        ],
+                    },
+                },
+            });
+
+            const result = await service.run(reindexJob(), context);
+
+            expect(result.deleted).toBe(1);
+            expect(client.search.mock.calls[0][0].index).toBe('locations_v2');
+            expect(client.bulk).toHaveBeenLastCalledWith(expect.objectContaining({
+                body: [{ delete: { _index: 'locations_v2', _id: 'GYM_999' } }],
+            }));
+        });
+
+        it('should create the next index version with explicit mappings and swap to it', async () => {
+            const result = await service.run(reindexJob(), context);
+
+            expect(result).toEqual(expect.objectContaining({ index: 'locations_v2', previousIndex: 'locations_v1' }));
+            expect(mockOpenSearchProvider.swapAlias).toHaveBeenCalledWith('locations', 'locations_v2');
+            expect(mockOpenSearchProvider.ensureIndex).toHaveBeenCalledWith(
+                'locations_v2',
+                expect.objectContaining({
+                    properties: expect.objectContaining({
+                        region: { type: 'keyword' },
+                        rate_model: { type: 'keyword' },
+                    }),
+                }),
+                {},
+            );
+        });
+
+        it('should resume after the checkpointed location_id', async () => {
+            const startedAt = '2024-06-01T00:00:00.000Z';
+            mockOpenSearchProvider.countDocuments.mockResolvedValueOnce(201);
+
+            const result = await service.run(
+                reindexJob(
+                    { index: 'locations_v2', startedAt, afterId: 'GYM_100' },
+                    { processed: 200, success: 200, failed: 0 },
+                ),
+                context,
+            );
+
+            expect(mockLocationsRepository.scanPage).toHaveBeenCalledWith(100, 'GYM_100');
+            expect(context.checkpoint).toHaveBeenCalledWith(
+                { processed: 201, success: 201, failed: 0 },
+                { index: 'locations_v2', startedAt, afterId: 'GYM_101', quarantined: 0, loaded: true },
+            );
+            expect(result.total).toBe(201);
+        });
+
+        it('should index rows changed during the scan into the new index before the swap', async () => {
+            const changed = { ...mockLocation, location_id: 'GYM_102', updated_at: new Date('2024-06-01T00:00:01Z') };
+            mockLocationsRepository.findChangedSince.mockResolvedValueOnce({ items: [changed], hasMore: false });
+            mockOpenSearchProvider.countDocuments.mockResolvedValueOnce(1);
+
+            await service.run(reindexJob({ index: 'locations_v2', startedAt: '2024-06-01T00:00:00.000Z' }), context);
+
+            expect(mockLocationsRepository.findChangedSince).toHaveBeenCalledWith(
+                { updatedAt: '2024-06-01T00:00:00.000Z', locationId: '' },
+                expect.any(Date),
+                100,
+            );
+            expect(mockOpenSearchProvider.getClient().bulk).toHaveBeenCalledWith(expect.objectContaining({
+                body: expect.arrayContaining([{ index: { _index: 'locations_v2', _id: 'GYM_102' } }]),
+            }));
+        });
+    });
+
+    describe('indexChanges', () => {
+        it('should page through changes and advance the cursor past each page', async () => {
+            const at = (id: string, time: string) => ({ ...mockLocation, location_id: id, updated_at: new Date(time) });
+            mockLocationsRepository.findChangedSince
+                .mockResolvedValueOnce({ items: [at('GYM_101', '2024-06-01T00:00:00Z')], hasMore: true })
+                .mockResolvedValueOnce({ items: [at('GYM_102', '2024-06-02T00:00:00Z')], hasMore: false });
+            const onPage = jest.fn().mockResolvedValue(undefined);
+            const before = new Date('2024-07-01T00:00:00Z');
+
+            const result = await service.indexChanges(undefined, { before, batchSize: 1, onPage });
+
+            expect(mockLocationsRepository.findChangedSince).toHaveBeenNthCalledWith(
+                2,
+                { updatedAt: '2024-06-01T00:00:00.000Z', locationId: 'GYM_101' },
+                before,
+                1,
+            );
+            expect(result).toEqual({
+                processed: 2,
+                success: 2,
+                failed: 0,
+                cursor: { updatedAt: '2024-06-02T00:00:00.000Z', locationId: 'GYM_102' },
+            });
+            expect(onPage).toHaveBeenCalledTimes(2);
+        });
+
+        it('should keep the cursor when nothing changed', async () => {
+            const cursor = { updatedAt: '2024-06-01T00:00:00.000Z', locationId: 'GYM_101' };
+
+            const result = await service.indexChanges(cursor, { before: new Date() });
+
+            expect(result).toEqual({ processed: 0, success: 0, failed: 0, cursor });
+            expect(mockOpenSearchProvider.getClient().bulk).not.toHaveBeenCalled();
+        });
     });
 });
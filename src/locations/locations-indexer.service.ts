@@ -2,11 +2,28 @@
  * @fileoverview Locations Indexer Service
  *
  * Transforms and indexes location data from PostgreSQL to OpenSearch.
+ *
+ * @remarks
+ * Rows deleted in PostgreSQL are removed from the index immediately via
+ * deleteLocation; a full reindex also sweeps rows deleted during its scan
+ * out of the new index before it goes live.
+ *
+ * `locations` is an alias; a full reindex loads `locations_v<n>` and swaps
+ * the alias to it, keeping the replaced version for rollback.
+ *
+ * Between reindexes, LocationsDeltaSyncService keeps the index current by
+ * indexing rows whose `updated_at` moved past its checkpoint (indexChanges).
+ *
+ * Locations rejected by OpenSearch during a bulk index are quarantined and
+ * can be replayed from PostgreSQL (see QuarantineService).
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { OpenSearchProvider } from '../shared/opensearch';
-import { LocationsRepository, LocationScanPage } from './locations.repository';
+import { blueGreenReindex, OpenSearchProvider, rollbackAlias, sweepOrphans } from '../shared/opensearch';
+import { Job, JobCancelledError, JobContext, JobRunner } from '../shared/jobs';
+import { QuarantineEntry, QuarantineReplayer, QuarantineService } from '../shared/quarantine';
+import { LOCATION_INDEX_MAPPINGS } from './locations.mappings';
+import { LocationChangeCursor, LocationsRepository } from './locations.repository';
 import { Location, LocationIndexDocument } from './interfaces';
 import { Counter } from 'prom-client';
 
@@ -26,17 +43,65 @@ export interface LocationsReindexResult {
     total: number;
     success: number;
     failed: number;
+    /** Indexed locations removed because their row no longer exists */
+    deleted: number;
     durationMs: number;
+    /** Versioned index the alias now points to */
+    index: string;
+    /** Index kept for rollback, if any */
+    previousIndex?: string;
+}
+
+/** Job kind for full location reindexes */
+export const LOCATIONS_REINDEX_JOB = 'locations-reindex';
+
+/**
+ * Position of a location reindex job, saved after every page.
+ */
+interface LocationReindexCheckpoint {
+    /** Versioned index being loaded */
+    index?: string;
+
+    /** When the first run started; rows changed since are caught up before the swap */
+    startedAt?: string;
+
+    /** Last location_id indexed (keyset position) */
+    afterId?: string;
+
+    /** Failed rows stored in quarantine so far */
+    quarantined?: number;
+
+    /** Set once every row has been read */
+    loaded?: boolean;
+}
+
+export interface LocationsRollbackResult {
+    index: string;
+    previousIndex: string;
+}
+
+/**
+ * Outcome of indexing a range of the change feed.
+ */
+export interface LocationChangesResult {
+    /** Changed rows read */
+    processed: number;
+    success: number;
+    failed: number;
+
+    /** Last change read, to continue from; absent if nothing changed */
+    cursor?: LocationChangeCursor;
 }
 
 @Injectable()
-export class LocationsIndexerService {
+export class LocationsIndexerService implements JobRunner, QuarantineReplayer {
     private readonly logger = new Logger(LocationsIndexerService.name);
     private readonly INDEX_NAME = 'locations';
 
     constructor(
         private opensearchProvider: OpenSearchProvider,
         private locationsRepository: LocationsRepository,
+        private quarantineService: QuarantineService,
     ) { }
 
     /**
@@ -48,6 +113,7 @@ export class LocationsIndexerService {
         return {
             location_id: location.location_id,
             name: location.metadata.name,
+            name_suggest: location.metadata.name,
             region: location.metadata.region,
             market_segment: location.metadata.market_segment,
             coordinator_id: location.staffing.coordinator_id,
@@ -65,9 +131,17 @@ export class LocationsIndexerService {
             latest_event: latestEvent?.event,
             latest_event_date: latestEvent?.date,
             latest_event_detail: latestEvent?.detail,
+            status_events: location.status_events ?? [],
         };
     }
 
+    /**
+     * Builds the document indexing would write for a location.
+     */
+    toIndexDocument(location: Location): LocationIndexDocument {
+        return this.transformForIndex(location);
+    }
+
     /**
      * Indexes a single location.
      */
@@ -92,10 +166,44 @@ export class LocationsIndexerService {
         }
     }
 
+    /**
+     * Removes a location from the index.
+     *
+     * @remarks
+     * Idempotent: deleting a location that is not indexed succeeds.
+     */
+    async deleteLocation(locationId: string): Promise<void> {
+        try {
+            await this.opensearchProvider.getClient().delete({
+                index: this.INDEX_NAME,
+                id: locationId,
+                refresh: true,
+            });
+            this.logger.log({ msg: 'Location removed from index', location_id: locationId });
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) {
+                return;
+            }
+            indexCounter.inc({ status: 'error' });
+            this.logger.error({ msg: 'Location removal failed', location_id: locationId, error });
+            throw error;
+        }
+    }
+
     /**
      * Bulk indexes multiple locations.
+     *
+     * @param index - Target index (default: the live alias)
+     *
+     * @returns Success, failed and quarantined counts
+     *
+     * @remarks
+     * Locations rejected by OpenSearch are quarantined.
      */
-    async bulkIndex(locations: Location[]): Promise<{ success: number; failed: number }> {
+    async bulkIndex(
+        locations: Location[],
+        index = this.INDEX_NAME,
+    ): Promise<{ success: number; failed: number; quarantined: number }> {
         const client = this.opensearchProvider.getClient();
         let success = 0;
         let failed = 0;
@@ -103,19 +211,26 @@ export class LocationsIndexerService {
         const operations = locations.flatMap((location) => {
             const doc = this.transformForIndex(location);
             return [
-                { index: { _index: this.INDEX_NAME, _id: location.location_id } },
+                { index: { _index: index, _id: location.location_id } },
                 doc,
             ];
         });
 
+        const rejected: QuarantineEntry[] = [];
         try {
             const response = await client.bulk({ body: operations, refresh: true });
 
             if (response.body.errors) {
-                response.body.items.forEach((item: { index?: { error?: unknown } }) => {
+                response.body.items.forEach((item: { index?: { error?: { type: string; reason: string } } }, i: number) => {
                     if (item.index?.error) {
                         failed++;
                         indexCounter.inc({ status: 'error' });
+                        rejected.push({
+                            recordId: locations[i].location_id,
+                            reason: 'indexing',
+                            errors: [`${item.index.error.type}: ${item.index.error.reason}`],
+                            payload: locations[i],
+                        });
                     } else {
                         success++;
                         indexCounter.inc({ status: 'success' });
@@ -134,50 +249,198 @@ export class LocationsIndexerService {
             throw error;
         }
 
-        return { success, failed };
+        const quarantined = await this.quarantineService.quarantine(this.INDEX_NAME, rejected);
+        return { success, failed, quarantined };
+    }
+
+    /**
+     * Counts locations for the job ETA.
+     */
+    async estimateTotal(): Promise<number> {
+        return this.locationsRepository.count();
     }
 
     /**
-     * Full reindex of all locations from PostgreSQL.
+     * Runs a full blue/green reindex of all locations from PostgreSQL as a job.
+     *
+     * @param job - Job with `{ batchSize, maxFailed }` params and the last checkpoint
+     * @param context - Saves a checkpoint (the last location_id) after every page
+     * @throws JobCancelledError if the job is cancelled between pages
+     * @throws Error if validation fails; the live index is then left untouched
+     *
+     * @remarks
+     * Loads a new `locations_v<n>` index in location_id order (keyset
+     * pagination), indexes rows changed since the scan started into it,
+     * deletes locations whose row no longer exists (e.g. deleted during the
+     * scan) from it, reported as deleted, then checks its document count
+     * against PostgreSQL and swaps the alias. Quarantined rows do not count
+     * toward maxFailed. Resuming continues after the saved location_id into
+     * the same index, or starts over if validation deleted it.
      */
-    async reindexAll(batchSize = 100): Promise<LocationsReindexResult> {
+    async run(job: Job, context: JobContext): Promise<LocationsReindexResult> {
+        const { batchSize = 100, maxFailed = 0 } = job.params as { batchSize?: number; maxFailed?: number };
         const startTime = Date.now();
-        let total = 0;
-        let success = 0;
-        let failed = 0;
-        let offset = 0;
+        const client = this.opensearchProvider.getClient();
+        let checkpoint = job.checkpoint as LocationReindexCheckpoint;
+        let progress = { ...job.progress };
+        let deleted = 0;
+
+        if (checkpoint.index && !(await client.indices.exists({ index: checkpoint.index })).body) {
+            this.logger.warn({ msg: 'Reindex target is gone, starting over', jobId: job.job_id, index: checkpoint.index });
+            checkpoint = {};
+            progress = { processed: 0, success: 0, failed: 0, total: progress.total };
+        }
+        const startedAt = checkpoint.startedAt ?? new Date(startTime).toISOString();
 
-        this.logger.log({ msg: 'Starting locations reindex', batchSize });
+        this.logger.log({ msg: 'Starting locations reindex', jobId: job.job_id, batchSize, resumeFrom: checkpoint.afterId });
 
         try {
-            let page: LocationScanPage;
-            do {
-                page = await this.locationsRepository.scanPage(batchSize, offset);
-                total += page.items.length;
-
-                const result = await this.bulkIndex(page.items);
-                success += result.success;
-                failed += result.failed;
-
-                this.logger.log({
-                    msg: 'Reindex batch completed',
-                    batchSize: page.items.length,
-                    totalProcessed: total,
-                    hasMore: page.hasMore,
-                });
+            const result = await blueGreenReindex(this.opensearchProvider, {
+                alias: this.INDEX_NAME,
+                index: checkpoint.index,
+                mappings: LOCATION_INDEX_MAPPINGS,
+                maxFailed,
+                countSource: () => this.locationsRepository.count(),
+                load: async (index) => {
+                    let afterId = checkpoint.afterId;
+                    let quarantined = checkpoint.quarantined ?? 0;
+
+                    while (!checkpoint.loaded) {
+                        const page = await this.locationsRepository.scanPage(batchSize, afterId);
+                        const batch = await this.bulkIndex(page.items, index);
+                        afterId = page.items[page.items.length - 1]?.location_id ?? afterId;
+                        quarantined += batch.quarantined;
+
+                        progress = {
+                            ...progress,
+                            processed: progress.processed + page.items.length,
+                            success: progress.success + batch.success,
+                            failed: progress.failed + batch.failed,
+                        };
+                        checkpoint = { index, startedAt, afterId, quarantined, loaded: !page.hasMore };
+                        await context.checkpoint(progress, checkpoint);
+
+                        this.logger.log({
+                            msg: 'Reindex batch completed',
+                            batchSize: page.items.length,
+                            totalProcessed: progress.processed,
+                            hasMore: page.hasMore,
+                        });
+                    }
 
-                offset += batchSize;
-            } while (page.hasMore);
+                    return { indexed: progress.success, failed: progress.failed, quarantined };
+                },
+                beforeSwap: async (index) => {
+                    await this.indexChanges(
+                        { updatedAt: startedAt, locationId: '' },
+                        { before: new Date(), index, batchSize },
+                    );
+
+                    // Read after the catch-up, so every location it indexed is still listed unless deleted since
+                    const orphans = await sweepOrphans(client, {
+                        index,
+                        idField: 'location_id',
+                        liveIds: await this.locationsRepository.findAllIds(),
+                    });
+                    if (orphans.length > 0) {
+                        this.logger.warn({ msg: 'Removed orphaned locations', count: orphans.length, location_ids: orphans });
+                    }
+                    deleted = orphans.length;
+                },
+            });
 
             const durationMs = Date.now() - startTime;
             reindexCounter.inc({ status: 'success' });
 
-            this.logger.log({ msg: 'Locations reindex completed', total, success, failed, durationMs });
-            return { total, success, failed, durationMs };
+            this.logger.log({
+                msg: 'Locations reindex completed',
+                jobId: job.job_id,
+                total: progress.processed,
+                success: result.indexed,
+                failed: result.failed,
+                deleted,
+                index: result.index,
+                previousIndex: result.previousIndex,
+                durationMs,
+            });
+            return {
+                total: progress.processed,
+                success: result.indexed,
+                failed: result.failed,
+                deleted,
+                durationMs,
+                index: result.index,
+                previousIndex: result.previousIndex,
+            };
         } catch (error) {
-            reindexCounter.inc({ status: 'error' });
-            this.logger.error({ msg: 'Locations reindex failed', error, processed: total });
+            reindexCounter.inc({ status: error instanceof JobCancelledError ? 'cancelled' : 'error' });
+            this.logger.error({ msg: 'Locations reindex stopped', jobId: job.job_id, error, processed: progress.processed });
             throw error;
         }
     }
+
+    /**
+     * Indexes locations changed after a cursor, page by page.
+     *
+     * @param after - Last change already indexed; omit to index every row
+     * @param options.before - Only rows updated before this time
+     * @param options.index - Target index (default: the live alias)
+     * @param options.batchSize - Rows per page (default: 100)
+     * @param options.onPage - Called after every page with the running totals
+     * @returns Counts and the cursor of the last change read
+     */
+    async indexChanges(
+        after: LocationChangeCursor | undefined,
+        options: {
+            before: Date;
+            index?: string;
+            batchSize?: number;
+            onPage?: (result: LocationChangesResult) => Promise<void>;
+        },
+    ): Promise<LocationChangesResult> {
+        const { before, index = this.INDEX_NAME, batchSize = 100, onPage } = options;
+        const result: LocationChangesResult = { processed: 0, success: 0, failed: 0, cursor: after };
+        let hasMore = true;
+
+        while (hasMore) {
+            const page = await this.locationsRepository.findChangedSince(result.cursor, before, batchSize);
+            hasMore = page.hasMore;
+            if (page.items.length === 0) break;
+
+            const batch = await this.bulkIndex(page.items, index);
+            const last = page.items[page.items.length - 1];
+
+            result.processed += page.items.length;
+            result.success += batch.success;
+            result.failed += batch.failed;
+            result.cursor = { updatedAt: last.updated_at!.toISOString(), locationId: last.location_id };
+            await onPage?.(result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Re-reads a quarantined location from PostgreSQL and indexes it.
+     *
+     * @returns `gone` if the row no longer exists
+     */
+    async replay(locationId: string): Promise<'indexed' | 'gone'> {
+        const location = await this.locationsRepository.findById(locationId);
+        if (!location) return 'gone';
+
+        await this.indexLocation(location);
+        return 'indexed';
+    }
+
+    /**
+     * Points the `locations` alias back at the version a reindex replaced.
+     *
+     * @throws ConflictException if no previous version is kept
+     */
+    async rollback(): Promise<LocationsRollbackResult> {
+        const result = await rollbackAlias(this.opensearchProvider, this.INDEX_NAME);
+        this.logger.warn({ msg: 'Locations index rolled back', ...result });
+        return result;
+    }
 }
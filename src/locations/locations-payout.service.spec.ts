@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Locations Payout Service Tests
+ */
+
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LocationsPayoutService } from './locations-payout.service';
+
+describe('LocationsPayoutService', () => {
+    let service: LocationsPayoutService;
+    let searchService: any;
+
+    const user = { userId: 'u1', roles: ['auditor'], tenantId: 'rcm-internal', tenantType: 'internal' } as any;
+    const period = { start: '2025-11-01', end: '2025-11-30' };
+
+    beforeEach(() => {
+        searchService = {
+            findById: jest.fn().mockResolvedValue({
+                location_id: 'GYM_101',
+                rate_model: 'new_enrollee',
+                base_rate: 20,
+                conversion_bonus_enabled: false,
+            }),
+        };
+        service = new LocationsPayoutService(searchService);
+    });
+
+    it('should itemize the payout from the indexed contract terms', async () => {
+        const estimate = await service.estimate('GYM_101', period, { enrollments: 5, visits: 100, conversions: 0 }, user);
+
+        expect(searchService.findById).toHaveBeenCalledWith('GYM_101', user);
+        expect(estimate).toEqual(expect.objectContaining({
+            location_id: 'GYM_101',
+            rate_model: 'new_enrollee',
+            period,
+            total: 100,
+        }));
+    });
+
+    it('should 404 for locations the caller cannot see', async () => {
+        searchService.findById.mockResolvedValueOnce(null);
+
+        await expect(service.estimate('GYM_102', period, { enrollments: 5, visits: 100, conversions: 0 }, user))
+            .rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should reject activity the rate model cannot be paid from', async () => {
+        searchService.findById.mockResolvedValueOnce({
+            location_id: 'GYM_101',
+            rate_model: 'admin_enrollee',
+            base_rate: 20,
+            conversion_bonus_enabled: false,
+        });
+
+        await expect(service.estimate('GYM_101', period, { enrollments: 5, visits: 100, conversions: 0 }, user))
+            .rejects.toBeInstanceOf(BadRequestException);
+    });
+});
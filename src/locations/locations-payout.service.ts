@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Locations Payout Service
+ *
+ * Estimates what a location is owed for a period of member activity,
+ * using the contract terms of its indexed document.
+ *
+ * @remarks
+ * The location is read through LocationsSearchService, so the same tenant
+ * isolation applies as for get by ID: external users can only estimate
+ * payouts for their own location. Admin writes reindex synchronously, so
+ * the indexed contract terms are current.
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { AuthenticatedUser } from '../shared/auth';
+import { LocationsSearchService } from './locations-search.service';
+import { calculatePayout, MemberActivity, PayoutEstimate, PayoutInputError, PayoutPeriod } from './payout';
+
+/* -------------------------------------------------------------------------- */
+/*                              Prometheus Metrics                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Counter for payout estimates, labeled by rate model.
+ */
+const payoutEstimateCounter = new Counter({
+    name: 'locations_payout_estimates_total',
+    help: 'Total number of location payout estimates',
+    labelNames: ['rate_model'],
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class LocationsPayoutService {
+    constructor(private searchService: LocationsSearchService) { }
+
+    /**
+     * Itemizes the payout for a location's activity over a period.
+     *
+     * @param locationId - Location to estimate for
+     * @param period - Inclusive period the activity covers
+     * @param activity - Member activity over the period
+     * @param user - Authenticated user for tenant context
+     * @throws NotFoundException if the location does not exist or is not visible to the caller
+     * @throws BadRequestException if the period is inverted or the rate model's activity is missing
+     */
+    async estimate(
+        locationId: string,
+        period: PayoutPeriod,
+        activity: MemberActivity,
+        user: AuthenticatedUser,
+    ): Promise<PayoutEstimate> {
+        const location = await this.searchService.findById(locationId, user);
+        if (!location) {
+            throw new NotFoundException(`Location ${locationId} not found`);
+        }
+
+        try {
+            const payout = calculatePayout(location, activity, period);
+            payoutEstimateCounter.inc({ rate_model: location.rate_model });
+
+            return {
+                location_id: location.location_id,
+                rate_model: location.rate_model,
+                period,
+                activity,
+                ...payout,
+                generated_at: new Date().toISOString(),
+            };
+        } catch (error) {
+            if (error instanceof PayoutInputError) {
+                throw new BadRequestException(error.message);
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Locations Reconciliation Service
+ *
+ * Compares the locations index with PostgreSQL and reports (optionally
+ * repairs) drift.
+ *
+ * @remarks
+ * Runs as a `locations-reconcile` job. A resumed reconciliation starts
+ * the scan over; repairs are idempotent.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { DriftReport, OpenSearchProvider, reconcileIndex } from '../shared/opensearch';
+import { Job, JobContext, JobRunner } from '../shared/jobs';
+import { LocationsIndexerService } from './locations-indexer.service';
+import { LocationsRepository } from './locations.repository';
+import { Location } from './interfaces';
+
+/** Job kind for location reconciliation */
+export const LOCATIONS_RECONCILE_JOB = 'locations-reconcile';
+
+@Injectable()
+export class LocationsReconcileService implements JobRunner {
+    private readonly logger = new Logger(LocationsReconcileService.name);
+
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private locationsRepository: LocationsRepository,
+        private indexerService: LocationsIndexerService,
+    ) { }
+
+    /**
+     * Counts locations for the job ETA.
+     */
+    async estimateTotal(): Promise<number> {
+        return this.locationsRepository.count();
+    }
+
+    /**
+     * Reconciles the locations index against PostgreSQL.
+     *
+     * @param job - Job with `{ batchSize, repair }` params
+     * @param context - Checkpointed after every page
+     * @returns Drift report
+     * @throws JobCancelledError if the job is cancelled between pages
+     */
+    async run(job: Job, context: JobContext): Promise<DriftReport> {
+        const { batchSize = 100, repair = false } = job.params as { batchSize?: number; repair?: boolean };
+        const progress = { processed: 0, success: 0, failed: 0, total: job.progress.total };
+        const repository = this.locationsRepository;
+        let afterId: string | undefined;
+
+        async function* pages(): AsyncGenerator<Location[]> {
+            let hasMore: boolean;
+            do {
+                const page = await repository.scanPage(batchSize, afterId);
+                afterId = page.items[page.items.length - 1]?.location_id ?? afterId;
+                hasMore = page.hasMore;
+                yield page.items;
+            } while (hasMore);
+        }
+
+        this.logger.log({ msg: 'Starting locations reconciliation', jobId: job.job_id, repair });
+
+        const report = await reconcileIndex(this.opensearchProvider.getClient(), {
+            vertical: 'locations',
+            index: 'locations',
+            idField: 'location_id',
+            pages: pages(),
+            toDocument: (location) => ({
+                id: location.location_id,
+                doc: this.indexerService.toIndexDocument(location),
+            }),
+            startedAt: new Date().toISOString(),
+            repair: repair
+                ? async (locations) => {
+                    const result = await this.indexerService.bulkIndex(locations);
+                    progress.success += result.success;
+                    progress.failed += result.failed;
+                }
+                : undefined,
+            onPage: async (scanned) => {
+                progress.processed = scanned;
+                await context.checkpoint(progress, { afterId });
+            },
+        });
+
+        this.logger.log({
+            msg: 'Locations reconciliation completed',
+            jobId: job.job_id,
+            ...report,
+            samples: undefined,
+        });
+        if (report.missing + report.stale + report.orphaned > 0) {
+            this.logger.warn({ msg: 'Locations index drift found', repaired: repair, samples: report.samples });
+        }
+
+        return report;
+    }
+}
@@ -4,12 +4,21 @@
  * HTTP endpoints for location search operations.
  */
 
-import { Controller, Get, Query, Param, UseGuards, Request } from '@nestjs/common';
+import { Controller, Get, NotFoundException, Query, Param, UseGuards, Request } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiTags, ApiOperation, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
-import { LocationsSearchService, LocationSearchQuery } from './locations-search.service';
+import {
+    LocationsSearchService,
+    LocationSearchQuery,
+    LOCATION_FACET_FIELDS,
+} from './locations-search.service';
 import { AuthenticatedUser } from '../shared/auth';
+import { RateLimit, RateLimitGuard } from '../shared/rate-limit';
+import { normalizePrefix, SUGGEST_REQUESTS_PER_MINUTE } from '../shared/suggest';
+import { parseFacets } from '../shared/facets';
+import { buildNextLink } from '../shared/pagination';
 import { LocationIndexDocument } from './interfaces';
+import { LocationSearchResponseDto, LocationSuggestResponseDto } from './dto';
 
 @ApiTags('locations')
 @Controller('locations/search')
@@ -26,22 +35,76 @@ export class LocationsSearchController {
     @ApiQuery({ name: 'q', required: false, example: 'fitness', description: 'Search query (name)' })
     @ApiQuery({ name: 'region', required: false, example: 'West', description: 'Filter by region' })
     @ApiQuery({ name: 'rate_model', required: false, example: 'conversion_rate', description: 'Filter by rate model' })
-    @ApiQuery({ name: 'limit', required: false, example: '10', description: 'Max results (default: 20)' })
+    @ApiQuery({ name: 'highlight', required: false, example: 'true', description: 'Return highlighted fragments for matched fields (default: false)' })
+    @ApiQuery({ name: 'limit', required: false, example: '10', description: 'Results per page (default: 20, max: 100)' })
+    @ApiQuery({ name: 'cursor', required: false, description: 'Opaque cursor from the previous page (nextCursor)' })
+    @ApiQuery({ name: 'facets', required: false, example: 'region,rate_model', description: 'Comma-separated fields to count: region, rate_model, market_segment, guest_policy' })
+    @ApiQuery({ name: 'event_type', required: false, example: 'COORDINATOR_ASSIGNED', description: 'Comma-separated status event types; matches locations with any of them' })
+    @ApiQuery({ name: 'event_from', required: false, example: '2024-07-01', description: 'Status event date lower bound (inclusive, ISO 8601)' })
+    @ApiQuery({ name: 'event_to', required: false, example: '2024-09-30', description: 'Status event date upper bound (inclusive, ISO 8601); applies to the same event as event_type' })
     async search(
         @Query('q') q?: string,
         @Query('region') region?: string,
         @Query('rate_model') rate_model?: string,
+        @Query('highlight') highlight?: string,
         @Query('limit') limit?: string,
+        @Query('cursor') cursor?: string,
+        @Query('facets') facets?: string,
+        @Query('event_type') event_type?: string,
+        @Query('event_from') event_from?: string,
+        @Query('event_to') event_to?: string,
         @Request() req?: { user: AuthenticatedUser },
-    ): Promise<LocationIndexDocument[]> {
+    ): Promise<LocationSearchResponseDto> {
         const query: LocationSearchQuery = {
             q,
             region,
             rate_model,
+            highlight: highlight === 'true',
             limit: limit ? parseInt(limit, 10) : undefined,
+            cursor,
+            facets: parseFacets(facets, LOCATION_FACET_FIELDS),
+            event_type: event_type ? event_type.split(',').map((t) => t.trim()).filter(Boolean) : undefined,
+            event_from,
+            event_to,
         };
 
-        return this.searchService.search(query, req!.user);
+        const response = await this.searchService.search(query, req!.user);
+
+        if (response.nextCursor) {
+            response.next = buildNextLink(
+                '/locations/search',
+                { q, region, rate_model, highlight, limit, facets, event_type, event_from, event_to },
+                response.nextCursor,
+            );
+        }
+
+        return response;
+    }
+
+    /**
+     * Returns type-ahead suggestions on location name.
+     *
+     * @remarks
+     * Declared before `:id` so `suggest` is not treated as a location ID.
+     * Rate-limited per user under its own `suggest` budget.
+     */
+    @Get('suggest')
+    @RateLimit('suggest', SUGGEST_REQUESTS_PER_MINUTE)
+    @UseGuards(AuthGuard('jwt'), RateLimitGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Suggest locations', description: 'Search-as-you-type on location name' })
+    @ApiQuery({ name: 'prefix', required: true, example: 'down', description: 'Text typed so far' })
+    @ApiQuery({ name: 'limit', required: false, example: '10', description: 'Max suggestions (default: 10, max: 20)' })
+    async suggest(
+        @Query('prefix') prefix?: string,
+        @Query('limit') limit?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<LocationSuggestResponseDto> {
+        return this.searchService.suggest(
+            normalizePrefix(prefix),
+            req!.user,
+            limit ? parseInt(limit, 10) : undefined,
+        );
     }
 
     /**
@@ -58,14 +121,21 @@ export class LocationsSearchController {
 
     /**
      * Retrieves a location by ID.
+     *
+     * @throws NotFoundException if the location does not exist or is not visible to the caller
      */
     @Get(':id')
     @UseGuards(AuthGuard('jwt'))
     @ApiBearerAuth()
-    @ApiOperation({ summary: 'Get location by ID' })
+    @ApiOperation({ summary: 'Get location by ID', description: 'External users get 404 for any location but their own' })
     async findById(
         @Param('id') id: string,
-    ): Promise<LocationIndexDocument | null> {
-        return this.searchService.findById(id);
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<LocationIndexDocument> {
+        const location = await this.searchService.findById(id, req!.user);
+        if (!location) {
+            throw new NotFoundException(`Location ${id} not found`);
+        }
+        return location;
     }
 }
@@ -2,7 +2,9 @@
  * @fileoverview Locations Search Service Tests
  */
 
+import { BadRequestException } from '@nestjs/common';
 import { LocationsSearchService } from './locations-search.service';
+import { RedactionService } from '../shared/redaction';
 
 describe('LocationsSearchService', () => {
     let service: LocationsSearchService;
@@ -14,6 +16,7 @@ describe('LocationsSearchService', () => {
                 search: jest.fn().mockResolvedValue({
                     body: {
                         hits: {
+                            total: { value: 1, relation: 'eq' },
                             hits: [
                                 {
                                     _source: {
@@ -22,23 +25,16 @@ describe('LocationsSearchService', () => {
                                         region: 'Southeast',
                                         rate_model: 'per_participant',
                                     },
+                                    sort: [1.2, 'GYM_101'],
                                 },
                             ],
                         },
                     },
                 }),
-                get: jest.fn().mockResolvedValue({
-                    body: {
-                        _source: {
-                            location_id: 'GYM_101',
-                            name: 'Downtown Fitness',
-                        },
-                    },
-                }),
             }),
         };
 
-        service = new LocationsSearchService(mockOpenSearchProvider);
+        service = new LocationsSearchService(mockOpenSearchProvider, new RedactionService());
     });
 
     describe('search', () => {
@@ -50,23 +46,67 @@ describe('LocationsSearchService', () => {
         };
 
         it('should search locations', async () => {
-            const results = await service.search({ q: 'Downtown' }, mockUser);
-            expect(results).toHaveLength(1);
-            expect(results[0].location_id).toBe('GYM_101');
+            const response = await service.search({ q: 'Downtown' }, mockUser);
+            expect(response.results).toHaveLength(1);
+            expect(response.results[0].location_id).toBe('GYM_101');
+            expect(response.total).toBe(1);
         });
 
         it('should pass limit to OpenSearch', async () => {
             await service.search({ q: 'test', limit: 50 }, mockUser);
             const client = mockOpenSearchProvider.getClient();
+            // One extra hit is fetched to detect whether another page exists
             expect(client.search).toHaveBeenCalledWith(
                 expect.objectContaining({
                     body: expect.objectContaining({
-                        size: 50,
+                        size: 51,
                     }),
                 }),
             );
         });
 
+        it('should cap limit at 100', async () => {
+            await service.search({ limit: 5000 }, mockUser);
+            const searchCall = mockOpenSearchProvider.getClient().search.mock.calls[0][0];
+            expect(searchCall.body.size).toBe(101);
+        });
+
+        it('should not return a cursor on the last page', async () => {
+            const response = await service.search({ limit: 10 }, mockUser);
+            expect(response.nextCursor).toBeUndefined();
+        });
+
+        it('should return a cursor when more hits exist', async () => {
+            const client = mockOpenSearchProvider.getClient();
+            client.search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        total: { value: 3, relation: 'eq' },
+                        hits: [
+                            { _source: { location_id: 'GYM_101' }, sort: [1, 'GYM_101'] },
+                            { _source: { location_id: 'GYM_102' }, sort: [1, 'GYM_102'] },
+                        ],
+                    },
+                },
+            });
+
+            const response = await service.search({ limit: 1 }, mockUser);
+
+            expect(response.results).toHaveLength(1);
+            expect(response.total).toBe(3);
+            expect(response.nextCursor).toBeDefined();
+
+            await service.search({ limit: 1, cursor: response.nextCursor }, mockUser);
+            const secondCall = client.search.mock.calls[1][0];
+            expect(secondCall.body.search_after).toEqual([1, 'GYM_101']);
+        });
+
+        it('should reject a malformed cursor', async () => {
+            await expect(
+                service.search({ cursor: 'not-a-cursor' }, mockUser),
+            ).rejects.toThrow('Invalid cursor');
+        });
+
         it('should apply tenant filter for external users', async () => {
             const externalUser = {
                 userId: 'ext1',
@@ -83,18 +123,248 @@ describe('LocationsSearchService', () => {
                 term: { location_id: 'GYM_101' },
             });
         });
+
+        it('should keep the tenant filter when paging with a cursor', async () => {
+            const externalUser = {
+                userId: 'ext1',
+                roles: ['admin'],
+                tenantId: 'GYM_101',
+                tenantType: 'external' as const,
+            };
+            const cursor = Buffer.from(JSON.stringify([1, 'GYM_100'])).toString('base64url');
+
+            await service.search({ cursor }, externalUser);
+            const searchCall = mockOpenSearchProvider.getClient().search.mock.calls[0][0];
+
+            expect(searchCall.body.search_after).toEqual([1, 'GYM_100']);
+            expect(searchCall.body.query.bool.filter).toContainEqual({
+                term: { location_id: 'GYM_101' },
+            });
+        });
+
+        it('should not request aggregations when no facets are asked for', async () => {
+            const response = await service.search({ q: 'test' }, mockUser);
+            const searchCall = mockOpenSearchProvider.getClient().search.mock.calls[0][0];
+
+            expect(searchCall.body.aggs).toBeUndefined();
+            expect(response.facets).toBeUndefined();
+        });
+
+        it('should return facet counts from terms aggregations', async () => {
+            const client = mockOpenSearchProvider.getClient();
+            client.search.mockResolvedValueOnce({
+                body: {
+                    hits: { total: { value: 3 }, hits: [] },
+                    aggregations: {
+                        region: { buckets: [{ key: 'West', doc_count: 2 }, { key: 'Southeast', doc_count: 1 }] },
+                        rate_model: { buckets: [{ key: 'conversion_rate', doc_count: 3 }] },
+                    },
+                },
+            });
+
+            const response = await service.search({ facets: ['region', 'rate_model'] }, mockUser);
+            const searchCall = client.search.mock.calls[0][0];
+
+            expect(searchCall.body.aggs).toEqual({
+                region: { terms: { field: 'region', size: 20 } },
+                rate_model: { terms: { field: 'rate_model', size: 20 } },
+            });
+            expect(response.facets).toEqual({
+                region: [{ value: 'West', count: 2 }, { value: 'Southeast', count: 1 }],
+                rate_model: [{ value: 'conversion_rate', count: 3 }],
+            });
+        });
+
+        it('should aggregate facets within the tenant filter for external users', async () => {
+            const externalUser = {
+                userId: 'ext1',
+                roles: ['admin'],
+                tenantId: 'GYM_101',
+                tenantType: 'external' as const,
+            };
+
+            await service.search({ facets: ['region'] }, externalUser);
+            const searchCall = mockOpenSearchProvider.getClient().search.mock.calls[0][0];
+
+            expect(searchCall.body.aggs).toBeDefined();
+            expect(searchCall.body.query.bool.filter).toContainEqual({
+                term: { location_id: 'GYM_101' },
+            });
+        });
+    });
+
+    describe('status event filters', () => {
+        const mockUser = { userId: 'user1', roles: ['auditor'], tenantId: 'internal', tenantType: 'internal' as const };
+
+        it('should match event type and date range on the same nested event', async () => {
+            await service.search(
+                { event_type: ['COORDINATOR_ASSIGNED'], event_from: '2024-07-01', event_to: '2024-09-30' },
+                mockUser,
+            );
+            const body = mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+            expect(body.query.bool.filter).toEqual([{
+                nested: {
+                    path: 'status_events',
+                    query: {
+                        bool: {
+                            filter: [
+                                { terms: { 'status_events.event': ['COORDINATOR_ASSIGNED'] } },
+                                { range: { 'status_events.date': { gte: '2024-07-01', lte: '2024-09-30' } } },
+                            ],
+                        },
+                    },
+                },
+            }]);
+        });
+
+        it('should leave the event history out of search hits', async () => {
+            await service.search({ q: 'downtown' }, mockUser);
+            const body = mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+            expect(body._source.excludes).toContain('status_events');
+        });
+
+        it('should reject an unparseable event date', async () => {
+            await expect(service.search({ event_from: 'last-quarter' }, mockUser))
+                .rejects.toBeInstanceOf(BadRequestException);
+        });
+    });
+
+    describe('findTimeline', () => {
+        it('should return every event newest first within the tenant filter', async () => {
+            const client = mockOpenSearchProvider.getClient();
+            client.search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        hits: [{
+                            _source: {
+                                location_id: 'GYM_101',
+                                name: 'Downtown Fitness',
+                                status_events: [
+                                    { date: '2023-01-10', event: 'OPENED', detail: 'Grand opening' },
+                                    { date: '2023-11-15', event: 'COORDINATOR_ASSIGNED', detail: 'Jane Smith' },
+                                ],
+                            },
+                        }],
+                    },
+                },
+            });
+
+            const timeline = await service.findTimeline('GYM_101', {
+                userId: 'ext1', roles: ['admin'], tenantId: 'GYM_101', tenantType: 'external',
+            });
+            const body = client.search.mock.calls[0][0].body;
+
+            expect(body.query.bool.filter).toEqual([{ term: { location_id: 'GYM_101' } }]);
+            expect(timeline?.events.map((e) => e.event)).toEqual(['COORDINATOR_ASSIGNED', 'OPENED']);
+        });
+
+        it('should return null for locations outside the tenant', async () => {
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({ body: { hits: { hits: [] } } });
+
+            await expect(service.findTimeline('GYM_202', {
+                userId: 'ext1', roles: ['admin'], tenantId: 'GYM_101', tenantType: 'external',
+            })).resolves.toBeNull();
+        });
+    });
+
+    describe('suggest', () => {
+        it('should tenant-filter suggestions for external users', async () => {
+            await service.suggest('down', {
+                userId: 'ext1',
+                roles: ['admin'],
+                tenantId: 'GYM_101',
+                tenantType: 'external',
+            });
+            const body = mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+            expect(body.query.bool.must[0].multi_match.fields[0]).toBe('name_suggest');
+            expect(body.query.bool.filter).toEqual([{ term: { location_id: 'GYM_101' } }]);
+            expect(body._source).toEqual(['location_id', 'name']);
+        });
+    });
+
+    describe('highlighting', () => {
+        it('should return sanitized fragments when highlight is requested', async () => {
+            const client = mockOpenSearchProvider.getClient();
+            client.search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        total: { value: 1 },
+                        hits: [{
+                            _source: { location_id: 'GYM_101' },
+                            sort: [1, 'GYM_101'],
+                            highlight: { name: ['<mark>Downtown</mark> Fitness'] },
+                        }],
+                    },
+                },
+            });
+
+            const response = await service.search(
+                { q: 'downtown', highlight: true },
+                { userId: 'user1', roles: ['auditor'], tenantId: 'internal', tenantType: 'internal' },
+            );
+
+            expect(client.search.mock.calls[0][0].body.highlight.fields).toHaveProperty('name');
+            expect(response.results[0].highlights).toEqual({ name: ['<mark>Downtown</mark> Fitness'] });
+        });
+    });
+
+    describe('findSummaries', () => {
+        it('should skip the query when there are no IDs', async () => {
+            const summaries = await service.findSummaries([], {
+                userId: 'user1', roles: ['auditor'], tenantId: 'internal', tenantType: 'internal',
+            });
+
+            expect(summaries.size).toBe(0);
+            expect(mockOpenSearchProvider.getClient().search).not.toHaveBeenCalled();
+        });
+
+        it('should look up unique IDs within the tenant filter', async () => {
+            const summaries = await service.findSummaries(['GYM_101', 'GYM_202', 'GYM_101'], {
+                userId: 'ext1', roles: ['admin'], tenantId: 'GYM_101', tenantType: 'external',
+            });
+            const body = mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+            expect(body.query.bool.must[0]).toEqual({ terms: { location_id: ['GYM_101', 'GYM_202'] } });
+            expect(body.query.bool.filter).toEqual([{ term: { location_id: 'GYM_101' } }]);
+            expect(body._source).not.toContain('base_rate');
+            expect(summaries.get('GYM_101')?.name).toBe('Downtown Fitness');
+        });
     });
 
     describe('findById', () => {
+        const internalUser = { userId: 'user1', roles: ['auditor'], tenantId: 'internal', tenantType: 'internal' as const };
+
         it('should return location by ID', async () => {
-            const result = await service.findById('GYM_101');
-            expect(result).toBeDefined();
+            const result = await service.findById('GYM_101', internalUser);
+            const body = mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+            expect(body.query).toEqual({ term: { location_id: 'GYM_101' } });
+            expect(body._source).toEqual({ excludes: ['name_suggest'] });
             expect(result?.location_id).toBe('GYM_101');
         });
 
         it('should return null for not found', async () => {
-            mockOpenSearchProvider.getClient().get.mockRejectedValue({ statusCode: 404 });
-            const result = await service.findById('NONEXISTENT');
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({
+                body: { hits: { total: { value: 0 }, hits: [] } },
+            });
+            const result = await service.findById('NONEXISTENT', internalUser);
+            expect(result).toBeNull();
+        });
+
+        it('should scope reads to the external user\'s own location', async () => {
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({
+                body: { hits: { total: { value: 0 }, hits: [] } },
+            });
+
+            const result = await service.findById('GYM_202', {
+                userId: 'ext1', roles: ['admin'], tenantId: 'GYM_101', tenantType: 'external',
+            });
+            const body = mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+            expect(body.query.bool.filter).toEqual([{ term: { location_id: 'GYM_101' } }]);
             expect(result).toBeNull();
         });
     });
@@ -4,10 +4,30 @@
  * Search operations for locations index with role-based filtering.
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { OpenSearchProvider } from '../shared/opensearch';
 import { AuthenticatedUser } from '../shared/auth';
-import { LocationIndexDocument } from './interfaces';
+import { SearchVertical, VerticalSearchResult } from '../shared/federation';
+import { buildTermsAggregations, readFacets } from '../shared/facets';
+import { buildHighlight, sanitizeHighlights } from '../shared/highlight';
+import { buildPrefixQuery, clampSuggestLimit } from '../shared/suggest';
+import { RedactionService } from '../shared/redaction';
+import { TenantScope } from '../shared/tenancy';
+import {
+    clampPageSize,
+    decodeCursor,
+    pageFromHits,
+    readTotal,
+    SortedHit,
+} from '../shared/pagination';
+import { LocationIndexDocument, LocationStatusEvent, LocationSummary } from './interfaces';
+import {
+    LocationSearchResponseDto,
+    LocationSearchResultItem,
+    LocationSuggestion,
+    LocationSuggestResponseDto,
+    LocationTimelineDto,
+} from './dto';
 import { Counter, Histogram } from 'prom-client';
 
 const searchCounter = new Counter({
@@ -22,33 +42,100 @@ const searchDuration = new Histogram({
     buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1],
 });
 
+/**
+ * Fields that may be requested as facets on location search.
+ */
+export const LOCATION_FACET_FIELDS = ['region', 'rate_model', 'market_segment', 'guest_policy'] as const;
+
+/**
+ * Text fields that carry highlighted fragments when requested.
+ */
+const LOCATION_HIGHLIGHT_FIELDS = ['name', 'coordinator_name', 'latest_event_detail'];
+
+/**
+ * Index-only fields never returned by the API.
+ */
+const INTERNAL_FIELDS = ['name_suggest'];
+
+/**
+ * Fields left out of search hits: the internal ones, plus the event
+ * history, which can be long and is served by {@link LocationsSearchService.findTimeline}.
+ */
+const SEARCH_EXCLUDES = [...INTERNAL_FIELDS, 'status_events'];
+
+/**
+ * Tenant isolation for the locations index: an external tenant is a single
+ * location, so external users only match their own location_id.
+ */
+const LOCATION_TENANT_SCOPE = new TenantScope('location_id');
+
+/**
+ * Fields returned by {@link LocationsSearchService.findSummaries}.
+ */
+const SUMMARY_FIELDS: (keyof LocationSummary)[] = ['location_id', 'name', 'region', 'market_segment', 'rate_model'];
+
 export interface LocationSearchQuery {
     q?: string;
+    /** Exact location ID filter */
+    location_id?: string;
     region?: string;
     rate_model?: string;
     limit?: number;
+    /** Opaque cursor from a previous page's `nextCursor` */
+    cursor?: string;
+    /** Fields to return terms aggregations for (see LOCATION_FACET_FIELDS) */
+    facets?: string[];
+    /** Return highlighted fragments for matched text fields */
+    highlight?: boolean;
+    /** Only locations with a status event of one of these types */
+    event_type?: string[];
+    /** Only locations with a status event on or after this date (ISO 8601) */
+    event_from?: string;
+    /** Only locations with a status event on or before this date (ISO 8601) */
+    event_to?: string;
 }
 
 @Injectable()
-export class LocationsSearchService {
+export class LocationsSearchService implements SearchVertical {
+    /** Result group key in federated search */
+    readonly verticalName = 'locations';
+
     private readonly logger = new Logger(LocationsSearchService.name);
     private readonly INDEX_NAME = 'locations';
 
-    constructor(private opensearchProvider: OpenSearchProvider) { }
+    /** Sort order for paginated search; location_id breaks score ties for `search_after`. */
+    private readonly SORT = [{ _score: 'desc' }, { location_id: 'asc' }];
+
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private redactionService: RedactionService,
+    ) { }
 
     /**
      * Searches locations index.
+     *
+     * @remarks
+     * Returns one page of results; the tenant filter is applied on every page.
+     * Facet counts aggregate over the same filtered query as the hits.
+     * Highlight fragments are re-checked for PII before they are returned.
+     *
+     * @throws BadRequestException if the cursor or an event date is malformed
      */
     async search(
         params: LocationSearchQuery,
         user: AuthenticatedUser,
-    ): Promise<LocationIndexDocument[]> {
+    ): Promise<LocationSearchResponseDto> {
         const timer = searchDuration.startTimer();
         const role = user.roles[0] || 'unknown';
+        const limit = clampPageSize(params.limit);
+        const searchAfter = params.cursor
+            ? decodeCursor(params.cursor, this.SORT.length)
+            : undefined;
+        const facetFields = params.facets ?? [];
+        const highlightFields = params.highlight ? LOCATION_HIGHLIGHT_FIELDS : [];
 
         try {
             const client = this.opensearchProvider.getClient();
-            const limit = params.limit || 20;
 
             const query = this.buildQuery(params, user);
 
@@ -56,22 +143,39 @@ export class LocationsSearchService {
                 index: this.INDEX_NAME,
                 body: {
                     query,
-                    size: limit,
+                    _source: { excludes: SEARCH_EXCLUDES },
+                    size: limit + 1,
+                    sort: this.SORT,
+                    track_total_hits: true,
+                    ...(searchAfter && { search_after: searchAfter }),
+                    ...(facetFields.length > 0 && { aggs: buildTermsAggregations(facetFields) }),
+                    ...(highlightFields.length > 0 && { highlight: buildHighlight(highlightFields) }),
                 },
             });
 
-            const hits = response.body.hits.hits;
-            const results = hits.map((hit: { _source: LocationIndexDocument }) => hit._source);
+            const rawHits = response.body.hits.hits as Array<
+                SortedHit<LocationSearchResultItem> & { highlight?: Record<string, string[]> }
+            >;
+            const hits = rawHits.map((hit) => {
+                const highlights = sanitizeHighlights(hit.highlight, highlightFields, this.redactionService);
+                return highlights ? { ...hit, _source: { ...hit._source, highlights } } : hit;
+            });
+            const page = pageFromHits(hits, limit);
+            const total = readTotal(response.body.hits.total);
+            const facets = facetFields.length > 0
+                ? readFacets(response.body.aggregations, facetFields)
+                : undefined;
 
             searchCounter.inc({ role, status: 'success' });
             this.logger.log({
                 msg: 'Location search completed',
                 query: params.q,
-                resultCount: results.length,
+                resultCount: page.results.length,
+                total,
                 role,
             });
 
-            return results;
+            return { results: page.results, total, nextCursor: page.nextCursor, facets };
         } catch (error) {
             searchCounter.inc({ role, status: 'error' });
             this.logger.error({ msg: 'Location search failed', error, query: params });
@@ -82,7 +186,89 @@ export class LocationsSearchService {
     }
 
     /**
-     * Builds OpenSearch query from parameters.
+     * Runs a relevance-ranked location search for federated search.
+     *
+     * @remarks
+     * Uses the same query builder and tenant filter as {@link search}.
+     */
+    async federatedSearch(q: string, user: AuthenticatedUser, limit: number): Promise<VerticalSearchResult> {
+        const client = this.opensearchProvider.getClient();
+
+        const response = await client.search({
+            index: this.INDEX_NAME,
+            body: {
+                query: this.buildQuery({ q }, user),
+                _source: { excludes: SEARCH_EXCLUDES },
+                size: limit,
+                track_total_hits: true,
+            },
+        });
+
+        const hits = response.body.hits.hits as Array<{ _score: number | null; _source: LocationIndexDocument }>;
+        return {
+            total: readTotal(response.body.hits.total),
+            hits: hits.map((hit) => ({
+                id: hit._source.location_id,
+                score: hit._score ?? 0,
+                document: { ...hit._source },
+            })),
+        };
+    }
+
+    /**
+     * Returns type-ahead suggestions on location name.
+     *
+     * @remarks
+     * Uses the same tenant filter as search, so external users only see
+     * their own location.
+     */
+    async suggest(prefix: string, user: AuthenticatedUser, limit?: number): Promise<LocationSuggestResponseDto> {
+        const client = this.opensearchProvider.getClient();
+
+        const response = await client.search({
+            index: this.INDEX_NAME,
+            body: {
+                query: LOCATION_TENANT_SCOPE.apply(buildPrefixQuery('name_suggest', prefix), user),
+                _source: ['location_id', 'name'],
+                size: clampSuggestLimit(limit),
+            },
+        });
+
+        const hits = response.body.hits.hits as Array<{ _source: LocationSuggestion }>;
+        return { suggestions: hits.map((hit) => hit._source) };
+    }
+
+    /**
+     * Looks up summaries for a set of locations, keyed by location_id.
+     *
+     * @param locationIds - Locations to look up; duplicates are ignored
+     * @param user - Authenticated user for tenant filtering
+     *
+     * @remarks
+     * Used to join locations onto other verticals' results. Goes through
+     * the same tenant filter as search, so an external user only ever gets
+     * their own location back; other IDs are simply absent from the map.
+     */
+    async findSummaries(locationIds: string[], user: AuthenticatedUser): Promise<Map<string, LocationSummary>> {
+        const ids = [...new Set(locationIds)];
+        if (ids.length === 0) return new Map();
+
+        const client = this.opensearchProvider.getClient();
+        const response = await client.search({
+            index: this.INDEX_NAME,
+            body: {
+                query: LOCATION_TENANT_SCOPE.apply({ terms: { location_id: ids } }, user),
+                _source: SUMMARY_FIELDS,
+                size: ids.length,
+            },
+        });
+
+        const hits = response.body.hits.hits as Array<{ _source: LocationSummary }>;
+        return new Map(hits.map((hit) => [hit._source.location_id, hit._source]));
+    }
+
+    /**
+     * Builds OpenSearch query from parameters, scoped to the caller's tenant.
      */
     private buildQuery(params: LocationSearchQuery, user: AuthenticatedUser): Record<string, unknown> {
         const must: Record<string, unknown>[] = [];
@@ -98,6 +284,10 @@ export class LocationsSearchService {
             });
         }
 
+        if (params.location_id) {
+            filter.push({ term: { location_id: params.location_id } });
+        }
+
         if (params.region) {
             filter.push({ term: { region: params.region } });
         }
@@ -106,40 +296,92 @@ export class LocationsSearchService {
             filter.push({ term: { rate_model: params.rate_model } });
         }
 
-        // External tenants can only see their own locations
-        if (user.tenantType === 'external') {
-            filter.push({ term: { location_id: user.tenantId } });
+        const eventFilter = this.buildEventFilter(params);
+        if (eventFilter) {
+            filter.push(eventFilter);
         }
 
-        if (must.length === 0 && filter.length === 0) {
-            return { match_all: {} };
+        const userQuery = must.length === 0 && filter.length === 0
+            ? { match_all: {} }
+            : {
+                bool: {
+                    must: must.length > 0 ? must : undefined,
+                    filter: filter.length > 0 ? filter : undefined,
+                },
+            };
+
+        return LOCATION_TENANT_SCOPE.apply(userQuery, user);
+    }
+
+    /**
+     * Builds a nested filter on status events, so the type and date range
+     * must hold for the same event.
+     *
+     * @throws BadRequestException for unparseable dates
+     */
+    private buildEventFilter(params: LocationSearchQuery): Record<string, unknown> | null {
+        const { event_type: types, event_from: from, event_to: to } = params;
+        if (!types?.length && !from && !to) return null;
+
+        for (const value of [from, to]) {
+            if (value && Number.isNaN(Date.parse(value))) {
+                throw new BadRequestException(`Invalid date for status event: ${value}`);
+            }
         }
 
-        return {
-            bool: {
-                must: must.length > 0 ? must : undefined,
-                filter: filter.length > 0 ? filter : undefined,
-            },
-        };
+        const clauses: Record<string, unknown>[] = [];
+        if (types?.length) {
+            clauses.push({ terms: { 'status_events.event': types } });
+        }
+        if (from || to) {
+            clauses.push({ range: { 'status_events.date': { gte: from, lte: to } } });
+        }
+
+        return { nested: { path: 'status_events', query: { bool: { filter: clauses } } } };
     }
 
     /**
-     * Retrieves a single location by ID.
+     * Returns a location's full status event history, newest first, within
+     * the caller's tenant.
+     *
+     * @returns The timeline, or null if the location does not exist or
+     *          belongs to another tenant
      */
-    async findById(locationId: string): Promise<LocationIndexDocument | null> {
-        try {
-            const client = this.opensearchProvider.getClient();
-            const response = await client.get({
+    async findTimeline(locationId: string, user: AuthenticatedUser): Promise<LocationTimelineDto | null> {
+        const location = await LOCATION_TENANT_SCOPE.findOne<Pick<LocationIndexDocument, 'location_id' | 'name' | 'status_events'>>(
+            this.opensearchProvider.getClient(),
+            {
                 index: this.INDEX_NAME,
+                idField: 'location_id',
                 id: locationId,
-            });
+                source: ['location_id', 'name', 'status_events'],
+            },
+            user,
+        );
+        if (!location) return null;
 
-            return response.body._source as LocationIndexDocument;
-        } catch (error: unknown) {
-            if ((error as { statusCode?: number }).statusCode === 404) {
-                return null;
-            }
-            throw error;
-        }
+        const events: LocationStatusEvent[] = [...(location.status_events ?? [])]
+            .sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+
+        return { location_id: location.location_id, name: location.name, events };
+    }
+
+    /**
+     * Retrieves a single location by ID within the caller's tenant.
+     *
+     * @returns The location, or null if it does not exist or belongs to
+     *          another tenant
+     */
+    async findById(locationId: string, user: AuthenticatedUser): Promise<LocationIndexDocument | null> {
+        return LOCATION_TENANT_SCOPE.findOne<LocationIndexDocument>(
+            this.opensearchProvider.getClient(),
+            {
+                index: this.INDEX_NAME,
+                idField: 'location_id',
+                id: locationId,
+                source: { excludes: INTERNAL_FIELDS },
+            },
+            user,
+        );
     }
 }
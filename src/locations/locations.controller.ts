@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Locations Controller
+ *
+ * HTTP endpoints for a single location.
+ *
+ * @remarks
+ * Endpoints:
+ * - GET /locations/:id/timeline - Full status event history (requires JWT)
+ * - POST /locations/:id/payout-estimate - Itemized contract payout for a
+ *   period of member activity (requires JWT)
+ *
+ * Applies the same tenant isolation as location search: external users get
+ * 404 for any location but their own.
+ */
+
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    NotFoundException,
+    Param,
+    Post,
+    Request,
+    UseGuards,
+    ValidationPipe,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedUser } from '../shared/auth';
+import { LocationsSearchService } from './locations-search.service';
+import { LocationsPayoutService } from './locations-payout.service';
+import { PayoutEstimate } from './payout';
+import { LocationTimelineDto, PayoutEstimateRequestDto } from './dto';
+
+/* -------------------------------------------------------------------------- */
+/*                              Controller Implementation                      */
+/* -------------------------------------------------------------------------- */
+
+@ApiTags('locations')
+@Controller('locations')
+export class LocationsController {
+    constructor(
+        private searchService: LocationsSearchService,
+        private payoutService: LocationsPayoutService,
+    ) { }
+
+    /**
+     * Returns a location's status events, newest first.
+     *
+     * @throws NotFoundException if the location does not exist or is not visible to the caller
+     */
+    @Get(':id/timeline')
+    @UseGuards(AuthGuard('jwt'))
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Location timeline', description: 'Every status event of a location, newest first' })
+    async timeline(
+        @Param('id') id: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<LocationTimelineDto> {
+        const timeline = await this.searchService.findTimeline(id, req!.user);
+        if (!timeline) {
+            throw new NotFoundException(`Location ${id} not found`);
+        }
+        return timeline;
+    }
+
+    /**
+     * Estimates what a location is owed for a period of member activity
+     * under its contract's rate model.
+     *
+     * @throws NotFoundException if the location does not exist or is not visible to the caller
+     * @throws BadRequestException if the body is invalid or lacks the activity the rate model pays for
+     */
+    @Post(':id/payout-estimate')
+    @HttpCode(200)
+    @UseGuards(AuthGuard('jwt'))
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Payout estimate', description: 'Itemized contract payout for a period of member activity' })
+    async payoutEstimate(
+        @Param('id') id: string,
+        @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }))
+        body: PayoutEstimateRequestDto,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<PayoutEstimate> {
+        return this.payoutService.estimate(
+            id,
+            { start: body.period_start, end: body.period_end },
+            body.activity,
+            req!.user,
+        );
+    }
+}
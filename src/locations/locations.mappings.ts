@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Location Index Mappings
+ *
+ * OpenSearch mappings for the flattened `locations` index.
+ *
+ * @remarks
+ * - Categorical fields (region, rate_model, market_segment, guest_policy) are
+ *   `keyword` so term filters and facets match the stored values exactly
+ * - name and coordinator_name are `text` for fuzzy search
+ * - name_suggest is `search_as_you_type` for the suggest endpoint
+ * - status_events is `nested` so an event-type filter and a date range
+ *   must match the same event; latest_event* keep the newest event flat
+ */
+
+export const LOCATION_INDEX_MAPPINGS: Record<string, unknown> = {
+    properties: {
+        location_id: { type: 'keyword' },
+        name: { type: 'text', analyzer: 'standard' },
+        name_suggest: { type: 'search_as_you_type' },
+        region: { type: 'keyword' },
+        market_segment: { type: 'keyword' },
+        coordinator_id: { type: 'keyword' },
+        coordinator_name: { type: 'text', analyzer: 'standard' },
+        coordinator_tenure_days: { type: 'integer' },
+        last_manager_change_date: { type: 'date' },
+        org_path: { type: 'keyword' },
+        rate_model: { type: 'keyword' },
+        base_rate: { type: 'float' },
+        conversion_bonus_enabled: { type: 'boolean' },
+        initial_participant_bonus: { type: 'float' },
+        is_24_7: { type: 'boolean' },
+        max_capacity: { type: 'integer' },
+        guest_policy: { type: 'keyword' },
+        latest_event: { type: 'keyword' },
+        latest_event_date: { type: 'date' },
+        latest_event_detail: { type: 'text', analyzer: 'standard' },
+        status_events: {
+            type: 'nested',
+            properties: {
+                event: { type: 'keyword' },
+                date: { type: 'date' },
+                detail: { type: 'text', analyzer: 'standard' },
+            },
+        },
+    },
+};
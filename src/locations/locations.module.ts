@@ -4,27 +4,60 @@
  * Self-contained vertical for location data from PostgreSQL.
  */
 
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { SharedJobsModule, JobsService } from '../shared/jobs';
 import { SharedOpenSearchModule } from '../shared/opensearch';
+import { QuarantineService, SharedQuarantineModule } from '../shared/quarantine';
+import { SharedRateLimitModule } from '../shared/rate-limit';
+import { SharedRedactionModule } from '../shared/redaction';
 import { LocationEntity } from './entities';
 import { LocationsRepository } from './locations.repository';
-import { LocationsIndexerService } from './locations-indexer.service';
+import { LOCATIONS_REINDEX_JOB, LocationsIndexerService } from './locations-indexer.service';
 import { LocationsIndexerController } from './locations-indexer.controller';
+import { LocationsDeltaSyncService } from './locations-delta-sync.service';
+import { LOCATIONS_RECONCILE_JOB, LocationsReconcileService } from './locations-reconcile.service';
 import { LocationsSearchService } from './locations-search.service';
 import { LocationsSearchController } from './locations-search.controller';
+import { LocationsController } from './locations.controller';
+import { LocationsAdminService } from './locations-admin.service';
+import { LocationsAdminController } from './locations-admin.controller';
+import { LocationsPayoutService } from './locations-payout.service';
 
 @Module({
     imports: [
         TypeOrmModule.forFeature([LocationEntity]),
         SharedOpenSearchModule,
+        SharedRedactionModule,
+        SharedJobsModule,
+        SharedQuarantineModule,
+        SharedRateLimitModule,
     ],
-    controllers: [LocationsIndexerController, LocationsSearchController],
+    // LocationsController's `locations/:id/...` must register after `locations/search`
+    // LocationsAdminController's `admin/locations/:id` after the indexer's fixed admin routes
+    controllers: [LocationsIndexerController, LocationsAdminController, LocationsSearchController, LocationsController],
     providers: [
         LocationsRepository,
         LocationsIndexerService,
+        LocationsDeltaSyncService,
+        LocationsReconcileService,
         LocationsSearchService,
+        LocationsAdminService,
+        LocationsPayoutService,
     ],
-    exports: [LocationsRepository, LocationsSearchService],
+    exports: [LocationsRepository, LocationsSearchService, LocationsPayoutService],
 })
-export class LocationsModule { }
+export class LocationsModule implements OnModuleInit {
+    constructor(
+        private jobsService: JobsService,
+        private quarantineService: QuarantineService,
+        private indexerService: LocationsIndexerService,
+        private reconcileService: LocationsReconcileService,
+    ) { }
+
+    onModuleInit(): void {
+        this.jobsService.register(LOCATIONS_REINDEX_JOB, this.indexerService);
+        this.jobsService.register(LOCATIONS_RECONCILE_JOB, this.reconcileService);
+        this.quarantineService.registerReplayer('locations', this.indexerService);
+    }
+}
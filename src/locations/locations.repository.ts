@@ -6,19 +6,38 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { MoreThan, QueryFailedError, Repository } from 'typeorm';
 import { LocationEntity } from './entities';
 import { Location } from './interfaces';
 
+/** PostgreSQL unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Location sections written by an update; location_id and the
+ * TypeORM-maintained columns are excluded.
+ */
+export type LocationChanges = Omit<Location, 'location_id' | 'updated_at' | 'version'>;
+
 /**
  * Pagination result for batch operations.
  */
 export interface LocationScanPage {
     items: Location[];
-    total: number;
     hasMore: boolean;
 }
 
+/**
+ * Keyset position in the change feed: the last change read.
+ */
+export interface LocationChangeCursor {
+    /** ISO 8601 `updated_at` of the last change read */
+    updatedAt: string;
+
+    /** Breaks ties between rows updated in the same millisecond */
+    locationId: string;
+}
+
 @Injectable()
 export class LocationsRepository {
     private readonly logger = new Logger(LocationsRepository.name);
@@ -46,22 +65,71 @@ export class LocationsRepository {
     }
 
     /**
-     * Paginated scan for batch indexing.
+     * Paginated scan for batch indexing, in location_id order.
+     *
+     * @param pageSize - Rows per page
+     * @param afterId - Last location_id of the previous page (keyset
+     *                  pagination, so deep pages cost the same as the first)
      */
-    async scanPage(pageSize = 100, offset = 0): Promise<LocationScanPage> {
-        const [items, total] = await this.locationRepo.findAndCount({
-            take: pageSize,
-            skip: offset,
+    async scanPage(pageSize = 100, afterId?: string): Promise<LocationScanPage> {
+        const rows = await this.locationRepo.find({
+            where: afterId ? { location_id: MoreThan(afterId) } : {},
             order: { location_id: 'ASC' },
+            take: pageSize + 1,
         });
 
         return {
-            items,
-            total,
-            hasMore: offset + items.length < total,
+            items: rows.slice(0, pageSize),
+            hasMore: rows.length > pageSize,
+        };
+    }
+
+    /**
+     * Reads locations changed after a cursor, oldest change first.
+     *
+     * @param after - Last change already read; omit to start from the beginning
+     * @param before - Only rows updated strictly before this time
+     * @param pageSize - Rows per page
+     *
+     * @remarks
+     * Keyset pagination on `(updated_at, location_id)`, served by
+     * `idx_locations_updated_at`. Bounding by `before` lets callers skip
+     * rows whose transaction may not have committed yet.
+     */
+    async findChangedSince(
+        after: LocationChangeCursor | undefined,
+        before: Date,
+        pageSize = 100,
+    ): Promise<LocationScanPage> {
+        const query = this.locationRepo
+            .createQueryBuilder('location')
+            .where('location.updated_at < :before', { before })
+            .orderBy('location.updated_at', 'ASC')
+            .addOrderBy('location.location_id', 'ASC')
+            .take(pageSize + 1);
+
+        if (after) {
+            query.andWhere('(location.updated_at, location.location_id) > (:updatedAt, :locationId)', {
+                updatedAt: new Date(after.updatedAt),
+                locationId: after.locationId,
+            });
+        }
+
+        const rows = await query.getMany();
+        return {
+            items: rows.slice(0, pageSize),
+            hasMore: rows.length > pageSize,
         };
     }
 
+    /**
+     * Reads every location_id, e.g. to find index documents whose row was deleted.
+     */
+    async findAllIds(): Promise<Set<string>> {
+        const rows = await this.locationRepo.find({ select: { location_id: true } });
+        return new Set(rows.map((row) => row.location_id));
+    }
+
     /**
      * Counts total locations.
      */
@@ -75,4 +143,56 @@ export class LocationsRepository {
     async save(location: Location): Promise<void> {
         await this.locationRepo.save(location as LocationEntity);
     }
+
+    /**
+     * Inserts a new location.
+     *
+     * @returns The stored location with its version, or null if the ID is taken
+     */
+    async insert(location: Location): Promise<Location | null> {
+        try {
+            await this.locationRepo.insert(location as LocationEntity);
+        } catch (error: unknown) {
+            if (error instanceof QueryFailedError && (error.driverError as { code?: string }).code === UNIQUE_VIOLATION) {
+                return null;
+            }
+            throw error;
+        }
+        return this.findById(location.location_id);
+    }
+
+    /**
+     * Overwrites a location's sections if it is still at `version`.
+     *
+     * @returns Whether a row was updated; false if the location does not
+     *          exist or another write changed it first
+     *
+     * @remarks
+     * The version check is part of the UPDATE, so two writers holding the
+     * same version cannot both succeed.
+     */
+    async updateIfVersion(locationId: string, version: number, changes: LocationChanges): Promise<boolean> {
+        const result = await this.locationRepo
+            .createQueryBuilder()
+            .update(LocationEntity)
+            .set({
+                ...changes,
+                version: () => 'version + 1',
+                updated_at: () => 'CURRENT_TIMESTAMP',
+            })
+            .where('location_id = :locationId AND version = :version', { locationId, version })
+            .execute();
+
+        return (result.affected ?? 0) > 0;
+    }
+
+    /**
+     * Deletes a location if it is still at `version`.
+     *
+     * @returns Whether a row was deleted
+     */
+    async deleteIfVersion(locationId: string, version: number): Promise<boolean> {
+        const result = await this.locationRepo.delete({ location_id: locationId, version });
+        return (result.affected ?? 0) > 0;
+    }
 }
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Payout Barrel Export
+ */
+
+export * from './payout.interface';
+export * from './payout-calculator';
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Contract Payout Calculator Tests
+ */
+
+import { calculatePayout, PayoutInputError } from './payout-calculator';
+import { MemberActivity, PayoutContract } from './payout.interface';
+
+describe('calculatePayout', () => {
+    const period = { start: '2025-11-01', end: '2025-11-30' };
+    const activity: MemberActivity = {
+        enrollments: 10,
+        visits: 400,
+        conversions: 3,
+        participants: 90,
+        admin_enrollments: 4,
+    };
+
+    const contract = (overrides: Partial<PayoutContract> = {}): PayoutContract => ({
+        rate_model: 'standard',
+        base_rate: 12,
+        conversion_bonus_enabled: false,
+        ...overrides,
+    });
+
+    it.each([
+        ['standard', 'visits', 400],
+        ['per_participant', 'participants', 90],
+        ['conversion_rate', 'conversions', 3],
+        ['new_enrollee', 'enrollments', 10],
+        ['admin_enrollee', 'admin_enrollments', 4],
+    ] as const)('should pay %s per unit of %s', (rateModel, _field, quantity) => {
+        const result = calculatePayout(contract({ rate_model: rateModel }), activity, period);
+
+        expect(result.line_items).toEqual([expect.objectContaining({
+            code: 'base',
+            quantity,
+            unit_rate: 12,
+            amount: quantity * 12,
+        })]);
+        expect(result.total).toBe(quantity * 12);
+    });
+
+    it('should add the conversion bonus and the initial participant bonus as separate lines', () => {
+        const result = calculatePayout(
+            contract({ rate_model: 'per_participant', base_rate: 15.5, conversion_bonus_enabled: true, initial_participant_bonus: 25 }),
+            activity,
+            period,
+        );
+
+        expect(result.line_items.map((item) => [item.code, item.amount])).toEqual([
+            ['base', 1395],
+            ['conversion_bonus', 46.5],
+            ['initial_participant_bonus', 250],
+        ]);
+        expect(result.total).toBe(1691.5);
+    });
+
+    it('should not pay a conversion bonus on top of the conversion_rate model', () => {
+        const result = calculatePayout(
+            contract({ rate_model: 'conversion_rate', conversion_bonus_enabled: true }),
+            activity,
+            period,
+        );
+
+        expect(result.line_items.map((item) => item.code)).toEqual(['base']);
+    });
+
+    it('should round each line to cents without float drift', () => {
+        const result = calculatePayout(contract({ base_rate: 0.1 }), { ...activity, visits: 3 }, period);
+
+        expect(result.line_items[0].amount).toBe(0.3);
+        expect(result.total).toBe(0.3);
+    });
+
+    it('should require the activity the rate model pays for', () => {
+        expect(() => calculatePayout(
+            contract({ rate_model: 'per_participant' }),
+            { enrollments: 1, visits: 1, conversions: 0 },
+            period,
+        )).toThrow(new PayoutInputError('activity.participants is required for the per_participant rate model'));
+    });
+
+    it('should refuse an inverted period', () => {
+        expect(() => calculatePayout(contract(), activity, { start: '2025-12-01', end: '2025-11-01' }))
+            .toThrow(PayoutInputError);
+    });
+});
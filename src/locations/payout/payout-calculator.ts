@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Contract Payout Calculator
+ *
+ * Computes what a location is owed for a period of member activity under
+ * its contract terms. Pure and deterministic, so the same inputs always
+ * produce the same itemized payout.
+ *
+ * @remarks
+ * Each rate model pays `base_rate` per unit of one activity:
+ * - standard: per visit
+ * - per_participant: per distinct member who visited
+ * - conversion_rate: per trial converted to a paid membership
+ * - new_enrollee: per new enrollment
+ * - admin_enrollee: per enrollment processed by the location's own staff
+ *
+ * Bonuses are separate lines:
+ * - conversion bonus (when `conversion_bonus_enabled`): `base_rate` per
+ *   conversion, on top of the base line. Not paid under `conversion_rate`,
+ *   whose base line already pays per conversion.
+ * - initial participant bonus (when set): the bonus amount per new enrollment
+ *
+ * Amounts are computed in integer cents and rounded once per line.
+ */
+
+import { RateModel } from '../interfaces';
+import {
+    MemberActivity,
+    PayoutContract,
+    PayoutLineItem,
+    PayoutLineCode,
+    PayoutPeriod,
+} from './payout.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Rate Models                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * The activity each rate model pays for.
+ */
+interface RateModelUnit {
+    /** Activity counted */
+    field: keyof MemberActivity;
+
+    /** Line description, e.g. "Per visit" */
+    description: string;
+}
+
+const RATE_MODEL_UNITS: Record<RateModel, RateModelUnit> = {
+    standard: { field: 'visits', description: 'Per visit' },
+    per_participant: { field: 'participants', description: 'Per participating member' },
+    conversion_rate: { field: 'conversions', description: 'Per conversion to a paid membership' },
+    new_enrollee: { field: 'enrollments', description: 'Per new enrollment' },
+    admin_enrollee: { field: 'admin_enrollments', description: 'Per staff-processed enrollment' },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Errors                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Inputs a payout cannot be computed from, e.g. activity the rate model
+ * needs was not given.
+ */
+export class PayoutInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PayoutInputError';
+    }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Calculator                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Itemizes the payout for a period of activity.
+ *
+ * @param contract - Rate model, base rate and bonus terms
+ * @param activity - Member activity over the period
+ * @param period - Inclusive period the activity covers
+ * @returns Line items (zero-quantity bonus lines omitted) and their total
+ * @throws PayoutInputError if the period is inverted or the rate model's
+ *         activity is missing
+ */
+export function calculatePayout(
+    contract: PayoutContract,
+    activity: MemberActivity,
+    period: PayoutPeriod,
+): { line_items: PayoutLineItem[]; total: number } {
+    if (Date.parse(period.end) < Date.parse(period.start)) {
+        throw new PayoutInputError('period end must not be before period start');
+    }
+
+    const unit = RATE_MODEL_UNITS[contract.rate_model];
+    if (!unit) {
+        throw new PayoutInputError(`Unknown rate model ${contract.rate_model}`);
+    }
+
+    const units = activity[unit.field];
+    if (units === undefined) {
+        throw new PayoutInputError(`activity.${unit.field} is required for the ${contract.rate_model} rate model`);
+    }
+
+    const lineItems = [line('base', unit.description, units, contract.base_rate)];
+
+    if (contract.conversion_bonus_enabled && contract.rate_model !== 'conversion_rate' && activity.conversions > 0) {
+        lineItems.push(line('conversion_bonus', 'Conversion bonus', activity.conversions, contract.base_rate));
+    }
+
+    if (contract.initial_participant_bonus && activity.enrollments > 0) {
+        lineItems.push(line(
+            'initial_participant_bonus',
+            'Initial participant bonus per new enrollment',
+            activity.enrollments,
+            contract.initial_participant_bonus,
+        ));
+    }
+
+    const totalCents = lineItems.reduce((sum, item) => sum + Math.round(item.amount * 100), 0);
+    return { line_items: lineItems, total: totalCents / 100 };
+}
+
+function line(code: PayoutLineCode, description: string, quantity: number, unitRate: number): PayoutLineItem {
+    return {
+        code,
+        description,
+        quantity,
+        unit_rate: unitRate,
+        amount: Math.round(quantity * Math.round(unitRate * 100)) / 100,
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Payout Interfaces
+ *
+ * Inputs and itemized result of the contract payout calculator.
+ */
+
+import { RateModel } from '../interfaces';
+
+/**
+ * Contract terms the calculator reads, as held by a location's
+ * contract_logic (or its index document).
+ */
+export interface PayoutContract {
+    rate_model: RateModel;
+    base_rate: number;
+    conversion_bonus_enabled: boolean;
+    initial_participant_bonus?: number;
+}
+
+/**
+ * Member activity at a location over the payout period.
+ */
+export interface MemberActivity {
+    /** New member enrollments */
+    enrollments: number;
+
+    /** Member check-ins */
+    visits: number;
+
+    /** Trial or guest members converted to paid memberships */
+    conversions: number;
+
+    /** Distinct members who visited at least once; required by `per_participant` */
+    participants?: number;
+
+    /** Enrollments processed by the location's own staff; required by `admin_enrollee` */
+    admin_enrollments?: number;
+}
+
+/**
+ * Period the activity was measured over, as ISO 8601 dates (inclusive).
+ */
+export interface PayoutPeriod {
+    start: string;
+    end: string;
+}
+
+/**
+ * Kinds of payout line.
+ */
+export type PayoutLineCode = 'base' | 'conversion_bonus' | 'initial_participant_bonus';
+
+/**
+ * One itemized line: quantity × unit rate.
+ */
+export interface PayoutLineItem {
+    code: PayoutLineCode;
+    description: string;
+
+    /** Activity units paid for, e.g. visits */
+    quantity: number;
+
+    unit_rate: number;
+
+    /** quantity × unit_rate, rounded to cents */
+    amount: number;
+}
+
+/**
+ * Itemized payout owed to a location for a period.
+ */
+export interface PayoutEstimate {
+    location_id: string;
+    rate_model: RateModel;
+    period: PayoutPeriod;
+    activity: MemberActivity;
+    line_items: PayoutLineItem[];
+
+    /** Sum of line amounts */
+    total: number;
+
+    generated_at: string;
+}
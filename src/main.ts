@@ -20,6 +20,7 @@ async function bootstrap() {
         .addBearerAuth()
         .addTag('members', 'Member search and indexing')
         .addTag('locations', 'Location search and management')
+        .addTag('search', 'Federated search across verticals')
         .addTag('agent', 'LLM-powered analysis')
         .build();
     const document = SwaggerModule.createDocument(app, config);
@@ -2,6 +2,8 @@
  * @fileoverview Membership DTOs Barrel Export
  */
 
+export * from './name-synonyms.dto';
 export * from './reindex-result.dto';
 export * from './search-query.dto';
 export * from './search-result.dto';
+export * from './suggest-response.dto';
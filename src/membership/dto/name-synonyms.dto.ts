@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Name Synonyms DTO
+ *
+ * Request/response DTO for the nickname dictionary admin endpoint.
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Nickname dictionary: each group lists names for the same person.
+ */
+export class NameSynonymsDto {
+    @ApiProperty({ example: [['robert', 'bob', 'rob'], ['william', 'bill']], description: 'Groups of equivalent names' })
+    groups: string[][];
+}
@@ -17,8 +17,28 @@ export class ReindexResultDto {
     /** Failed to index */
     failed: number;
 
+    /** Indexed documents removed because the member no longer exists */
+    deleted: number;
+
     /** Duration in milliseconds */
     durationMs: number;
+
+    /** Versioned index the alias now points to */
+    index: string;
+
+    /** Index kept for rollback, if any */
+    previousIndex?: string;
+}
+
+/**
+ * Result of rolling the alias back to the previous version.
+ */
+export class RollbackResultDto {
+    /** Index the alias now points to */
+    index: string;
+
+    /** Index the alias pointed to before the rollback */
+    previousIndex: string;
 }
 
 /**
@@ -4,7 +4,7 @@
  * Request DTO for search endpoint with validation.
  */
 
-import { IsOptional, IsString, IsBoolean, IsInt, Min, Max } from 'class-validator';
+import { IsOptional, IsString, IsBoolean, IsInt, IsIn, IsISO8601, Min, Max } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 
 /**
@@ -12,7 +12,7 @@ import { Transform, Type } from 'class-transformer';
  *
  * @example
  * ```
- * GET /search?q=violation&fuzzy=true&limit=20
+ * GET /members/search?q=violation&tag=at-risk,vip&tag_mode=all&updated_from=2024-01-01&sort=updated_at
  * ```
  */
 export class SearchQueryDto {
@@ -21,22 +21,74 @@ export class SearchQueryDto {
     @IsString()
     q?: string;
 
-    /** Exact email match */
+    /** Exact email filter */
     @IsOptional()
     @IsString()
     email?: string;
 
-    /** Filter by tag */
+    /** Exact member ID filter */
+    @IsOptional()
+    @IsString()
+    member_id?: string;
+
+    /** Home location filter */
+    @IsOptional()
+    @IsString()
+    location_id?: string;
+
+    /** Comma-separated tag filter */
     @IsOptional()
     @IsString()
     tag?: string;
 
+    /** Match any tag (default) or all tags */
+    @IsOptional()
+    @IsIn(['any', 'all'])
+    tag_mode?: 'any' | 'all';
+
+    /** Inclusive created_at lower bound */
+    @IsOptional()
+    @IsISO8601()
+    created_from?: string;
+
+    /** Inclusive created_at upper bound */
+    @IsOptional()
+    @IsISO8601()
+    created_to?: string;
+
+    /** Inclusive updated_at lower bound */
+    @IsOptional()
+    @IsISO8601()
+    updated_from?: string;
+
+    /** Inclusive updated_at upper bound */
+    @IsOptional()
+    @IsISO8601()
+    updated_to?: string;
+
+    /** Result order */
+    @IsOptional()
+    @IsIn(['relevance', 'updated_at', 'lname'])
+    sort?: 'relevance' | 'updated_at' | 'lname';
+
     /** Enable fuzzy matching */
     @IsOptional()
     @Transform(({ value }) => value === 'true' || value === true)
     @IsBoolean()
     fuzzy?: boolean = false;
 
+    /** Match q as a name (exact, nickname, fuzzy, phonetic) */
+    @IsOptional()
+    @Transform(({ value }) => value === 'true' || value === true)
+    @IsBoolean()
+    name_match?: boolean = false;
+
+    /** Return highlighted match fragments */
+    @IsOptional()
+    @Transform(({ value }) => value === 'true' || value === true)
+    @IsBoolean()
+    highlight?: boolean = false;
+
     /** Maximum results to return */
     @IsOptional()
     @Type(() => Number)
@@ -44,4 +96,14 @@ export class SearchQueryDto {
     @Min(1)
     @Max(100)
     limit?: number = 20;
+
+    /** Opaque pagination cursor from a previous response */
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+
+    /** Comma-separated facet fields, e.g. `tags,tenant_id` */
+    @IsOptional()
+    @IsString()
+    facets?: string;
 }
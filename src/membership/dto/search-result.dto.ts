@@ -4,25 +4,55 @@
  * Response DTO for search results.
  */
 
+import { FacetResults } from '../../shared/facets';
+import { LocationSummary } from '../../locations/interfaces';
+
 /**
  * Individual search result item.
  * Fields present depend on user's RBAC permissions.
  */
 export class SearchResultItemDto {
     member_id: string;
-    email: string;
-    fname: string;
-    lname: string;
+    email?: string;
+    fname?: string;
+    lname?: string;
     tags?: string[];
     tenant_id?: string;
+    location_id?: string;
+    enrollment_date?: string;
+    monthly_visits?: number;
+    created_at?: string;
+    updated_at?: string;
     /** Only visible to compliance_lead or external admin */
     status_notes?: string;
+    /** Matched fragments per field, present only when highlight=true */
+    highlights?: Record<string, string[]>;
+    /** Strongest name-matching strategy, present only when name_match=true */
+    match_strategy?: 'exact' | 'nickname' | 'fuzzy' | 'phonetic';
+    /** Home location summary, present only when expand=location and visible to the caller */
+    location?: LocationSummary;
 }
 
 /**
- * Search response wrapper (optional pagination support).
+ * Paginated search response envelope.
+ *
+ * @remarks
+ * `total` counts every document matching the query within the caller's
+ * tenant scope, not just the current page.
  */
 export class SearchResponseDto {
+    /** Results for the current page */
     results: SearchResultItemDto[];
-    total?: number;
+
+    /** Total matching documents across all pages */
+    total: number;
+
+    /** Opaque cursor for the next page, absent on the last page */
+    nextCursor?: string;
+
+    /** Relative link to the next page, absent on the last page */
+    next?: string;
+
+    /** Terms aggregation counts, present only when facets were requested */
+    facets?: FacetResults;
 }
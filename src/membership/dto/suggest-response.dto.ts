@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Suggest Response DTO
+ *
+ * Response DTO for member type-ahead suggestions.
+ */
+
+import { MemberSuggestion } from '../interfaces';
+
+/**
+ * Member suggestions in relevance order.
+ */
+export class MemberSuggestResponseDto {
+    suggestions: MemberSuggestion[];
+}
@@ -6,5 +6,7 @@ export * from './membership.module';
 export * from './membership.repository';
 export * from './membership-indexer.service';
 export * from './membership-search.service';
+export * from './membership.mappings';
+export * from './name-synonyms.service';
 export * from './dto';
 export * from './interfaces';
@@ -10,6 +10,7 @@
  * @remarks
  * - member_id: Used as OpenSearch _id for idempotent upserts
  * - status_notes: Redacted before indexing to remove PII
+ * - lname_suggest: Copy of lname for search-as-you-type
  */
 export interface IndexDocument {
     member_id: string;
@@ -17,6 +18,12 @@ export interface IndexDocument {
     email: string;
     fname: string;
     lname: string;
+    lname_suggest?: string;
     status_notes?: string;
     tags?: string[];
+    location_id?: string;
+    enrollment_date?: string;
+    monthly_visits?: number;
+    created_at?: string;
+    updated_at?: string;
 }
@@ -6,3 +6,4 @@ export * from './member.interface';
 export * from './index-document.interface';
 export * from './validation-error.interface';
 export * from './search.interface';
+export * from './stream-record.interface';
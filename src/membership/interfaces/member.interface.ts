@@ -35,6 +35,15 @@ export interface Member {
     /** Classification tags */
     tags?: string[];
 
+    /** Home location (joins to the locations index) */
+    location_id?: string;
+
+    /** Enrollment date (YYYY-MM-DD) */
+    enrollment_date?: string;
+
+    /** Visits in the last month */
+    monthly_visits?: number;
+
     /** ISO 8601 creation timestamp */
     created_at: string;
 
@@ -4,24 +4,106 @@
  * Type definitions for search operations.
  */
 
+import { LocationSummary } from '../../locations/interfaces';
+
+/**
+ * Sort orders supported by member search.
+ * - relevance: score, then member_id (default)
+ * - updated_at: most recently updated first
+ * - lname: last name A-Z
+ */
+export type MemberSortOption = 'relevance' | 'updated_at' | 'lname';
+
+/**
+ * Strategy that matched a hit in name-matching mode.
+ * - exact: the name as typed
+ * - nickname: a dictionary variant (e.g. Bob → Robert)
+ * - fuzzy: edit distance (typos)
+ * - phonetic: sounds alike (e.g. Smyth → Smith)
+ */
+export type NameMatchStrategy = 'exact' | 'nickname' | 'fuzzy' | 'phonetic';
+
+/**
+ * How multiple tags combine: any tag matches, or every tag must match.
+ */
+export type TagMatchMode = 'any' | 'all';
+
+/**
+ * Related documents that can be attached to each result.
+ * - location: the member's home location summary
+ */
+export type MemberExpansion = 'location';
+
 /**
  * Query parameters accepted by the search endpoint.
+ *
+ * @remarks
+ * All parameters compose: `q` scores results while the remaining
+ * parameters narrow them as filters.
  */
 export interface SearchQuery {
     /** Free-text query string for fuzzy matching */
     q?: string;
 
-    /** Exact member ID lookup */
+    /** Exact member ID filter */
     member_id?: string;
 
-    /** Exact email match (takes precedence over q) */
+    /** Exact email filter (case-insensitive) */
     email?: string;
 
+    /** Home location filter */
+    location_id?: string;
+
+    /** Tag filter */
+    tags?: string[];
+
+    /** How `tags` combine. Defaults to 'any'. */
+    tag_mode?: TagMatchMode;
+
+    /** Inclusive created_at lower bound (ISO 8601) */
+    created_from?: string;
+
+    /** Inclusive created_at upper bound (ISO 8601) */
+    created_to?: string;
+
+    /** Inclusive updated_at lower bound (ISO 8601) */
+    updated_from?: string;
+
+    /** Inclusive updated_at upper bound (ISO 8601) */
+    updated_to?: string;
+
+    /** Result order. Defaults to 'relevance'. */
+    sort?: MemberSortOption;
+
     /** Enable fuzzy matching. Defaults to true. */
     fuzzy?: boolean;
 
-    /** Maximum number of results. Defaults to 20. */
+    /** Treat `q` as a person's name: exact, nickname, fuzzy and phonetic matching */
+    name_match?: boolean;
+
+    /** Maximum number of results per page. Defaults to 20, capped at 100. */
     limit?: number;
+
+    /** Opaque cursor from a previous page's `nextCursor` */
+    cursor?: string;
+
+    /** Fields to return terms aggregations for (see MEMBER_FACET_FIELDS) */
+    facets?: string[];
+
+    /** Return highlighted fragments for matched text fields */
+    highlight?: boolean;
+
+    /** Related documents to attach to each result */
+    expand?: MemberExpansion[];
+}
+
+/**
+ * Type-ahead suggestion for a member.
+ */
+export interface MemberSuggestion {
+    member_id: string;
+    fname?: string;
+    lname: string;
 }
 
 /**
@@ -41,4 +123,28 @@ export interface SearchResult {
 
     /** Tenant ID for multi-tenant data */
     tenant_id?: string;
+
+    /** Home location */
+    location_id?: string;
+
+    /** Enrollment date (YYYY-MM-DD) */
+    enrollment_date?: string;
+
+    /** Visits in the last month */
+    monthly_visits?: number;
+
+    /** ISO 8601 creation timestamp */
+    created_at?: string;
+
+    /** ISO 8601 last update timestamp */
+    updated_at?: string;
+
+    /** Redaction-checked match fragments, only when highlighting was requested */
+    highlights?: Record<string, string[]>;
+
+    /** Strongest strategy that matched, only in name-matching mode */
+    match_strategy?: NameMatchStrategy;
+
+    /** Home location summary, only with expand=location and only if visible to the caller */
+    location?: LocationSummary;
 }
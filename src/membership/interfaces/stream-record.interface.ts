@@ -0,0 +1,67 @@
+/**
+ * @fileoverview DynamoDB Stream Record Interfaces
+ *
+ * Shape of the DynamoDB Streams events delivered to the member indexer
+ * by Lambda, and of its partial batch response.
+ *
+ * @remarks
+ * Mirrors the Lambda event payload for a stream configured with
+ * `NEW_AND_OLD_IMAGES`. Only the fields the indexer reads are declared.
+ */
+
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+
+/**
+ * Item change type.
+ */
+export type StreamEventName = 'INSERT' | 'MODIFY' | 'REMOVE';
+
+/**
+ * DynamoDB item in attribute-value form, e.g. `{ member_id: { S: 'mem-001' } }`.
+ */
+export type StreamImage = Record<string, AttributeValue>;
+
+/**
+ * Single change record from the members table stream.
+ */
+export interface MemberStreamRecord {
+    eventID?: string;
+    eventName: StreamEventName;
+    eventSource?: string;
+    dynamodb: {
+        /** Primary key of the changed item */
+        Keys?: StreamImage;
+
+        /** Item after the change (INSERT, MODIFY) */
+        NewImage?: StreamImage;
+
+        /** Item before the change (MODIFY, REMOVE) */
+        OldImage?: StreamImage;
+
+        /** Position in the shard; reported back for failed records */
+        SequenceNumber: string;
+
+        /** Epoch seconds of the change */
+        ApproximateCreationDateTime?: number;
+
+        StreamViewType?: string;
+    };
+}
+
+/**
+ * Batch of stream records delivered in one Lambda invocation.
+ */
+export interface MemberStreamEvent {
+    Records: MemberStreamRecord[];
+}
+
+/**
+ * Partial batch response (`ReportBatchItemFailures`).
+ *
+ * @remarks
+ * Lambda resumes the shard from the lowest reported sequence number;
+ * an empty list checkpoints the whole batch.
+ */
+export interface StreamBatchResponse {
+    batchItemFailures: Array<{ itemIdentifier: string }>;
+}
@@ -6,15 +6,21 @@
  *
  * @remarks
  * Endpoints:
- * - POST /admin/reindex - Triggers full reindex from DynamoDB to OpenSearch
+ * - POST /admin/reindex - Starts a full reindex job from DynamoDB to OpenSearch
+ * - POST /admin/reindex/rollback - Swaps back to the index version replaced by the last reindex
+ * - POST /admin/reconcile - Starts a job comparing the index with DynamoDB
  *
- * All endpoints require 'admin' role for access.
+ * All endpoints require 'admin' role for access, from an internal tenant:
+ * they act on the index every tenant shares. Jobs are tracked through
+ * /admin/jobs/:id (see JobsController).
  */
 
-import { Controller, Post, Query, UseGuards } from '@nestjs/common';
+import { Controller, HttpCode, Post, Query, Request, UseGuards } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { MembershipIndexerService, ReindexResult } from './membership-indexer.service';
-import { RolesGuard, Roles } from '../shared/auth';
+import { MEMBERS_REINDEX_JOB, MembershipIndexerService, RollbackResultDto } from './membership-indexer.service';
+import { MEMBERS_RECONCILE_JOB } from './membership-reconcile.service';
+import { AuthenticatedUser, InternalOnlyGuard, RolesGuard, Roles } from '../shared/auth';
+import { Job, JobsService } from '../shared/jobs';
 
 /* -------------------------------------------------------------------------- */
 /*                              Controller Implementation                      */
@@ -23,23 +29,35 @@ import { RolesGuard, Roles } from '../shared/auth';
 @Controller('admin')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
 export class MembershipIndexerController {
-    constructor(private indexerService: MembershipIndexerService) { }
+    constructor(
+        private indexerService: MembershipIndexerService,
+        private jobsService: JobsService,
+    ) { }
 
     /**
-     * Triggers a full reindex of all members from DynamoDB to OpenSearch.
+     * Starts a full reindex of all members from DynamoDB to OpenSearch.
      *
      * @param batchSize - Records per batch (default: 100, max: 1000)
-     * @returns ReindexResult with total, success, failed counts and duration
+     * @param maxFailed - Records lost to the new index (failed and not quarantined, or
+     *                    missing) tolerated before the swap is refused (default: 0)
+     * @returns The started job; poll GET /admin/jobs/:id for progress and,
+     *          once completed, the ReindexResult
+     * @throws ConflictException (409) if a member reindex is already running
      *
      * @remarks
-     * **Admin only**: Requires 'admin' role.
+     * **Internal admins only**: the index is shared by every tenant.
      *
      * Use cases:
      * - Index corruption recovery
      * - Mapping changes requiring full rebuild
      * - Initial production data load
      *
-     * The operation is idempotent (uses member_id as _id) so safe to retry.
+     * Returns 202 immediately; the reindex runs in the background and
+     * checkpoints every batch, so a failed or cancelled job can be resumed.
+     *
+     * Builds a new index version and only swaps the `members` alias to it
+     * once its document count checks out, so searches keep working
+     * throughout and a failed run leaves the live index untouched.
      *
      * @example
      * ```bash
@@ -48,15 +66,68 @@ export class MembershipIndexerController {
      * ```
      */
     @Post('reindex')
+    @HttpCode(202)
     @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
     async reindex(
         @Query('batchSize') batchSizeParam?: string,
-    ): Promise<ReindexResult> {
+        @Query('maxFailed') maxFailedParam?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<Job> {
+        const batchSize = Math.min(
+            Math.max(parseInt(batchSizeParam || '100', 10), 1),
+            1000,
+        );
+        const maxFailed = Math.max(parseInt(maxFailedParam || '0', 10) || 0, 0);
+
+        return this.jobsService.start(MEMBERS_REINDEX_JOB, { batchSize, maxFailed }, req!.user.userId);
+    }
+
+    /**
+     * Points the `members` alias back at the index version the last
+     * reindex replaced.
+     *
+     * @returns The index now live and the one rolled back from
+     * @throws ConflictException (409) if no previous version is kept
+     *
+     * @remarks
+     * **Internal admins only**: the index is shared by every tenant.
+     */
+    @Post('reindex/rollback')
+    @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
+    async rollback(): Promise<RollbackResultDto> {
+        return this.indexerService.rollback();
+    }
+
+    /**
+     * Starts a job comparing the members index with DynamoDB.
+     *
+     * @param batchSize - Records per batch (default: 100, max: 1000)
+     * @param repair - `true` to re-index missing and stale documents and
+     *                 delete orphans; otherwise drift is only reported
+     * @returns The started job; its result is the drift report
+     * @throws ConflictException (409) if a reconciliation is already running
+     *
+     * @remarks
+     * **Internal admins only**: the report lists members of every tenant,
+     * and a repair writes to the shared index. Drift counts are also exported
+     * as the `search_index_drift_documents` gauge.
+     */
+    @Post('reconcile')
+    @HttpCode(202)
+    @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
+    async reconcile(
+        @Query('batchSize') batchSizeParam?: string,
+        @Query('repair') repairParam?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<Job> {
         const batchSize = Math.min(
             Math.max(parseInt(batchSizeParam || '100', 10), 1),
             1000,
         );
 
-        return this.indexerService.reindexAll(batchSize);
+        return this.jobsService.start(MEMBERS_RECONCILE_JOB, { batchSize, repair: repairParam === 'true' }, req!.user.userId);
     }
 }
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Member Indexer Service Tests
+ */
+
+import { MembershipIndexerService, InvalidMemberError } from './membership-indexer.service';
+import { RedactionService } from '../shared/redaction';
+import { JobCancelledError } from '../shared/jobs';
+
+describe('MembershipIndexerService', () => {
+    let service: MembershipIndexerService;
+    let mockClient: any;
+    let mockOpenSearchProvider: any;
+    let mockRepository: any;
+    let mockQuarantine: any;
+
+    const member = (id: string, updatedAt = '2024-01-02T00:00:00Z') => ({
+        member_id: id,
+        email: `${id}@example.com`,
+        fname: 'John',
+        lname: 'Doe',
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: updatedAt,
+    });
+
+    const context = { checkpoint: jest.fn().mockResolvedValue(undefined) };
+
+    const reindexJob = (checkpoint = {}, progress = { processed: 0, success: 0, failed: 0 }): any => ({
+        job_id: 'job-1',
+        kind: 'members-reindex',
+        status: 'running',
+        params: { batchSize: 100, maxFailed: 0 },
+        progress,
+        checkpoint,
+    });
+
+    beforeEach(() => {
+        context.checkpoint.mockClear();
+        mockClient = {
+            index: jest.fn().mockResolvedValue({ body: {} }),
+            delete: jest.fn().mockResolvedValue({ body: {} }),
+            bulk: jest.fn().mockResolvedValue({ body: { errors: false, items: [] } }),
+            mget: jest.fn().mockRejectedValue({ statusCode: 404 }),
+            search: jest.fn().mockResolvedValue({ body: { hits: { hits: [] } } }),
+            delete_by_query: jest.fn().mockResolvedValue({ body: {} }),
+            reindex: jest.fn().mockResolvedValue({ body: {} }),
+            indices: {
+                delete: jest.fn().mockResolvedValue({ body: {} }),
+                exists: jest.fn().mockResolvedValue({ body: true }),
+            },
+        };
+        mockOpenSearchProvider = {
+            getClient: () => mockClient,
+            ensureIndex: jest.fn().mockResolvedValue(undefined),
+            listIndexVersions: jest.fn().mockResolvedValue([{ index: 'members_v1', version: 1 }]),
+            getAliasIndices: jest.fn().mockResolvedValue(['members_v1']),
+            countDocuments: jest.fn().mockResolvedValue(1),
+            swapAlias: jest.fn().mockResolvedValue('members_v1'),
+        };
+        mockRepository = {
+            scanPage: jest.fn().mockResolvedValue({ items: [member('mem-001')] }),
+            scanIds: jest.fn().mockResolvedValue(new Set(['mem-001'])),
+        };
+
+        mockQuarantine = {
+            quarantine: jest.fn(async (_vertical: string, entries: unknown[]) => entries.length),
+        };
+
+        service = new MembershipIndexerService(
+            mockOpenSearchProvider,
+            new RedactionService(),
+            mockRepository,
+            mockQuarantine,
+        );
+    });
+
+    describe('indexMember', () => {
+        it('should throw InvalidMemberError for records failing validation', async () => {
+            await expect(service.indexMember({ ...member('mem-001'), email: 'nope' }))
+                .rejects.toBeInstanceOf(InvalidMemberError);
+            expect(mockClient.index).not.toHaveBeenCalled();
+            expect(mockQuarantine.quarantine).toHaveBeenCalledWith('members', [
+                expect.objectContaining({ recordId: 'mem-001', reason: 'validation' }),
+            ]);
+        });
+    });
+
+    describe('deleteMember', () => {
+        it('should write a tombstone and then delete the document', async () => {
+            await service.deleteMember('mem-001', '2024-06-01T00:00:00.000Z');
+
+            expect(mockClient.index).toHaveBeenCalledWith(expect.objectContaining({
+                index: 'member_tombstones',
+                id: 'mem-001',
+                body: { member_id: 'mem-001', deleted_at: '2024-06-01T00:00:00.000Z' },
+            }));
+            expect(mockClient.delete).toHaveBeenCalledWith(expect.objectContaining({ index: 'members', id: 'mem-001' }));
+            expect(mockClient.index.mock.invocationCallOrder[0])
+                .toBeLessThan(mockClient.delete.mock.invocationCallOrder[0]);
+        });
+
+        it('should treat an already-missing document as deleted', async () => {
+            mockClient.delete.mockRejectedValueOnce({ statusCode: 404 });
+            await expect(service.deleteMember('mem-404')).resolves.toBeUndefined();
+        });
+    });
+
+    describe('bulkIndex', () => {
+        it('should skip members deleted after the scanned copy was written', async () => {
+            mockClient.mget.mockResolvedValueOnce({
+                body: {
+                    docs: [
+                        { _id: 'mem-001', found: true, _source: { deleted_at: '2024-03-01T00:00:00Z' } },
+                        { _id: 'mem-002', found: true, _source: { deleted_at: '2024-03-01T00:00:00Z' } },
+                        { _id: 'mem-003', found: false },
+                    ],
+                },
+            });
+
+            const result = await service.bulkIndex([
+                member('mem-001', '2024-02-01T00:00:00Z'),
+                member('mem-002', '2024-04-01T00:00:00Z'),
+                member('mem-003'),
+            ]);
+
+            const indexedIds = mockClient.bulk.mock.calls[0][0].body
+                .filter((op: any) => op.index)
+                .map((op: any) => op.index._id);
+            expect(indexedIds).toEqual(['mem-002', 'mem-003']);
+            expect(result.success).toBe(2);
+        });
+
+        it('should quarantine invalid members and members rejected by OpenSearch', async () => {
+            const invalid = { ...member('mem-bad'), email: 'nope' };
+            mockClient.bulk.mockResolvedValueOnce({
+                body: {
+                    errors: true,
+                    items: [
+                        { index: { _id: 'mem-001' } },
+                        { index: { _id: 'mem-002', error: { type: 'mapper_parsing_exception', reason: 'failed to parse' } } },
+                    ],
+                },
+            });
+
+            const result = await service.bulkIndex([member('mem-001'), invalid, member('mem-002')]);
+
+            expect(result).toEqual({ success: 1, failed: 2, quarantined: 2 });
+            expect(mockQuarantine.quarantine).toHaveBeenCalledWith('members', [
+                expect.objectContaining({ recordId: 'mem-bad', reason: 'validation', payload: invalid }),
+            ]);
+            expect(mockQuarantine.quarantine).toHaveBeenCalledWith('members', [{
+                recordId: 'mem-002',
+                reason: 'indexing',
+                errors: ['mapper_parsing_exception: failed to parse'],
+                payload: member('mem-002'),
+            }]);
+        });
+    });
+
+    describe('replay', () => {
+        it('should re-read the member from DynamoDB and index it', async () => {
+            mockRepository.findById = jest.fn().mockResolvedValue(member('mem-001'));
+
+            await expect(service.replay('mem-001')).resolves.toBe('indexed');
+            expect(mockClient.index).toHaveBeenCalledWith(expect.objectContaining({ id: 'mem-001' }));
+        });
+
+        it('should report members deleted since they were quarantined as gone', async () => {
+            mockRepository.findById = jest.fn().mockResolvedValue(null);
+
+            await expect(service.replay('mem-001')).resolves.toBe('gone');
+            expect(mockClient.index).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('run (reindex job)', () => {
+        it('should load a new version and swap the alias to it', async () => {
+            const result = await service.run(reindexJob(), context);
+
+            expect(mockClient.bulk.mock.calls[0][0].body[0]).toEqual({ index: { _index: 'members_v2', _id: 'mem-001' } });
+            expect(mockOpenSearchProvider.swapAlias).toHaveBeenCalledWith('members', 'members_v2');
+            expect(result).toEqual(expect.objectContaining({ index: 'members_v2', previousIndex: 'members_v1' }));
+        });
+
+        it('should catch up on writes made to the live index during the load', async () => {
+            mockClient.search
+                .mockResolvedValueOnce({ body: { hits: { hits: [{ _id: 'mem-002' }, { _id: 'mem-003' }] } } });
+            mockClient.mget
+                .mockRejectedValueOnce({ statusCode: 404 })
+                .mockResolvedValueOnce({
+                    body: { docs: [{ _id: 'mem-002', found: false }, { _id: 'mem-003', found: true }] },
+                });
+
+            await service.run(reindexJob(), context);
+
+            expect(mockClient.reindex.mock.calls[0][0].body).toEqual({
+                source: { index: 'members_v1', query: { range: { updated_at: { gte: expect.any(String) } } } },
+                dest: { index: 'members_v2' },
+            });
+            expect(mockClient.bulk).toHaveBeenCalledWith(expect.objectContaining({
+                body: [{ delete: { _index: 'members_v2', _id: 'mem-002' } }],
+            }));
+        });
+
+        it('should sweep members missing from DynamoDB out of the new index', async () => {
+            const hit = (id: string) => ({ _id: id, _source: { member_id: id }, sort: [id] });
+            mockClient.search
+                .mockRejectedValueOnce({ statusCode: 404 })
+                .mockResolvedValueOnce({
+                    body: {
+                        hits: {
+                            hits: [hit('mem-001'), hit('mem-gone')],
+                        },
+                    },
+                });
+
+            const result = await service.run(reindexJob(), context);
+
+            const sweep = mockClient.search.mock.calls[1][0];
+            expect(sweep.index).toBe('members_v2');
+            expect(sweep.body.query.bool.should[0].range.updated_at.lt).toEqual(expect.any(String));
+            expect(mockClient.bulk).toHaveBeenLastCalledWith(expect.objectContaining({
+                body: [{ delete: { _index: 'members_v2', _id: 'mem-gone' } }],
+            }));
+            expect(mockClient.delete_by_query).toHaveBeenCalledWith(expect.objectContaining({ index: 'member_tombstones' }));
+            expect(result.deleted).toBe(1);
+        });
+
+        it('should checkpoint the scan position after every page', async () => {
+            mockRepository.scanPage
+                .mockResolvedValueOnce({ items: [member('mem-001')], lastEvaluatedKey: { member_id: 'mem-001' } })
+                .mockResolvedValueOnce({ items: [member('mem-002')] });
+            mockOpenSearchProvider.countDocuments.mockResolvedValueOnce(2);
+
+            await service.run(reindexJob(), context);
+
+            expect(context.checkpoint).toHaveBeenCalledTimes(2);
+            expect(context.checkpoint.mock.calls[0]).toEqual([
+                { processed: 1, success: 1, failed: 0 },
+                expect.objectContaining({ index: 'members_v2', lastEvaluatedKey: { member_id: 'mem-001' }, loaded: false }),
+            ]);
+            expect(context.checkpoint.mock.calls[1][1]).toEqual(expect.objectContaining({ loaded: true }));
+        });
+
+        it('should resume the scan into the same index from the checkpoint', async () => {
+            const checkpoint = {
+                index: 'members_v2',
+                startedAt: '2024-06-01T00:00:00.000Z',
+                lastEvaluatedKey: { member_id: 'mem-001' },
+                loaded: false,
+            };
+            mockOpenSearchProvider.countDocuments.mockResolvedValueOnce(2);
+
+            const result = await service.run(reindexJob(checkpoint, { processed: 1, success: 1, failed: 0 }), context);
+
+            expect(mockRepository.scanPage).toHaveBeenCalledWith(100, { member_id: 'mem-001' });
+            expect(mockOpenSearchProvider.ensureIndex).toHaveBeenCalledWith('members_v2', expect.anything(), expect.anything());
+            expect(mockClient.reindex.mock.calls[0][0].body.source.query.range.updated_at.gte).toBe(checkpoint.startedAt);
+            expect(result).toEqual(expect.objectContaining({ total: 2, success: 2 }));
+        });
+
+        it('should start over when the checkpointed index was deleted', async () => {
+            mockClient.indices.exists.mockResolvedValueOnce({ body: false });
+
+            const result = await service.run(
+                reindexJob({ index: 'members_v2', lastEvaluatedKey: { member_id: 'mem-001' } }, { processed: 1, success: 1, failed: 0 }),
+                context,
+            );
+
+            expect(mockRepository.scanPage).toHaveBeenCalledWith(100, undefined);
+            expect(result.total).toBe(1);
+        });
+
+        it('should stop when the job is cancelled', async () => {
+            context.checkpoint.mockRejectedValueOnce(new JobCancelledError('job-1'));
+
+            await expect(service.run(reindexJob(), context)).rejects.toBeInstanceOf(JobCancelledError);
+            expect(mockOpenSearchProvider.swapAlias).not.toHaveBeenCalled();
+        });
+
+        it('should leave the live index alone when validation fails', async () => {
+            mockOpenSearchProvider.countDocuments.mockResolvedValueOnce(0);
+
+            await expect(service.run(reindexJob(), context)).rejects.toThrow('1 of 1 missing from members_v2');
+
+            expect(mockOpenSearchProvider.swapAlias).not.toHaveBeenCalled();
+            expect(mockClient.delete_by_query).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -9,21 +9,41 @@
  * 1. Validate incoming member data (rejects malformed records early)
  * 2. Transform and redact PII before indexing
  * 3. Index documents to OpenSearch with idempotent upserts
- * 4. Full reindex capability for recovery and mapping changes
+ * 4. Remove deleted members, leaving a tombstone
+ * 5. Full reindex capability for recovery and mapping changes, sweeping
+ *    out documents whose member no longer exists
+ * 6. Quarantine members that fail validation or are rejected by
+ *    OpenSearch, and replay them from DynamoDB once fixed
+ *
+ * Blue/green: `members` is an alias. A full reindex loads a new versioned
+ * index (`members_v<n>`) while searches and stream writes keep using the
+ * live one, then swaps the alias atomically. The replaced version is kept
+ * so the swap can be rolled back.
+ *
+ * Tombstones: a deletion records `{ member_id, deleted_at }` in
+ * `member_tombstones`. A full reindex skips scanned members whose tombstone
+ * is newer than their `updated_at`, so a scan page read just before a delete
+ * cannot resurrect the member. Tombstones older than a completed reindex
+ * are pruned by it.
  *
  * This service is invoked by:
- * - Lambda indexer (DynamoDB Stream events)
- * - Admin reindex endpoint (full table reindex)
+ * - Stream handler (DynamoDB Stream events, see MembershipStreamHandler)
+ * - JobsService, as the runner for `members-reindex` jobs started by the
+ *   admin reindex endpoint (full table reindex)
+ * - QuarantineService, as the replayer for quarantined members
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { OpenSearchProvider } from '../shared/opensearch';
+import { blueGreenReindex, OpenSearchProvider, rollbackAlias, sweepOrphans } from '../shared/opensearch';
+import { Job, JobCancelledError, JobContext, JobRunner } from '../shared/jobs';
+import { QuarantineEntry, QuarantineReplayer, QuarantineService } from '../shared/quarantine';
+import { MEMBER_INDEX_MAPPINGS, MEMBER_INDEX_SETTINGS } from './membership.mappings';
 import { RedactionService } from '../shared/redaction';
 import { Member, MembershipRepository } from './membership.repository';
 import { Counter } from 'prom-client';
 import { z } from 'zod';
 import { IndexDocument, ValidationError } from './interfaces';
-import { ReindexResultDto, BulkIndexResultDto } from './dto';
+import { ReindexResultDto, BulkIndexResultDto, RollbackResultDto } from './dto';
 
 /* -------------------------------------------------------------------------- */
 /*                              Prometheus Metrics                             */
@@ -62,35 +82,86 @@ const MemberSchema = z.object({
     lname: z.string().min(1, 'lname is required'),
     status_notes: z.string().optional(),
     tags: z.array(z.string()).optional(),
+    location_id: z.string().min(1).optional(),
+    enrollment_date: z.string().date('enrollment_date must be YYYY-MM-DD').optional(),
+    monthly_visits: z.number().int().nonnegative().optional(),
     created_at: z.string(),
     updated_at: z.string(),
 });
 
+/* -------------------------------------------------------------------------- */
+/*                              Errors                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Thrown when a member record fails schema validation.
+ *
+ * @remarks
+ * Retrying cannot fix an invalid record, so callers that retry on failure
+ * (e.g. the stream handler) treat this error as permanent.
+ */
+export class InvalidMemberError extends Error {
+    constructor(readonly memberId: string, readonly errors: string[]) {
+        super(`Validation failed: ${errors.join(', ')}`);
+        this.name = 'InvalidMemberError';
+    }
+}
+
 /* -------------------------------------------------------------------------- */
 /*                              Re-exports for Convenience                     */
 /* -------------------------------------------------------------------------- */
 
 export { IndexDocument, ValidationError } from './interfaces';
-export { ReindexResultDto, BulkIndexResultDto } from './dto';
+export { ReindexResultDto, BulkIndexResultDto, RollbackResultDto } from './dto';
 
 /** Alias for backward compatibility */
 export type ReindexResult = ReindexResultDto;
 
+/** Job kind for full member reindexes */
+export const MEMBERS_REINDEX_JOB = 'members-reindex';
+
+/**
+ * Position of a member reindex job, saved after every page.
+ */
+interface MemberReindexCheckpoint {
+    /** Versioned index being loaded */
+    index?: string;
+
+    /** When the first run started; bounds the catch-up */
+    startedAt?: string;
+
+    /** DynamoDB scan position after the last indexed page */
+    lastEvaluatedKey?: Record<string, unknown>;
+
+    /** Failed members stored in quarantine so far */
+    quarantined?: number;
+
+    /** Set once the scan has reached the end of the table */
+    loaded?: boolean;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                              Service Implementation                         */
 /* -------------------------------------------------------------------------- */
 
 @Injectable()
-export class MembershipIndexerService {
+export class MembershipIndexerService implements JobRunner, QuarantineReplayer {
     private readonly logger = new Logger(MembershipIndexerService.name);
 
-    /** OpenSearch index name for member documents */
+    /** OpenSearch alias for member documents, pointing at the live version */
     private readonly INDEX_NAME = 'members';
 
+    /** OpenSearch index recording member deletions */
+    private readonly TOMBSTONE_INDEX = 'member_tombstones';
+
+    /** Set once the tombstone index is known to exist */
+    private tombstoneIndexReady = false;
+
     constructor(
         private opensearchProvider: OpenSearchProvider,
         private redactionService: RedactionService,
         private membershipRepository: MembershipRepository,
+        private quarantineService: QuarantineService,
     ) { }
 
     /**
@@ -117,18 +188,34 @@ export class MembershipIndexerService {
             email: member.email.toLowerCase(),
             fname: member.fname,
             lname: member.lname,
+            lname_suggest: member.lname,
             status_notes: member.status_notes
                 ? this.redactionService.redact(member.status_notes)
                 : undefined,
             tags: member.tags,
+            location_id: member.location_id,
+            enrollment_date: member.enrollment_date,
+            monthly_visits: member.monthly_visits,
+            created_at: member.created_at,
+            updated_at: member.updated_at,
         };
     }
 
+    /**
+     * Builds the document indexing would write for a member.
+     *
+     * @returns The index document, or null if the member fails validation
+     */
+    toIndexDocument(member: Member): IndexDocument | null {
+        return this.validateMember(member) ? null : this.transformForIndex(member);
+    }
+
     /**
      * Indexes a single member to OpenSearch.
      *
      * @param member - Member record to index
-     * @throws Error if validation fails or OpenSearch rejects the document
+     * @throws InvalidMemberError if validation fails
+     * @throws Error if OpenSearch rejects the document
      *
      * @remarks
      * Idempotency: Uses member_id as the document _id. Repeated calls
@@ -143,7 +230,10 @@ export class MembershipIndexerService {
                 member_id: validationError.member_id,
                 errors: validationError.errors,
             });
-            throw new Error(`Validation failed: ${validationError.errors.join(', ')}`);
+            await this.quarantineService.quarantine(this.INDEX_NAME, [
+                { recordId: member.member_id, reason: 'validation', errors: validationError.errors, payload: member },
+            ]);
+            throw new InvalidMemberError(member.member_id, validationError.errors);
         }
 
         try {
@@ -166,26 +256,127 @@ export class MembershipIndexerService {
         }
     }
 
+    /**
+     * Removes a member from the index and records a tombstone.
+     *
+     * @param memberId - Member to remove
+     * @param deletedAt - When the member was deleted at the source (ISO 8601);
+     *                    defaults to now
+     *
+     * @remarks
+     * Idempotent: deleting a member that is not indexed succeeds, so
+     * replayed REMOVE events are safe. The tombstone is written first, so a
+     * failure between the two steps never leaves a resurrectable member.
+     */
+    async deleteMember(memberId: string, deletedAt = new Date().toISOString()): Promise<void> {
+        try {
+            const client = this.opensearchProvider.getClient();
+
+            if (!this.tombstoneIndexReady) {
+                await this.opensearchProvider.ensureIndex(this.TOMBSTONE_INDEX, {
+                    properties: {
+                        member_id: { type: 'keyword' },
+                        deleted_at: { type: 'date' },
+                    },
+                });
+                this.tombstoneIndexReady = true;
+            }
+
+            await client.index({
+                index: this.TOMBSTONE_INDEX,
+                id: memberId,
+                body: { member_id: memberId, deleted_at: deletedAt },
+                refresh: true,
+            });
+
+            await client.delete({
+                index: this.INDEX_NAME,
+                id: memberId,
+                refresh: true,
+            });
+            indexCounter.inc({ status: 'success', reason: 'delete' });
+            this.logger.log({ msg: 'Member removed from index', member_id: memberId });
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) {
+                this.logger.debug({ msg: 'Member already absent from index', member_id: memberId });
+                return;
+            }
+            indexCounter.inc({ status: 'error', reason: 'opensearch' });
+            this.logger.error({ msg: 'Member removal failed', member_id: memberId, error });
+            throw error;
+        }
+    }
+
+    /**
+     * Drops members deleted after the given copy was read.
+     *
+     * @returns Members without a tombstone newer than their updated_at
+     */
+    private async withoutTombstoned(members: Member[]): Promise<Member[]> {
+        if (members.length === 0) return members;
+
+        let docs: Array<{ found: boolean; _id: string; _source?: { deleted_at: string } }>;
+        try {
+            const response = await this.opensearchProvider.getClient().mget({
+                index: this.TOMBSTONE_INDEX,
+                body: { ids: members.map((m) => m.member_id) },
+            });
+            docs = response.body.docs;
+        } catch (error: unknown) {
+            // No deletions recorded yet
+            if ((error as { statusCode?: number }).statusCode === 404) return members;
+            throw error;
+        }
+
+        const deletedAt = new Map(
+            docs.filter((doc) => doc.found && doc._source).map((doc) => [doc._id, doc._source!.deleted_at]),
+        );
+
+        const kept = members.filter((member) => {
+            const tombstone = deletedAt.get(member.member_id);
+            return !tombstone || Date.parse(member.updated_at) > Date.parse(tombstone);
+        });
+
+        if (kept.length < members.length) {
+            this.logger.log({ msg: 'Skipped tombstoned members', count: members.length - kept.length });
+        }
+        return kept;
+    }
+
     /**
      * Bulk indexes multiple members to OpenSearch.
      *
      * @param members - Array of member records to index
-     * @returns Object with success and failed counts
+     * @param index - Target index (default: the live alias)
+     * @returns Object with success, failed and quarantined counts
      * @throws Error if bulk operation fails entirely
+     *
+     * @remarks
+     * Members with a tombstone newer than their updated_at are skipped
+     * and counted in neither total. Members failing validation or rejected
+     * by OpenSearch are quarantined; a bulk request that fails as a whole
+     * is not, since retrying it can succeed.
      */
-    async bulkIndex(members: Member[]): Promise<{ success: number; failed: number }> {
+    async bulkIndex(
+        members: Member[],
+        index = this.INDEX_NAME,
+    ): Promise<{ success: number; failed: number; quarantined: number }> {
         const client = this.opensearchProvider.getClient();
         let success = 0;
         let failed = 0;
 
+        members = await this.withoutTombstoned(members);
+
         // Phase 1: Validate all members
         const validationErrors: ValidationError[] = [];
         const validMembers: Member[] = [];
+        const invalid: QuarantineEntry[] = [];
 
         for (const member of members) {
             const error = this.validateMember(member);
             if (error) {
                 validationErrors.push(error);
+                invalid.push({ recordId: member.member_id, reason: 'validation', errors: error.errors, payload: member });
                 failed++;
                 indexCounter.inc({ status: 'error', reason: 'validation' });
             } else {
@@ -201,27 +392,36 @@ export class MembershipIndexerService {
             });
         }
 
+        let quarantined = await this.quarantineService.quarantine(this.INDEX_NAME, invalid);
+
         if (validMembers.length === 0) {
-            return { success, failed };
+            return { success, failed, quarantined };
         }
 
         // Phase 2: Bulk index valid members
         const operations = validMembers.flatMap((member) => {
             const doc = this.transformForIndex(member);
             return [
-                { index: { _index: this.INDEX_NAME, _id: member.member_id } },
+                { index: { _index: index, _id: member.member_id } },
                 doc,
             ];
         });
 
+        const rejected: QuarantineEntry[] = [];
         try {
             const response = await client.bulk({ body: operations, refresh: true });
 
             if (response.body.errors) {
-                response.body.items.forEach((item: { index?: { error?: unknown } }) => {
+                response.body.items.forEach((item: { index?: { error?: { type: string; reason: string } } }, i: number) => {
                     if (item.index?.error) {
                         failed++;
                         indexCounter.inc({ status: 'error', reason: 'opensearch' });
+                        rejected.push({
+                            recordId: validMembers[i].member_id,
+                            reason: 'indexing',
+                            errors: [`${item.index.error.type}: ${item.index.error.reason}`],
+                            payload: validMembers[i],
+                        });
                     } else {
                         success++;
                         indexCounter.inc({ status: 'success', reason: '' });
@@ -240,71 +440,245 @@ export class MembershipIndexerService {
             throw error;
         }
 
-        return { success, failed };
+        quarantined += await this.quarantineService.quarantine(this.INDEX_NAME, rejected);
+        return { success, failed, quarantined };
+    }
+
+    /**
+     * Estimates the number of members for the job ETA.
+     */
+    async estimateTotal(): Promise<number | undefined> {
+        return this.membershipRepository.estimateCount();
     }
 
     /**
-     * Performs a full reindex of all members from DynamoDB to OpenSearch.
+     * Runs a full blue/green reindex of all members from DynamoDB as a job.
      *
-     * @param batchSize - Number of records per batch (default: 100)
-     * @returns ReindexResult with counts and duration
+     * @param job - Job with `{ batchSize, maxFailed }` params and the last checkpoint
+     * @param context - Saves a checkpoint after every page
+     * @returns ReindexResult with counts, duration and the swapped indices
+     * @throws JobCancelledError if the job is cancelled between pages
+     * @throws Error if validation fails; the live index is then left untouched
      *
      * @remarks
+     * - Creates `members_v<n>` with MEMBER_INDEX_MAPPINGS/SETTINGS
      * - Scans DynamoDB in batches to avoid memory issues
-     * - Each batch is bulk-indexed to OpenSearch
-     * - Idempotent: safe to run multiple times
+     * - Each batch is bulk-indexed into the new index, then checkpointed
+     *   with the scan's `lastEvaluatedKey`
+     * - Catches up on stream writes that reached the live index meanwhile
+     * - Sweeps members missing from DynamoDB (e.g. deleted during the scan)
+     *   out of the new index, except those written after the IDs were read,
+     *   and reports them as deleted
+     * - Validates the new index against the number of IDs read: failures
+     *   outside quarantine plus members missing from it may not exceed
+     *   maxFailed
+     * - Swaps the `members` alias, keeping the previous version for rollback
+     * - Finally prunes tombstones older than the reindex start
      * - Use for: index corruption recovery, mapping changes, initial load
      *
-     * @example
-     * ```typescript
-     * const result = await indexerService.reindexAll(500);
-     * console.log(`Reindexed ${result.success}/${result.total} in ${result.durationMs}ms`);
-     * ```
+     * Resuming continues the scan into the same new index. If validation
+     * failed, that index is gone and the resumed job starts over.
+     *
+     * A stream write landing between the catch-up and the swap is lost from
+     * the new index; the window is a few requests wide.
      */
-    async reindexAll(batchSize = 100): Promise<ReindexResult> {
+    async run(job: Job, context: JobContext): Promise<ReindexResult> {
+        const { batchSize = 100, maxFailed = 0 } = job.params as { batchSize?: number; maxFailed?: number };
         const startTime = Date.now();
-        let total = 0;
-        let success = 0;
-        let failed = 0;
+        const client = this.opensearchProvider.getClient();
+        let checkpoint = job.checkpoint as MemberReindexCheckpoint;
+        let progress = { ...job.progress };
+        let deleted = 0;
+        // Members in DynamoDB, read with the IDs for the orphan sweep
+        let sourceCount = 0;
+
+        if (checkpoint.index && !(await client.indices.exists({ index: checkpoint.index })).body) {
+            this.logger.warn({ msg: 'Reindex target is gone, starting over', jobId: job.job_id, index: checkpoint.index });
+            checkpoint = {};
+            progress = { processed: 0, success: 0, failed: 0, total: progress.total };
+        }
+        const startedAt = checkpoint.startedAt ?? new Date(startTime).toISOString();
 
-        this.logger.log({ msg: 'Starting full reindex', batchSize });
+        this.logger.log({ msg: 'Starting full reindex', jobId: job.job_id, batchSize, resumeFrom: checkpoint.lastEvaluatedKey });
 
         try {
-            let page = await this.membershipRepository.scanPage(batchSize);
-
-            while (page.items.length > 0) {
-                total += page.items.length;
-                const result = await this.bulkIndex(page.items);
-                success += result.success;
-                failed += result.failed;
-
-                this.logger.log({
-                    msg: 'Reindex batch completed',
-                    batchSize: page.items.length,
-                    totalProcessed: total,
-                    hasMore: !!page.lastEvaluatedKey,
-                });
+            const result = await blueGreenReindex(this.opensearchProvider, {
+                alias: this.INDEX_NAME,
+                index: checkpoint.index,
+                mappings: MEMBER_INDEX_MAPPINGS,
+                settings: MEMBER_INDEX_SETTINGS,
+                maxFailed,
+                countSource: async () => sourceCount,
+                load: async (index) => {
+                    let lastKey = checkpoint.lastEvaluatedKey;
+                    let quarantined = checkpoint.quarantined ?? 0;
+
+                    while (!checkpoint.loaded) {
+                        const page = await this.membershipRepository.scanPage(batchSize, lastKey);
+                        const batch = await this.bulkIndex(page.items, index);
+                        lastKey = page.lastEvaluatedKey;
+                        quarantined += batch.quarantined;
+
+                        progress = {
+                            ...progress,
+                            processed: progress.processed + page.items.length,
+                            success: progress.success + batch.success,
+                            failed: progress.failed + batch.failed,
+                        };
+                        checkpoint = { index, startedAt, lastEvaluatedKey: lastKey, quarantined, loaded: !lastKey };
+                        await context.checkpoint(progress, checkpoint);
+
+                        this.logger.log({
+                            msg: 'Reindex batch completed',
+                            batchSize: page.items.length,
+                            totalProcessed: progress.processed,
+                            hasMore: !!lastKey,
+                        });
+                    }
 
-                if (!page.lastEvaluatedKey) break;
-                page = await this.membershipRepository.scanPage(batchSize, page.lastEvaluatedKey);
-            }
+                    return { indexed: progress.success, failed: progress.failed, quarantined };
+                },
+                beforeSwap: async (index, liveIndex) => {
+                    const idsReadAt = new Date().toISOString();
+                    const liveIds = await this.membershipRepository.scanIds();
+                    sourceCount = liveIds.size;
+                    if (liveIndex) {
+                        await this.catchUp(index, liveIndex, startedAt);
+                    }
+
+                    const orphans = await sweepOrphans(client, {
+                        index,
+                        idField: 'member_id',
+                        liveIds,
+                        writtenBefore: { field: 'updated_at', time: idsReadAt },
+                    });
+                    if (orphans.length > 0) {
+                        this.logger.warn({ msg: 'Removed orphaned members', count: orphans.length, member_ids: orphans });
+                    }
+                    deleted = orphans.length;
+                },
+            });
+
+            await this.pruneTombstones(startedAt);
 
             const durationMs = Date.now() - startTime;
             reindexCounter.inc({ status: 'success' });
 
             this.logger.log({
                 msg: 'Full reindex completed',
-                total,
-                success,
-                failed,
+                jobId: job.job_id,
+                total: progress.processed,
+                success: result.indexed,
+                failed: result.failed,
+                deleted,
+                index: result.index,
+                previousIndex: result.previousIndex,
                 durationMs,
             });
 
-            return { total, success, failed, durationMs };
+            return {
+                total: progress.processed,
+                success: result.indexed,
+                failed: result.failed,
+                deleted,
+                durationMs,
+                index: result.index,
+                previousIndex: result.previousIndex,
+            };
         } catch (error) {
-            reindexCounter.inc({ status: 'error' });
-            this.logger.error({ msg: 'Reindex failed', error, processed: total });
+            reindexCounter.inc({ status: error instanceof JobCancelledError ? 'cancelled' : 'error' });
+            this.logger.error({ msg: 'Reindex stopped', jobId: job.job_id, error, processed: progress.processed });
+            throw error;
+        }
+    }
+
+    /**
+     * Re-reads a quarantined member from DynamoDB and indexes it.
+     *
+     * @returns `gone` if the member no longer exists
+     * @throws InvalidMemberError if the member still fails validation
+     */
+    async replay(memberId: string): Promise<'indexed' | 'gone'> {
+        const member = await this.membershipRepository.findById(memberId);
+        if (!member) return 'gone';
+
+        await this.indexMember(member);
+        return 'indexed';
+    }
+
+    /**
+     * Points the `members` alias back at the version a reindex replaced.
+     *
+     * @returns The index now live and the one rolled back from
+     * @throws ConflictException if no previous version is kept
+     *
+     * @remarks
+     * The restored index lacks stream writes made since the swap; replay
+     * the stream or run a reindex to bring it up to date.
+     */
+    async rollback(): Promise<RollbackResultDto> {
+        const result = await rollbackAlias(this.opensearchProvider, this.INDEX_NAME);
+        this.logger.warn({ msg: 'Member index rolled back', ...result });
+        return result;
+    }
+
+    /**
+     * Copies changes made through the live index during a reindex into the
+     * new index: members written since the scan started, and members
+     * deleted since then that are absent from the live index.
+     */
+    private async catchUp(index: string, liveIndex: string, since: string): Promise<void> {
+        const client = this.opensearchProvider.getClient();
+
+        await client.reindex({
+            body: {
+                source: { index: liveIndex, query: { range: { updated_at: { gte: since } } } },
+                dest: { index },
+            },
+            refresh: true,
+        });
+
+        let tombstoned: string[];
+        try {
+            const response = await client.search({
+                index: this.TOMBSTONE_INDEX,
+                body: { query: { range: { deleted_at: { gte: since } } }, _source: false, size: 10000 },
+            });
+            tombstoned = response.body.hits.hits.map((hit: { _id: string }) => hit._id);
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) return;
             throw error;
         }
+        if (tombstoned.length === 0) return;
+
+        const live = await client.mget({ index: liveIndex, body: { ids: tombstoned } });
+        const removed = (live.body.docs as Array<{ _id: string; found: boolean }>)
+            .filter((doc) => !doc.found)
+            .map((doc) => doc._id);
+        if (removed.length === 0) return;
+
+        await client.bulk({
+            body: removed.map((id) => ({ delete: { _index: index, _id: id } })),
+            refresh: true,
+        });
+    }
+
+    /**
+     * Deletes tombstones older than a completed scan.
+     *
+     * @remarks
+     * A member deleted before the scan started cannot appear in it, so its
+     * tombstone is no longer needed.
+     */
+    private async pruneTombstones(before: string): Promise<void> {
+        try {
+            await this.opensearchProvider.getClient().delete_by_query({
+                index: this.TOMBSTONE_INDEX,
+                body: { query: { range: { deleted_at: { lt: before } } } },
+                refresh: true,
+            });
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode !== 404) throw error;
+        }
     }
 }
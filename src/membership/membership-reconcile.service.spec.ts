@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Member Reconciliation Service Tests
+ */
+
+import { MembershipReconcileService } from './membership-reconcile.service';
+
+describe('MembershipReconcileService', () => {
+    let service: MembershipReconcileService;
+    let client: any;
+    let repository: any;
+    let indexer: any;
+    let context: any;
+
+    const member = (id: string) => ({ member_id: id, first_name: 'Jane', updated_at: '2024-01-01T00:00:00Z' });
+    const job = (params = {}) => ({ job_id: 'job-1', params, progress: { processed: 0, success: 0, failed: 0 } }) as any;
+
+    beforeEach(() => {
+        client = {
+            mget: jest.fn()
+                .mockResolvedValueOnce({ body: { docs: [{ _id: 'mem-001', found: true, _source: member('mem-001') }] } })
+                .mockResolvedValueOnce({ body: { docs: [{ _id: 'mem-002', found: false }] } }),
+            search: jest.fn().mockResolvedValue({ body: { hits: { hits: [] } } }),
+            bulk: jest.fn(),
+        };
+        repository = {
+            scanPage: jest.fn()
+                .mockResolvedValueOnce({ items: [member('mem-001')], lastEvaluatedKey: { member_id: 'mem-001' } })
+                .mockResolvedValueOnce({ items: [member('mem-002')] }),
+        };
+        indexer = {
+            toIndexDocument: jest.fn((m) => m),
+            bulkIndex: jest.fn().mockResolvedValue({ success: 1, failed: 0 }),
+        };
+        context = { checkpoint: jest.fn().mockResolvedValue(undefined) };
+
+        service = new MembershipReconcileService({ getClient: () => client } as any, repository, indexer);
+    });
+
+    it('should scan every page and report drift without repairing by default', async () => {
+        const report = await service.run(job({ batchSize: 1 }), context);
+
+        expect(repository.scanPage).toHaveBeenNthCalledWith(2, 1, { member_id: 'mem-001' });
+        expect(report).toEqual(expect.objectContaining({ scanned: 2, missing: 1, stale: 0, repaired: false }));
+        expect(indexer.bulkIndex).not.toHaveBeenCalled();
+        expect(context.checkpoint).toHaveBeenCalledTimes(2);
+    });
+
+    it('should re-index drifted members when repairing', async () => {
+        await service.run(job({ repair: true }), context);
+
+        expect(indexer.bulkIndex).toHaveBeenCalledWith([member('mem-002')]);
+        expect(context.checkpoint).toHaveBeenLastCalledWith(
+            expect.objectContaining({ processed: 2, success: 1 }),
+            { lastEvaluatedKey: undefined },
+        );
+    });
+});
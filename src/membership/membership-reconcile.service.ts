@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Member Reconciliation Service
+ *
+ * Compares the members index with DynamoDB and reports (optionally
+ * repairs) drift left by missed or failed stream records.
+ *
+ * @remarks
+ * Runs as a `members-reconcile` job. Missing and stale members are repaired
+ * by re-indexing them; orphans (members gone from DynamoDB) are deleted.
+ * Index documents newer than the scanned copy, or written after the run
+ * started, are left alone: the stream got there first.
+ *
+ * A resumed reconciliation starts the scan over, since the set of IDs seen
+ * is needed to find orphans; repairs are idempotent.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { DriftReport, OpenSearchProvider, reconcileIndex } from '../shared/opensearch';
+import { Job, JobContext, JobRunner } from '../shared/jobs';
+import { MembershipIndexerService } from './membership-indexer.service';
+import { Member, MembershipRepository } from './membership.repository';
+
+/** Job kind for member reconciliation */
+export const MEMBERS_RECONCILE_JOB = 'members-reconcile';
+
+@Injectable()
+export class MembershipReconcileService implements JobRunner {
+    private readonly logger = new Logger(MembershipReconcileService.name);
+
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private membershipRepository: MembershipRepository,
+        private indexerService: MembershipIndexerService,
+    ) { }
+
+    /**
+     * Estimates the number of members for the job ETA.
+     */
+    async estimateTotal(): Promise<number | undefined> {
+        return this.membershipRepository.estimateCount();
+    }
+
+    /**
+     * Reconciles the members index against DynamoDB.
+     *
+     * @param job - Job with `{ batchSize, repair }` params
+     * @param context - Checkpointed after every page
+     * @returns Drift report
+     * @throws JobCancelledError if the job is cancelled between pages
+     */
+    async run(job: Job, context: JobContext): Promise<DriftReport> {
+        const { batchSize = 100, repair = false } = job.params as { batchSize?: number; repair?: boolean };
+        const progress = { processed: 0, success: 0, failed: 0, total: job.progress.total };
+        const repository = this.membershipRepository;
+        let lastEvaluatedKey: Record<string, unknown> | undefined;
+
+        async function* pages(): AsyncGenerator<Member[]> {
+            do {
+                const page = await repository.scanPage(batchSize, lastEvaluatedKey);
+                lastEvaluatedKey = page.lastEvaluatedKey;
+                yield page.items;
+            } while (lastEvaluatedKey);
+        }
+
+        this.logger.log({ msg: 'Starting member reconciliation', jobId: job.job_id, repair });
+
+        const report = await reconcileIndex(this.opensearchProvider.getClient(), {
+            vertical: 'members',
+            index: 'members',
+            idField: 'member_id',
+            pages: pages(),
+            toDocument: (member) => {
+                const doc = this.indexerService.toIndexDocument(member);
+                return doc && { id: member.member_id, doc };
+            },
+            versionField: 'updated_at',
+            startedAt: new Date().toISOString(),
+            repair: repair
+                ? async (members) => {
+                    const result = await this.indexerService.bulkIndex(members);
+                    progress.success += result.success;
+                    progress.failed += result.failed;
+                }
+                : undefined,
+            onPage: async (scanned) => {
+                progress.processed = scanned;
+                await context.checkpoint(progress, { lastEvaluatedKey });
+            },
+        });
+
+        this.logger.log({
+            msg: 'Member reconciliation completed',
+            jobId: job.job_id,
+            ...report,
+            samples: undefined,
+        });
+        if (report.missing + report.stale + report.orphaned > 0) {
+            this.logger.warn({ msg: 'Member index drift found', repaired: repair, samples: report.samples });
+        }
+
+        return report;
+    }
+}
@@ -13,11 +13,42 @@
  * RBAC field filtering is applied by SearchService based on user roles.
  */
 
-import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiTags, ApiOperation, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
-import { MembershipSearchService, SearchQuery, SearchResult } from './membership-search.service';
+import {
+    MembershipSearchService,
+    MemberSuggestResponseDto,
+    SearchQuery,
+    SearchResponseDto,
+    MEMBER_EXPANSIONS,
+    MEMBER_FACET_FIELDS,
+    MEMBER_SORTS,
+    MemberSortOption,
+    TagMatchMode,
+} from './membership-search.service';
 import { AuthenticatedUser } from '../shared/auth';
+import { RateLimit, RateLimitGuard } from '../shared/rate-limit';
+import { normalizePrefix, SUGGEST_REQUESTS_PER_MINUTE } from '../shared/suggest';
+import { parseFacets } from '../shared/facets';
+import { buildNextLink } from '../shared/pagination';
+
+/* -------------------------------------------------------------------------- */
+/*                              Parameter Parsing                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Checks an enumerated query parameter against its allowed values.
+ *
+ * @throws BadRequestException for values outside the allowed set
+ */
+function parseOption<T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!(allowed as readonly string[]).includes(value)) {
+        throw new BadRequestException(`Invalid ${name}: ${value}. Allowed: ${allowed.join(', ')}`);
+    }
+    return value as T;
+}
 
 /* -------------------------------------------------------------------------- */
 /*                              Controller Implementation                      */
@@ -30,36 +61,122 @@ export class MembershipSearchController {
 
     /**
      * Executes a member search with role-based field filtering.
+     *
+     * @remarks
+     * Returns a paginated envelope. Follow `next` (or pass `nextCursor` as
+     * `cursor`) with the same query parameters to fetch the following page.
      */
     @Get()
     @UseGuards(AuthGuard('jwt'))
     @ApiBearerAuth()
     @ApiOperation({
         summary: 'Search for members',
-        description: 'Search members by name, email, member_id, or status notes. Priority order: member_id > email > q (only highest priority param is used)'
+        description: 'Search members by name or status notes (q), narrowed by any combination of member_id, email, location_id, tag and date range filters'
     })
     @ApiQuery({ name: 'q', required: false, example: 'john', description: 'Search query (name, notes)' })
-    @ApiQuery({ name: 'member_id', required: false, example: 'mem-003', description: 'Exact member ID lookup' })
-    @ApiQuery({ name: 'email', required: false, example: 'john.doe@example.com', description: 'Exact email match' })
+    @ApiQuery({ name: 'member_id', required: false, example: 'mem-003', description: 'Exact member ID filter' })
+    @ApiQuery({ name: 'email', required: false, example: 'john.doe@example.com', description: 'Exact email filter' })
+    @ApiQuery({ name: 'location_id', required: false, example: 'GYM_101', description: 'Home location filter' })
+    @ApiQuery({ name: 'tag', required: false, example: 'at-risk,vip', description: 'Comma-separated tag filter' })
+    @ApiQuery({ name: 'tag_mode', required: false, enum: ['any', 'all'], description: 'Match any tag (default) or all tags' })
+    @ApiQuery({ name: 'created_from', required: false, example: '2024-01-01', description: 'created_at lower bound (inclusive, ISO 8601)' })
+    @ApiQuery({ name: 'created_to', required: false, example: '2024-12-31', description: 'created_at upper bound (inclusive, ISO 8601)' })
+    @ApiQuery({ name: 'updated_from', required: false, example: '2024-01-01', description: 'updated_at lower bound (inclusive, ISO 8601)' })
+    @ApiQuery({ name: 'updated_to', required: false, example: '2024-12-31', description: 'updated_at upper bound (inclusive, ISO 8601)' })
+    @ApiQuery({ name: 'sort', required: false, enum: ['relevance', 'updated_at', 'lname'], description: 'Result order (default: relevance)' })
     @ApiQuery({ name: 'fuzzy', required: false, example: 'true', description: 'Enable fuzzy matching (default: true). Set to "false" for exact match.' })
-    @ApiQuery({ name: 'limit', required: false, example: '10', description: 'Max results (default: 20)' })
+    @ApiQuery({ name: 'name_match', required: false, example: 'true', description: 'Match q as a person name, incl. nicknames and sound-alikes; each hit reports match_strategy (default: false)' })
+    @ApiQuery({ name: 'highlight', required: false, example: 'true', description: 'Return highlighted fragments for fields visible to your role (default: false)' })
+    @ApiQuery({ name: 'limit', required: false, example: '10', description: 'Results per page (default: 20, max: 100)' })
+    @ApiQuery({ name: 'cursor', required: false, description: 'Opaque cursor from the previous page (nextCursor)' })
+    @ApiQuery({ name: 'facets', required: false, example: 'tags,tenant_id', description: 'Comma-separated fields to count: tags, tenant_id' })
+    @ApiQuery({ name: 'expand', required: false, example: 'location', description: 'Attach related documents: location (home location summary)' })
     async search(
         @Query('q') q?: string,
         @Query('member_id') member_id?: string,
         @Query('email') email?: string,
+        @Query('location_id') location_id?: string,
+        @Query('tag') tag?: string,
+        @Query('tag_mode') tag_mode?: string,
+        @Query('created_from') created_from?: string,
+        @Query('created_to') created_to?: string,
+        @Query('updated_from') updated_from?: string,
+        @Query('updated_to') updated_to?: string,
+        @Query('sort') sort?: string,
         @Query('fuzzy') fuzzy?: string,
+        @Query('name_match') name_match?: string,
+        @Query('highlight') highlight?: string,
         @Query('limit') limit?: string,
+        @Query('cursor') cursor?: string,
+        @Query('facets') facets?: string,
+        @Query('expand') expand?: string,
         @Request() req?: { user: AuthenticatedUser },
-    ): Promise<SearchResult[]> {
+    ): Promise<SearchResponseDto> {
         const query: SearchQuery = {
             q,
             member_id,
             email,
+            location_id,
+            tags: tag?.split(',').map((t) => t.trim()).filter(Boolean),
+            tag_mode: parseOption<TagMatchMode>('tag_mode', tag_mode, ['any', 'all']),
+            created_from,
+            created_to,
+            updated_from,
+            updated_to,
+            sort: parseOption('sort', sort, Object.keys(MEMBER_SORTS) as MemberSortOption[]),
             fuzzy: fuzzy !== 'false',
+            name_match: name_match === 'true',
+            highlight: highlight === 'true',
             limit: limit ? parseInt(limit, 10) : undefined,
+            cursor,
+            facets: parseFacets(facets, MEMBER_FACET_FIELDS),
+            expand: expand?.split(',')
+                .map((e) => e.trim())
+                .filter(Boolean)
+                .map((e) => parseOption('expand', e, MEMBER_EXPANSIONS)!),
         };
 
-        return this.searchService.search(query, req!.user);
+        const response = await this.searchService.search(query, req!.user);
+
+        if (response.nextCursor) {
+            response.next = buildNextLink(
+                '/members/search',
+                {
+                    q, member_id, email, location_id, tag, tag_mode,
+                    created_from, created_to, updated_from, updated_to,
+                    sort, fuzzy, name_match, highlight, limit, facets, expand,
+                },
+                response.nextCursor,
+            );
+        }
+
+        return response;
+    }
+
+    /**
+     * Returns type-ahead suggestions on member last name.
+     *
+     * @remarks
+     * Rate-limited per user under its own `suggest` budget so type-ahead
+     * traffic cannot starve, or be starved by, full searches.
+     */
+    @Get('suggest')
+    @RateLimit('suggest', SUGGEST_REQUESTS_PER_MINUTE)
+    @UseGuards(AuthGuard('jwt'), RateLimitGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Suggest members', description: 'Search-as-you-type on member last name' })
+    @ApiQuery({ name: 'prefix', required: true, example: 'smi', description: 'Text typed so far' })
+    @ApiQuery({ name: 'limit', required: false, example: '10', description: 'Max suggestions (default: 10, max: 20)' })
+    async suggest(
+        @Query('prefix') prefix?: string,
+        @Query('limit') limit?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<MemberSuggestResponseDto> {
+        return this.searchService.suggest(
+            normalizePrefix(prefix),
+            req!.user,
+            limit ? parseInt(limit, 10) : undefined,
+        );
     }
 
     /**
@@ -0,0 +1,331 @@
+/**
+ * @fileoverview Membership Search Service Tests
+ */
+
+import { MembershipSearchService } from './membership-search.service';
+import { RedactionService } from '../shared/redaction';
+
+describe('MembershipSearchService', () => {
+    let service: MembershipSearchService;
+    let mockOpenSearchProvider: any;
+    let mockNameSynonyms: any;
+    let mockLocationsSearch: any;
+
+    const auditor = {
+        userId: 'user1',
+        roles: ['auditor'],
+        tenantId: 'rcm-internal',
+        tenantType: 'internal' as const,
+    };
+
+    const externalAdmin = {
+        userId: 'ext1',
+        roles: ['admin'],
+        tenantId: 'loc-test-001',
+        tenantType: 'external' as const,
+    };
+
+    const lastSearchBody = () => mockOpenSearchProvider.getClient().search.mock.calls[0][0].body;
+
+    beforeEach(() => {
+        mockOpenSearchProvider = {
+            getClient: jest.fn().mockReturnValue({
+                search: jest.fn().mockResolvedValue({
+                    body: {
+                        hits: {
+                            total: { value: 1, relation: 'eq' },
+                            hits: [
+                                {
+                                    _source: { member_id: 'mem-001', fname: 'John', lname: 'Doe' },
+                                    sort: [1.5, 'mem-001'],
+                                },
+                            ],
+                        },
+                    },
+                }),
+            }),
+        };
+
+        mockNameSynonyms = { expand: jest.fn().mockResolvedValue([]) };
+        mockLocationsSearch = { findSummaries: jest.fn().mockResolvedValue(new Map()) };
+
+        service = new MembershipSearchService(
+            mockOpenSearchProvider,
+            new RedactionService(),
+            mockNameSynonyms,
+            mockLocationsSearch,
+        );
+    });
+
+    describe('query composition', () => {
+        it('should match all documents without q or filters', async () => {
+            await service.search({}, auditor);
+            expect(lastSearchBody().query).toEqual({ match_all: {} });
+        });
+
+        it('should combine q with member_id and email filters', async () => {
+            await service.search({ q: 'john', member_id: 'mem-001', email: 'John@Example.com' }, auditor);
+            const query = lastSearchBody().query;
+
+            expect(query.bool.must[0].multi_match.query).toBe('john');
+            expect(query.bool.filter).toEqual([
+                { term: { member_id: 'mem-001' } },
+                { term: { email: 'john@example.com' } },
+            ]);
+        });
+
+        it('should filter on home location', async () => {
+            await service.search({ location_id: 'GYM_101' }, auditor);
+            expect(lastSearchBody().query.bool.filter).toEqual([{ term: { location_id: 'GYM_101' } }]);
+        });
+
+        it('should match any tag with a single terms filter', async () => {
+            await service.search({ tags: ['vip', 'at-risk'] }, auditor);
+            expect(lastSearchBody().query.bool.filter).toEqual([
+                { terms: { tags: ['vip', 'at-risk'] } },
+            ]);
+        });
+
+        it('should require every tag in all mode', async () => {
+            await service.search({ tags: ['vip', 'at-risk'], tag_mode: 'all' }, auditor);
+            expect(lastSearchBody().query.bool.filter).toEqual([
+                { term: { tags: 'vip' } },
+                { term: { tags: 'at-risk' } },
+            ]);
+        });
+
+        it('should add created_at and updated_at ranges', async () => {
+            await service.search({
+                created_from: '2024-01-01',
+                updated_from: '2024-02-01',
+                updated_to: '2024-03-01',
+            }, auditor);
+
+            expect(lastSearchBody().query.bool.filter).toEqual([
+                { range: { created_at: { gte: '2024-01-01', lte: undefined } } },
+                { range: { updated_at: { gte: '2024-02-01', lte: '2024-03-01' } } },
+            ]);
+        });
+
+        it('should reject an unparseable date', async () => {
+            await expect(
+                service.search({ created_from: 'yesterday' }, auditor),
+            ).rejects.toThrow('Invalid date for created_at: yesterday');
+        });
+
+        it('should keep the tenant filter around user filters for external users', async () => {
+            await service.search({ q: 'john', tags: ['vip'] }, externalAdmin);
+            const query = lastSearchBody().query;
+
+            expect(query.bool.filter).toEqual([{ term: { tenant_id: 'loc-test-001' } }]);
+            expect(query.bool.must[0].bool.filter).toEqual([{ terms: { tags: ['vip'] } }]);
+        });
+    });
+
+    describe('sorting', () => {
+        it('should sort by relevance by default', async () => {
+            await service.search({ q: 'john' }, auditor);
+            expect(lastSearchBody().sort).toEqual([{ _score: 'desc' }, { member_id: 'asc' }]);
+        });
+
+        it('should sort by updated_at with member_id tiebreaker', async () => {
+            await service.search({ sort: 'updated_at' }, auditor);
+            expect(lastSearchBody().sort).toEqual([
+                { updated_at: { order: 'desc', missing: '_last' } },
+                { member_id: 'asc' },
+            ]);
+        });
+
+        it('should sort by lname keyword sub-field', async () => {
+            await service.search({ sort: 'lname' }, auditor);
+            expect(lastSearchBody().sort[0]).toEqual({ 'lname.keyword': { order: 'asc', missing: '_last' } });
+        });
+    });
+
+    describe('field filtering', () => {
+        it('should return timestamps and visit data but not status_notes to auditors', async () => {
+            await service.search({}, auditor);
+            const source = lastSearchBody()._source;
+
+            expect(source).toEqual(expect.arrayContaining([
+                'created_at', 'updated_at', 'location_id', 'enrollment_date', 'monthly_visits',
+            ]));
+            expect(source).not.toContain('status_notes');
+        });
+    });
+
+    describe('highlighting', () => {
+        const mockHighlightedHit = (highlight: Record<string, string[]>) => {
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        total: { value: 1 },
+                        hits: [{ _source: { member_id: 'mem-001' }, sort: [1, 'mem-001'], highlight }],
+                    },
+                },
+            });
+        };
+
+        it('should not request highlights unless asked', async () => {
+            await service.search({ q: 'violation' }, auditor);
+            expect(lastSearchBody().highlight).toBeUndefined();
+        });
+
+        it('should only highlight fields in the source filter', async () => {
+            await service.search({ q: 'violation', highlight: true }, auditor);
+            expect(Object.keys(lastSearchBody().highlight.fields)).toEqual(['fname', 'lname']);
+        });
+
+        it('should drop status_notes fragments for roles that cannot see them', async () => {
+            mockHighlightedHit({ lname: ['<mark>Doe</mark>'], status_notes: ['<mark>violation</mark>'] });
+
+            const response = await service.search({ q: 'doe', highlight: true }, auditor);
+
+            expect(response.results[0].highlights).toEqual({ lname: ['<mark>Doe</mark>'] });
+        });
+
+        it('should redact PII that survives into a fragment', async () => {
+            const complianceLead = { ...auditor, roles: ['compliance_lead'] };
+            mockHighlightedHit({ status_notes: ['Call 555-<mark>123</mark>-4567'] });
+
+            const response = await service.search({ q: '123', highlight: true }, complianceLead);
+
+            expect(response.results[0].highlights).toEqual({ status_notes: ['Call [PHONE-REDACTED]'] });
+        });
+    });
+
+    describe('name matching', () => {
+        it('should not expand nicknames outside name-matching mode', async () => {
+            await service.search({ q: 'bob' }, auditor);
+            expect(mockNameSynonyms.expand).not.toHaveBeenCalled();
+        });
+
+        it('should build named exact, fuzzy, phonetic and nickname clauses', async () => {
+            mockNameSynonyms.expand.mockResolvedValueOnce(['robert', 'rob']);
+
+            await service.search({ q: 'bob', name_match: true }, auditor);
+            const should = lastSearchBody().query.bool.must[0].bool.should;
+
+            expect(should.map((c: any) => (c.multi_match ?? c.match.fname)._name))
+                .toEqual(['exact', 'fuzzy', 'phonetic', 'nickname']);
+            expect(should[2].multi_match.fields).toEqual(['fname.phonetic', 'lname.phonetic']);
+            expect(should[3].match.fname.query).toBe('robert rob');
+        });
+
+        it('should omit the nickname clause when nothing expands', async () => {
+            await service.search({ q: 'zed', name_match: true }, auditor);
+            const should = lastSearchBody().query.bool.must[0].bool.should;
+
+            expect(should).toHaveLength(3);
+        });
+
+        it('should report the strongest matching strategy per hit', async () => {
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        total: { value: 2 },
+                        hits: [
+                            { _source: { member_id: 'mem-001' }, sort: [2, 'mem-001'], matched_queries: ['phonetic', 'nickname'] },
+                            { _source: { member_id: 'mem-002' }, sort: [1, 'mem-002'], matched_queries: ['phonetic'] },
+                        ],
+                    },
+                },
+            });
+
+            const response = await service.search({ q: 'bob smyth', name_match: true }, auditor);
+
+            expect(response.results.map((r) => r.match_strategy)).toEqual(['nickname', 'phonetic']);
+        });
+    });
+
+    describe('location expansion', () => {
+        const downtown = {
+            location_id: 'GYM_101',
+            name: 'Downtown Fitness',
+            region: 'Southeast',
+            market_segment: 'urban',
+            rate_model: 'per_participant',
+        };
+
+        beforeEach(() => {
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        total: { value: 2 },
+                        hits: [
+                            { _source: { member_id: 'mem-001', location_id: 'GYM_101' }, sort: [2, 'mem-001'] },
+                            { _source: { member_id: 'mem-002', location_id: 'GYM_102' }, sort: [1, 'mem-002'] },
+                        ],
+                    },
+                },
+            });
+        });
+
+        it('should not look up locations unless asked', async () => {
+            await service.search({}, auditor);
+            expect(mockLocationsSearch.findSummaries).not.toHaveBeenCalled();
+        });
+
+        it('should attach summaries for visible locations only', async () => {
+            mockLocationsSearch.findSummaries.mockResolvedValueOnce(new Map([['GYM_101', downtown]]));
+
+            const response = await service.search({ expand: ['location'] }, externalAdmin);
+
+            expect(mockLocationsSearch.findSummaries).toHaveBeenCalledWith(['GYM_101', 'GYM_102'], externalAdmin);
+            expect(response.results[0].location).toEqual(downtown);
+            expect(response.results[1]).not.toHaveProperty('location');
+        });
+
+        it('should return unexpanded results when the lookup fails', async () => {
+            mockLocationsSearch.findSummaries.mockRejectedValueOnce(new Error('locations down'));
+
+            const response = await service.search({ expand: ['location'] }, auditor);
+
+            expect(response.results).toHaveLength(2);
+            expect(response.results[0]).not.toHaveProperty('location');
+        });
+    });
+
+    describe('findById', () => {
+        it('should project fields by role', async () => {
+            const member = await service.findById('mem-001', auditor);
+            const body = lastSearchBody();
+
+            expect(body.query).toEqual({ term: { member_id: 'mem-001' } });
+            expect(body._source).not.toContain('status_notes');
+            expect(member?.member_id).toBe('mem-001');
+        });
+
+        it('should look up external members through the tenant filter', async () => {
+            await service.findById('mem-001', externalAdmin);
+
+            expect(lastSearchBody().query.bool.filter).toEqual([{ term: { tenant_id: 'loc-test-001' } }]);
+        });
+
+        it('should return null when nothing is visible', async () => {
+            mockOpenSearchProvider.getClient().search.mockResolvedValueOnce({
+                body: { hits: { total: { value: 0 }, hits: [] } },
+            });
+
+            expect(await service.findById('mem-999', externalAdmin)).toBeNull();
+        });
+    });
+
+    describe('suggest', () => {
+        it('should run a bool_prefix query on lname_suggest with only name fields', async () => {
+            const response = await service.suggest('do', auditor, 5);
+            const body = lastSearchBody();
+
+            expect(body.query.multi_match).toEqual(expect.objectContaining({ query: 'do', type: 'bool_prefix' }));
+            expect(body._source).toEqual(['member_id', 'fname', 'lname']);
+            expect(body.size).toBe(5);
+            expect(response.suggestions).toEqual([{ member_id: 'mem-001', fname: 'John', lname: 'Doe' }]);
+        });
+
+        it('should tenant-filter suggestions for external users', async () => {
+            await service.suggest('do', externalAdmin);
+
+            expect(lastSearchBody().query.bool.filter).toEqual([{ term: { tenant_id: 'loc-test-001' } }]);
+        });
+    });
+});
@@ -13,11 +13,34 @@
  * OpenSearch FLS provides defense-in-depth only.
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { OpenSearchProvider } from '../shared/opensearch';
 import { AuthenticatedUser } from '../shared/auth';
+import { SearchVertical, VerticalSearchResult } from '../shared/federation';
+import { buildTermsAggregations, readFacets } from '../shared/facets';
+import { buildHighlight, sanitizeHighlights } from '../shared/highlight';
+import { buildPrefixQuery, clampSuggestLimit } from '../shared/suggest';
+import { RedactionService } from '../shared/redaction';
+import { TenantScope } from '../shared/tenancy';
+import {
+    clampPageSize,
+    decodeCursor,
+    pageFromHits,
+    readTotal,
+    SortedHit,
+} from '../shared/pagination';
 import { Counter, Histogram } from 'prom-client';
-import { SearchQuery, SearchResult } from './interfaces';
+import {
+    MemberExpansion,
+    MemberSortOption,
+    MemberSuggestion,
+    NameMatchStrategy,
+    SearchQuery,
+    SearchResult,
+} from './interfaces';
+import { NameSynonymsService } from './name-synonyms.service';
+import { LocationsSearchService } from '../locations/locations-search.service';
+import { MemberSuggestResponseDto, SearchResponseDto } from './dto';
 
 /* -------------------------------------------------------------------------- */
 /*                              Prometheus Metrics                             */
@@ -42,24 +65,93 @@ const searchDuration = new Histogram({
     buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1],
 });
 
+/* -------------------------------------------------------------------------- */
+/*                              Facet Configuration                            */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Fields that may be requested as facets on member search.
+ */
+export const MEMBER_FACET_FIELDS = ['tags', 'tenant_id'] as const;
+
+/**
+ * Text fields that may carry highlighted fragments, before role filtering.
+ */
+const MEMBER_HIGHLIGHT_FIELDS = ['fname', 'lname', 'status_notes'];
+
+/**
+ * Related documents that may be requested with `expand`.
+ */
+export const MEMBER_EXPANSIONS: readonly MemberExpansion[] = ['location'];
+
+/**
+ * Tenant isolation for the members index.
+ *
+ * @remarks
+ * **Security Critical**: every query and single-document read against the
+ * members index (search, suggest, findById, federation) goes through this
+ * scope, so external users only ever match their own tenant_id.
+ */
+const MEMBER_TENANT_SCOPE = new TenantScope('tenant_id');
+
+/**
+ * Name-matching strategies, strongest first.
+ * A hit matched by several strategies reports the first one listed here.
+ */
+const NAME_MATCH_PRIORITY: NameMatchStrategy[] = ['exact', 'nickname', 'fuzzy', 'phonetic'];
+
+/* -------------------------------------------------------------------------- */
+/*                              Sort Configuration                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Sort clauses per sort option.
+ *
+ * @remarks
+ * Every option ends with member_id as the unique tiebreaker required by
+ * `search_after`, and all options use two clauses so cursors keep a fixed length.
+ */
+export const MEMBER_SORTS: Record<MemberSortOption, Record<string, unknown>[]> = {
+    relevance: [{ _score: 'desc' }, { member_id: 'asc' }],
+    updated_at: [{ updated_at: { order: 'desc', missing: '_last' } }, { member_id: 'asc' }],
+    lname: [{ 'lname.keyword': { order: 'asc', missing: '_last' } }, { member_id: 'asc' }],
+};
+
+/**
+ * Raw search hit with optional highlight fragments and named-query matches.
+ */
+type MemberHit = SortedHit<SearchResult> & {
+    highlight?: Record<string, string[]>;
+    matched_queries?: string[];
+};
+
 /* -------------------------------------------------------------------------- */
 /*                              Re-exports for Convenience                     */
 /* -------------------------------------------------------------------------- */
 
-export { SearchQuery, SearchResult } from './interfaces';
+export { SearchQuery, SearchResult, MemberExpansion, MemberSortOption, TagMatchMode, NameMatchStrategy } from './interfaces';
+export { SearchResponseDto, MemberSuggestResponseDto } from './dto';
 
 /* -------------------------------------------------------------------------- */
 /*                              Service Implementation                         */
 /* -------------------------------------------------------------------------- */
 
 @Injectable()
-export class MembershipSearchService {
+export class MembershipSearchService implements SearchVertical {
+    /** Result group key in federated search */
+    readonly verticalName = 'members';
+
     private readonly logger = new Logger(MembershipSearchService.name);
 
     /** OpenSearch index name for member documents */
     private readonly INDEX_NAME = 'members';
 
-    constructor(private opensearchProvider: OpenSearchProvider) { }
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private redactionService: RedactionService,
+        private nameSynonymsService: NameSynonymsService,
+        private locationsSearchService: LocationsSearchService,
+    ) { }
 
     /**
      * Determines which source fields to return based on user role and tenant type.
@@ -74,7 +166,10 @@ export class MembershipSearchService {
      * - **External Admin**: base + status_notes (for their tenant only)
      */
     private getSourceFilter(user: AuthenticatedUser): string[] {
-        const baseFields = ['member_id', 'email', 'fname', 'lname', 'tags', 'tenant_id'];
+        const baseFields = [
+            'member_id', 'email', 'fname', 'lname', 'tags', 'tenant_id',
+            'location_id', 'enrollment_date', 'monthly_visits', 'created_at', 'updated_at',
+        ];
 
         if (user.tenantType === 'external') {
             // External admins get base + status_notes (data is already tenant-filtered)
@@ -93,44 +188,164 @@ export class MembershipSearchService {
     }
 
     /**
-     * Constructs the user's search query (without tenant filtering).
+     * Resolves requested facets to the fields this user may aggregate on.
+     *
+     * @remarks
+     * Facets are limited to MEMBER_FACET_FIELDS and to fields the user's
+     * source filter already exposes, so counts never reveal values of
+     * fields the role cannot read.
      */
-    private buildUserQuery(params: SearchQuery): Record<string, unknown> {
-        const { q, member_id, email, fuzzy = true } = params;
+    private resolveFacets(requested: string[] | undefined, user: AuthenticatedUser): string[] {
+        if (!requested || requested.length === 0) return [];
 
-        // Exact member_id lookup takes highest precedence
-        if (member_id) {
-            return {
-                term: { member_id: member_id },
-            };
+        const visible = this.getSourceFilter(user);
+        return requested.filter((field) =>
+            (MEMBER_FACET_FIELDS as readonly string[]).includes(field) && visible.includes(field),
+        );
+    }
+
+    /**
+     * Builds an inclusive range filter, rejecting unparseable dates.
+     */
+    private buildRange(
+        field: string,
+        from: string | undefined,
+        to: string | undefined,
+    ): Record<string, unknown> | null {
+        if (!from && !to) return null;
+
+        for (const value of [from, to]) {
+            if (value && Number.isNaN(Date.parse(value))) {
+                throw new BadRequestException(`Invalid date for ${field}: ${value}`);
+            }
         }
 
-        if (email) {
-            return {
-                term: { email: email.toLowerCase() },
-            };
+        return { range: { [field]: { gte: from, lte: to } } };
+    }
+
+    /**
+     * Builds the filter clauses for the user's query (tenant filter excluded).
+     *
+     * @remarks
+     * - tag_mode 'any' uses a single `terms` filter; 'all' uses one `term` per tag
+     * - Filters never affect scoring, so relevance comes from `q` alone
+     */
+    private buildFilters(params: SearchQuery): Record<string, unknown>[] {
+        const filter: Record<string, unknown>[] = [];
+
+        if (params.member_id) {
+            filter.push({ term: { member_id: params.member_id } });
         }
 
-        if (q) {
-            if (fuzzy) {
-                return {
-                    multi_match: {
-                        query: q,
-                        fields: ['member_id^3', 'fname^2', 'lname^2', 'email', 'status_notes'],
-                        fuzziness: 'AUTO',
-                        prefix_length: 2,
-                    },
-                };
+        if (params.email) {
+            filter.push({ term: { email: params.email.toLowerCase() } });
+        }
+
+        if (params.location_id) {
+            filter.push({ term: { location_id: params.location_id } });
+        }
+
+        if (params.tags && params.tags.length > 0) {
+            if (params.tag_mode === 'all') {
+                filter.push(...params.tags.map((tag) => ({ term: { tags: tag } })));
+            } else {
+                filter.push({ terms: { tags: params.tags } });
             }
+        }
+
+        const created = this.buildRange('created_at', params.created_from, params.created_to);
+        if (created) filter.push(created);
+
+        const updated = this.buildRange('updated_at', params.updated_from, params.updated_to);
+        if (updated) filter.push(updated);
+
+        return filter;
+    }
+
+    /**
+     * Constructs the full-text part of the user's query.
+     */
+    private buildTextQuery(q: string, fuzzy: boolean): Record<string, unknown> {
+        if (fuzzy) {
             return {
                 multi_match: {
                     query: q,
-                    fields: ['member_id', 'fname', 'lname', 'email', 'status_notes'],
+                    fields: ['member_id^3', 'fname^2', 'lname^2', 'email', 'status_notes'],
+                    fuzziness: 'AUTO',
+                    prefix_length: 2,
                 },
             };
         }
+        return {
+            multi_match: {
+                query: q,
+                fields: ['member_id', 'fname', 'lname', 'email', 'status_notes'],
+            },
+        };
+    }
+
+    /**
+     * Constructs the name-matching query: one named clause per strategy.
+     *
+     * @param q - Name as typed
+     * @param nicknames - Dictionary variants of the words in `q`
+     *
+     * @remarks
+     * Each clause carries `_name` so OpenSearch reports which strategies
+     * matched each hit. Boosts rank exact above nickname above fuzzy above
+     * phonetic matches.
+     */
+    private buildNameQuery(q: string, nicknames: string[]): Record<string, unknown> {
+        const should: Record<string, unknown>[] = [
+            { multi_match: { query: q, fields: ['fname', 'lname'], boost: 4, _name: 'exact' } },
+            {
+                multi_match: {
+                    query: q,
+                    fields: ['fname', 'lname'],
+                    fuzziness: 'AUTO',
+                    prefix_length: 1,
+                    boost: 2,
+                    _name: 'fuzzy',
+                },
+            },
+            { multi_match: { query: q, fields: ['fname.phonetic', 'lname.phonetic'], _name: 'phonetic' } },
+        ];
+
+        if (nicknames.length > 0) {
+            should.push({ match: { fname: { query: nicknames.join(' '), boost: 3, _name: 'nickname' } } });
+        }
+
+        return { bool: { should, minimum_should_match: 1 } };
+    }
+
+    /**
+     * Constructs the user's search query (without tenant filtering).
+     *
+     * @param params - Search parameters from the request
+     * @param nicknames - Nickname variants, used only in name-matching mode
+     *
+     * @remarks
+     * `q` and every filter compose in one bool query; with neither, all
+     * documents match.
+     */
+    private buildUserQuery(params: SearchQuery, nicknames: string[] = []): Record<string, unknown> {
+        const { q, fuzzy = true } = params;
+        const filter = this.buildFilters(params);
+
+        if (!q && filter.length === 0) {
+            return { match_all: {} };
+        }
+
+        const textQuery = q && (params.name_match
+            ? this.buildNameQuery(q, nicknames)
+            : this.buildTextQuery(q, fuzzy));
 
-        return { match_all: {} };
+        return {
+            bool: {
+                ...(textQuery ? { must: [textQuery] } : {}),
+                ...(filter.length > 0 && { filter }),
+            },
+        };
     }
 
     /**
@@ -138,74 +353,137 @@ export class MembershipSearchService {
      *
      * @param params - Search parameters from the request
      * @param user - Authenticated user for tenant context
+     * @param nicknames - Nickname variants, used only in name-matching mode
      * @returns OpenSearch query with tenant filter if applicable
+     */
+    private buildQuery(params: SearchQuery, user: AuthenticatedUser, nicknames: string[] = []): Record<string, unknown> {
+        return MEMBER_TENANT_SCOPE.apply(this.buildUserQuery(params, nicknames), user);
+    }
+
+    /**
+     * Picks the strongest strategy among a hit's matched named queries.
+     */
+    private readMatchStrategy(matchedQueries: string[] | undefined): NameMatchStrategy | undefined {
+        return NAME_MATCH_PRIORITY.find((strategy) => matchedQueries?.includes(strategy));
+    }
+
+    /**
+     * Attaches each member's location summary to a page of results.
      *
      * @remarks
-     * **Security Critical**: External users MUST have tenant_id filter applied.
-     * This ensures data isolation between external locations.
+     * Tenant isolation applies on both sides of the join: the members were
+     * already tenant-filtered, and the location lookup goes through the
+     * locations tenant filter, so an external user only sees their own
+     * location. Members whose location is missing or not visible keep no
+     * `location`. A failed lookup degrades to unexpanded results rather
+     * than failing the search.
      */
-    private buildQuery(params: SearchQuery, user: AuthenticatedUser): Record<string, unknown> {
-        const userQuery = this.buildUserQuery(params);
+    private async expandLocations(results: SearchResult[], user: AuthenticatedUser): Promise<SearchResult[]> {
+        const locationIds = results
+            .map((result) => result.location_id)
+            .filter((id): id is string => !!id);
 
-        // External tenants: enforce strict data isolation
-        if (user.tenantType === 'external') {
-            return {
-                bool: {
-                    must: [userQuery],
-                    filter: [{ term: { tenant_id: user.tenantId } }],
-                },
-            };
+        try {
+            const summaries = await this.locationsSearchService.findSummaries(locationIds, user);
+            return results.map((result) => {
+                const location = result.location_id ? summaries.get(result.location_id) : undefined;
+                return location ? { ...result, location } : result;
+            });
+        } catch (error) {
+            this.logger.warn({ msg: 'Location expansion failed, returning unexpanded results', error });
+            return results;
         }
-
-        // Internal users: no tenant filter (see all data)
-        return userQuery;
     }
 
     /**
      * Executes a search query with RBAC field filtering and tenant isolation.
      *
-     * @param params - Search parameters (query, email, fuzzy, limit)
+     * @param params - Search parameters (query, filters, sort, limit, cursor)
      * @param user - Authenticated user for RBAC and tenant filtering
-     * @returns Array of search results with appropriate fields
+     * @returns Page of results with total count and next-page cursor
+     * @throws BadRequestException if the cursor or a date filter is malformed
      * @throws Error if OpenSearch query fails
      *
      * @remarks
      * - Records metrics for SLO monitoring (latency histogram, success/error counter)
      * - Applies source filtering to restrict fields based on user role
-     * - Applies tenant filtering for external users
-     * - Default limit is 20 results
+     * - Applies tenant filtering for external users, on every page
+     * - Default limit is 20 results, capped at 100
+     * - Pages with `search_after`; fetches one extra hit to detect the last page
+     * - Optional facets are terms aggregations over the same tenant-scoped query
+     * - Optional highlights cover only fields in the user's source filter and
+     *   are re-checked for PII before they are returned
+     * - Name-matching mode reports the strongest matching strategy per hit
+     * - expand=location attaches each member's location summary
      */
-    async search(params: SearchQuery, user: AuthenticatedUser): Promise<SearchResult[]> {
+    async search(params: SearchQuery, user: AuthenticatedUser): Promise<SearchResponseDto> {
         const timer = searchDuration.startTimer();
         const role = user.roles[0] || 'unknown';
+        const limit = clampPageSize(params.limit);
+        const sort = MEMBER_SORTS[params.sort ?? 'relevance'];
+        const searchAfter = params.cursor
+            ? decodeCursor(params.cursor, sort.length)
+            : undefined;
+        const facetFields = this.resolveFacets(params.facets, user);
+        const sourceFields = this.getSourceFilter(user);
+        const highlightFields = params.highlight
+            ? MEMBER_HIGHLIGHT_FIELDS.filter((field) => sourceFields.includes(field))
+            : [];
 
         try {
             const client = this.opensearchProvider.getClient();
-            const limit = params.limit || 20;
+            const nicknames = params.name_match && params.q
+                ? await this.nameSynonymsService.expand(params.q)
+                : [];
 
             const response = await client.search({
                 index: this.INDEX_NAME,
                 body: {
-                    query: this.buildQuery(params, user),
-                    _source: this.getSourceFilter(user),
-                    size: limit,
+                    query: this.buildQuery(params, user, nicknames),
+                    _source: sourceFields,
+                    size: limit + 1,
+                    sort,
+                    track_total_hits: true,
+                    ...(searchAfter && { search_after: searchAfter }),
+                    ...(facetFields.length > 0 && { aggs: buildTermsAggregations(facetFields) }),
+                    ...(highlightFields.length > 0 && { highlight: buildHighlight(highlightFields) }),
                 },
             });
 
-            const hits = response.body.hits.hits;
-            const results = hits.map((hit: { _source: SearchResult }) => hit._source);
+            const hits = (response.body.hits.hits as MemberHit[]).map((hit) => {
+                const highlights = sanitizeHighlights(hit.highlight, highlightFields, this.redactionService);
+                const matchStrategy = params.name_match ? this.readMatchStrategy(hit.matched_queries) : undefined;
+                return {
+                    ...hit,
+                    _source: {
+                        ...hit._source,
+                        ...(highlights && { highlights }),
+                        ...(matchStrategy && { match_strategy: matchStrategy }),
+                    },
+                };
+            });
+            const page = pageFromHits(hits, limit);
+            const results = params.expand?.includes('location')
+                ? await this.expandLocations(page.results, user)
+                : page.results;
+            const total = readTotal(response.body.hits.total);
+            const facets = facetFields.length > 0
+                ? readFacets(response.body.aggregations, facetFields)
+                : undefined;
 
             searchCounter.inc({ role, tenant_type: user.tenantType, status: 'success' });
             this.logger.log({
                 msg: 'Search completed',
                 query: params.q,
                 resultCount: results.length,
+                total,
+                hasMore: !!page.nextCursor,
                 role,
                 tenantType: user.tenantType,
                 tenantId: user.tenantType === 'external' ? user.tenantId : undefined,
             });
 
-            return results;
+            return { results, total, nextCursor: page.nextCursor, facets };
         } catch (error) {
             searchCounter.inc({ role, tenant_type: user.tenantType, status: 'error' });
             this.logger.error({ msg: 'Search failed', error, query: params });
@@ -214,4 +492,99 @@ export class MembershipSearchService {
             timer();
         }
     }
+
+    /**
+     * Retrieves a single member with the same projection and tenant check as search.
+     *
+     * @param memberId - Member ID
+     * @param user - Authenticated user for RBAC and tenant filtering
+     * @returns The member, or null if it does not exist or belongs to another tenant
+     *
+     * @remarks
+     * Reads through the tenant scope, so a member in another tenant is
+     * indistinguishable from one that does not exist. Every lookup is
+     * logged with its outcome for access auditing.
+     */
+    async findById(memberId: string, user: AuthenticatedUser): Promise<SearchResult | null> {
+        const member = await MEMBER_TENANT_SCOPE.findOne<SearchResult>(
+            this.opensearchProvider.getClient(),
+            {
+                index: this.INDEX_NAME,
+                idField: 'member_id',
+                id: memberId,
+                source: this.getSourceFilter(user),
+            },
+            user,
+        );
+
+        this.logger.log({
+            msg: 'Member record accessed',
+            memberId,
+            found: !!member,
+            userId: user.userId,
+            role: user.roles[0] || 'unknown',
+            tenantType: user.tenantType,
+            tenantId: user.tenantId,
+        });
+
+        return member;
+    }
+
+    /**
+     * Runs a relevance-ranked member search for federated search.
+     *
+     * @remarks
+     * Uses the same query builder, source filter and tenant filter as
+     * {@link search}, so federation never widens what a user can see.
+     */
+    async federatedSearch(q: string, user: AuthenticatedUser, limit: number): Promise<VerticalSearchResult> {
+        const client = this.opensearchProvider.getClient();
+
+        const response = await client.search({
+            index: this.INDEX_NAME,
+            body: {
+                query: this.buildQuery({ q, fuzzy: true }, user),
+                _source: this.getSourceFilter(user),
+                size: limit,
+                track_total_hits: true,
+            },
+        });
+
+        const hits = response.body.hits.hits as Array<{ _score: number | null; _source: SearchResult }>;
+        return {
+            total: readTotal(response.body.hits.total),
+            hits: hits.map((hit) => ({
+                id: hit._source.member_id,
+                score: hit._score ?? 0,
+                document: { ...hit._source },
+            })),
+        };
+    }
+
+    /**
+     * Returns type-ahead suggestions on member last name.
+     *
+     * @param prefix - Normalized prefix typed so far
+     * @param user - Authenticated user for tenant filtering
+     * @param limit - Maximum suggestions (default 10, capped at 20)
+     *
+     * @remarks
+     * Returns only member_id, fname and lname, which every role may read,
+     * and applies the same tenant filter as search.
+     */
+    async suggest(prefix: string, user: AuthenticatedUser, limit?: number): Promise<MemberSuggestResponseDto> {
+        const client = this.opensearchProvider.getClient();
+
+        const response = await client.search({
+            index: this.INDEX_NAME,
+            body: {
+                query: MEMBER_TENANT_SCOPE.apply(buildPrefixQuery('lname_suggest', prefix), user),
+                _source: ['member_id', 'fname', 'lname'],
+                size: clampSuggestLimit(limit),
+            },
+        });
+
+        const hits = response.body.hits.hits as Array<{ _source: MemberSuggestion }>;
+        return { suggestions: hits.map((hit) => hit._source) };
+    }
 }
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Member Stream Handler Tests
+ */
+
+import { MembershipStreamHandler } from './membership-stream.handler';
+import { InvalidMemberError } from './membership-indexer.service';
+import { toStreamRecord } from './membership-stream.replay';
+
+describe('MembershipStreamHandler', () => {
+    let handler: MembershipStreamHandler;
+    let mockIndexer: any;
+
+    const member = {
+        member_id: 'mem-001',
+        email: 'john@example.com',
+        fname: 'John',
+        lname: 'Doe',
+        monthly_visits: 3,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+    };
+
+    beforeEach(() => {
+        mockIndexer = {
+            indexMember: jest.fn().mockResolvedValue(undefined),
+            deleteMember: jest.fn().mockResolvedValue(undefined),
+        };
+        handler = new MembershipStreamHandler(mockIndexer);
+    });
+
+    it('should index the new image for INSERT and MODIFY', async () => {
+        const response = await handler.handle({
+            Records: [
+                toStreamRecord('INSERT', { newImage: member }, 1),
+                toStreamRecord('MODIFY', { oldImage: member, newImage: { ...member, lname: 'Smith' } }, 2),
+            ],
+        });
+
+        expect(mockIndexer.indexMember).toHaveBeenNthCalledWith(1, member);
+        expect(mockIndexer.indexMember).toHaveBeenNthCalledWith(2, { ...member, lname: 'Smith' });
+        expect(response.batchItemFailures).toEqual([]);
+    });
+
+    it('should delete by key for REMOVE', async () => {
+        await handler.handle({ Records: [toStreamRecord('REMOVE', { oldImage: member }, 1)] });
+
+        expect(mockIndexer.deleteMember).toHaveBeenCalledWith('mem-001', expect.any(String));
+        expect(mockIndexer.indexMember).not.toHaveBeenCalled();
+    });
+
+    it('should date the tombstone at the source deletion time', async () => {
+        const record = toStreamRecord('REMOVE', { oldImage: member }, 1);
+        record.dynamodb.ApproximateCreationDateTime = 1717200000;
+
+        await handler.handle({ Records: [record] });
+
+        expect(mockIndexer.deleteMember).toHaveBeenCalledWith('mem-001', '2024-06-01T00:00:00.000Z');
+    });
+
+    it('should stop at the first failure and report it and every later record', async () => {
+        mockIndexer.indexMember
+            .mockResolvedValueOnce(undefined)
+            .mockRejectedValueOnce(new Error('opensearch down'));
+
+        const records = [1, 2, 3].map((seq) =>
+            toStreamRecord('INSERT', { newImage: { ...member, member_id: `mem-00${seq}` } }, seq),
+        );
+
+        const response = await handler.handle({ Records: records });
+
+        expect(mockIndexer.indexMember).toHaveBeenCalledTimes(2);
+        expect(response.batchItemFailures).toEqual([
+            { itemIdentifier: records[1].dynamodb.SequenceNumber },
+            { itemIdentifier: records[2].dynamodb.SequenceNumber },
+        ]);
+    });
+
+    it('should skip invalid records instead of retrying them', async () => {
+        mockIndexer.indexMember.mockRejectedValueOnce(new InvalidMemberError('mem-001', ['email: Invalid email format']));
+
+        const response = await handler.handle({
+            Records: [
+                toStreamRecord('INSERT', { newImage: { ...member, email: 'nope' } }, 1),
+                toStreamRecord('REMOVE', { oldImage: member }, 2),
+            ],
+        });
+
+        expect(mockIndexer.deleteMember).toHaveBeenCalledWith('mem-001', expect.any(String));
+        expect(response.batchItemFailures).toEqual([]);
+    });
+
+    it('should fail a MODIFY without a new image', async () => {
+        const record = toStreamRecord('MODIFY', { oldImage: member }, 7);
+
+        const response = await handler.handle({ Records: [record] });
+
+        expect(response.batchItemFailures).toEqual([{ itemIdentifier: record.dynamodb.SequenceNumber }]);
+    });
+});
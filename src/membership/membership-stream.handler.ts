@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Member Stream Handler
+ *
+ * Applies DynamoDB Streams change records from the members table to the
+ * OpenSearch index: INSERT/MODIFY upsert the new image, REMOVE deletes the
+ * document and leaves a tombstone dated at the source deletion time.
+ *
+ * @remarks
+ * Expects a stream with `NEW_AND_OLD_IMAGES` and a Lambda event source
+ * mapping with `ReportBatchItemFailures` enabled.
+ *
+ * Ordering: records are applied one at a time, in shard order. On the first
+ * retryable failure the handler stops and reports that record and every
+ * later one, so Lambda retries from there. Continuing past a failure could
+ * apply a later change (e.g. a REMOVE) before an earlier one for the same
+ * member, which the retry would then undo.
+ *
+ * Invalid records (schema validation failures) are quarantined by the
+ * indexer and skipped: retrying cannot fix them and would block the shard.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { Counter } from 'prom-client';
+import { InvalidMemberError, MembershipIndexerService } from './membership-indexer.service';
+import {
+    Member,
+    MemberStreamEvent,
+    MemberStreamRecord,
+    StreamBatchResponse,
+    StreamImage,
+} from './interfaces';
+
+/* -------------------------------------------------------------------------- */
+/*                              Prometheus Metrics                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Counter for stream records, labeled by event name and outcome
+ * (success, skipped, error).
+ */
+const streamRecordCounter = new Counter({
+    name: 'membersearch_stream_records_total',
+    help: 'Total number of DynamoDB stream records processed',
+    labelNames: ['event_name', 'status'],
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Handler Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class MembershipStreamHandler {
+    private readonly logger = new Logger(MembershipStreamHandler.name);
+
+    constructor(private indexerService: MembershipIndexerService) { }
+
+    /**
+     * Processes one batch of stream records.
+     *
+     * @param event - Stream event as delivered by Lambda
+     * @returns Sequence numbers of records Lambda should retry
+     */
+    async handle(event: MemberStreamEvent): Promise<StreamBatchResponse> {
+        const records = event.Records ?? [];
+
+        for (let i = 0; i < records.length; i++) {
+            const record = records[i];
+
+            try {
+                await this.processRecord(record);
+                streamRecordCounter.inc({ event_name: record.eventName, status: 'success' });
+            } catch (error) {
+                if (error instanceof InvalidMemberError) {
+                    streamRecordCounter.inc({ event_name: record.eventName, status: 'skipped' });
+                    this.logger.warn({
+                        msg: 'Skipping invalid stream record',
+                        member_id: error.memberId,
+                        sequenceNumber: record.dynamodb.SequenceNumber,
+                        errors: error.errors,
+                    });
+                    continue;
+                }
+
+                const failed = records.slice(i);
+                streamRecordCounter.inc({ event_name: record.eventName, status: 'error' });
+                this.logger.error({
+                    msg: 'Stream record failed, retrying from it',
+                    sequenceNumber: record.dynamodb.SequenceNumber,
+                    eventName: record.eventName,
+                    remaining: failed.length,
+                    error,
+                });
+
+                return {
+                    batchItemFailures: failed.map((r) => ({ itemIdentifier: r.dynamodb.SequenceNumber })),
+                };
+            }
+        }
+
+        this.logger.log({ msg: 'Stream batch processed', recordCount: records.length });
+        return { batchItemFailures: [] };
+    }
+
+    /**
+     * Applies a single change record to the index.
+     *
+     * @throws InvalidMemberError if the new image fails validation
+     * @throws Error if the record lacks the image it needs or OpenSearch fails
+     */
+    private async processRecord(record: MemberStreamRecord): Promise<void> {
+        const { eventName, dynamodb } = record;
+
+        switch (eventName) {
+            case 'INSERT':
+            case 'MODIFY': {
+                if (!dynamodb.NewImage) {
+                    throw new Error(
+                        `${eventName} record ${dynamodb.SequenceNumber} has no NewImage; ` +
+                        'the stream must use NEW_AND_OLD_IMAGES',
+                    );
+                }
+                await this.indexerService.indexMember(unmarshall(dynamodb.NewImage) as Member);
+                return;
+            }
+
+            case 'REMOVE': {
+                const memberId = this.readMemberId(dynamodb.Keys ?? dynamodb.OldImage);
+                if (!memberId) {
+                    throw new Error(`REMOVE record ${dynamodb.SequenceNumber} has no member_id key`);
+                }
+                const deletedAt = dynamodb.ApproximateCreationDateTime
+                    ? new Date(dynamodb.ApproximateCreationDateTime * 1000).toISOString()
+                    : undefined;
+                await this.indexerService.deleteMember(memberId, deletedAt);
+                return;
+            }
+
+            default:
+                throw new Error(`Unsupported stream event: ${String(eventName)}`);
+        }
+    }
+
+    /**
+     * Reads member_id from a key or image.
+     */
+    private readMemberId(image: StreamImage | undefined): string | undefined {
+        if (!image) return undefined;
+        return (unmarshall(image) as Partial<Member>).member_id;
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Member Stream Lambda Entry Point
+ *
+ * Lambda handler for the members table stream. Wire it to the stream with
+ * `ReportBatchItemFailures` enabled.
+ *
+ * @remarks
+ * The Nest application context is created on the first invocation and
+ * reused while the execution environment stays warm.
+ */
+
+import { INestApplicationContext } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { MembershipStreamModule } from './membership-stream.module';
+import { MembershipStreamHandler } from './membership-stream.handler';
+import { MemberStreamEvent, StreamBatchResponse } from './interfaces';
+
+let appContext: Promise<INestApplicationContext> | undefined;
+
+/**
+ * Lambda handler: indexes one batch of stream records.
+ */
+export async function handler(event: MemberStreamEvent): Promise<StreamBatchResponse> {
+    appContext ??= NestFactory.createApplicationContext(MembershipStreamModule);
+    const app = await appContext;
+    return app.get(MembershipStreamHandler).handle(event);
+}
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Membership Stream Module
+ *
+ * Minimal module for the DynamoDB Streams indexer: no HTTP, auth or
+ * Postgres, so the Lambda and the local replayer start quickly.
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '../config/config.module';
+import { SharedOpenSearchModule } from '../shared/opensearch';
+import { SharedQuarantineModule } from '../shared/quarantine';
+import { SharedRedactionModule } from '../shared/redaction';
+import { MembershipRepository } from './membership.repository';
+import { MembershipIndexerService } from './membership-indexer.service';
+import { MembershipStreamHandler } from './membership-stream.handler';
+
+@Module({
+    imports: [ConfigModule, SharedOpenSearchModule, SharedRedactionModule, SharedQuarantineModule],
+    providers: [MembershipRepository, MembershipIndexerService, MembershipStreamHandler],
+    exports: [MembershipRepository, MembershipStreamHandler],
+})
+export class MembershipStreamModule { }
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Member Stream Replay Utility Tests
+ */
+
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { diffMemberSnapshots, parseStreamFixture, toStreamRecord } from './membership-stream.replay';
+
+describe('Member Stream Replay Utilities', () => {
+    const member = (id: string, lname = 'Doe') => ({
+        member_id: id,
+        email: `${id}@example.com`,
+        fname: 'John',
+        lname,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+    });
+
+    describe('toStreamRecord', () => {
+        it('should marshal images and keys like a NEW_AND_OLD_IMAGES stream', () => {
+            const record = toStreamRecord('INSERT', { newImage: { ...member('mem-001'), tags: undefined } }, 12);
+
+            expect(record.dynamodb.Keys).toEqual({ member_id: { S: 'mem-001' } });
+            expect(unmarshall(record.dynamodb.NewImage!)).toEqual(member('mem-001'));
+            expect(record.dynamodb.SequenceNumber).toBe('000000000000000000012');
+        });
+    });
+
+    describe('diffMemberSnapshots', () => {
+        it('should emit INSERT, MODIFY and REMOVE records in sequence', () => {
+            const records = diffMemberSnapshots(
+                [member('mem-001'), member('mem-002'), member('mem-003')],
+                [member('mem-001'), member('mem-002', 'Smith'), member('mem-004')],
+            );
+
+            expect(records.map((r) => [r.eventName, unmarshall(r.dynamodb.Keys!).member_id])).toEqual([
+                ['MODIFY', 'mem-002'],
+                ['INSERT', 'mem-004'],
+                ['REMOVE', 'mem-003'],
+            ]);
+            expect(records.map((r) => r.dynamodb.SequenceNumber)).toEqual([...records.map((r) => r.dynamodb.SequenceNumber)].sort());
+        });
+
+        it('should treat every item as an INSERT on the first run', () => {
+            const records = diffMemberSnapshots([], [member('mem-001')]);
+            expect(records.map((r) => r.eventName)).toEqual(['INSERT']);
+        });
+    });
+
+    describe('parseStreamFixture', () => {
+        it('should convert plain-JSON changes to stream records', () => {
+            const event = parseStreamFixture([
+                { eventName: 'INSERT', newImage: member('mem-001') },
+                { eventName: 'REMOVE', oldImage: member('mem-001') },
+            ]);
+
+            expect(event.Records).toHaveLength(2);
+            expect(event.Records[1].dynamodb.OldImage).toBeDefined();
+        });
+
+        it('should pass Lambda-shaped events through', () => {
+            const lambdaEvent = { Records: [toStreamRecord('REMOVE', { oldImage: member('mem-001') }, 1)] };
+            expect(parseStreamFixture(JSON.parse(JSON.stringify(lambdaEvent)))).toEqual(lambdaEvent);
+        });
+
+        it('should reject unknown shapes', () => {
+            expect(() => parseStreamFixture({ items: [] })).toThrow('Invalid stream fixture');
+        });
+    });
+});
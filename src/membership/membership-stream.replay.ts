@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Member Stream Replay Utilities
+ *
+ * Builds DynamoDB Streams events without a real stream, so the sync path
+ * can be exercised offline against DynamoDB Local or fixture files.
+ * Used by `scripts/replay-stream.ts`.
+ *
+ * @remarks
+ * DynamoDB Local's stream API is not used; changes are derived by diffing
+ * two table snapshots instead. Records carry both images, as a
+ * `NEW_AND_OLD_IMAGES` stream would.
+ */
+
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { z } from 'zod';
+import { Member, MemberStreamEvent, MemberStreamRecord, StreamEventName } from './interfaces';
+
+/* -------------------------------------------------------------------------- */
+/*                              Fixture Schema                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Plain-JSON change, as written by hand in fixture files.
+ */
+const PlainChangeSchema = z.object({
+    eventName: z.enum(['INSERT', 'MODIFY', 'REMOVE']),
+    oldImage: z.record(z.unknown()).optional(),
+    newImage: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Fixture file: a Lambda-shaped event, or a list of plain-JSON changes.
+ */
+const StreamFixtureSchema = z.union([
+    z.object({ Records: z.array(z.object({ eventName: z.enum(['INSERT', 'MODIFY', 'REMOVE']) }).passthrough()) }),
+    z.array(PlainChangeSchema),
+]);
+
+/* -------------------------------------------------------------------------- */
+/*                              Record Builders                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Builds one stream record from plain item images.
+ *
+ * @param eventName - Change type
+ * @param images - Item before and/or after the change
+ * @param sequenceNumber - Position of the record in the replayed shard
+ */
+export function toStreamRecord(
+    eventName: StreamEventName,
+    images: { oldImage?: Record<string, unknown>; newImage?: Record<string, unknown> },
+    sequenceNumber: number,
+): MemberStreamRecord {
+    const keySource = images.newImage ?? images.oldImage;
+    const options = { removeUndefinedValues: true };
+
+    return {
+        eventID: `replay-${sequenceNumber}`,
+        eventName,
+        eventSource: 'aws:dynamodb',
+        dynamodb: {
+            ...(keySource && { Keys: marshall({ member_id: keySource.member_id }, options) }),
+            ...(images.newImage && { NewImage: marshall(images.newImage, options) }),
+            ...(images.oldImage && { OldImage: marshall(images.oldImage, options) }),
+            SequenceNumber: String(sequenceNumber).padStart(21, '0'),
+            ApproximateCreationDateTime: Math.floor(Date.now() / 1000),
+            StreamViewType: 'NEW_AND_OLD_IMAGES',
+        },
+    };
+}
+
+/**
+ * Derives the stream records that turn one table snapshot into another.
+ *
+ * @param previous - Members at the last replay (empty on the first run)
+ * @param current - Members now
+ * @returns INSERT for new members, MODIFY for changed ones, REMOVE for
+ *          deleted ones, ordered by member_id within each type
+ */
+export function diffMemberSnapshots(previous: Member[], current: Member[]): MemberStreamRecord[] {
+    const before = new Map(previous.map((m) => [m.member_id, m]));
+    const after = new Map(current.map((m) => [m.member_id, m]));
+    const byId = (a: Member, b: Member) => a.member_id.localeCompare(b.member_id);
+    const records: MemberStreamRecord[] = [];
+    let sequence = 1;
+
+    for (const member of [...after.values()].sort(byId)) {
+        const old = before.get(member.member_id);
+        if (!old) {
+            records.push(toStreamRecord('INSERT', { newImage: { ...member } }, sequence++));
+        } else if (JSON.stringify(old) !== JSON.stringify(member)) {
+            records.push(toStreamRecord('MODIFY', { oldImage: { ...old }, newImage: { ...member } }, sequence++));
+        }
+    }
+
+    for (const member of [...before.values()].sort(byId)) {
+        if (!after.has(member.member_id)) {
+            records.push(toStreamRecord('REMOVE', { oldImage: { ...member } }, sequence++));
+        }
+    }
+
+    return records;
+}
+
+/**
+ * Parses a fixture file into a stream event.
+ *
+ * @param json - Parsed fixture: `{ Records: [...] }` in DynamoDB attribute
+ *               form, or `[{ eventName, oldImage?, newImage? }]` in plain JSON
+ * @throws Error if the fixture matches neither shape
+ */
+export function parseStreamFixture(json: unknown): MemberStreamEvent {
+    const result = StreamFixtureSchema.safeParse(json);
+    if (!result.success) {
+        throw new Error(`Invalid stream fixture: ${result.error.errors.map((e) => e.message).join(', ')}`);
+    }
+
+    if (!Array.isArray(result.data)) {
+        return result.data as unknown as MemberStreamEvent;
+    }
+
+    return {
+        Records: result.data.map((change, i) => toStreamRecord(change.eventName, change, i + 1)),
+    };
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Membership Controller
+ *
+ * HTTP endpoint for fetching a single member.
+ *
+ * @remarks
+ * Endpoints:
+ * - GET /members/:id - Member by ID (requires JWT)
+ *
+ * Applies the same RBAC projection and tenant isolation as member search.
+ * Members outside the caller's tenant return 404, exactly like missing IDs.
+ */
+
+import { Controller, Get, NotFoundException, Param, Request, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedUser } from '../shared/auth';
+import { MembershipSearchService } from './membership-search.service';
+import { SearchResultItemDto } from './dto';
+
+/* -------------------------------------------------------------------------- */
+/*                              Controller Implementation                      */
+/* -------------------------------------------------------------------------- */
+
+@ApiTags('members')
+@Controller('members')
+export class MembershipController {
+    constructor(private searchService: MembershipSearchService) { }
+
+    /**
+     * Retrieves a member by ID.
+     *
+     * @throws NotFoundException if the member does not exist or is not visible to the caller
+     */
+    @Get(':id')
+    @UseGuards(AuthGuard('jwt'))
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get member by ID', description: 'Fields returned depend on your role; other tenants\' members return 404' })
+    async findById(
+        @Param('id') id: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<SearchResultItemDto> {
+        const member = await this.searchService.findById(id, req!.user);
+        if (!member) {
+            throw new NotFoundException(`Member ${id} not found`);
+        }
+        return member;
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Member Index Mappings
+ *
+ * OpenSearch mappings for the `members` index.
+ *
+ * @remarks
+ * - Identifier and classification fields are `keyword` for exact matching,
+ *   sorting, and terms aggregations (facets)
+ * - Name and notes fields are `text` for full-text search; lname carries a
+ *   `keyword` sub-field for sorting
+ * - lname_suggest is `search_as_you_type` for the suggest endpoint
+ * - created_at/updated_at are `date` for range filters and sorting
+ * - status_notes holds redacted text only (see MembershipIndexerService)
+ * - fname/lname carry a `phonetic` sub-field for name-matching mode
+ */
+
+/**
+ * Index settings defining the phonetic name analyzer.
+ *
+ * @remarks
+ * Requires the `analysis-phonetic` plugin (bundled with Amazon OpenSearch
+ * Service; installed by docker-compose for local runs). Double Metaphone
+ * maps spellings such as "Smith"/"Smyth" to the same tokens.
+ */
+export const MEMBER_INDEX_SETTINGS: Record<string, unknown> = {
+    analysis: {
+        filter: {
+            name_metaphone: {
+                type: 'phonetic',
+                encoder: 'double_metaphone',
+                replace: true,
+            },
+        },
+        analyzer: {
+            name_phonetic: {
+                tokenizer: 'standard',
+                filter: ['lowercase', 'name_metaphone'],
+            },
+        },
+    },
+};
+
+/** Phonetic sub-field shared by the name fields */
+const PHONETIC_SUBFIELD = { phonetic: { type: 'text', analyzer: 'name_phonetic' } };
+
+export const MEMBER_INDEX_MAPPINGS: Record<string, unknown> = {
+    properties: {
+        member_id: { type: 'keyword' },
+        tenant_id: { type: 'keyword' },
+        email: { type: 'keyword' },
+        fname: {
+            type: 'text',
+            analyzer: 'standard',
+            fields: { ...PHONETIC_SUBFIELD },
+        },
+        lname: {
+            type: 'text',
+            analyzer: 'standard',
+            fields: { keyword: { type: 'keyword' }, ...PHONETIC_SUBFIELD },
+        },
+        lname_suggest: { type: 'search_as_you_type' },
+        status_notes: { type: 'text', analyzer: 'standard' },
+        tags: { type: 'keyword' },
+        location_id: { type: 'keyword' },
+        enrollment_date: { type: 'date', format: 'yyyy-MM-dd' },
+        monthly_visits: { type: 'integer' },
+        created_at: { type: 'date' },
+        updated_at: { type: 'date' },
+    },
+};
@@ -5,23 +5,59 @@
  * Imports shared modules for auth, opensearch, and redaction.
  */
 
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
+import { SharedJobsModule, JobsService } from '../shared/jobs';
 import { SharedOpenSearchModule } from '../shared/opensearch';
+import { QuarantineService, SharedQuarantineModule } from '../shared/quarantine';
+import { SharedRateLimitModule } from '../shared/rate-limit';
 import { SharedRedactionModule } from '../shared/redaction';
+import { LocationsModule } from '../locations/locations.module';
 import { MembershipRepository } from './membership.repository';
-import { MembershipIndexerService } from './membership-indexer.service';
+import { MEMBERS_REINDEX_JOB, MembershipIndexerService } from './membership-indexer.service';
 import { MembershipIndexerController } from './membership-indexer.controller';
+import { MEMBERS_RECONCILE_JOB, MembershipReconcileService } from './membership-reconcile.service';
 import { MembershipSearchService } from './membership-search.service';
 import { MembershipSearchController } from './membership-search.controller';
+import { MembershipController } from './membership.controller';
+import { NameSynonymsService } from './name-synonyms.service';
+import { NameSynonymsController } from './name-synonyms.controller';
 
 @Module({
-    imports: [SharedOpenSearchModule, SharedRedactionModule],
-    controllers: [MembershipIndexerController, MembershipSearchController],
+    imports: [
+        SharedOpenSearchModule,
+        SharedRedactionModule,
+        SharedJobsModule,
+        SharedQuarantineModule,
+        SharedRateLimitModule,
+        LocationsModule,
+    ],
+    // MembershipController's `members/:id` must register after `members/search`
+    controllers: [
+        MembershipIndexerController,
+        MembershipSearchController,
+        MembershipController,
+        NameSynonymsController,
+    ],
     providers: [
         MembershipRepository,
         MembershipIndexerService,
+        MembershipReconcileService,
         MembershipSearchService,
+        NameSynonymsService,
     ],
     exports: [MembershipRepository, MembershipSearchService],
 })
-export class MembershipModule { }
+export class MembershipModule implements OnModuleInit {
+    constructor(
+        private jobsService: JobsService,
+        private quarantineService: QuarantineService,
+        private indexerService: MembershipIndexerService,
+        private reconcileService: MembershipReconcileService,
+    ) { }
+
+    onModuleInit(): void {
+        this.jobsService.register(MEMBERS_REINDEX_JOB, this.indexerService);
+        this.jobsService.register(MEMBERS_RECONCILE_JOB, this.reconcileService);
+        this.quarantineService.registerReplayer('members', this.indexerService);
+    }
+}
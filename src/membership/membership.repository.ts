@@ -15,7 +15,7 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DescribeTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, ScanCommand, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { Member, ScanPage } from './interfaces';
 
@@ -32,6 +32,7 @@ export { Member, ScanPage } from './interfaces';
 @Injectable()
 export class MembershipRepository {
     private readonly logger = new Logger(MembershipRepository.name);
+    private readonly client: DynamoDBClient;
     private readonly docClient: DynamoDBDocumentClient;
 
     /** DynamoDB table name */
@@ -51,13 +52,13 @@ export class MembershipRepository {
         const endpoint = this.configService.get<string>('DYNAMODB_ENDPOINT');
         const region = this.configService.get<string>('AWS_REGION') || 'us-east-1';
 
-        const client = new DynamoDBClient({
+        this.client = new DynamoDBClient({
             region,
             maxAttempts: 3, // Retry with exponential backoff on transient failures
             ...(endpoint && { endpoint }),
         });
 
-        this.docClient = DynamoDBDocumentClient.from(client);
+        this.docClient = DynamoDBDocumentClient.from(this.client);
     }
 
     /**
@@ -131,6 +132,30 @@ export class MembershipRepository {
         };
     }
 
+    /**
+     * Reads every member_id with a keys-only scan.
+     *
+     * @remarks
+     * Transfers only the key, but still reads the whole table; used once
+     * per full reindex to find index documents whose member was deleted.
+     */
+    async scanIds(): Promise<Set<string>> {
+        const ids = new Set<string>();
+        let lastKey: Record<string, unknown> | undefined;
+
+        do {
+            const result = await this.docClient.send(new ScanCommand({
+                TableName: this.tableName,
+                ProjectionExpression: 'member_id',
+                ...(lastKey && { ExclusiveStartKey: lastKey }),
+            }));
+            (result.Items ?? []).forEach((item) => ids.add(item.member_id as string));
+            lastKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+        } while (lastKey);
+
+        return ids;
+    }
+
     /**
      * Saves a member record (insert or update).
      *
@@ -172,4 +197,16 @@ export class MembershipRepository {
 
         return total;
     }
+
+    /**
+     * Returns DynamoDB's approximate item count for the table.
+     *
+     * @remarks
+     * Free to call but refreshed only about every six hours; use it for
+     * progress estimates, and count() when the exact number matters.
+     */
+    async estimateCount(): Promise<number | undefined> {
+        const result = await this.client.send(new DescribeTableCommand({ TableName: this.tableName }));
+        return result.Table?.ItemCount;
+    }
 }
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Name Synonyms Controller
+ *
+ * Admin API for the nickname dictionary used by name-matching search.
+ *
+ * @remarks
+ * Endpoints:
+ * - GET /admin/members/synonyms - Current dictionary
+ * - PUT /admin/members/synonyms - Replace the dictionary
+ *
+ * All endpoints require 'admin' role for access; replacing the dictionary,
+ * which every tenant's searches use, is limited to internal admins.
+ */
+
+import { Body, Controller, Get, Put, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { InternalOnlyGuard, RolesGuard, Roles } from '../shared/auth';
+import { NameSynonymsService } from './name-synonyms.service';
+import { NameSynonymsDto } from './dto';
+
+/* -------------------------------------------------------------------------- */
+/*                              Controller Implementation                      */
+/* -------------------------------------------------------------------------- */
+
+@ApiTags('members')
+@Controller('admin/members/synonyms')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@ApiBearerAuth()
+export class NameSynonymsController {
+    constructor(private nameSynonymsService: NameSynonymsService) { }
+
+    /**
+     * Returns the nickname dictionary.
+     */
+    @Get()
+    @Roles('admin')
+    @ApiOperation({ summary: 'Get nickname dictionary' })
+    async get(): Promise<NameSynonymsDto> {
+        return { groups: await this.nameSynonymsService.getGroups() };
+    }
+
+    /**
+     * Replaces the nickname dictionary.
+     *
+     * @remarks
+     * Takes effect immediately on this instance and within a minute on others.
+     * No reindex is needed: nicknames are expanded at query time.
+     *
+     * @example
+     * ```bash
+     * curl -X PUT "http://localhost:3000/admin/members/synonyms" \
+     *   -H "Authorization: Bearer <admin-token>" -H "Content-Type: application/json" \
+     *   -d '{"groups": [["robert", "bob", "rob"]]}'
+     * ```
+     */
+    @Put()
+    @Roles('admin')
+    @UseGuards(InternalOnlyGuard)
+    @ApiOperation({ summary: 'Replace nickname dictionary' })
+    @ApiBody({ type: NameSynonymsDto })
+    async replace(@Body() body: NameSynonymsDto): Promise<NameSynonymsDto> {
+        return { groups: await this.nameSynonymsService.replaceGroups(body?.groups) };
+    }
+}
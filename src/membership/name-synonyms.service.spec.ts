@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Name Synonyms Service Tests
+ */
+
+import { NameSynonymsService } from './name-synonyms.service';
+
+describe('NameSynonymsService', () => {
+    let service: NameSynonymsService;
+    let mockClient: any;
+
+    beforeEach(() => {
+        mockClient = {
+            get: jest.fn().mockRejectedValue({ statusCode: 404 }),
+            index: jest.fn().mockResolvedValue({ body: {} }),
+        };
+        service = new NameSynonymsService({ getClient: () => mockClient } as any);
+    });
+
+    describe('expand', () => {
+        it('should expand nicknames from the default dictionary', async () => {
+            const variants = await service.expand('Bob Smith');
+
+            expect(variants).toEqual(expect.arrayContaining(['robert', 'bobby', 'rob']));
+            expect(variants).not.toContain('bob');
+            expect(variants).not.toContain('smith');
+        });
+
+        it('should use the stored dictionary when present', async () => {
+            mockClient.get.mockResolvedValueOnce({ body: { _source: { groups: [['peggy', 'margaret']] } } });
+
+            expect(await service.expand('peggy')).toEqual(['margaret']);
+        });
+
+        it('should cache the dictionary between calls', async () => {
+            await service.expand('bob');
+            await service.expand('bill');
+
+            expect(mockClient.get).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('replaceGroups', () => {
+        it('should normalize, store and immediately use the new dictionary', async () => {
+            const stored = await service.replaceGroups([['Theodore', 'Ted', 'ted']]);
+
+            expect(stored).toEqual([['theodore', 'ted']]);
+            expect(mockClient.index).toHaveBeenCalledWith(expect.objectContaining({
+                index: 'member_name_synonyms',
+                body: expect.objectContaining({ groups: [['theodore', 'ted']] }),
+            }));
+            expect(await service.expand('ted')).toEqual(['theodore']);
+        });
+
+        it('should reject groups with fewer than two names', async () => {
+            await expect(service.replaceGroups([['solo']])).rejects.toThrow('at least two names');
+            expect(mockClient.index).not.toHaveBeenCalled();
+        });
+
+        it('should reject a body that is not a list of groups', async () => {
+            await expect(service.replaceGroups('robert=bob')).rejects.toThrow();
+        });
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Name Synonym Service
+ *
+ * Manages the nickname dictionary used by name-matching mode in member search
+ * (e.g. "Bob" ↔ "Robert"). Each group lists names that refer to the same person.
+ *
+ * @remarks
+ * The dictionary is stored as a single document in its own OpenSearch index,
+ * so every API instance shares it and updates apply without a reindex.
+ * Expansion happens at query time; member documents are never rewritten.
+ * Instances cache the dictionary briefly; other instances pick up an
+ * update within CACHE_TTL_MS.
+ */
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { z } from 'zod';
+import { OpenSearchProvider } from '../shared/opensearch';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Dictionary used until an admin stores one.
+ */
+export const DEFAULT_NAME_SYNONYMS: string[][] = [
+    ['robert', 'bob', 'bobby', 'rob', 'robbie'],
+    ['william', 'bill', 'billy', 'will', 'liam'],
+    ['elizabeth', 'liz', 'beth', 'betty', 'eliza'],
+    ['jonathan', 'jon', 'john', 'johnny'],
+    ['michael', 'mike', 'mikey'],
+    ['katherine', 'catherine', 'kate', 'katie', 'cathy'],
+    ['margaret', 'maggie', 'peggy', 'meg'],
+    ['richard', 'rick', 'dick', 'rich'],
+    ['james', 'jim', 'jimmy', 'jamie'],
+    ['alexander', 'alex', 'sandy'],
+];
+
+/**
+ * Validation schema for a stored dictionary.
+ */
+const NameSynonymsSchema = z.array(
+    z.array(z.string().trim().min(1).max(50)).min(2, 'each group needs at least two names'),
+).max(1000);
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class NameSynonymsService {
+    private readonly logger = new Logger(NameSynonymsService.name);
+
+    /** Index holding the dictionary document */
+    private readonly INDEX_NAME = 'member_name_synonyms';
+
+    /** Document ID of the dictionary */
+    private readonly DOC_ID = 'nicknames';
+
+    /** How long an instance trusts its cached dictionary */
+    private readonly CACHE_TTL_MS = 60_000;
+
+    private cache: { groups: string[][]; expiresAt: number } | null = null;
+
+    constructor(private opensearchProvider: OpenSearchProvider) { }
+
+    /**
+     * Returns the current dictionary, falling back to the defaults.
+     */
+    async getGroups(): Promise<string[][]> {
+        if (this.cache && Date.now() < this.cache.expiresAt) {
+            return this.cache.groups;
+        }
+
+        let groups = DEFAULT_NAME_SYNONYMS;
+        try {
+            const response = await this.opensearchProvider.getClient().get({
+                index: this.INDEX_NAME,
+                id: this.DOC_ID,
+            });
+            groups = (response.body._source as { groups: string[][] }).groups;
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode !== 404) {
+                this.logger.warn({ msg: 'Failed to load name synonyms, using defaults', error });
+            }
+        }
+
+        this.cache = { groups, expiresAt: Date.now() + this.CACHE_TTL_MS };
+        return groups;
+    }
+
+    /**
+     * Replaces the dictionary.
+     *
+     * @param groups - Groups of equivalent names
+     * @returns The normalized dictionary as stored
+     * @throws BadRequestException if the dictionary is malformed
+     */
+    async replaceGroups(groups: unknown): Promise<string[][]> {
+        const result = NameSynonymsSchema.safeParse(groups);
+        if (!result.success) {
+            throw new BadRequestException(
+                result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+            );
+        }
+
+        const normalized = result.data.map((group) => [...new Set(group.map((n) => n.toLowerCase()))]);
+
+        await this.opensearchProvider.getClient().index({
+            index: this.INDEX_NAME,
+            id: this.DOC_ID,
+            body: { groups: normalized, updated_at: new Date().toISOString() },
+            refresh: true,
+        });
+
+        this.cache = { groups: normalized, expiresAt: Date.now() + this.CACHE_TTL_MS };
+        this.logger.log({ msg: 'Name synonyms updated', groupCount: normalized.length });
+
+        return normalized;
+    }
+
+    /**
+     * Returns nickname variants for the words in a name query.
+     *
+     * @param query - Name as typed, e.g. "Bob Smith"
+     * @returns Variants not already in the query (e.g. robert, bobby, rob, robbie)
+     */
+    async expand(query: string): Promise<string[]> {
+        const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+        const groups = await this.getGroups();
+        const variants = new Set<string>();
+
+        for (const token of tokens) {
+            for (const group of groups) {
+                if (group.includes(token)) {
+                    group.forEach((name) => variants.add(name));
+                }
+            }
+        }
+
+        tokens.forEach((token) => variants.delete(token));
+        return [...variants];
+    }
+}
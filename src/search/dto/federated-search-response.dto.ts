@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Federated Search Response DTO
+ *
+ * Response envelope for cross-vertical search.
+ */
+
+/**
+ * Hit with its score normalized within its vertical.
+ */
+export class FederatedHitDto {
+    /** Vertical the hit came from, e.g. `members` */
+    vertical: string;
+
+    /** Document ID within the vertical */
+    id: string;
+
+    /** Score scaled to [0, 1] by the vertical's top score */
+    score: number;
+
+    /** Role-filtered document, typed by the vertical */
+    document: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one vertical.
+ *
+ * @remarks
+ * A failed vertical reports `status: 'error'` with no hits; the other
+ * verticals' results are still returned.
+ */
+export class VerticalResultDto {
+    status: 'ok' | 'error';
+
+    /** Total matches in the vertical (0 on error) */
+    total: number;
+
+    hits: FederatedHitDto[];
+
+    /** Failure reason, present only on error */
+    error?: string;
+}
+
+/**
+ * Federated search response grouped by vertical.
+ */
+export class FederatedSearchResponseDto {
+    /** Query as received */
+    q: string;
+
+    /** Results keyed by vertical name */
+    verticals: Record<string, VerticalResultDto>;
+}
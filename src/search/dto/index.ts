@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Federated Search DTOs Barrel Export
+ */
+
+export * from './federated-search-response.dto';
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Federated Search Controller
+ *
+ * HTTP endpoint that searches every vertical at once.
+ */
+
+import { BadRequestException, Controller, Get, Query, Request, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedUser } from '../shared/auth';
+import { FederatedSearchService } from './federated-search.service';
+import { FederatedSearchResponseDto } from './dto';
+
+@ApiTags('search')
+@Controller('search')
+export class FederatedSearchController {
+    constructor(private federatedSearchService: FederatedSearchService) { }
+
+    /**
+     * Searches all registered verticals and groups results by vertical.
+     */
+    @Get()
+    @UseGuards(AuthGuard('jwt'))
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Federated search',
+        description: 'Search members and locations in one call. Scores are normalized per vertical; a failing vertical is reported without failing the request.',
+    })
+    @ApiQuery({ name: 'q', required: true, example: 'downtown', description: 'Free-text query' })
+    @ApiQuery({ name: 'verticals', required: false, example: 'members,locations', description: 'Comma-separated verticals (default: all)' })
+    @ApiQuery({ name: 'limit', required: false, example: '5', description: 'Hits per vertical (default: 5, max: 20)' })
+    async search(
+        @Query('q') q?: string,
+        @Query('verticals') verticals?: string,
+        @Query('limit') limit?: string,
+        @Request() req?: { user: AuthenticatedUser },
+    ): Promise<FederatedSearchResponseDto> {
+        if (!q || !q.trim()) {
+            throw new BadRequestException('Query parameter "q" is required');
+        }
+
+        return this.federatedSearchService.search(q.trim(), req!.user, {
+            limit: limit ? parseInt(limit, 10) : undefined,
+            verticals: verticals?.split(',').map((v) => v.trim()).filter(Boolean),
+        });
+    }
+}
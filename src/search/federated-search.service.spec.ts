@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Federated Search Service Tests
+ */
+
+import { FederatedSearchService } from './federated-search.service';
+import { SearchVertical } from '../shared/federation';
+
+describe('FederatedSearchService', () => {
+    const user = {
+        userId: 'user1',
+        roles: ['auditor'],
+        tenantId: 'rcm-internal',
+        tenantType: 'internal' as const,
+    };
+
+    const vertical = (verticalName: string, impl: SearchVertical['federatedSearch']): SearchVertical => ({
+        verticalName,
+        federatedSearch: jest.fn(impl),
+    });
+
+    let members: SearchVertical;
+    let locations: SearchVertical;
+    let service: FederatedSearchService;
+
+    beforeEach(() => {
+        members = vertical('members', async () => ({
+            total: 2,
+            hits: [
+                { id: 'mem-001', score: 8, document: { member_id: 'mem-001' } },
+                { id: 'mem-002', score: 2, document: { member_id: 'mem-002' } },
+            ],
+        }));
+        locations = vertical('locations', async () => ({
+            total: 1,
+            hits: [{ id: 'GYM_101', score: 0.4, document: { location_id: 'GYM_101' } }],
+        }));
+        service = new FederatedSearchService([members, locations]);
+    });
+
+    it('should query every vertical with the same user', async () => {
+        await service.search('downtown', user);
+
+        expect(members.federatedSearch).toHaveBeenCalledWith('downtown', user, 5);
+        expect(locations.federatedSearch).toHaveBeenCalledWith('downtown', user, 5);
+    });
+
+    it('should normalize scores within each vertical', async () => {
+        const response = await service.search('downtown', user);
+
+        expect(response.verticals.members.hits.map((h) => h.score)).toEqual([1, 0.25]);
+        expect(response.verticals.locations.hits[0]).toEqual({
+            vertical: 'locations',
+            id: 'GYM_101',
+            score: 1,
+            document: { location_id: 'GYM_101' },
+        });
+    });
+
+    it('should report a failing vertical without failing the request', async () => {
+        (locations.federatedSearch as jest.Mock).mockRejectedValueOnce(new Error('index_not_found_exception'));
+
+        const response = await service.search('downtown', user);
+
+        expect(response.verticals.members.status).toBe('ok');
+        expect(response.verticals.locations).toEqual({
+            status: 'error',
+            total: 0,
+            hits: [],
+            error: 'locations search unavailable',
+        });
+    });
+
+    it('should restrict to the requested verticals', async () => {
+        const response = await service.search('downtown', user, { verticals: ['locations'] });
+
+        expect(Object.keys(response.verticals)).toEqual(['locations']);
+        expect(members.federatedSearch).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown verticals', async () => {
+        await expect(service.search('x', user, { verticals: ['orders'] })).rejects.toThrow('Unknown vertical(s): orders');
+    });
+
+    it('should cap the per-vertical limit', async () => {
+        await service.search('downtown', user, { limit: 500 });
+        expect(members.federatedSearch).toHaveBeenCalledWith('downtown', user, 20);
+    });
+});
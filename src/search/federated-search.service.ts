@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Federated Search Service
+ *
+ * Fans a free-text query out to every registered search vertical in parallel
+ * and groups the results by vertical.
+ *
+ * @remarks
+ * - Each vertical applies its own RBAC projection and tenant filter
+ * - Raw OpenSearch scores are not comparable across indices, so each
+ *   vertical's scores are divided by its top score, giving [0, 1]
+ * - A failing vertical is reported as `status: 'error'`; it never fails
+ *   the whole request
+ */
+
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { AuthenticatedUser } from '../shared/auth';
+import { SEARCH_VERTICALS, SearchVertical, VerticalSearchResult } from '../shared/federation';
+import { FederatedSearchResponseDto, VerticalResultDto } from './dto';
+
+const verticalCounter = new Counter({
+    name: 'federated_search_vertical_total',
+    help: 'Federated search calls per vertical',
+    labelNames: ['vertical', 'status'],
+});
+
+/** Hits per vertical when the caller does not provide a limit */
+export const DEFAULT_FEDERATED_LIMIT = 5;
+
+/** Upper bound on hits per vertical */
+export const MAX_FEDERATED_LIMIT = 20;
+
+@Injectable()
+export class FederatedSearchService {
+    private readonly logger = new Logger(FederatedSearchService.name);
+
+    constructor(@Inject(SEARCH_VERTICALS) private verticals: SearchVertical[]) { }
+
+    /**
+     * Names of the registered verticals.
+     */
+    getVerticalNames(): string[] {
+        return this.verticals.map((v) => v.verticalName);
+    }
+
+    /**
+     * Searches the selected verticals in parallel.
+     *
+     * @param q - Free-text query
+     * @param user - Authenticated user, passed to every vertical
+     * @param options.limit - Hits per vertical (default 5, capped at 20)
+     * @param options.verticals - Restrict to these verticals (default: all)
+     * @throws BadRequestException for an unknown vertical name
+     */
+    async search(
+        q: string,
+        user: AuthenticatedUser,
+        options: { limit?: number; verticals?: string[] } = {},
+    ): Promise<FederatedSearchResponseDto> {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_FEDERATED_LIMIT, 1), MAX_FEDERATED_LIMIT);
+        const selected = this.selectVerticals(options.verticals);
+
+        const outcomes = await Promise.allSettled(
+            selected.map((vertical) => vertical.federatedSearch(q, user, limit)),
+        );
+
+        const verticals: Record<string, VerticalResultDto> = {};
+        outcomes.forEach((outcome, i) => {
+            const name = selected[i].verticalName;
+
+            if (outcome.status === 'fulfilled') {
+                verticalCounter.inc({ vertical: name, status: 'success' });
+                verticals[name] = this.normalize(name, outcome.value);
+                return;
+            }
+
+            verticalCounter.inc({ vertical: name, status: 'error' });
+            this.logger.warn({ msg: 'Federated vertical failed', vertical: name, error: outcome.reason });
+            verticals[name] = {
+                status: 'error',
+                total: 0,
+                hits: [],
+                error: `${name} search unavailable`,
+            };
+        });
+
+        return { q, verticals };
+    }
+
+    /**
+     * Resolves requested vertical names against the registry.
+     */
+    private selectVerticals(names?: string[]): SearchVertical[] {
+        if (!names || names.length === 0) return this.verticals;
+
+        const unknown = names.filter((n) => !this.getVerticalNames().includes(n));
+        if (unknown.length > 0) {
+            throw new BadRequestException(
+                `Unknown vertical(s): ${unknown.join(', ')}. Available: ${this.getVerticalNames().join(', ')}`,
+            );
+        }
+
+        return this.verticals.filter((v) => names.includes(v.verticalName));
+    }
+
+    /**
+     * Scales a vertical's scores to [0, 1] by its top score.
+     */
+    private normalize(vertical: string, result: VerticalSearchResult): VerticalResultDto {
+        const maxScore = Math.max(0, ...result.hits.map((h) => h.score));
+
+        return {
+            status: 'ok',
+            total: result.total,
+            hits: result.hits.map((hit) => ({
+                vertical,
+                id: hit.id,
+                score: maxScore > 0 ? Math.round((hit.score / maxScore) * 1000) / 1000 : 0,
+                document: hit.document,
+            })),
+        };
+    }
+}
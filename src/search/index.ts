@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Federated Search Barrel Export
+ */
+
+export * from './search.module';
+export * from './federated-search.service';
+export * from './dto';
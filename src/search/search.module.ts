@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Federated Search Module
+ *
+ * Cross-vertical search over every registered vertical.
+ *
+ * @remarks
+ * To add a vertical: implement SearchVertical on its search service,
+ * import its module here, and add the service to the SEARCH_VERTICALS factory.
+ */
+
+import { Module } from '@nestjs/common';
+import { MembershipModule, MembershipSearchService } from '../membership';
+import { LocationsModule, LocationsSearchService } from '../locations';
+import { SEARCH_VERTICALS, SearchVertical } from '../shared/federation';
+import { FederatedSearchService } from './federated-search.service';
+import { FederatedSearchController } from './federated-search.controller';
+
+@Module({
+    imports: [MembershipModule, LocationsModule],
+    controllers: [FederatedSearchController],
+    providers: [
+        {
+            provide: SEARCH_VERTICALS,
+            useFactory: (
+                members: MembershipSearchService,
+                locations: LocationsSearchService,
+            ): SearchVertical[] => [members, locations],
+            inject: [MembershipSearchService, LocationsSearchService],
+        },
+        FederatedSearchService,
+    ],
+    exports: [FederatedSearchService],
+})
+export class SearchModule { }
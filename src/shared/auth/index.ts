@@ -5,5 +5,6 @@
 export * from './auth.module';
 export * from './jwt.strategy';
 export * from './roles.guard';
+export * from './internal-only.guard';
 export * from './dto';
 export * from './interfaces';
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview InternalOnlyGuard Unit Tests
+ */
+
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { InternalOnlyGuard } from './internal-only.guard';
+import { AuthenticatedUser } from './jwt.strategy';
+
+describe('InternalOnlyGuard', () => {
+    const guard = new InternalOnlyGuard();
+
+    const createMockContext = (user: AuthenticatedUser | null): ExecutionContext => ({
+        switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    } as unknown as ExecutionContext);
+
+    const admin = (tenantType: AuthenticatedUser['tenantType']): AuthenticatedUser => ({
+        userId: 'u1',
+        roles: ['admin'],
+        tenantId: tenantType === 'internal' ? 'rcm-internal' : 'partner-a',
+        tenantType,
+    });
+
+    it('should allow internal users', () => {
+        expect(guard.canActivate(createMockContext(admin('internal')))).toBe(true);
+    });
+
+    it('should reject external admins', () => {
+        expect(() => guard.canActivate(createMockContext(admin('external')))).toThrow(ForbiddenException);
+    });
+
+    it('should deny unauthenticated requests', () => {
+        expect(guard.canActivate(createMockContext(null))).toBe(false);
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Internal-Only Guard
+ *
+ * NestJS guard that restricts an endpoint to users of internal tenants.
+ *
+ * @remarks
+ * External tenant tokens can carry the 'admin' role too, so endpoints that
+ * act on data shared across tenants (indexes, jobs, quarantine, the nickname
+ * dictionary) combine @Roles('admin') with this guard. Apply it after
+ * AuthGuard('jwt') so the user is set.
+ *
+ * @example
+ * ```typescript
+ * @Roles('admin')
+ * @UseGuards(AuthGuard('jwt'), RolesGuard, InternalOnlyGuard)
+ * async rebuildIndex() { ... }
+ * ```
+ */
+
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { AuthenticatedUser } from './jwt.strategy';
+
+@Injectable()
+export class InternalOnlyGuard implements CanActivate {
+    /**
+     * @throws ForbiddenException for external tenant users
+     */
+    canActivate(context: ExecutionContext): boolean {
+        const user: AuthenticatedUser | undefined = context.switchToHttp().getRequest().user;
+
+        // No authenticated user = deny
+        if (!user) {
+            return false;
+        }
+
+        if (user.tenantType === 'external') {
+            throw new ForbiddenException('Only internal users can access this endpoint');
+        }
+        return true;
+    }
+}
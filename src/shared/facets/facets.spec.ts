@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Search Facet Utility Tests
+ */
+
+import { parseFacets, buildTermsAggregations, readFacets } from './facets';
+
+describe('Search Facet Utilities', () => {
+    const allowed = ['tags', 'tenant_id'];
+
+    describe('parseFacets', () => {
+        it('should return empty list for blank input', () => {
+            expect(parseFacets(undefined, allowed)).toEqual([]);
+            expect(parseFacets('', allowed)).toEqual([]);
+        });
+
+        it('should split, trim and de-duplicate fields', () => {
+            expect(parseFacets(' tags, tenant_id,tags ', allowed)).toEqual(['tags', 'tenant_id']);
+        });
+
+        it('should reject fields outside the allowlist', () => {
+            expect(() => parseFacets('tags,status_notes', allowed)).toThrow('Unsupported facet(s): status_notes');
+        });
+    });
+
+    describe('buildTermsAggregations', () => {
+        it('should build one terms aggregation per field', () => {
+            expect(buildTermsAggregations(['tags'], 5)).toEqual({
+                tags: { terms: { field: 'tags', size: 5 } },
+            });
+        });
+    });
+
+    describe('readFacets', () => {
+        it('should map buckets to value/count pairs', () => {
+            const facets = readFacets(
+                { tags: { buckets: [{ key: 'at-risk', doc_count: 3 }, { key: 'active', doc_count: 1 }] } },
+                ['tags', 'tenant_id'],
+            );
+
+            expect(facets).toEqual({
+                tags: [
+                    { value: 'at-risk', count: 3 },
+                    { value: 'active', count: 1 },
+                ],
+                tenant_id: [],
+            });
+        });
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Search Facet Utilities
+ *
+ * Builds and reads OpenSearch terms aggregations returned next to search hits.
+ * Shared by every vertical so facet requests and responses look the same.
+ *
+ * @remarks
+ * Aggregations run against the same query as the hits, so they inherit the
+ * caller's tenant isolation filter. Never build facet aggregations against
+ * a different query than the one used for results.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Single facet value with its document count.
+ */
+export interface FacetBucket {
+    value: string;
+    count: number;
+}
+
+/**
+ * Facet buckets keyed by field name.
+ */
+export type FacetResults = Record<string, FacetBucket[]>;
+
+/** Maximum buckets returned per facet */
+export const DEFAULT_FACET_SIZE = 20;
+
+/* -------------------------------------------------------------------------- */
+/*                              Facet Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parses a comma-separated facet list and checks it against an allowlist.
+ *
+ * @param raw - Query string value, e.g. `tags,tenant_id`
+ * @param allowed - Fields the vertical permits faceting on
+ * @returns De-duplicated field list, empty if raw is blank
+ * @throws BadRequestException for any field outside the allowlist
+ */
+export function parseFacets(raw: string | undefined, allowed: readonly string[]): string[] {
+    if (!raw) return [];
+
+    const fields = [...new Set(raw.split(',').map((f) => f.trim()).filter(Boolean))];
+    const unknown = fields.filter((f) => !allowed.includes(f));
+
+    if (unknown.length > 0) {
+        throw new BadRequestException(
+            `Unsupported facet(s): ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`,
+        );
+    }
+
+    return fields;
+}
+
+/**
+ * Builds one terms aggregation per field, named after the field.
+ */
+export function buildTermsAggregations(
+    fields: string[],
+    size = DEFAULT_FACET_SIZE,
+): Record<string, unknown> {
+    return Object.fromEntries(
+        fields.map((field) => [field, { terms: { field, size } }]),
+    );
+}
+
+/**
+ * Converts raw aggregation buckets into FacetResults.
+ */
+export function readFacets(
+    aggregations: Record<string, { buckets?: Array<{ key: unknown; doc_count: number }> }> | undefined,
+    fields: string[],
+): FacetResults {
+    const facets: FacetResults = {};
+
+    for (const field of fields) {
+        const buckets = aggregations?.[field]?.buckets ?? [];
+        facets[field] = buckets.map((b) => ({ value: String(b.key), count: b.doc_count }));
+    }
+
+    return facets;
+}
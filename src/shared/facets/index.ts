@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Shared Facets Barrel Export
+ */
+
+export * from './facets';
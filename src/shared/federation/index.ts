@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Shared Federation Barrel Export
+ */
+
+export * from './search-vertical.interface';
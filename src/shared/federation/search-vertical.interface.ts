@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Search Vertical Interface
+ *
+ * Contract a vertical implements to take part in federated search.
+ * Allows adding verticals without changing the federated search service.
+ */
+
+import { AuthenticatedUser } from '../auth';
+
+/**
+ * Single scored hit from a vertical.
+ *
+ * @typeParam T - Vertical's document type
+ */
+export interface VerticalHit<T = Record<string, unknown>> {
+    /** Document ID within the vertical */
+    id: string;
+
+    /** Raw OpenSearch relevance score */
+    score: number;
+
+    /** Role-filtered document */
+    document: T;
+}
+
+/**
+ * Scored page of hits from a vertical.
+ */
+export interface VerticalSearchResult<T = Record<string, unknown>> {
+    total: number;
+    hits: VerticalHit<T>[];
+}
+
+/**
+ * Search vertical that can be queried by federated search.
+ */
+export interface SearchVertical {
+    /** Vertical name used as the result group key, e.g. `members` */
+    readonly verticalName: string;
+
+    /**
+     * Runs a free-text relevance search for federation.
+     *
+     * @param q - Free-text query
+     * @param user - Authenticated user; the vertical applies its own RBAC and tenant rules
+     * @param limit - Maximum hits to return
+     */
+    federatedSearch(q: string, user: AuthenticatedUser, limit: number): Promise<VerticalSearchResult>;
+}
+
+/**
+ * Token to inject the registered search verticals.
+ */
+export const SEARCH_VERTICALS = 'SEARCH_VERTICALS';
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Search Highlight Utility Tests
+ */
+
+import { RedactionService } from '../redaction';
+import { buildHighlight, sanitizeHighlights } from './highlight';
+
+describe('Search Highlight Utilities', () => {
+    const redactionService = new RedactionService();
+
+    describe('buildHighlight', () => {
+        it('should request each field with mark tags', () => {
+            const highlight = buildHighlight(['fname', 'status_notes']);
+
+            expect(highlight.pre_tags).toEqual(['<mark>']);
+            expect(highlight.post_tags).toEqual(['</mark>']);
+            expect(Object.keys(highlight.fields as object)).toEqual(['fname', 'status_notes']);
+        });
+    });
+
+    describe('sanitizeHighlights', () => {
+        it('should return undefined when there are no highlights', () => {
+            expect(sanitizeHighlights(undefined, ['fname'], redactionService)).toBeUndefined();
+        });
+
+        it('should keep clean fragments with their markers', () => {
+            const result = sanitizeHighlights(
+                { status_notes: ['Multiple rule <mark>violations</mark> noted.'] },
+                ['status_notes'],
+                redactionService,
+            );
+
+            expect(result).toEqual({ status_notes: ['Multiple rule <mark>violations</mark> noted.'] });
+        });
+
+        it('should drop fields the caller may not see', () => {
+            const result = sanitizeHighlights(
+                { fname: ['<mark>John</mark>'], status_notes: ['<mark>violation</mark>'] },
+                ['fname'],
+                redactionService,
+            );
+
+            expect(result).toEqual({ fname: ['<mark>John</mark>'] });
+        });
+
+        it('should redact PII split by highlight markers', () => {
+            const result = sanitizeHighlights(
+                { status_notes: ['Call 555-<mark>123</mark>-4567 today'] },
+                ['status_notes'],
+                redactionService,
+            );
+
+            expect(result).toEqual({ status_notes: ['Call [PHONE-REDACTED] today'] });
+        });
+    });
+});
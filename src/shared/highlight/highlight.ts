@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Search Highlight Utilities
+ *
+ * Builds OpenSearch highlight requests and sanitizes the returned fragments.
+ * Shared by every vertical so highlighted snippets look and behave the same.
+ *
+ * @remarks
+ * Fragments come from indexed text, which is already redacted for PII, but
+ * every fragment is re-checked with RedactionService before it is returned.
+ * Highlight markers can split a pattern (e.g. `555-<mark>123</mark>-4567`),
+ * so the check runs on the fragment with markers removed. A fragment that
+ * still contains PII is returned redacted and without markers.
+ *
+ * Callers must only request highlights on fields the user may already read.
+ */
+
+import { RedactionService } from '../redaction';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Highlighted fragments keyed by field name.
+ */
+export type HighlightFragments = Record<string, string[]>;
+
+/** Marker placed before a matched term */
+export const HIGHLIGHT_PRE_TAG = '<mark>';
+
+/** Marker placed after a matched term */
+export const HIGHLIGHT_POST_TAG = '</mark>';
+
+/** Maximum characters per fragment */
+const FRAGMENT_SIZE = 120;
+
+/** Maximum fragments per field */
+const MAX_FRAGMENTS = 3;
+
+/* -------------------------------------------------------------------------- */
+/*                              Highlight Helpers                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Builds the `highlight` section of a search body for the given fields.
+ */
+export function buildHighlight(fields: string[]): Record<string, unknown> {
+    return {
+        pre_tags: [HIGHLIGHT_PRE_TAG],
+        post_tags: [HIGHLIGHT_POST_TAG],
+        fields: Object.fromEntries(
+            fields.map((field) => [field, { fragment_size: FRAGMENT_SIZE, number_of_fragments: MAX_FRAGMENTS }]),
+        ),
+    };
+}
+
+/**
+ * Re-checks a single fragment for PII.
+ */
+function sanitizeFragment(fragment: string, redactionService: RedactionService): string {
+    const plain = fragment.split(HIGHLIGHT_PRE_TAG).join('').split(HIGHLIGHT_POST_TAG).join('');
+    const redacted = redactionService.redact(plain);
+
+    return redacted === plain ? fragment : redacted;
+}
+
+/**
+ * Sanitizes raw hit highlights, keeping only allowed fields.
+ *
+ * @param raw - `hit.highlight` from OpenSearch
+ * @param allowedFields - Fields the caller may see; anything else is dropped
+ * @param redactionService - Used to re-check every fragment
+ * @returns Sanitized fragments, or undefined when nothing was highlighted
+ */
+export function sanitizeHighlights(
+    raw: Record<string, string[]> | undefined,
+    allowedFields: string[],
+    redactionService: RedactionService,
+): HighlightFragments | undefined {
+    if (!raw) return undefined;
+
+    const result: HighlightFragments = {};
+    for (const [field, fragments] of Object.entries(raw)) {
+        if (!allowedFields.includes(field)) continue;
+        result[field] = fragments.map((f) => sanitizeFragment(f, redactionService));
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+}
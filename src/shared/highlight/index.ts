@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Shared Highlight Barrel Export
+ */
+
+export * from './highlight';
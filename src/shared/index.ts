@@ -3,6 +3,15 @@
  */
 
 export * from './auth';
+export * from './facets';
+export * from './federation';
+export * from './highlight';
+export * from './jobs';
 export * from './opensearch';
+export * from './pagination';
+export * from './quarantine';
+export * from './rate-limit';
 export * from './redaction';
+export * from './suggest';
+export * from './tenancy';
 export * from './tracing';
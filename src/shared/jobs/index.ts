@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Shared Jobs Barrel Export
+ */
+
+export * from './job.interface';
+export * from './jobs.module';
+export * from './jobs.service';
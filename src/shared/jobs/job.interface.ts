@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Background Job Types
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                              Job Document                                   */
+/* -------------------------------------------------------------------------- */
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Record counts reported by a runner as it goes.
+ */
+export interface JobProgress {
+    /** Source records read so far */
+    processed: number;
+
+    /** Records indexed so far */
+    success: number;
+
+    /** Records that failed so far */
+    failed: number;
+
+    /** Estimated total source records, if known */
+    total?: number;
+}
+
+/**
+ * Persisted job state, as returned by `GET /admin/jobs/:id`.
+ */
+export interface Job {
+    job_id: string;
+
+    /** Runner that executes the job, e.g. `members-reindex` */
+    kind: string;
+
+    status: JobStatus;
+
+    /** Parameters the job was started with */
+    params: Record<string, unknown>;
+
+    progress: JobProgress;
+
+    /**
+     * Runner-defined position to resume from, e.g. the DynamoDB
+     * `lastEvaluatedKey` or a PostgreSQL offset, saved after every page
+     */
+    checkpoint: object;
+
+    /** Runner result once completed */
+    result?: object;
+
+    /** Failure message once failed */
+    error?: string;
+
+    /** Admin who started the job */
+    started_by: string;
+
+    created_at: string;
+
+    /** Last checkpoint, heartbeat or status change */
+    updated_at: string;
+
+    /** Current run; a run replaced by a resume stops at its next checkpoint */
+    run_id: string;
+
+    /** When the current run started, and how far along the job was then */
+    run_started_at: string;
+    run_start_processed: number;
+
+    finished_at?: string;
+
+    /** Estimated milliseconds until the load finishes (running jobs only) */
+    eta_ms?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Runner Contract                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Handed to a runner so it can persist its position.
+ */
+export interface JobContext {
+    /**
+     * Saves progress and the position to resume from.
+     *
+     * @throws JobCancelledError if the job was cancelled meanwhile
+     */
+    checkpoint(progress: JobProgress, checkpoint: object): Promise<void>;
+}
+
+/**
+ * Executes one kind of job.
+ *
+ * @remarks
+ * `run` is called with an empty checkpoint for a new job and with the last
+ * saved one on resume; it should continue from there rather than restart.
+ */
+export interface JobRunner {
+    /** Estimated number of source records, for the ETA */
+    estimateTotal?(job: Job): Promise<number | undefined>;
+
+    run(job: Job, context: JobContext): Promise<object>;
+}
+
+/**
+ * Thrown from {@link JobContext.checkpoint} once a job has been cancelled,
+ * or resumed by another run.
+ */
+export class JobCancelledError extends Error {
+    constructor(readonly jobId: string) {
+        super(`Job ${jobId} was cancelled`);
+        this.name = 'JobCancelledError';
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Jobs Controller
+ *
+ * Admin API for background jobs started by the reindex endpoints.
+ *
+ * @remarks
+ * Endpoints:
+ * - GET /admin/jobs/:id - Status, progress, checkpoint and ETA
+ * - DELETE /admin/jobs/:id - Cancel a running job
+ * - POST /admin/jobs/:id/resume - Resume a failed or cancelled job from its checkpoint
+ *
+ * All endpoints are limited to internal admins: jobs act on indexes shared
+ * by every tenant, and their results list records of every tenant.
+ */
+
+import { Controller, Delete, Get, HttpCode, Param, Post, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { InternalOnlyGuard, RolesGuard, Roles } from '../auth';
+import { Job } from './job.interface';
+import { JobsService } from './jobs.service';
+
+/* -------------------------------------------------------------------------- */
+/*                              Controller Implementation                      */
+/* -------------------------------------------------------------------------- */
+
+@Controller('admin/jobs')
+@UseGuards(AuthGuard('jwt'), RolesGuard, InternalOnlyGuard)
+export class JobsController {
+    constructor(private jobsService: JobsService) { }
+
+    /**
+     * Returns a job's status and progress.
+     *
+     * @throws NotFoundException if the job does not exist
+     */
+    @Get(':id')
+    @Roles('admin')
+    async get(@Param('id') id: string): Promise<Job> {
+        return this.jobsService.get(id);
+    }
+
+    /**
+     * Cancels a running job. The runner stops after its current page;
+     * the job can be resumed later.
+     *
+     * @throws ConflictException (409) if the job is not running
+     */
+    @Delete(':id')
+    @Roles('admin')
+    async cancel(@Param('id') id: string): Promise<Job> {
+        return this.jobsService.cancel(id);
+    }
+
+    /**
+     * Resumes a failed or cancelled job from its last checkpoint.
+     *
+     * @throws ConflictException (409) if the job is completed or still running
+     */
+    @Post(':id/resume')
+    @HttpCode(202)
+    @Roles('admin')
+    async resume(@Param('id') id: string): Promise<Job> {
+        return this.jobsService.resume(id);
+    }
+}
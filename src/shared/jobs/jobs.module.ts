@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Shared Jobs Module
+ *
+ * Background job tracking for long-running admin operations.
+ */
+
+import { Module } from '@nestjs/common';
+import { SharedOpenSearchModule } from '../opensearch';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+
+@Module({
+    imports: [SharedOpenSearchModule],
+    controllers: [JobsController],
+    providers: [JobsService],
+    exports: [JobsService],
+})
+export class SharedJobsModule { }
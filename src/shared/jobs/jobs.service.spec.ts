@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Jobs Service Tests
+ */
+
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { Job, JobCancelledError, JobContext } from './job.interface';
+
+describe('JobsService', () => {
+    let service: JobsService;
+    let client: any;
+    let stored: Map<string, Job>;
+    let seqNos: Map<string, number>;
+
+    /** Lets the background execution run to its next await */
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+        stored = new Map();
+        seqNos = new Map();
+        client = {
+            index: jest.fn(async ({ id, body, if_seq_no }) => {
+                if (if_seq_no !== undefined && if_seq_no !== seqNos.get(id)) throw { statusCode: 409 };
+                stored.set(id, structuredClone(body));
+                seqNos.set(id, (seqNos.get(id) ?? 0) + 1);
+                return { body: {} };
+            }),
+            get: jest.fn(async ({ id }) => {
+                if (!stored.has(id)) throw { statusCode: 404 };
+                return { body: { _source: structuredClone(stored.get(id)), _seq_no: seqNos.get(id), _primary_term: 1 } };
+            }),
+            search: jest.fn().mockResolvedValue({ body: { hits: { hits: [] } } }),
+        };
+        service = new JobsService({
+            getClient: () => client,
+            ensureIndex: jest.fn().mockResolvedValue(undefined),
+        } as any);
+    });
+
+    it('should return a running job immediately and record the result', async () => {
+        let finish!: () => void;
+        const done = new Promise<void>((resolve) => { finish = resolve; });
+        service.register('test', {
+            run: async () => {
+                await done;
+                return { total: 3 };
+            },
+        });
+
+        const job = await service.start('test', { batchSize: 10 }, 'admin-1');
+        expect(job.status).toBe('running');
+
+        finish();
+        await flush();
+
+        const completed = await service.get(job.job_id);
+        expect(completed.status).toBe('completed');
+        expect(completed.result).toEqual({ total: 3 });
+    });
+
+    it('should persist checkpoints and report an ETA from the run rate', async () => {
+        let context!: JobContext;
+        service.register('test', {
+            estimateTotal: async () => 100,
+            run: (_job, ctx) => {
+                context = ctx;
+                return new Promise(() => undefined);
+            },
+        });
+
+        const job = await service.start('test', {}, 'admin-1');
+        await flush();
+        await context.checkpoint({ processed: 25, success: 25, failed: 0 }, { offset: 25 });
+
+        const running = await service.get(job.job_id);
+        expect(running.checkpoint).toEqual({ offset: 25 });
+        expect(running.progress).toEqual({ processed: 25, success: 25, failed: 0, total: 100 });
+        expect(running.eta_ms).toEqual(expect.any(Number));
+    });
+
+    it('should refuse a second job of the same kind while one is running', async () => {
+        service.register('test', { run: () => new Promise(() => undefined) });
+        const job = await service.start('test', {}, 'admin-1');
+        client.search.mockResolvedValueOnce({ body: { hits: { hits: [{ _source: stored.get(job.job_id) }] } } });
+
+        await expect(service.start('test', {}, 'admin-1')).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('should stop a cancelled job at its next checkpoint and resume it from there', async () => {
+        const runs: Job[] = [];
+        let context!: JobContext;
+        service.register('test', {
+            run: (job, ctx) => {
+                runs.push(job);
+                context = ctx;
+                return new Promise(() => undefined);
+            },
+        });
+
+        const job = await service.start('test', {}, 'admin-1');
+        await flush();
+        await context.checkpoint({ processed: 10, success: 10, failed: 0 }, { offset: 10 });
+
+        await service.cancel(job.job_id);
+        await expect(context.checkpoint({ processed: 20, success: 20, failed: 0 }, { offset: 20 }))
+            .rejects.toBeInstanceOf(JobCancelledError);
+        expect((await service.get(job.job_id)).status).toBe('cancelled');
+
+        await service.resume(job.job_id);
+        await flush();
+
+        expect(runs[1].checkpoint).toEqual({ offset: 10 });
+        expect(runs[1].run_start_processed).toBe(10);
+        expect((await service.get(job.job_id)).status).toBe('running');
+    });
+
+    it('should not let a checkpoint overwrite a cancellation made while it was saving', async () => {
+        let context!: JobContext;
+        service.register('test', {
+            run: (_job, ctx) => {
+                context = ctx;
+                return new Promise(() => undefined);
+            },
+        });
+        const job = await service.start('test', {}, 'admin-1');
+        await flush();
+
+        // The cancellation lands between the checkpoint's read and its write
+        const save = client.index.getMockImplementation();
+        client.index.mockImplementationOnce(async (request: any) => {
+            await service.cancel(job.job_id);
+            return save(request);
+        });
+
+        await expect(context.checkpoint({ processed: 10, success: 10, failed: 0 }, { offset: 10 }))
+            .rejects.toBeInstanceOf(JobCancelledError);
+        expect(stored.get(job.job_id)!.status).toBe('cancelled');
+    });
+
+    it('should keep a job that saves no checkpoint from looking abandoned', async () => {
+        jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+        try {
+            service.register('test', { run: () => new Promise(() => undefined) });
+            const job = await service.start('test', {}, 'admin-1');
+            await flush();
+
+            jest.advanceTimersByTime(6 * 60_000);
+            await flush();
+
+            const updatedAt = Date.parse(stored.get(job.job_id)!.updated_at);
+            expect(Date.now() - updatedAt).toBeLessThan(60_000);
+            await expect(service.resume(job.job_id)).rejects.toBeInstanceOf(ConflictException);
+        } finally {
+            service.onModuleDestroy();
+            jest.useRealTimers();
+        }
+    });
+
+    it('should stop a run replaced by resuming it as abandoned', async () => {
+        const contexts: JobContext[] = [];
+        service.register('test', {
+            run: (_job, ctx) => {
+                contexts.push(ctx);
+                return new Promise(() => undefined);
+            },
+        });
+        const job = await service.start('test', {}, 'admin-1');
+        await flush();
+        stored.get(job.job_id)!.updated_at = new Date(Date.now() - 10 * 60_000).toISOString();
+
+        await service.resume(job.job_id);
+        await flush();
+
+        await expect(contexts[0].checkpoint({ processed: 10, success: 10, failed: 0 }, { offset: 10 }))
+            .rejects.toBeInstanceOf(JobCancelledError);
+        await expect(contexts[1].checkpoint({ processed: 5, success: 5, failed: 0 }, { offset: 5 })).resolves.toBeUndefined();
+        expect(stored.get(job.job_id)!.checkpoint).toEqual({ offset: 5 });
+    });
+
+    it('should record failures and allow resuming them', async () => {
+        service.register('test', { run: async () => { throw new Error('scan failed'); } });
+
+        const job = await service.start('test', {}, 'admin-1');
+        await flush();
+
+        const failed = await service.get(job.job_id);
+        expect(failed.status).toBe('failed');
+        expect(failed.error).toBe('scan failed');
+
+        await expect(service.resume(job.job_id)).resolves.toEqual(expect.objectContaining({ status: 'running' }));
+    });
+
+    it('should not resume a completed job', async () => {
+        service.register('test', { run: async () => ({}) });
+        const job = await service.start('test', {}, 'admin-1');
+        await flush();
+
+        await expect(service.resume(job.job_id)).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('should 404 for unknown jobs', async () => {
+        await expect(service.get('nope')).rejects.toBeInstanceOf(NotFoundException);
+    });
+});
@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Background Jobs Service
+ *
+ * Runs long operations (full reindexes) outside the HTTP request and
+ * persists their progress, so callers poll a job instead of holding a
+ * request open for the whole scan.
+ *
+ * @remarks
+ * Jobs are stored in the `admin_jobs` OpenSearch index, so any instance can
+ * report on or cancel a job another instance is running. Runners register
+ * under a kind (e.g. `members-reindex`) and save a checkpoint after every
+ * page; a failed or cancelled job resumes from its last checkpoint.
+ *
+ * Cancellation is cooperative: it marks the job cancelled, and the runner
+ * stops at its next checkpoint. Every write re-reads the job and saves it
+ * with `if_seq_no`/`if_primary_term`, so a checkpoint never overwrites a
+ * cancellation made meanwhile.
+ *
+ * While a job runs, its instance writes a heartbeat every HEARTBEAT_MS, also
+ * during steps that save no checkpoint (e.g. a reindex's pre-swap sweep). A
+ * job whose instance died stays `running`; once its last write is older
+ * than STALE_AFTER_MS it is treated as abandoned: it no longer blocks new
+ * jobs of its kind and can be resumed. A resume starts a new run, and the
+ * old one, if still alive after all, stops at its next checkpoint.
+ */
+
+import { ConflictException, Injectable, Logger, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { OpenSearchProvider } from '../opensearch';
+import { Job, JobCancelledError, JobContext, JobProgress, JobRunner } from './job.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Index Mappings                                 */
+/* -------------------------------------------------------------------------- */
+
+const JOB_INDEX_MAPPINGS = {
+    properties: {
+        job_id: { type: 'keyword' },
+        kind: { type: 'keyword' },
+        status: { type: 'keyword' },
+        created_at: { type: 'date' },
+        updated_at: { type: 'date' },
+        finished_at: { type: 'date' },
+        // Runner-defined shapes (e.g. DynamoDB keys); stored, not searched
+        params: { type: 'object', enabled: false },
+        checkpoint: { type: 'object', enabled: false },
+        result: { type: 'object', enabled: false },
+    },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Interval between heartbeats of a running job */
+const HEARTBEAT_MS = 60_000;
+
+/** Attempts at a write that keeps losing to concurrent writes */
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * `_seq_no`/`_primary_term` a job was read at.
+ */
+interface JobVersion {
+    seqNo: number;
+    primaryTerm: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class JobsService implements OnModuleDestroy {
+    private readonly logger = new Logger(JobsService.name);
+
+    /** OpenSearch index holding job documents */
+    private readonly INDEX_NAME = 'admin_jobs';
+
+    /** A running job without a write (checkpoint or heartbeat) for this long is considered abandoned */
+    private readonly STALE_AFTER_MS = 5 * 60_000;
+
+    private readonly runners = new Map<string, JobRunner>();
+
+    /** Heartbeat timers of the jobs this instance is running */
+    private readonly heartbeats = new Set<NodeJS.Timeout>();
+
+    /** Set once the job index is known to exist */
+    private indexReady = false;
+
+    constructor(private opensearchProvider: OpenSearchProvider) { }
+
+    onModuleDestroy(): void {
+        this.heartbeats.forEach((timer) => clearInterval(timer));
+    }
+
+    /**
+     * Registers the runner for a kind of job.
+     */
+    register(kind: string, runner: JobRunner): void {
+        this.runners.set(kind, runner);
+    }
+
+    /**
+     * Starts a job in the background.
+     *
+     * @param kind - Registered runner kind
+     * @param params - Parameters handed to the runner
+     * @param startedBy - Admin starting the job
+     * @returns The job as first saved
+     * @throws ConflictException if a job of this kind is already running
+     */
+    async start(kind: string, params: Record<string, unknown>, startedBy: string): Promise<Job> {
+        const runner = this.getRunner(kind);
+
+        const running = await this.findRunning(kind);
+        if (running) {
+            throw new ConflictException(`Job ${running.job_id} (${kind}) is already running`);
+        }
+
+        const now = new Date().toISOString();
+        const job: Job = {
+            job_id: randomUUID(),
+            kind,
+            status: 'running',
+            params,
+            progress: { processed: 0, success: 0, failed: 0 },
+            checkpoint: {},
+            started_by: startedBy,
+            created_at: now,
+            updated_at: now,
+            run_id: randomUUID(),
+            run_started_at: now,
+            run_start_processed: 0,
+        };
+
+        await this.save(job);
+        this.logger.log({ msg: 'Job started', jobId: job.job_id, kind, params, startedBy });
+
+        void this.execute(job, runner);
+        return job;
+    }
+
+    /**
+     * Resumes a failed, cancelled or abandoned job from its last checkpoint.
+     *
+     * @throws NotFoundException if the job does not exist
+     * @throws ConflictException if the job is completed or still running
+     */
+    async resume(jobId: string): Promise<Job> {
+        const { job, version } = await this.loadVersioned(jobId);
+        const runner = this.getRunner(job.kind);
+
+        if (job.status === 'completed' || (job.status === 'running' && !this.isStale(job))) {
+            throw new ConflictException(`Job ${jobId} is ${job.status} and cannot be resumed`);
+        }
+
+        const running = await this.findRunning(job.kind);
+        if (running && running.job_id !== jobId) {
+            throw new ConflictException(`Job ${running.job_id} (${job.kind}) is already running`);
+        }
+
+        const now = new Date().toISOString();
+        const resumed: Job = {
+            ...job,
+            status: 'running',
+            error: undefined,
+            finished_at: undefined,
+            updated_at: now,
+            run_id: randomUUID(),
+            run_started_at: now,
+            run_start_processed: job.progress.processed,
+        };
+
+        try {
+            await this.save(resumed, version);
+        } catch (error: unknown) {
+            if (isVersionConflict(error)) {
+                throw new ConflictException(`Job ${jobId} changed while being resumed; retry`);
+            }
+            throw error;
+        }
+        this.logger.log({ msg: 'Job resumed', jobId, kind: job.kind, checkpoint: job.checkpoint });
+
+        void this.execute(resumed, runner);
+        return resumed;
+    }
+
+    /**
+     * Cancels a running job; it stops at its next checkpoint.
+     *
+     * @throws NotFoundException if the job does not exist
+     * @throws ConflictException if the job is not running
+     */
+    async cancel(jobId: string): Promise<Job> {
+        const cancelled = await this.update(jobId, (job) => {
+            if (job.status !== 'running') {
+                throw new ConflictException(`Job ${jobId} is ${job.status} and cannot be cancelled`);
+            }
+            const now = new Date().toISOString();
+            return { ...job, status: 'cancelled', updated_at: now, finished_at: now };
+        });
+        this.logger.warn({ msg: 'Job cancelled', jobId, kind: cancelled.kind, progress: cancelled.progress });
+
+        return cancelled;
+    }
+
+    /**
+     * Returns a job with an ETA if it is running.
+     *
+     * @throws NotFoundException if the job does not exist
+     */
+    async get(jobId: string): Promise<Job> {
+        const job = await this.load(jobId);
+        return job.status === 'running' ? { ...job, eta_ms: this.estimateRemaining(job) } : job;
+    }
+
+    /* ---- Execution ---- */
+
+    /**
+     * Runs a job to completion, recording the outcome. Never throws.
+     *
+     * @remarks
+     * Writes only while the stored job is still this run and running; a
+     * completion is recorded even if the job was cancelled after its last
+     * checkpoint, since the work was done.
+     */
+    private async execute(job: Job, runner: JobRunner): Promise<void> {
+        let current = job;
+        const isThisRun = (stored: Job) => stored.run_id === job.run_id;
+
+        const context: JobContext = {
+            checkpoint: async (progress: JobProgress, checkpoint: object) => {
+                current = await this.update(job.job_id, (stored) => {
+                    if (stored.status !== 'running' || !isThisRun(stored)) {
+                        throw new JobCancelledError(job.job_id);
+                    }
+                    return {
+                        ...current,
+                        progress: { ...progress, total: current.progress.total },
+                        checkpoint,
+                        updated_at: new Date().toISOString(),
+                    };
+                });
+            },
+        };
+
+        const heartbeat = setInterval(() => {
+            this.update(job.job_id, (stored) => stored.status === 'running' && isThisRun(stored)
+                ? { ...stored, updated_at: new Date().toISOString() }
+                : undefined,
+            ).catch((error) => {
+                this.logger.error({ msg: 'Job heartbeat failed', jobId: job.job_id, error });
+            });
+        }, HEARTBEAT_MS);
+        // Never keep the process alive just for the heartbeat
+        heartbeat.unref();
+        this.heartbeats.add(heartbeat);
+
+        try {
+            if (runner.estimateTotal && current.progress.total === undefined) {
+                const total = await runner.estimateTotal(current).catch(() => undefined);
+                current = { ...current, progress: { ...current.progress, total } };
+            }
+
+            const result = await runner.run(current, context);
+            await this.update(job.job_id, (stored) => {
+                if (!isThisRun(stored)) return undefined;
+                const now = new Date().toISOString();
+                return { ...current, status: 'completed', result, updated_at: now, finished_at: now };
+            });
+            this.logger.log({ msg: 'Job completed', jobId: job.job_id, kind: job.kind, result });
+        } catch (error) {
+            if (error instanceof JobCancelledError) {
+                this.logger.warn({ msg: 'Job stopped after cancellation', jobId: job.job_id, progress: current.progress });
+                return;
+            }
+
+            this.logger.error({ msg: 'Job failed', jobId: job.job_id, kind: job.kind, error });
+            await this.update(job.job_id, (stored) => {
+                if (stored.status !== 'running' || !isThisRun(stored)) return undefined;
+                const now = new Date().toISOString();
+                return {
+                    ...current,
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : String(error),
+                    updated_at: now,
+                    finished_at: now,
+                };
+            }).catch((saveError) => {
+                this.logger.error({ msg: 'Failed to record job failure', jobId: job.job_id, error: saveError });
+            });
+        } finally {
+            clearInterval(heartbeat);
+            this.heartbeats.delete(heartbeat);
+        }
+    }
+
+    /**
+     * Estimates time left from the rate of the current run.
+     */
+    private estimateRemaining(job: Job): number | undefined {
+        const { processed, total } = job.progress;
+        const done = processed - job.run_start_processed;
+        if (total === undefined || done <= 0) return undefined;
+
+        const elapsed = Date.parse(job.updated_at) - Date.parse(job.run_started_at);
+        return Math.max(Math.round((elapsed / done) * (total - processed)), 0);
+    }
+
+    private isStale(job: Job): boolean {
+        return Date.now() - Date.parse(job.updated_at) > this.STALE_AFTER_MS;
+    }
+
+    private getRunner(kind: string): JobRunner {
+        const runner = this.runners.get(kind);
+        if (!runner) {
+            throw new Error(`No runner registered for job kind ${kind}`);
+        }
+        return runner;
+    }
+
+    /* ---- Persistence ---- */
+
+    /**
+     * Returns a live (non-stale) running job of the given kind, if any.
+     */
+    private async findRunning(kind: string): Promise<Job | undefined> {
+        await this.ensureIndex();
+
+        const response = await this.opensearchProvider.getClient().search({
+            index: this.INDEX_NAME,
+            body: {
+                query: {
+                    bool: {
+                        filter: [
+                            { term: { kind } },
+                            { term: { status: 'running' } },
+                            { range: { updated_at: { gte: new Date(Date.now() - this.STALE_AFTER_MS).toISOString() } } },
+                        ],
+                    },
+                },
+                size: 1,
+            },
+        });
+
+        return response.body.hits.hits[0]?._source as Job | undefined;
+    }
+
+    private async load(jobId: string): Promise<Job> {
+        return (await this.loadVersioned(jobId)).job;
+    }
+
+    private async loadVersioned(jobId: string): Promise<{ job: Job; version: JobVersion }> {
+        try {
+            const response = await this.opensearchProvider.getClient().get({
+                index: this.INDEX_NAME,
+                id: jobId,
+            });
+            return {
+                job: response.body._source as Job,
+                version: { seqNo: response.body._seq_no, primaryTerm: response.body._primary_term },
+            };
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) {
+                throw new NotFoundException(`Job ${jobId} not found`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Re-reads a job, applies a change and saves it if the job is unchanged
+     * since the read; otherwise reads again and retries.
+     *
+     * @param change - Returns the job to save, or undefined to leave it as
+     *                 stored; may throw to abort
+     * @returns The job as saved, or as stored if left unchanged
+     * @throws ConflictException if concurrent writes win MAX_WRITE_ATTEMPTS times
+     */
+    private async update(jobId: string, change: (job: Job) => Job | undefined): Promise<Job> {
+        for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+            const { job, version } = await this.loadVersioned(jobId);
+            const updated = change(job);
+            if (!updated) return job;
+
+            try {
+                await this.save(updated, version);
+                return updated;
+            } catch (error: unknown) {
+                if (!isVersionConflict(error)) throw error;
+            }
+        }
+        throw new ConflictException(`Job ${jobId} is being updated concurrently; retry`);
+    }
+
+    /**
+     * Saves a job; with a version, only if it is unchanged since that read.
+     */
+    private async save(job: Job, version?: JobVersion): Promise<void> {
+        await this.ensureIndex();
+
+        const { eta_ms: _eta, ...doc } = job;
+        await this.opensearchProvider.getClient().index({
+            index: this.INDEX_NAME,
+            id: job.job_id,
+            body: doc,
+            ...(version && { if_seq_no: version.seqNo, if_primary_term: version.primaryTerm }),
+            refresh: true,
+        });
+    }
+
+    private async ensureIndex(): Promise<void> {
+        if (this.indexReady) return;
+        await this.opensearchProvider.ensureIndex(this.INDEX_NAME, JOB_INDEX_MAPPINGS);
+        this.indexReady = true;
+    }
+}
+
+function isVersionConflict(error: unknown): boolean {
+    return (error as { statusCode?: number }).statusCode === 409;
+}
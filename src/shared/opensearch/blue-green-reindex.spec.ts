@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Blue/Green Reindex Tests
+ */
+
+import { ConflictException } from '@nestjs/common';
+import { blueGreenReindex, rollbackAlias } from './blue-green-reindex';
+
+describe('blueGreenReindex', () => {
+    let client: any;
+    let provider: any;
+
+    const version = (n: number) => ({ index: `members_v${n}`, version: n });
+
+    beforeEach(() => {
+        client = {
+            indices: {
+                delete: jest.fn().mockResolvedValue({ body: {} }),
+                exists: jest.fn().mockResolvedValue({ body: false }),
+            },
+        };
+        provider = {
+            getClient: () => client,
+            ensureIndex: jest.fn().mockResolvedValue(undefined),
+            listIndexVersions: jest.fn().mockResolvedValue([version(1), version(2)]),
+            getAliasIndices: jest.fn().mockResolvedValue(['members_v2']),
+            countDocuments: jest.fn().mockResolvedValue(3),
+            swapAlias: jest.fn().mockResolvedValue('members_v2'),
+        };
+    });
+
+    const options = (overrides = {}) => ({
+        alias: 'members',
+        mappings: { properties: {} },
+        load: jest.fn().mockResolvedValue({ indexed: 3, failed: 0 }),
+        countSource: jest.fn().mockResolvedValue(3),
+        ...overrides,
+    });
+
+    it('should load the next version, swap the alias and prune older versions', async () => {
+        const opts = options();
+
+        const result = await blueGreenReindex(provider, opts);
+
+        expect(provider.ensureIndex).toHaveBeenCalledWith('members_v3', { properties: {} }, {});
+        expect(opts.load).toHaveBeenCalledWith('members_v3');
+        expect(provider.swapAlias).toHaveBeenCalledWith('members', 'members_v3');
+        expect(client.indices.delete).toHaveBeenCalledWith({ index: ['members_v1'] });
+        expect(result).toEqual({ indexed: 3, failed: 0, index: 'members_v3', previousIndex: 'members_v2' });
+    });
+
+    it('should start at v1 when no versions exist', async () => {
+        provider.listIndexVersions.mockResolvedValueOnce([]);
+
+        const result = await blueGreenReindex(provider, options());
+
+        expect(result.index).toBe('members_v1');
+    });
+
+    it('should refuse the swap and drop the new index when source records are missing from it', async () => {
+        const opts = options({
+            load: jest.fn().mockResolvedValue({ indexed: 2, failed: 0 }),
+            countSource: jest.fn().mockResolvedValue(4),
+        });
+        provider.countDocuments.mockResolvedValueOnce(2);
+
+        await expect(blueGreenReindex(provider, opts)).rejects.toThrow('2 of 4 missing from members_v3');
+
+        expect(provider.swapAlias).not.toHaveBeenCalled();
+        expect(client.indices.delete).toHaveBeenCalledWith({ index: 'members_v3' });
+    });
+
+    it('should accept documents written after the source was counted', async () => {
+        provider.countDocuments.mockResolvedValueOnce(4);
+
+        await expect(blueGreenReindex(provider, options())).resolves.toEqual(expect.objectContaining({ index: 'members_v3' }));
+    });
+
+    it('should refuse the swap when more records fail than allowed', async () => {
+        const opts = options({
+            load: jest.fn().mockResolvedValue({ indexed: 3, failed: 2 }),
+            countSource: jest.fn().mockResolvedValue(5),
+            maxFailed: 1,
+        });
+
+        await expect(blueGreenReindex(provider, opts)).rejects.toThrow('more than the 1 allowed');
+        expect(provider.swapAlias).not.toHaveBeenCalled();
+        expect(client.indices.delete).toHaveBeenCalledWith({ index: 'members_v3' });
+    });
+
+    it('should not count quarantined records toward the limit', async () => {
+        const opts = options({
+            load: jest.fn().mockResolvedValue({ indexed: 3, failed: 2, quarantined: 2 }),
+            countSource: jest.fn().mockResolvedValue(5),
+        });
+
+        await expect(blueGreenReindex(provider, opts)).resolves.toEqual(expect.objectContaining({ failed: 2 }));
+        expect(provider.swapAlias).toHaveBeenCalled();
+    });
+
+    it('should count the source after beforeSwap has caught the new index up', async () => {
+        const calls: string[] = [];
+        const opts = options({
+            beforeSwap: jest.fn(async () => { calls.push('beforeSwap'); }),
+            countSource: jest.fn(async () => { calls.push('countSource'); return 3; }),
+        });
+
+        await blueGreenReindex(provider, opts);
+
+        expect(calls).toEqual(['beforeSwap', 'countSource']);
+    });
+
+    it('should keep the new index when loading fails so it can be resumed', async () => {
+        const opts = options({ load: jest.fn().mockRejectedValue(new Error('scan failed')) });
+
+        await expect(blueGreenReindex(provider, opts)).rejects.toThrow('scan failed');
+        expect(client.indices.delete).not.toHaveBeenCalled();
+    });
+
+    it('should resume into an existing version without pruning it', async () => {
+        provider.listIndexVersions.mockResolvedValueOnce([version(1), version(2), version(3)]);
+        const opts = options({ index: 'members_v3' });
+
+        const result = await blueGreenReindex(provider, opts);
+
+        expect(opts.load).toHaveBeenCalledWith('members_v3');
+        expect(result.index).toBe('members_v3');
+        expect(client.indices.delete).toHaveBeenCalledWith({ index: ['members_v1'] });
+    });
+
+    it('should hand beforeSwap the live index, or the legacy concrete index', async () => {
+        const beforeSwap = jest.fn().mockResolvedValue(undefined);
+
+        await blueGreenReindex(provider, options({ beforeSwap }));
+        expect(beforeSwap).toHaveBeenLastCalledWith('members_v3', 'members_v2');
+
+        provider.getAliasIndices.mockResolvedValueOnce([]);
+        client.indices.exists.mockResolvedValueOnce({ body: true });
+        await blueGreenReindex(provider, options({ beforeSwap }));
+        expect(beforeSwap).toHaveBeenLastCalledWith('members_v3', 'members');
+    });
+});
+
+describe('rollbackAlias', () => {
+    let provider: any;
+
+    beforeEach(() => {
+        provider = {
+            getAliasIndices: jest.fn().mockResolvedValue(['members_v3']),
+            listIndexVersions: jest.fn().mockResolvedValue([
+                { index: 'members_v2', version: 2 },
+                { index: 'members_v3', version: 3 },
+            ]),
+            swapAlias: jest.fn().mockResolvedValue('members_v3'),
+        };
+    });
+
+    it('should point the alias at the newest older version', async () => {
+        const result = await rollbackAlias(provider, 'members');
+
+        expect(provider.swapAlias).toHaveBeenCalledWith('members', 'members_v2');
+        expect(result).toEqual({ index: 'members_v2', previousIndex: 'members_v3' });
+    });
+
+    it('should conflict when no older version is kept', async () => {
+        provider.getAliasIndices.mockResolvedValueOnce(['members_v2']);
+
+        await expect(rollbackAlias(provider, 'members')).rejects.toBeInstanceOf(ConflictException);
+        expect(provider.swapAlias).not.toHaveBeenCalled();
+    });
+});
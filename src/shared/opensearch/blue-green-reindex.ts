@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Blue/Green Reindex
+ *
+ * Rebuilds an index behind an alias without taking reads offline. Readers
+ * and writers address the alias (e.g. `members`); each reindex loads a new
+ * versioned index (`members_v3`), validates it against the source, and
+ * atomically repoints the alias. The previous version is kept for rollback.
+ *
+ * @remarks
+ * Validation counts records lost to the new index: failures not held in
+ * quarantine (quarantined records can be replayed once fixed), plus source
+ * records neither indexed nor reported as failed. More than `maxFailed`
+ * refuses the swap.
+ *
+ * Only the new index and the one it replaced are kept; older versions are
+ * deleted after a successful swap. A failed validation deletes the new
+ * index and leaves the alias untouched. Any other failure keeps the new
+ * index, so the caller can resume loading into it by passing `index`.
+ */
+
+import { ConflictException } from '@nestjs/common';
+import { OpenSearchProvider } from './opensearch.provider';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Counts reported by a {@link BlueGreenReindexOptions.load} callback.
+ */
+export interface LoadResult {
+    /** Documents written to the new index */
+    indexed: number;
+
+    /** Source records that could not be indexed */
+    failed: number;
+
+    /** Failed records stored in quarantine; they do not count toward `maxFailed` */
+    quarantined?: number;
+}
+
+/**
+ * Options for {@link blueGreenReindex}.
+ */
+export interface BlueGreenReindexOptions {
+    /** Alias that readers and writers use, e.g. `members` */
+    alias: string;
+
+    /** Mappings for the new index */
+    mappings: Record<string, unknown>;
+
+    /** Extra settings for the new index */
+    settings?: Record<string, unknown>;
+
+    /** Existing version to resume loading into, instead of creating the next one */
+    index?: string;
+
+    /** Loads every source record into the given index */
+    load: (index: string) => Promise<LoadResult>;
+
+    /** Counts the source records; called once the new index is caught up */
+    countSource: () => Promise<number>;
+
+    /** Lost records (see remarks) tolerated before the swap is refused (default 0) */
+    maxFailed?: number;
+
+    /**
+     * Runs after the load, before validation, e.g. to copy writes that
+     * reached the live index while the new one was loading.
+     */
+    beforeSwap?: (index: string, liveIndex: string | undefined) => Promise<void>;
+}
+
+/**
+ * Outcome of a successful {@link blueGreenReindex}.
+ */
+export interface BlueGreenReindexResult extends LoadResult {
+    /** Index the alias now points to */
+    index: string;
+
+    /** Index kept for rollback, if any */
+    previousIndex?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Reindex Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Builds the next index version, validates it and swaps the alias to it.
+ *
+ * @param provider - OpenSearch provider
+ * @param options - Alias, mappings, loader and validation threshold
+ * @returns The new and previous index with the load counts
+ * @throws Error if more than `maxFailed` records are lost (the new index
+ *         is then deleted), or if any step fails (the new index is kept)
+ */
+export async function blueGreenReindex(
+    provider: OpenSearchProvider,
+    options: BlueGreenReindexOptions,
+): Promise<BlueGreenReindexResult> {
+    const { alias, mappings, settings = {}, load, countSource, maxFailed = 0, beforeSwap } = options;
+
+    const versions = await provider.listIndexVersions(alias);
+    const nextVersion = (versions[versions.length - 1]?.version ?? 0) + 1;
+    const index = options.index ?? `${alias}_v${nextVersion}`;
+
+    await provider.ensureIndex(index, mappings, settings);
+
+    const loaded = await load(index);
+
+    if (beforeSwap) {
+        // Before the first swap the live index may be a concrete index named after the alias
+        const [aliased] = await provider.getAliasIndices(alias);
+        const legacy = !aliased && (await provider.getClient().indices.exists({ index: alias })).body;
+        await beforeSwap(index, aliased ?? (legacy ? alias : undefined));
+    }
+
+    const count = await provider.countDocuments(index);
+    const sourceCount = await countSource();
+    const unquarantined = loaded.failed - (loaded.quarantined ?? 0);
+    // Documents written after the source was counted may make the index larger; never smaller
+    const missing = Math.max(sourceCount - loaded.failed - count, 0);
+    if (unquarantined + missing > maxFailed) {
+        await provider.getClient().indices.delete({ index });
+        throw new Error(
+            `Reindex of ${alias} lost ${unquarantined + missing} record(s), more than the ${maxFailed} allowed: `
+            + `${unquarantined} failed outside quarantine, ${missing} of ${sourceCount} missing from ${index}`,
+        );
+    }
+
+    const previousIndex = await provider.swapAlias(alias, index);
+
+    const stale = versions
+        .filter((v) => v.index !== previousIndex && v.index !== index)
+        .map((v) => v.index);
+    if (stale.length > 0) {
+        await provider.getClient().indices.delete({ index: stale });
+    }
+
+    return { ...loaded, index, previousIndex };
+}
+
+/**
+ * Points an alias back at the newest version older than its current one.
+ *
+ * @returns The index rolled back to and the index rolled back from
+ * @throws ConflictException if no older version is kept
+ */
+export async function rollbackAlias(
+    provider: OpenSearchProvider,
+    alias: string,
+): Promise<{ index: string; previousIndex: string }> {
+    const [current] = await provider.getAliasIndices(alias);
+    const versions = await provider.listIndexVersions(alias);
+    const currentVersion = versions.find((v) => v.index === current)?.version ?? Infinity;
+    const target = versions.filter((v) => v.version < currentVersion).pop();
+
+    if (!current || !target) {
+        throw new ConflictException(`No previous version of ${alias} to roll back to`);
+    }
+
+    await provider.swapAlias(alias, target.index);
+    return { index: target.index, previousIndex: current };
+}
@@ -2,5 +2,8 @@
  * @fileoverview Shared OpenSearch Barrel Export
  */
 
+export * from './blue-green-reindex';
 export * from './opensearch.module';
 export * from './opensearch.provider';
+export * from './orphan-sweep';
+export * from './reconcile';
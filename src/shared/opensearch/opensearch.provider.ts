@@ -17,6 +17,18 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Client } from '@opensearch-project/opensearch';
 
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Versioned physical index behind an alias, e.g. `members_v3`.
+ */
+export interface IndexVersion {
+    index: string;
+    version: number;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                              Provider Implementation                        */
 /* -------------------------------------------------------------------------- */
@@ -88,13 +100,18 @@ export class OpenSearchProvider {
      *
      * @param indexName - Name of the index to create
      * @param mappings - OpenSearch mapping configuration
+     * @param settings - Extra index settings (e.g. custom analyzers)
      *
      * @remarks
      * This is idempotent - if the index already exists, no action is taken.
      * Default settings use 1 shard and 1 replica, suitable for small datasets.
      * Adjust sharding for production scale requirements.
      */
-    async ensureIndex(indexName: string, mappings: Record<string, unknown>): Promise<void> {
+    async ensureIndex(
+        indexName: string,
+        mappings: Record<string, unknown>,
+        settings: Record<string, unknown> = {},
+    ): Promise<void> {
         const exists = await this.client.indices.exists({ index: indexName });
 
         if (!exists.body) {
@@ -105,9 +122,80 @@ export class OpenSearchProvider {
                     settings: {
                         number_of_shards: 1,
                         number_of_replicas: 1,
+                        ...settings,
                     },
                 },
             });
         }
     }
+
+    /**
+     * Returns the indices an alias points to.
+     *
+     * @returns Index names, empty if the alias does not exist
+     */
+    async getAliasIndices(alias: string): Promise<string[]> {
+        try {
+            const response = await this.client.indices.getAlias({ name: alias });
+            return Object.keys(response.body);
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) return [];
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the versioned indices (`<alias>_v<n>`) for an alias, oldest first.
+     */
+    async listIndexVersions(alias: string): Promise<IndexVersion[]> {
+        const response = await this.client.indices.get({ index: `${alias}_v*` });
+        const pattern = new RegExp(`^${alias}_v(\\d+)$`);
+
+        return Object.keys(response.body)
+            .map((index) => ({ index, match: pattern.exec(index) }))
+            .filter((entry): entry is { index: string; match: RegExpExecArray } => entry.match !== null)
+            .map(({ index, match }) => ({ index, version: parseInt(match[1], 10) }))
+            .sort((a, b) => a.version - b.version);
+    }
+
+    /**
+     * Atomically points an alias at a single index.
+     *
+     * @param alias - Alias that readers and writers use, e.g. `members`
+     * @param index - Index to point it at
+     * @returns The index the alias pointed at before, if it is still kept
+     *
+     * @remarks
+     * A concrete index with the alias's own name (created before aliases
+     * were introduced) is deleted in the same atomic action, since an alias
+     * cannot share a name with an index. That index cannot be rolled back to.
+     */
+    async swapAlias(alias: string, index: string): Promise<string | undefined> {
+        const current = await this.getAliasIndices(alias);
+        const legacy = current.length === 0
+            && (await this.client.indices.exists({ index: alias })).body;
+
+        await this.client.indices.updateAliases({
+            body: {
+                actions: [
+                    ...(legacy ? [{ remove_index: { index: alias } }] : []),
+                    ...current
+                        .filter((name) => name !== index)
+                        .map((name) => ({ remove: { index: name, alias } })),
+                    { add: { index, alias } },
+                ],
+            },
+        });
+
+        return current.find((name) => name !== index);
+    }
+
+    /**
+     * Counts the documents in an index after refreshing it.
+     */
+    async countDocuments(index: string): Promise<number> {
+        await this.client.indices.refresh({ index });
+        const response = await this.client.count({ index });
+        return response.body.count;
+    }
 }
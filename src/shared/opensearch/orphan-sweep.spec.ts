@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Orphan Sweep Tests
+ */
+
+import { sweepOrphans } from './orphan-sweep';
+
+describe('sweepOrphans', () => {
+    const hit = (id: string) => ({ _id: id, _source: { member_id: id }, sort: [id] });
+
+    let client: any;
+
+    beforeEach(() => {
+        client = {
+            search: jest.fn().mockResolvedValue({ body: { hits: { hits: [] } } }),
+            bulk: jest.fn().mockResolvedValue({ body: { errors: false } }),
+        };
+    });
+
+    it('should delete only documents missing from the live set', async () => {
+        client.search.mockResolvedValueOnce({ body: { hits: { hits: [hit('mem-001'), hit('mem-002')] } } });
+
+        const deleted = await sweepOrphans(client, {
+            index: 'members',
+            idField: 'member_id',
+            liveIds: new Set(['mem-001']),
+        });
+
+        expect(deleted).toEqual(['mem-002']);
+        expect(client.bulk).toHaveBeenCalledWith({
+            body: [{ delete: { _index: 'members', _id: 'mem-002' } }],
+            refresh: true,
+        });
+    });
+
+    it('should page with search_after until a short page', async () => {
+        client.search
+            .mockResolvedValueOnce({ body: { hits: { hits: [hit('mem-001'), hit('mem-002')] } } })
+            .mockResolvedValueOnce({ body: { hits: { hits: [hit('mem-003')] } } });
+
+        await sweepOrphans(client, {
+            index: 'members',
+            idField: 'member_id',
+            liveIds: new Set(['mem-001', 'mem-002', 'mem-003']),
+            pageSize: 2,
+        });
+
+        expect(client.search).toHaveBeenCalledTimes(2);
+        expect(client.search.mock.calls[1][0].body.search_after).toEqual(['mem-002']);
+        expect(client.bulk).not.toHaveBeenCalled();
+    });
+
+    it('should only consider documents written before the guard time', async () => {
+        await sweepOrphans(client, {
+            index: 'members',
+            idField: 'member_id',
+            liveIds: new Set(),
+            writtenBefore: { field: 'updated_at', time: '2024-06-01T00:00:00.000Z' },
+        });
+
+        const should = client.search.mock.calls[0][0].body.query.bool.should;
+        expect(should[0]).toEqual({ range: { updated_at: { lt: '2024-06-01T00:00:00.000Z' } } });
+        expect(should[1]).toEqual({ bool: { must_not: { exists: { field: 'updated_at' } } } });
+    });
+
+    it('should fail when a delete is rejected', async () => {
+        client.search.mockResolvedValueOnce({ body: { hits: { hits: [hit('mem-002')] } } });
+        client.bulk.mockResolvedValueOnce({ body: { errors: true } });
+
+        await expect(sweepOrphans(client, {
+            index: 'members',
+            idField: 'member_id',
+            liveIds: new Set(),
+        })).rejects.toThrow('Orphan sweep of members failed');
+    });
+
+    it('should only report orphans in a dry run', async () => {
+        client.search.mockResolvedValueOnce({ body: { hits: { hits: [hit('mem-001'), hit('mem-002')] } } });
+
+        const orphans = await sweepOrphans(client, {
+            index: 'members',
+            idField: 'member_id',
+            liveIds: new Set(['mem-001']),
+            dryRun: true,
+        });
+
+        expect(orphans).toEqual(['mem-002']);
+        expect(client.bulk).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Orphan Sweep
+ *
+ * Removes index documents whose source record no longer exists. Used at the
+ * end of a full reindex, once every live ID in the source of truth is known.
+ *
+ * @remarks
+ * Documents are paged by their ID field with `search_after`, so memory use is
+ * bounded by the page size plus the set of live IDs the caller already holds.
+ */
+
+import { Client } from '@opensearch-project/opensearch';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Options for {@link sweepOrphans}.
+ */
+export interface OrphanSweepOptions {
+    /** Index to sweep */
+    index: string;
+
+    /** Keyword field holding the document ID, e.g. member_id */
+    idField: string;
+
+    /** IDs that exist in the source of truth */
+    liveIds: ReadonlySet<string>;
+
+    /**
+     * Only sweep documents last written before this time, so documents
+     * written by another path (e.g. a stream) during the reindex are kept.
+     * Documents without the field are always eligible.
+     */
+    writtenBefore?: { field: string; time: string };
+
+    /** Documents examined per page (default 500) */
+    pageSize?: number;
+
+    /** Only report orphans, without deleting them */
+    dryRun?: boolean;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Sweep Implementation                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Deletes documents whose ID is not in `liveIds`.
+ *
+ * @param client - OpenSearch client
+ * @param options - Index, ID field, live IDs and optional write-time guard
+ * @returns IDs of the deleted (or, in a dry run, orphaned) documents
+ * @throws Error if a search or bulk delete fails
+ */
+export async function sweepOrphans(client: Client, options: OrphanSweepOptions): Promise<string[]> {
+    const { index, idField, liveIds, writtenBefore, pageSize = 500, dryRun = false } = options;
+    const deleted: string[] = [];
+
+    const query = writtenBefore
+        ? {
+            bool: {
+                should: [
+                    { range: { [writtenBefore.field]: { lt: writtenBefore.time } } },
+                    { bool: { must_not: { exists: { field: writtenBefore.field } } } },
+                ],
+                minimum_should_match: 1,
+            },
+        }
+        : { match_all: {} };
+
+    let searchAfter: unknown[] | undefined;
+
+    for (;;) {
+        const response = await client.search({
+            index,
+            body: {
+                query,
+                _source: [idField],
+                size: pageSize,
+                sort: [{ [idField]: 'asc' }],
+                ...(searchAfter && { search_after: searchAfter }),
+            },
+        });
+
+        const hits = response.body.hits.hits as Array<{ _id: string; _source: Record<string, string>; sort: unknown[] }>;
+        if (hits.length === 0) break;
+
+        const orphans = hits.filter((hit) => !liveIds.has(hit._source[idField]));
+        if (orphans.length > 0 && !dryRun) {
+            const result = await client.bulk({
+                body: orphans.map((hit) => ({ delete: { _index: index, _id: hit._id } })),
+                refresh: true,
+            });
+            if (result.body.errors) {
+                throw new Error(`Orphan sweep of ${index} failed to delete some documents`);
+            }
+        }
+        deleted.push(...orphans.map((hit) => hit._source[idField]));
+
+        if (hits.length < pageSize) break;
+        searchAfter = hits[hits.length - 1].sort;
+    }
+
+    return deleted;
+}
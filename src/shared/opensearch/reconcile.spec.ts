@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Reconciliation Tests
+ */
+
+import { register } from 'prom-client';
+import { contentHash, reconcileIndex } from './reconcile';
+
+describe('contentHash', () => {
+    it('should ignore key order and empty values', () => {
+        expect(contentHash({ a: 1, b: { c: 'x', d: undefined } }))
+            .toBe(contentHash({ b: { c: 'x' }, a: 1, e: null }));
+    });
+
+    it('should differ when content differs', () => {
+        expect(contentHash({ tags: ['a', 'b'] })).not.toBe(contentHash({ tags: ['b', 'a'] }));
+    });
+});
+
+describe('reconcileIndex', () => {
+    let client: any;
+
+    type Row = { id: string; name: string; updated_at: string };
+    const row = (id: string, name = 'x', updatedAt = '2024-01-01T00:00:00Z'): Row => ({ id, name, updated_at: updatedAt });
+
+    async function* pagesOf(...pages: Row[][]): AsyncGenerator<Row[]> {
+        yield* pages;
+    }
+
+    const options = (pages: AsyncIterable<Row[]>, overrides = {}) => ({
+        vertical: 'members',
+        index: 'members',
+        idField: 'member_id',
+        pages,
+        toDocument: (r: Row) => (r.name ? { id: r.id, doc: { member_id: r.id, name: r.name, updated_at: r.updated_at } } : null),
+        versionField: 'updated_at',
+        startedAt: '2024-06-01T00:00:00Z',
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        client = {
+            mget: jest.fn().mockResolvedValue({
+                body: {
+                    docs: [
+                        { _id: 'mem-ok', found: true, _source: { member_id: 'mem-ok', name: 'x', updated_at: '2024-01-01T00:00:00Z' } },
+                        { _id: 'mem-missing', found: false },
+                        { _id: 'mem-stale', found: true, _source: { member_id: 'mem-stale', name: 'old', updated_at: '2024-01-01T00:00:00Z' } },
+                        { _id: 'mem-ahead', found: true, _source: { member_id: 'mem-ahead', name: 'newer', updated_at: '2024-02-01T00:00:00Z' } },
+                    ],
+                },
+            }),
+            search: jest.fn()
+                .mockResolvedValueOnce({
+                    body: {
+                        hits: {
+                            hits: [
+                                { _id: 'mem-ok', _source: { member_id: 'mem-ok' }, sort: ['mem-ok'] },
+                                { _id: 'mem-gone', _source: { member_id: 'mem-gone' }, sort: ['mem-gone'] },
+                            ],
+                        },
+                    },
+                }),
+            bulk: jest.fn().mockResolvedValue({ body: { errors: false } }),
+        };
+    });
+
+    const rows = () => [row('mem-ok'), row('mem-missing'), row('mem-stale', 'new'), row('mem-ahead'), row('mem-bad', '')];
+
+    it('should report missing, stale and orphaned documents without changing anything', async () => {
+        const report = await reconcileIndex(client, options(pagesOf(rows())));
+
+        expect(report).toEqual(expect.objectContaining({
+            scanned: 5,
+            invalid: 1,
+            missing: 1,
+            stale: 1,
+            orphaned: 1,
+            repaired: false,
+            samples: { missing: ['mem-missing'], stale: ['mem-stale'], orphaned: ['mem-gone'] },
+        }));
+        expect(client.bulk).not.toHaveBeenCalled();
+    });
+
+    it('should repair drifted records and delete orphans when asked', async () => {
+        const repair = jest.fn().mockResolvedValue(undefined);
+
+        const report = await reconcileIndex(client, options(pagesOf(rows()), { repair }));
+
+        expect(repair).toHaveBeenCalledWith([row('mem-missing'), row('mem-stale', 'new')]);
+        expect(client.bulk).toHaveBeenCalledWith(expect.objectContaining({
+            body: [{ delete: { _index: 'members', _id: 'mem-gone' } }],
+        }));
+        expect(report.repaired).toBe(true);
+    });
+
+    it('should export drift counts as gauges', async () => {
+        await reconcileIndex(client, options(pagesOf(rows())));
+
+        const metrics = await register.getSingleMetricAsString('search_index_drift_documents');
+        expect(metrics).toContain('search_index_drift_documents{vertical="members",type="stale"} 1');
+        expect(metrics).toContain('search_index_drift_documents{vertical="members",type="orphaned"} 1');
+    });
+
+    it('should report progress after every page', async () => {
+        const onPage = jest.fn().mockResolvedValue(undefined);
+        client.mget.mockResolvedValue({ body: { docs: [] } });
+
+        await reconcileIndex(client, options(pagesOf([], []), { onPage }));
+
+        expect(onPage).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Source-vs-Index Reconciliation
+ *
+ * Walks a source of truth page by page and compares each record with its
+ * index document, reporting drift:
+ * - missing: in the source, not in the index
+ * - stale: in both, but the index document differs from what indexing the
+ *   source record would produce now
+ * - orphaned: in the index, not in the source
+ *
+ * @remarks
+ * Documents are compared by a hash of their content with keys sorted and
+ * empty values dropped, so field order and absent-vs-undefined fields do
+ * not count as drift.
+ *
+ * Drift counts are exported as the `search_index_drift_documents` gauge,
+ * labeled by vertical and type, after every run.
+ */
+
+import { createHash } from 'crypto';
+import { Client } from '@opensearch-project/opensearch';
+import { Gauge } from 'prom-client';
+import { sweepOrphans } from './orphan-sweep';
+
+/* -------------------------------------------------------------------------- */
+/*                              Prometheus Metrics                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Documents found out of sync by the last reconciliation, labeled by
+ * vertical and drift type (missing, stale, orphaned). Counts drift found
+ * even when it was repaired, since any drift means sync is losing writes.
+ */
+const driftGauge = new Gauge({
+    name: 'search_index_drift_documents',
+    help: 'Documents found out of sync with the source of truth by the last reconciliation',
+    labelNames: ['vertical', 'type'],
+});
+
+/**
+ * When each vertical was last reconciled, for alerting on reconciliation
+ * that stopped running.
+ */
+const lastReconcileGauge = new Gauge({
+    name: 'search_index_last_reconcile_timestamp_seconds',
+    help: 'Unix time of the last completed reconciliation',
+    labelNames: ['vertical'],
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Drift found by one reconciliation run.
+ */
+export interface DriftReport {
+    /** Source records compared */
+    scanned: number;
+
+    /** Source records skipped because they cannot be indexed */
+    invalid: number;
+
+    missing: number;
+    stale: number;
+    orphaned: number;
+
+    /** Up to `sampleSize` IDs of each kind, for investigation */
+    samples: { missing: string[]; stale: string[]; orphaned: string[] };
+
+    /** Whether drift was repaired */
+    repaired: boolean;
+
+    durationMs: number;
+}
+
+/**
+ * Options for {@link reconcileIndex}.
+ */
+export interface ReconcileOptions<T> {
+    /** Vertical name for the drift gauge, e.g. `members` */
+    vertical: string;
+
+    /** Index or alias to compare against */
+    index: string;
+
+    /** Keyword field holding the document ID */
+    idField: string;
+
+    /** Pages of source records */
+    pages: AsyncIterable<T[]>;
+
+    /**
+     * Builds the index document a record should have, or null if the record
+     * cannot be indexed (counted as invalid).
+     */
+    toDocument: (record: T) => { id: string; doc: object } | null;
+
+    /**
+     * Date field that orders writes (e.g. `updated_at`). An index document
+     * newer than the scanned record is not stale: it was written after the
+     * page was read. Also guards orphans, as in {@link sweepOrphans}.
+     */
+    versionField?: string;
+
+    /** When the run started; index documents written later are never orphans */
+    startedAt: string;
+
+    /** Re-indexes missing and stale records; without it drift is only reported */
+    repair?: (records: T[]) => Promise<void>;
+
+    /** Called after every page, e.g. to checkpoint or check for cancellation */
+    onPage?: (scanned: number) => Promise<void>;
+
+    /** IDs kept per drift type in the report (default 20) */
+    sampleSize?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Reconciliation                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Hashes a document's content independently of key order.
+ */
+export function contentHash(doc: object): string {
+    const normalize = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(normalize);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(
+                Object.entries(value)
+                    .filter(([, v]) => v !== undefined && v !== null)
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([k, v]) => [k, normalize(v)]),
+            );
+        }
+        return value;
+    };
+
+    // Round-trip first so values serialize as they would when indexed (e.g. Dates)
+    return createHash('sha256').update(JSON.stringify(normalize(JSON.parse(JSON.stringify(doc))))).digest('hex');
+}
+
+/**
+ * Compares a source with its index and optionally repairs the drift.
+ *
+ * @param client - OpenSearch client
+ * @param options - Source pages, document builder, guards and repair hook
+ * @returns Drift counts and sample IDs; also exported as gauges
+ */
+export async function reconcileIndex<T>(client: Client, options: ReconcileOptions<T>): Promise<DriftReport> {
+    const { vertical, index, idField, pages, toDocument, versionField, startedAt, repair, onPage } = options;
+    const sampleSize = options.sampleSize ?? 20;
+    const startTime = Date.now();
+    const liveIds = new Set<string>();
+    const samples: DriftReport['samples'] = { missing: [], stale: [], orphaned: [] };
+    const report = { scanned: 0, invalid: 0, missing: 0, stale: 0, orphaned: 0 };
+
+    const sample = (type: keyof DriftReport['samples'], id: string) => {
+        if (samples[type].length < sampleSize) samples[type].push(id);
+    };
+
+    for await (const page of pages) {
+        report.scanned += page.length;
+
+        const expected = new Map<string, { record: T; doc: object }>();
+        for (const record of page) {
+            const built = toDocument(record);
+            if (!built) {
+                report.invalid++;
+                continue;
+            }
+            liveIds.add(built.id);
+            expected.set(built.id, { record, doc: built.doc });
+        }
+
+        const drifted: T[] = [];
+        if (expected.size > 0) {
+            const response = await client.mget({ index, body: { ids: [...expected.keys()] } });
+            const docs = response.body.docs as Array<{ _id: string; found: boolean; _source?: Record<string, unknown> }>;
+
+            for (const doc of docs) {
+                const { record, doc: want } = expected.get(doc._id)!;
+
+                if (!doc.found) {
+                    report.missing++;
+                    sample('missing', doc._id);
+                    drifted.push(record);
+                } else if (contentHash(doc._source!) !== contentHash(want)) {
+                    const indexedAt = versionField && doc._source![versionField];
+                    const wantAt = versionField && (want as Record<string, unknown>)[versionField];
+                    if (indexedAt && wantAt && Date.parse(String(indexedAt)) > Date.parse(String(wantAt))) {
+                        continue;
+                    }
+                    report.stale++;
+                    sample('stale', doc._id);
+                    drifted.push(record);
+                }
+            }
+        }
+
+        if (repair && drifted.length > 0) {
+            await repair(drifted);
+        }
+        await onPage?.(report.scanned);
+    }
+
+    const orphans = await sweepOrphans(client, {
+        index,
+        idField,
+        liveIds,
+        writtenBefore: versionField ? { field: versionField, time: startedAt } : undefined,
+        dryRun: !repair,
+    });
+    report.orphaned = orphans.length;
+    orphans.slice(0, sampleSize).forEach((id) => samples.orphaned.push(id));
+
+    driftGauge.set({ vertical, type: 'missing' }, report.missing);
+    driftGauge.set({ vertical, type: 'stale' }, report.stale);
+    driftGauge.set({ vertical, type: 'orphaned' }, report.orphaned);
+    lastReconcileGauge.set({ vertical }, Math.floor(Date.now() / 1000));
+
+    return { ...report, samples, repaired: !!repair, durationMs: Date.now() - startTime };
+}
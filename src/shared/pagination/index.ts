@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Shared Pagination Barrel Export
+ */
+
+export * from './search-cursor';
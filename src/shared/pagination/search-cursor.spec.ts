@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Search Cursor Utility Tests
+ */
+
+import {
+    encodeCursor,
+    decodeCursor,
+    clampPageSize,
+    pageFromHits,
+    readTotal,
+    buildNextLink,
+} from './search-cursor';
+
+describe('Search Cursor Utilities', () => {
+    describe('encodeCursor / decodeCursor', () => {
+        it('should round-trip sort values', () => {
+            const cursor = encodeCursor([0.87, 'mem-003']);
+            expect(decodeCursor(cursor, 2)).toEqual([0.87, 'mem-003']);
+        });
+
+        it('should produce URL-safe cursors', () => {
+            const cursor = encodeCursor([1, 'a/b+c?d=e']);
+            expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+        });
+
+        it('should reject non-JSON cursors', () => {
+            expect(() => decodeCursor('%%%', 2)).toThrow('Invalid cursor');
+        });
+
+        it('should reject cursors with the wrong number of sort values', () => {
+            const cursor = encodeCursor([1]);
+            expect(() => decodeCursor(cursor, 2)).toThrow('Invalid cursor');
+        });
+
+        it('should reject cursors containing objects', () => {
+            const cursor = Buffer.from(JSON.stringify([1, { match_all: {} }])).toString('base64url');
+            expect(() => decodeCursor(cursor, 2)).toThrow('Invalid cursor');
+        });
+    });
+
+    describe('clampPageSize', () => {
+        it('should default to 20', () => {
+            expect(clampPageSize()).toBe(20);
+            expect(clampPageSize(NaN)).toBe(20);
+        });
+
+        it('should clamp to [1, 100]', () => {
+            expect(clampPageSize(-5)).toBe(1);
+            expect(clampPageSize(1000)).toBe(100);
+            expect(clampPageSize(50)).toBe(50);
+        });
+    });
+
+    describe('pageFromHits', () => {
+        const hits = [
+            { _source: { id: 'a' }, sort: [2, 'a'] },
+            { _source: { id: 'b' }, sort: [1, 'b'] },
+            { _source: { id: 'c' }, sort: [1, 'c'] },
+        ];
+
+        it('should return a cursor from the last hit in the page when more exist', () => {
+            const page = pageFromHits(hits, 2);
+            expect(page.results).toEqual([{ id: 'a' }, { id: 'b' }]);
+            expect(decodeCursor(page.nextCursor!, 2)).toEqual([1, 'b']);
+        });
+
+        it('should omit the cursor on the last page', () => {
+            const page = pageFromHits(hits, 3);
+            expect(page.results).toHaveLength(3);
+            expect(page.nextCursor).toBeUndefined();
+        });
+    });
+
+    describe('readTotal', () => {
+        it('should read both total formats', () => {
+            expect(readTotal(7)).toBe(7);
+            expect(readTotal({ value: 12 })).toBe(12);
+            expect(readTotal(undefined)).toBe(0);
+        });
+    });
+
+    describe('buildNextLink', () => {
+        it('should keep defined params and replace the cursor', () => {
+            const link = buildNextLink(
+                '/members/search',
+                { q: 'john smith', email: undefined, limit: 10, cursor: 'old' },
+                'new',
+            );
+            expect(link).toBe('/members/search?q=john+smith&limit=10&cursor=new');
+        });
+    });
+});
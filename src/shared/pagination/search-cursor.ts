@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Search Cursor Utilities
+ *
+ * Opaque cursor pagination for OpenSearch `search_after` queries.
+ * Shared by every vertical so all search endpoints page the same way.
+ *
+ * @remarks
+ * A cursor is the base64url-encoded JSON of the last returned hit's sort values.
+ * It carries no filters or permissions: tenant isolation and `_source`
+ * filtering are re-applied by the search service on every page, so a
+ * tampered cursor can only move the page window, never widen access.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Single sort value as returned by OpenSearch in `hit.sort`.
+ */
+export type SortValue = string | number | null;
+
+/**
+ * Minimal hit shape needed to build a page.
+ */
+export interface SortedHit<T> {
+    _source: T;
+    sort?: SortValue[];
+}
+
+/**
+ * Page of results cut from an over-fetched hit list.
+ */
+export interface SearchPage<T> {
+    /** Hits for the current page */
+    results: T[];
+
+    /** Cursor for the next page, undefined on the last page */
+    nextCursor?: string;
+}
+
+/** Upper bound on page size for every search endpoint */
+export const MAX_PAGE_SIZE = 100;
+
+/** Page size used when the caller does not provide one */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/* -------------------------------------------------------------------------- */
+/*                              Cursor Encoding                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Encodes sort values into an opaque cursor string.
+ */
+export function encodeCursor(sortValues: SortValue[]): string {
+    return Buffer.from(JSON.stringify(sortValues), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor back into `search_after` sort values.
+ *
+ * @param cursor - Cursor previously returned by {@link encodeCursor}
+ * @param expectedLength - Number of sort clauses the query uses
+ * @throws BadRequestException if the cursor is malformed
+ */
+export function decodeCursor(cursor: string, expectedLength: number): SortValue[] {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    const isValid = Array.isArray(decoded)
+        && decoded.length === expectedLength
+        && decoded.every((v) => v === null || typeof v === 'string' || typeof v === 'number');
+
+    if (!isValid) {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    return decoded as SortValue[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Page Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Clamps a requested page size to [1, MAX_PAGE_SIZE].
+ */
+export function clampPageSize(limit?: number): number {
+    if (!limit || Number.isNaN(limit)) return DEFAULT_PAGE_SIZE;
+    return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE);
+}
+
+/**
+ * Cuts a page from hits fetched with `size: limit + 1`.
+ *
+ * @remarks
+ * Over-fetching by one hit tells us whether another page exists without
+ * a second query, so the last page never carries a dangling cursor.
+ */
+export function pageFromHits<T>(hits: SortedHit<T>[], limit: number): SearchPage<T> {
+    const pageHits = hits.slice(0, limit);
+    const hasMore = hits.length > limit;
+    const lastSort = pageHits[pageHits.length - 1]?.sort;
+
+    return {
+        results: pageHits.map((hit) => hit._source),
+        nextCursor: hasMore && lastSort ? encodeCursor(lastSort) : undefined,
+    };
+}
+
+/**
+ * Reads `hits.total` regardless of whether OpenSearch returned a number
+ * or a `{ value, relation }` object.
+ */
+export function readTotal(total: number | { value: number } | undefined): number {
+    if (typeof total === 'number') return total;
+    return total?.value ?? 0;
+}
+
+/**
+ * Builds a relative `next` link that repeats the caller's query with a new cursor.
+ *
+ * @param path - Endpoint path, e.g. `/members/search`
+ * @param params - Query parameters of the current request (undefined values are dropped)
+ * @param cursor - Cursor for the next page
+ */
+export function buildNextLink(
+    path: string,
+    params: Record<string, string | number | boolean | undefined>,
+    cursor: string,
+): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== '' && key !== 'cursor') {
+            query.set(key, String(value));
+        }
+    }
+    query.set('cursor', cursor);
+    return `${path}?${query.toString()}`;
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Shared Quarantine Barrel Export
+ */
+
+export * from './quarantine.interface';
+export * from './quarantine.module';
+export * from './quarantine.service';
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Quarantine Controller
+ *
+ * Admin API for records that failed validation or indexing.
+ *
+ * @remarks
+ * Endpoints:
+ * - GET /admin/quarantine - List records (filter by vertical, reason, status)
+ * - GET /admin/quarantine/:id - Inspect one record, with its redacted payload
+ * - POST /admin/quarantine/:id/replay - Re-index one record from its source
+ * - POST /admin/quarantine/replay - Re-index every quarantined record matching a filter
+ *
+ * All endpoints are limited to internal admins: the quarantine holds records
+ * of every tenant.
+ */
+
+import { BadRequestException, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { InternalOnlyGuard, RolesGuard, Roles } from '../auth';
+import { QuarantineReason, QuarantineRecord, QuarantineStatus, ReplayResult } from './quarantine.interface';
+import { QuarantineFilter, QuarantineService } from './quarantine.service';
+
+const REASONS: QuarantineReason[] = ['validation', 'indexing'];
+const STATUSES: QuarantineStatus[] = ['quarantined', 'replayed', 'discarded'];
+
+/* -------------------------------------------------------------------------- */
+/*                              Controller Implementation                      */
+/* -------------------------------------------------------------------------- */
+
+@Controller('admin/quarantine')
+@UseGuards(AuthGuard('jwt'), RolesGuard, InternalOnlyGuard)
+export class QuarantineController {
+    constructor(private quarantineService: QuarantineService) { }
+
+    /**
+     * Lists quarantine records, most recently failed first.
+     *
+     * @param vertical - e.g. `members` or `locations`
+     * @param reason - `validation` or `indexing`
+     * @param status - `quarantined` (default), `replayed` or `discarded`
+     * @param limit - Page size (default: 50, max: 500)
+     * @param offset - Records to skip (default: 0)
+     */
+    @Get()
+    @Roles('admin')
+    async list(
+        @Query('vertical') vertical?: string,
+        @Query('reason') reason?: string,
+        @Query('status') status?: string,
+        @Query('limit') limitParam?: string,
+        @Query('offset') offsetParam?: string,
+    ): Promise<{ records: QuarantineRecord[]; total: number }> {
+        const limit = Math.min(Math.max(parseInt(limitParam || '50', 10) || 50, 1), 500);
+        const offset = Math.max(parseInt(offsetParam || '0', 10) || 0, 0);
+
+        return this.quarantineService.list(this.parseFilter(vertical, reason, status), limit, offset);
+    }
+
+    /**
+     * Replays every quarantined record matching the filter, e.g. after a
+     * bad batch was fixed at the source.
+     *
+     * @param limit - Maximum records to replay (default: 100, max: 1000)
+     */
+    @Post('replay')
+    @Roles('admin')
+    async replayAll(
+        @Query('vertical') vertical?: string,
+        @Query('reason') reason?: string,
+        @Query('limit') limitParam?: string,
+    ): Promise<{ replayed: number; discarded: number; failed: number; results: ReplayResult[] }> {
+        const limit = Math.min(Math.max(parseInt(limitParam || '100', 10) || 100, 1), 1000);
+
+        return this.quarantineService.replayAll(this.parseFilter(vertical, reason), limit);
+    }
+
+    /**
+     * Returns one quarantine record.
+     *
+     * @throws NotFoundException if the record does not exist
+     */
+    @Get(':id')
+    @Roles('admin')
+    async get(@Param('id') id: string): Promise<QuarantineRecord> {
+        return this.quarantineService.get(id);
+    }
+
+    /**
+     * Re-reads a record from its source and indexes it. A record that still
+     * fails stays quarantined and the error is returned.
+     *
+     * @throws NotFoundException if the record does not exist
+     * @throws ConflictException (409) if the record was already replayed or discarded
+     */
+    @Post(':id/replay')
+    @Roles('admin')
+    async replay(@Param('id') id: string): Promise<ReplayResult> {
+        return this.quarantineService.replay(id);
+    }
+
+    private parseFilter(vertical?: string, reason?: string, status?: string): QuarantineFilter {
+        if (reason && !REASONS.includes(reason as QuarantineReason)) {
+            throw new BadRequestException(`reason must be one of: ${REASONS.join(', ')}`);
+        }
+        if (status && !STATUSES.includes(status as QuarantineStatus)) {
+            throw new BadRequestException(`status must be one of: ${STATUSES.join(', ')}`);
+        }
+
+        return {
+            vertical: vertical || undefined,
+            reason: reason as QuarantineReason | undefined,
+            status: status as QuarantineStatus | undefined,
+        };
+    }
+}
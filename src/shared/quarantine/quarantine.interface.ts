@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Quarantine Types
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                              Quarantine Record                              */
+/* -------------------------------------------------------------------------- */
+
+/** Why a record was quarantined: schema validation or a bulk item error */
+export type QuarantineReason = 'validation' | 'indexing';
+
+/**
+ * - quarantined: waiting for the source data to be fixed
+ * - replayed: indexed successfully by a replay
+ * - discarded: gone from the source by the time it was replayed
+ */
+export type QuarantineStatus = 'quarantined' | 'replayed' | 'discarded';
+
+/**
+ * A failed source record, as handed to {@link QuarantineService.quarantine}.
+ */
+export interface QuarantineEntry {
+    /** Source record ID, e.g. a member_id */
+    recordId: string;
+
+    reason: QuarantineReason;
+
+    /** Validation messages or bulk item errors */
+    errors: string[];
+
+    /** Source record as received; redacted before it is stored */
+    payload: object;
+}
+
+/**
+ * Stored quarantine record, as returned by `GET /admin/quarantine/:id`.
+ */
+export interface QuarantineRecord {
+    /** `<vertical>:<record_id>`; a record is quarantined at most once */
+    quarantine_id: string;
+
+    /** Vertical the record belongs to, e.g. `members` */
+    vertical: string;
+
+    record_id: string;
+
+    reason: QuarantineReason;
+
+    errors: string[];
+
+    /** Redacted source record from the latest failure */
+    payload: object;
+
+    status: QuarantineStatus;
+
+    first_failed_at: string;
+    last_failed_at: string;
+
+    /** When a replay resolved the record */
+    resolved_at?: string;
+
+    /** Error from the last replay that failed */
+    replay_error?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Replay Contract                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Re-indexes quarantined records of one vertical from its source.
+ *
+ * @remarks
+ * Payloads are stored redacted, so a replay re-reads the record from the
+ * source of truth rather than indexing the stored payload.
+ */
+export interface QuarantineReplayer {
+    /**
+     * Re-reads and indexes one record.
+     *
+     * @returns `indexed`, or `gone` if the record no longer exists at the source
+     * @throws Error if the record still fails
+     */
+    replay(recordId: string): Promise<'indexed' | 'gone'>;
+}
+
+/**
+ * Outcome of replaying one quarantined record.
+ */
+export interface ReplayResult {
+    quarantine_id: string;
+    status: QuarantineStatus;
+
+    /** Why the replay failed; the record stays quarantined */
+    error?: string;
+}
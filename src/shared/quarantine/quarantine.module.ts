@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Shared Quarantine Module
+ *
+ * Dead-letter store for records that failed validation or indexing.
+ */
+
+import { Module } from '@nestjs/common';
+import { SharedOpenSearchModule } from '../opensearch';
+import { SharedRedactionModule } from '../redaction';
+import { QuarantineController } from './quarantine.controller';
+import { QuarantineService } from './quarantine.service';
+
+@Module({
+    imports: [SharedOpenSearchModule, SharedRedactionModule],
+    controllers: [QuarantineController],
+    providers: [QuarantineService],
+    exports: [QuarantineService],
+})
+export class SharedQuarantineModule { }
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Quarantine Service Tests
+ */
+
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { RedactionService } from '../redaction';
+import { QuarantineRecord } from './quarantine.interface';
+import { QuarantineService } from './quarantine.service';
+
+describe('QuarantineService', () => {
+    let service: QuarantineService;
+    let client: any;
+    let stored: Map<string, QuarantineRecord>;
+
+    const record = (overrides: Partial<QuarantineRecord> = {}): QuarantineRecord => ({
+        quarantine_id: 'members:mem-001',
+        vertical: 'members',
+        record_id: 'mem-001',
+        reason: 'validation',
+        errors: ['email: Invalid email format'],
+        payload: {},
+        status: 'quarantined',
+        first_failed_at: '2024-06-01T00:00:00.000Z',
+        last_failed_at: '2024-06-01T00:00:00.000Z',
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        stored = new Map();
+        client = {
+            bulk: jest.fn().mockResolvedValue({ body: { errors: false } }),
+            search: jest.fn().mockResolvedValue({ body: { hits: { hits: [], total: { value: 0 } } } }),
+            get: jest.fn(async ({ id }) => {
+                if (!stored.has(id)) throw { statusCode: 404 };
+                return { body: { _source: { ...stored.get(id) } } };
+            }),
+            update: jest.fn(async ({ id, body }) => {
+                stored.set(id, { ...stored.get(id)!, ...body.doc });
+                return { body: {} };
+            }),
+        };
+        service = new QuarantineService(
+            { getClient: () => client, ensureIndex: jest.fn().mockResolvedValue(undefined) } as any,
+            new RedactionService(),
+        );
+    });
+
+    describe('quarantine', () => {
+        it('should upsert one record per source record with a redacted payload', async () => {
+            await service.quarantine('members', [{
+                recordId: 'mem-001',
+                reason: 'validation',
+                errors: ['fname: fname is required'],
+                payload: { member_id: 'mem-001', email: 'jane@example.com', status_notes: ['Call 555-123-4567'] },
+            }]);
+
+            const [action, update] = client.bulk.mock.calls[0][0].body;
+            expect(action).toEqual({ update: { _index: 'index_quarantine', _id: 'members:mem-001' } });
+            expect(update.doc.payload).toEqual({
+                member_id: 'mem-001',
+                email: '[EMAIL-REDACTED]',
+                status_notes: ['Call [PHONE-REDACTED]'],
+            });
+            expect(update.doc.status).toBe('quarantined');
+            expect(update.upsert).toEqual(expect.objectContaining({
+                vertical: 'members',
+                record_id: 'mem-001',
+                first_failed_at: expect.any(String),
+            }));
+        });
+
+        it('should redact errors that quote the rejected value', async () => {
+            await service.quarantine('members', [{
+                recordId: 'mem-001',
+                reason: 'indexing',
+                errors: ['mapper_parsing_exception: failed to parse field [phone] with value [555-123-4567]'],
+                payload: {},
+            }]);
+
+            const [, update] = client.bulk.mock.calls[0][0].body;
+            expect(update.doc.errors).toEqual(['mapper_parsing_exception: failed to parse field [phone] with value [[PHONE-REDACTED]]']);
+            expect(update.upsert.errors).toEqual(update.doc.errors);
+        });
+
+        it('should not fail the caller when the quarantine is unavailable', async () => {
+            client.bulk.mockRejectedValueOnce(new Error('connection refused'));
+
+            await expect(service.quarantine('members', [{
+                recordId: 'mem-001',
+                reason: 'indexing',
+                errors: [],
+                payload: {},
+            }])).resolves.toBe(0);
+        });
+
+        it('should skip the write when nothing failed', async () => {
+            await service.quarantine('members', []);
+
+            expect(client.bulk).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('list', () => {
+        it('should filter on status, vertical and reason', async () => {
+            await service.list({ vertical: 'locations', reason: 'indexing' }, 10, 20);
+
+            expect(client.search.mock.calls[0][0].body).toEqual(expect.objectContaining({
+                query: {
+                    bool: {
+                        filter: [
+                            { term: { status: 'quarantined' } },
+                            { term: { vertical: 'locations' } },
+                            { term: { reason: 'indexing' } },
+                        ],
+                    },
+                },
+                from: 20,
+                size: 10,
+            }));
+        });
+    });
+
+    describe('replay', () => {
+        let replayer: { replay: jest.Mock };
+
+        beforeEach(() => {
+            replayer = { replay: jest.fn().mockResolvedValue('indexed') };
+            service.registerReplayer('members', replayer);
+            stored.set('members:mem-001', record());
+        });
+
+        it('should re-index the record through its vertical and resolve it', async () => {
+            const result = await service.replay('members:mem-001');
+
+            expect(replayer.replay).toHaveBeenCalledWith('mem-001');
+            expect(result).toEqual({ quarantine_id: 'members:mem-001', status: 'replayed' });
+            expect(stored.get('members:mem-001')!.resolved_at).toEqual(expect.any(String));
+        });
+
+        it('should discard records gone from the source', async () => {
+            replayer.replay.mockResolvedValueOnce('gone');
+
+            await expect(service.replay('members:mem-001'))
+                .resolves.toEqual(expect.objectContaining({ status: 'discarded' }));
+        });
+
+        it('should keep records that still fail quarantined with the error', async () => {
+            replayer.replay.mockRejectedValueOnce(new Error('Validation failed: email: Invalid email format'));
+
+            const result = await service.replay('members:mem-001');
+
+            expect(result.status).toBe('quarantined');
+            expect(result.error).toContain('Invalid email format');
+            expect(stored.get('members:mem-001')!.replay_error).toContain('Invalid email format');
+        });
+
+        it('should refuse records already resolved', async () => {
+            stored.set('members:mem-001', record({ status: 'replayed' }));
+
+            await expect(service.replay('members:mem-001')).rejects.toBeInstanceOf(ConflictException);
+        });
+
+        it('should 404 for unknown records', async () => {
+            await expect(service.replay('members:nope')).rejects.toBeInstanceOf(NotFoundException);
+        });
+
+        it('should replay every quarantined record matching a filter', async () => {
+            stored.set('members:mem-002', record({ quarantine_id: 'members:mem-002', record_id: 'mem-002' }));
+            client.search.mockResolvedValueOnce({
+                body: {
+                    hits: {
+                        hits: [{ _source: stored.get('members:mem-001') }, { _source: stored.get('members:mem-002') }],
+                        total: { value: 2 },
+                    },
+                },
+            });
+            replayer.replay.mockResolvedValueOnce('indexed').mockRejectedValueOnce(new Error('still invalid'));
+
+            const result = await service.replayAll({ vertical: 'members' });
+
+            expect(result).toEqual(expect.objectContaining({ replayed: 1, discarded: 0, failed: 1 }));
+        });
+    });
+});
@@ -0,0 +1,334 @@
+/**
+ * @fileoverview Quarantine Service
+ *
+ * Dead-letter store for source records that failed validation or were
+ * rejected by OpenSearch, so they can be inspected and replayed once the
+ * data is fixed instead of only being logged.
+ *
+ * @remarks
+ * Records are stored in the `index_quarantine` OpenSearch index, one per
+ * `<vertical>:<record_id>`: a record that fails again updates its entry
+ * (errors, payload, last_failed_at) and is marked quarantined again.
+ *
+ * Payloads, errors and replay errors go through the RedactionService before
+ * they are stored (errors can quote the offending value), so the quarantine
+ * never holds more PII than the search indices. For the same
+ * reason a replay re-reads the record from the source through the
+ * vertical's registered QuarantineReplayer.
+ *
+ * A quarantined record that is later indexed by the normal sync path stays
+ * listed until it is replayed; the replay then resolves it.
+ */
+
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { OpenSearchProvider } from '../opensearch';
+import { RedactionService } from '../redaction';
+import {
+    QuarantineEntry,
+    QuarantineReason,
+    QuarantineRecord,
+    QuarantineReplayer,
+    QuarantineStatus,
+    ReplayResult,
+} from './quarantine.interface';
+
+/* -------------------------------------------------------------------------- */
+/*                              Prometheus Metrics                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Counter for quarantined records, labeled by vertical and reason.
+ */
+const quarantineCounter = new Counter({
+    name: 'search_quarantined_records_total',
+    help: 'Total number of source records quarantined',
+    labelNames: ['vertical', 'reason'],
+});
+
+/* -------------------------------------------------------------------------- */
+/*                              Index Mappings                                 */
+/* -------------------------------------------------------------------------- */
+
+const QUARANTINE_INDEX_MAPPINGS = {
+    properties: {
+        quarantine_id: { type: 'keyword' },
+        vertical: { type: 'keyword' },
+        record_id: { type: 'keyword' },
+        reason: { type: 'keyword' },
+        status: { type: 'keyword' },
+        errors: { type: 'text' },
+        first_failed_at: { type: 'date' },
+        last_failed_at: { type: 'date' },
+        resolved_at: { type: 'date' },
+        // Source shapes differ per vertical; stored, not searched
+        payload: { type: 'object', enabled: false },
+    },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Filters for listing and bulk replay.
+ */
+export interface QuarantineFilter {
+    vertical?: string;
+    reason?: QuarantineReason;
+
+    /** Default: quarantined */
+    status?: QuarantineStatus;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Service Implementation                         */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class QuarantineService {
+    private readonly logger = new Logger(QuarantineService.name);
+
+    /** OpenSearch index holding quarantined records */
+    private readonly INDEX_NAME = 'index_quarantine';
+
+    private readonly replayers = new Map<string, QuarantineReplayer>();
+
+    /** Set once the quarantine index is known to exist */
+    private indexReady = false;
+
+    constructor(
+        private opensearchProvider: OpenSearchProvider,
+        private redactionService: RedactionService,
+    ) { }
+
+    /**
+     * Registers the replayer for a vertical's records.
+     */
+    registerReplayer(vertical: string, replayer: QuarantineReplayer): void {
+        this.replayers.set(vertical, replayer);
+    }
+
+    /**
+     * Stores failed records with their redacted payload.
+     *
+     * @param vertical - Vertical the records belong to, e.g. `members`
+     * @param entries - Failed records
+     * @returns Records stored; 0 if they could not be stored
+     *
+     * @remarks
+     * Never throws: a quarantine outage must not fail the indexing that
+     * reported the records. Records that cannot be stored are logged.
+     */
+    async quarantine(vertical: string, entries: QuarantineEntry[]): Promise<number> {
+        if (entries.length === 0) return 0;
+
+        const now = new Date().toISOString();
+        const operations = entries.flatMap((entry) => {
+            const doc = {
+                reason: entry.reason,
+                errors: entry.errors.map((error) => this.redactionService.redact(error)),
+                payload: this.redactPayload(entry.payload),
+                status: 'quarantined' as QuarantineStatus,
+                last_failed_at: now,
+                replay_error: null,
+            };
+            const quarantineId = this.quarantineId(vertical, entry.recordId);
+            return [
+                { update: { _index: this.INDEX_NAME, _id: quarantineId } },
+                {
+                    doc,
+                    upsert: {
+                        ...doc,
+                        quarantine_id: quarantineId,
+                        vertical,
+                        record_id: entry.recordId,
+                        first_failed_at: now,
+                    },
+                },
+            ];
+        });
+
+        try {
+            await this.ensureIndex();
+            const response = await this.opensearchProvider.getClient().bulk({ body: operations, refresh: true });
+            if (response.body.errors) {
+                throw new Error('Some quarantine writes were rejected');
+            }
+
+            entries.forEach((entry) => quarantineCounter.inc({ vertical, reason: entry.reason }));
+            this.logger.warn({
+                msg: 'Records quarantined',
+                vertical,
+                record_ids: entries.map((e) => e.recordId),
+            });
+            return entries.length;
+        } catch (error) {
+            this.logger.error({
+                msg: 'Failed to quarantine records',
+                vertical,
+                record_ids: entries.map((e) => e.recordId),
+                error,
+            });
+            return 0;
+        }
+    }
+
+    /**
+     * Lists quarantine records, most recently failed first.
+     *
+     * @param filter - Vertical, reason and status (default: quarantined)
+     * @param limit - Page size
+     * @param offset - Records to skip
+     */
+    async list(
+        filter: QuarantineFilter,
+        limit = 50,
+        offset = 0,
+    ): Promise<{ records: QuarantineRecord[]; total: number }> {
+        await this.ensureIndex();
+
+        const response = await this.opensearchProvider.getClient().search({
+            index: this.INDEX_NAME,
+            body: {
+                query: { bool: { filter: this.buildFilter(filter) } },
+                sort: [{ last_failed_at: 'desc' }],
+                from: offset,
+                size: limit,
+                track_total_hits: true,
+            },
+        });
+
+        return {
+            records: response.body.hits.hits.map((hit: { _source: QuarantineRecord }) => hit._source),
+            total: response.body.hits.total.value,
+        };
+    }
+
+    /**
+     * Returns one quarantine record.
+     *
+     * @throws NotFoundException if the record does not exist
+     */
+    async get(quarantineId: string): Promise<QuarantineRecord> {
+        try {
+            const response = await this.opensearchProvider.getClient().get({
+                index: this.INDEX_NAME,
+                id: quarantineId,
+            });
+            return response.body._source as QuarantineRecord;
+        } catch (error: unknown) {
+            if ((error as { statusCode?: number }).statusCode === 404) {
+                throw new NotFoundException(`Quarantine record ${quarantineId} not found`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Re-reads a quarantined record from its source and indexes it.
+     *
+     * @returns The record's new status, with the error if it still fails
+     * @throws NotFoundException if the record does not exist
+     * @throws ConflictException if the record was already resolved
+     */
+    async replay(quarantineId: string): Promise<ReplayResult> {
+        const record = await this.get(quarantineId);
+        if (record.status !== 'quarantined') {
+            throw new ConflictException(`Quarantine record ${quarantineId} is already ${record.status}`);
+        }
+
+        const replayer = this.replayers.get(record.vertical);
+        if (!replayer) {
+            throw new Error(`No replayer registered for vertical ${record.vertical}`);
+        }
+
+        try {
+            const outcome = await replayer.replay(record.record_id);
+            const status: QuarantineStatus = outcome === 'indexed' ? 'replayed' : 'discarded';
+            await this.update(quarantineId, { status, resolved_at: new Date().toISOString() });
+
+            this.logger.log({ msg: 'Quarantined record replayed', quarantineId, status });
+            return { quarantine_id: quarantineId, status };
+        } catch (error) {
+            const message = this.redactionService.redact(error instanceof Error ? error.message : String(error));
+            await this.update(quarantineId, { replay_error: message });
+
+            this.logger.warn({ msg: 'Quarantined record still fails', quarantineId, error: message });
+            return { quarantine_id: quarantineId, status: 'quarantined', error: message };
+        }
+    }
+
+    /**
+     * Replays quarantined records matching a filter, most recent failures first.
+     *
+     * @param filter - Vertical and reason; only quarantined records are replayed
+     * @param limit - Maximum records to replay
+     */
+    async replayAll(filter: QuarantineFilter, limit = 100): Promise<{
+        replayed: number;
+        discarded: number;
+        failed: number;
+        results: ReplayResult[];
+    }> {
+        const { records } = await this.list({ ...filter, status: 'quarantined' }, limit);
+
+        const results: ReplayResult[] = [];
+        for (const record of records) {
+            results.push(await this.replay(record.quarantine_id));
+        }
+
+        return {
+            replayed: results.filter((r) => r.status === 'replayed').length,
+            discarded: results.filter((r) => r.status === 'discarded').length,
+            failed: results.filter((r) => r.error).length,
+            results,
+        };
+    }
+
+    /* ---- Helpers ---- */
+
+    private quarantineId(vertical: string, recordId: string): string {
+        return `${vertical}:${recordId}`;
+    }
+
+    /**
+     * Redacts every string in a payload.
+     */
+    private redactPayload(payload: object): object {
+        const redact = (value: unknown): unknown => {
+            if (typeof value === 'string') return this.redactionService.redact(value);
+            if (Array.isArray(value)) return value.map(redact);
+            if (value && typeof value === 'object') {
+                return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v)]));
+            }
+            return value;
+        };
+
+        // Round-trip first so Dates and class instances become plain JSON
+        return redact(JSON.parse(JSON.stringify(payload))) as object;
+    }
+
+    private buildFilter(filter: QuarantineFilter): object[] {
+        return [
+            { term: { status: filter.status ?? 'quarantined' } },
+            ...(filter.vertical ? [{ term: { vertical: filter.vertical } }] : []),
+            ...(filter.reason ? [{ term: { reason: filter.reason } }] : []),
+        ];
+    }
+
+    private async update(quarantineId: string, doc: Partial<QuarantineRecord>): Promise<void> {
+        await this.opensearchProvider.getClient().update({
+            index: this.INDEX_NAME,
+            id: quarantineId,
+            body: { doc },
+            refresh: true,
+        });
+    }
+
+    private async ensureIndex(): Promise<void> {
+        if (this.indexReady) return;
+        await this.opensearchProvider.ensureIndex(this.INDEX_NAME, QUARANTINE_INDEX_MAPPINGS);
+        this.indexReady = true;
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Shared Rate Limit Barrel Export
+ */
+
+export * from './rate-limiter';
+export * from './rate-limit.guard';
+export * from './rate-limit.module';
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview RateLimitGuard Unit Tests
+ */
+
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimitGuard, RateLimitPolicy } from './rate-limit.guard';
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimitGuard', () => {
+    let guard: RateLimitGuard;
+    let reflector: Reflector;
+    let rateLimiter: RateLimiter;
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        rateLimiter = new RateLimiter();
+        guard = new RateLimitGuard(reflector, rateLimiter);
+    });
+
+    const createMockContext = (userId: string): ExecutionContext => ({
+        getHandler: jest.fn(),
+        getClass: jest.fn(),
+        switchToHttp: () => ({
+            getRequest: () => ({ user: { userId, roles: ['auditor'], tenantId: 't1', tenantType: 'internal' } }),
+        }),
+    } as unknown as ExecutionContext);
+
+    const withPolicy = (policy?: RateLimitPolicy) =>
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(policy);
+
+    it('should allow handlers without a policy', () => {
+        withPolicy(undefined);
+        expect(guard.canActivate(createMockContext('u1'))).toBe(true);
+    });
+
+    it('should reject requests beyond the per-minute budget', () => {
+        withPolicy({ scope: 'suggest', requestsPerMinute: 2 });
+        const context = createMockContext('u1');
+
+        guard.canActivate(context);
+        guard.canActivate(context);
+
+        expect(() => guard.canActivate(context)).toThrow('Rate limit exceeded');
+    });
+
+    it('should keep separate budgets per user', () => {
+        withPolicy({ scope: 'suggest', requestsPerMinute: 1 });
+
+        guard.canActivate(createMockContext('u1'));
+
+        expect(guard.canActivate(createMockContext('u2'))).toBe(true);
+    });
+
+    it('should keep separate budgets per scope', () => {
+        const spy = withPolicy({ scope: 'suggest', requestsPerMinute: 1 });
+        guard.canActivate(createMockContext('u1'));
+
+        spy.mockReturnValue({ scope: 'search', requestsPerMinute: 1 });
+
+        expect(guard.canActivate(createMockContext('u1'))).toBe(true);
+    });
+
+    it('should share a scope\'s budget across guard instances', () => {
+        withPolicy({ scope: 'suggest', requestsPerMinute: 1 });
+        const otherModuleGuard = new RateLimitGuard(reflector, rateLimiter);
+
+        guard.canActivate(createMockContext('u1'));
+
+        expect(() => otherModuleGuard.canActivate(createMockContext('u1'))).toThrow('Rate limit exceeded');
+    });
+
+    it('should reset the budget after a minute', () => {
+        jest.useFakeTimers();
+        withPolicy({ scope: 'suggest', requestsPerMinute: 1 });
+        const context = createMockContext('u1');
+
+        guard.canActivate(context);
+        jest.advanceTimersByTime(60_000);
+
+        expect(guard.canActivate(context)).toBe(true);
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Per-User Rate Limit Guard
+ *
+ * NestJS guard that limits how often a user may call an endpoint.
+ * Works with the @RateLimit() decorator, which names a scope and its budget.
+ *
+ * @remarks
+ * Requests are counted by the shared RateLimiter, in a one-minute window per
+ * user and scope: a burst on one scope (e.g. type-ahead suggestions) never
+ * consumes another scope's budget, and handlers sharing a scope share one
+ * budget even across modules. Windows are kept in memory per instance; run
+ * behind sticky sessions or accept per-instance limits when horizontally
+ * scaled.
+ *
+ * Modules using the guard must import SharedRateLimitModule.
+ *
+ * Must run after authentication so `request.user` is populated.
+ *
+ * @example
+ * ```typescript
+ * @RateLimit('suggest', 120)
+ * @UseGuards(AuthGuard('jwt'), RateLimitGuard)
+ * async suggest() { ... }
+ * ```
+ */
+
+import { Injectable, CanActivate, ExecutionContext, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedUser } from '../auth';
+import { RateLimiter } from './rate-limiter';
+
+/* -------------------------------------------------------------------------- */
+/*                              Decorator & Metadata                           */
+/* -------------------------------------------------------------------------- */
+
+/** Metadata key for storing the rate limit policy */
+export const RATE_LIMIT_KEY = 'rate_limit';
+
+/**
+ * Rate limit policy attached to a handler.
+ */
+export interface RateLimitPolicy {
+    /** Budget name; handlers sharing a scope share a budget */
+    scope: string;
+
+    /** Requests allowed per user per minute */
+    requestsPerMinute: number;
+}
+
+/**
+ * Decorator to rate-limit a handler per user.
+ *
+ * @param scope - Budget name
+ * @param requestsPerMinute - Requests allowed per user per minute
+ */
+export const RateLimit = (scope: string, requestsPerMinute: number) =>
+    SetMetadata(RATE_LIMIT_KEY, { scope, requestsPerMinute } as RateLimitPolicy);
+
+/* -------------------------------------------------------------------------- */
+/*                              Guard Implementation                           */
+/* -------------------------------------------------------------------------- */
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+    constructor(
+        private reflector: Reflector,
+        private rateLimiter: RateLimiter,
+    ) { }
+
+    /**
+     * Counts the request against the user's window for the handler's scope.
+     *
+     * @throws HttpException 429 when the window's budget is spent
+     *
+     * @remarks
+     * Handlers without @RateLimit() are not limited.
+     */
+    canActivate(context: ExecutionContext): boolean {
+        const policy = this.reflector.getAllAndOverride<RateLimitPolicy>(RATE_LIMIT_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (!policy) {
+            return true;
+        }
+
+        const user: AuthenticatedUser | undefined = context.switchToHttp().getRequest().user;
+        this.rateLimiter.checkAndIncrement(user?.userId ?? 'anonymous', policy.scope, {
+            requestsPerMinute: policy.requestsPerMinute,
+        });
+        return true;
+    }
+}
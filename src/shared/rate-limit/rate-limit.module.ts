@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Shared Rate Limit Module
+ *
+ * The one RateLimiter instance behind the agent guardrails and RateLimitGuard.
+ */
+
+import { Module } from '@nestjs/common';
+import { RateLimiter } from './rate-limiter';
+
+@Module({
+    providers: [RateLimiter],
+    exports: [RateLimiter],
+})
+export class SharedRateLimitModule { }
@@ -61,6 +61,15 @@ describe('RateLimiter', () => {
             expect(limiter.getUsage('user1')!.minute).toBe(1);
             expect(limiter.getUsage('user2')!.minute).toBe(1);
         });
+
+        it('should count scopes against their own budgets', () => {
+            const budget = { requestsPerMinute: 1 };
+            limiter.checkAndIncrement('user1', 'suggest', budget);
+
+            expect(() => limiter.checkAndIncrement('user1', 'suggest', budget)).toThrow('Max 1 suggest requests per minute');
+            expect(() => limiter.checkAndIncrement('user1')).not.toThrow();
+            expect(limiter.getUsage('user1', 'suggest')!.concurrent).toBe(0);
+        });
     });
 
     describe('complete', () => {
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Rate Limiter
+ *
+ * Per-user rate limiting, with a separate budget per scope.
+ *
+ * @remarks
+ * One instance is shared through SharedRateLimitModule: the agent
+ * guardrails count analyses in the `agent` scope, and RateLimitGuard
+ * counts each @RateLimit() scope, so handlers sharing a scope share a
+ * budget across modules. Windows are kept in memory per instance.
+ */
+
+import { Injectable, Logger, HttpException, HttpStatus, OnModuleDestroy } from '@nestjs/common';
+
+/**
+ * Limits for one scope. Hourly and concurrent limits are optional.
+ */
+export interface RateLimitBudget {
+    requestsPerMinute: number;
+    requestsPerHour?: number;
+
+    /** Requires complete() once each request finishes */
+    maxConcurrent?: number;
+}
+
+/**
+ * User request window.
+ */
+interface UserWindow {
+    minuteCount: number;
+    hourCount: number;
+    concurrent: number;
+    minuteReset: number;
+    hourReset: number;
+}
+
+/** Scope and budget of agent analyses */
+const AGENT_SCOPE = 'agent';
+
+const DEFAULT_BUDGET: RateLimitBudget = {
+    requestsPerMinute: 10,
+    requestsPerHour: 100,
+    maxConcurrent: 5,
+};
+
+@Injectable()
+export class RateLimiter implements OnModuleDestroy {
+    private readonly logger = new Logger(RateLimiter.name);
+    private readonly userWindows = new Map<string, UserWindow>();
+    private readonly timer: NodeJS.Timeout;
+
+    constructor() {
+        // Cleanup old windows every 5 minutes
+        this.timer = setInterval(() => this.cleanup(), 5 * 60 * 1000);
+        // Never keep the process alive just for the cleanup
+        this.timer.unref();
+    }
+
+    onModuleDestroy(): void {
+        clearInterval(this.timer);
+    }
+
+    /**
+     * Checks if request is allowed and increments counters.
+     *
+     * @param scope - Budget name (default: agent analyses)
+     * @param budget - Limits for the scope (default: the agent budget)
+     */
+    checkAndIncrement(userId: string, scope = AGENT_SCOPE, budget: RateLimitBudget = DEFAULT_BUDGET): void {
+        const now = Date.now();
+        const key = this.key(userId, scope);
+        let window = this.userWindows.get(key);
+
+        if (!window) {
+            window = {
+                minuteCount: 0,
+                hourCount: 0,
+                concurrent: 0,
+                minuteReset: now + 60_000,
+                hourReset: now + 3_600_000,
+            };
+            this.userWindows.set(key, window);
+        }
+
+        // Reset windows if expired
+        if (now >= window.minuteReset) {
+            window.minuteCount = 0;
+            window.minuteReset = now + 60_000;
+        }
+        if (now >= window.hourReset) {
+            window.hourCount = 0;
+            window.hourReset = now + 3_600_000;
+        }
+
+        const label = scope === AGENT_SCOPE ? '' : `${scope} `;
+
+        // Check limits
+        if (window.minuteCount >= budget.requestsPerMinute) {
+            this.logger.warn({ msg: 'Rate limit exceeded (minute)', scope, userId });
+            throw new HttpException(
+                `Rate limit exceeded. Max ${budget.requestsPerMinute} ${label}requests per minute.`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+
+        if (budget.requestsPerHour !== undefined && window.hourCount >= budget.requestsPerHour) {
+            this.logger.warn({ msg: 'Rate limit exceeded (hour)', scope, userId });
+            throw new HttpException(
+                `Rate limit exceeded. Max ${budget.requestsPerHour} ${label}requests per hour.`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+
+        if (budget.maxConcurrent !== undefined && window.concurrent >= budget.maxConcurrent) {
+            this.logger.warn({ msg: 'Concurrent limit exceeded', scope, userId });
+            throw new HttpException(
+                `Too many concurrent requests. Max ${budget.maxConcurrent}.`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+
+        // Increment
+        window.minuteCount++;
+        window.hourCount++;
+        if (budget.maxConcurrent !== undefined) {
+            window.concurrent++;
+        }
+    }
+
+    /**
+     * Decrements concurrent counter after request completes.
+     */
+    complete(userId: string, scope = AGENT_SCOPE): void {
+        const window = this.userWindows.get(this.key(userId, scope));
+        if (window && window.concurrent > 0) {
+            window.concurrent--;
+        }
+    }
+
+    /**
+     * Cleans up old windows.
+     */
+    private cleanup(): void {
+        const now = Date.now();
+        for (const [key, window] of this.userWindows.entries()) {
+            if (now > window.hourReset && window.concurrent === 0) {
+                this.userWindows.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Gets current usage for a user (for metrics/debugging).
+     */
+    getUsage(userId: string, scope = AGENT_SCOPE): { minute: number; hour: number; concurrent: number } | null {
+        const window = this.userWindows.get(this.key(userId, scope));
+        if (!window) return null;
+        return {
+            minute: window.minuteCount,
+            hour: window.hourCount,
+            concurrent: window.concurrent,
+        };
+    }
+
+    private key(userId: string, scope: string): string {
+        return `${scope}:${userId}`;
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Shared Suggest Barrel Export
+ */
+
+export * from './suggest';
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Search-As-You-Type Utility Tests
+ */
+
+import { buildPrefixQuery, clampSuggestLimit, normalizePrefix } from './suggest';
+
+describe('Search-As-You-Type Utilities', () => {
+    describe('normalizePrefix', () => {
+        it('should trim the prefix', () => {
+            expect(normalizePrefix('  smi ')).toBe('smi');
+        });
+
+        it('should reject blank prefixes', () => {
+            expect(() => normalizePrefix(undefined)).toThrow('"prefix" is required');
+            expect(() => normalizePrefix('   ')).toThrow('"prefix" is required');
+        });
+
+        it('should reject overly long prefixes', () => {
+            expect(() => normalizePrefix('x'.repeat(51))).toThrow('at most 50 characters');
+        });
+    });
+
+    describe('clampSuggestLimit', () => {
+        it('should default to 10 and cap at 20', () => {
+            expect(clampSuggestLimit()).toBe(10);
+            expect(clampSuggestLimit(500)).toBe(20);
+            expect(clampSuggestLimit(0)).toBe(10);
+        });
+    });
+
+    describe('buildPrefixQuery', () => {
+        it('should query the field and its shingle sub-fields', () => {
+            expect(buildPrefixQuery('lname_suggest', 'smi')).toEqual({
+                multi_match: {
+                    query: 'smi',
+                    type: 'bool_prefix',
+                    fields: ['lname_suggest', 'lname_suggest._2gram', 'lname_suggest._3gram'],
+                },
+            });
+        });
+    });
+});
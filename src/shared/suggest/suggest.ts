@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Search-As-You-Type Utilities
+ *
+ * Prefix query and input handling for type-ahead suggestion endpoints.
+ * Shared by every vertical so suggest endpoints behave the same.
+ *
+ * @remarks
+ * Suggest fields are mapped as `search_as_you_type`, which indexes the
+ * field plus `._2gram`/`._3gram` shingles and an edge-ngram `._index_prefix`.
+ * A `bool_prefix` multi_match over those sub-fields matches partial words
+ * without a custom analyzer. Unlike the completion suggester, it is an
+ * ordinary query, so tenant filters apply exactly as they do for search.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+
+/* -------------------------------------------------------------------------- */
+/*                              Configuration                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Suggestions returned when the caller does not provide a limit */
+export const DEFAULT_SUGGEST_LIMIT = 10;
+
+/** Upper bound on suggestions per request */
+export const MAX_SUGGEST_LIMIT = 20;
+
+/** Longest accepted prefix */
+export const MAX_SUGGEST_PREFIX_LENGTH = 50;
+
+/** Per-user budget for suggest endpoints, separate from full search */
+export const SUGGEST_REQUESTS_PER_MINUTE = 120;
+
+/* -------------------------------------------------------------------------- */
+/*                              Suggest Helpers                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Trims and validates a type-ahead prefix.
+ *
+ * @throws BadRequestException if the prefix is blank or too long
+ */
+export function normalizePrefix(prefix: string | undefined): string {
+    const trimmed = prefix?.trim() ?? '';
+
+    if (trimmed.length === 0) {
+        throw new BadRequestException('Query parameter "prefix" is required');
+    }
+    if (trimmed.length > MAX_SUGGEST_PREFIX_LENGTH) {
+        throw new BadRequestException(`Prefix must be at most ${MAX_SUGGEST_PREFIX_LENGTH} characters`);
+    }
+
+    return trimmed;
+}
+
+/**
+ * Clamps a requested suggestion count to [1, MAX_SUGGEST_LIMIT].
+ */
+export function clampSuggestLimit(limit?: number): number {
+    if (!limit || Number.isNaN(limit)) return DEFAULT_SUGGEST_LIMIT;
+    return Math.min(Math.max(Math.floor(limit), 1), MAX_SUGGEST_LIMIT);
+}
+
+/**
+ * Builds a prefix query over a `search_as_you_type` field.
+ */
+export function buildPrefixQuery(field: string, prefix: string): Record<string, unknown> {
+    return {
+        multi_match: {
+            query: prefix,
+            type: 'bool_prefix',
+            fields: [field, `${field}._2gram`, `${field}._3gram`],
+        },
+    };
+}
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Shared Tenancy Barrel Export
+ */
+
+export * from './tenant-scope';
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Tenant Scope Policy Tests
+ */
+
+import { TenantScope } from './tenant-scope';
+
+describe('TenantScope', () => {
+    const scope = new TenantScope('tenant_id');
+    const query = { match: { lname: 'doe' } };
+
+    const internalUser = { userId: 'u1', roles: ['auditor'], tenantId: 'rcm-internal', tenantType: 'internal' as const };
+    const externalUser = { userId: 'u2', roles: ['admin'], tenantId: 'loc-001', tenantType: 'external' as const };
+
+    describe('apply', () => {
+        it('should leave queries unchanged for internal users', () => {
+            expect(scope.apply(query, internalUser)).toBe(query);
+        });
+
+        it('should filter on the tenant field for external users', () => {
+            expect(scope.apply(query, externalUser)).toEqual({
+                bool: { must: [query], filter: [{ term: { tenant_id: 'loc-001' } }] },
+            });
+        });
+    });
+
+    describe('findOne', () => {
+        const clientReturning = (hits: unknown[]) => ({
+            search: jest.fn().mockResolvedValue({ body: { hits: { hits } } }),
+        });
+
+        it('should read by ID through the tenant filter', async () => {
+            const client = clientReturning([{ _source: { member_id: 'mem-001' } }]);
+
+            const doc = await scope.findOne(
+                client as any,
+                { index: 'members', idField: 'member_id', id: 'mem-001', source: ['member_id'] },
+                externalUser,
+            );
+
+            expect(client.search).toHaveBeenCalledWith({
+                index: 'members',
+                body: {
+                    query: {
+                        bool: {
+                            must: [{ term: { member_id: 'mem-001' } }],
+                            filter: [{ term: { tenant_id: 'loc-001' } }],
+                        },
+                    },
+                    _source: ['member_id'],
+                    size: 1,
+                },
+            });
+            expect(doc).toEqual({ member_id: 'mem-001' });
+        });
+
+        it('should return null when no document is visible', async () => {
+            const client = clientReturning([]);
+
+            const doc = await scope.findOne(
+                client as any,
+                { index: 'members', idField: 'member_id', id: 'mem-002' },
+                externalUser,
+            );
+
+            expect(doc).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Tenant Scope Policy
+ *
+ * Single place where external-tenant isolation is applied to OpenSearch
+ * reads. Each vertical declares which document field identifies the owning
+ * tenant; every query and single-document read goes through that scope.
+ *
+ * @remarks
+ * Internal users are never restricted. External users only match documents
+ * whose tenant field equals their `tenantId`. Single-document reads use a
+ * tenant-filtered query instead of a plain document get, so a document in
+ * another tenant is indistinguishable from a missing one.
+ */
+
+import { Client } from '@opensearch-project/opensearch';
+import { AuthenticatedUser } from '../auth';
+
+/* -------------------------------------------------------------------------- */
+/*                              Type Definitions                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parameters for a tenant-scoped single-document read.
+ */
+export interface ScopedReadParams {
+    /** Index to read from */
+    index: string;
+
+    /** Keyword field holding the document ID, e.g. member_id */
+    idField: string;
+
+    /** Document ID to look up */
+    id: string;
+
+    /** `_source` filter: field list, or includes/excludes */
+    source?: string[] | { includes?: string[]; excludes?: string[] };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Policy Implementation                          */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Tenant isolation policy for one index.
+ *
+ * @example
+ * const MEMBER_TENANT_SCOPE = new TenantScope('tenant_id');
+ * const query = MEMBER_TENANT_SCOPE.apply(userQuery, user);
+ */
+export class TenantScope {
+    /**
+     * @param tenantField - Keyword field holding the owning tenant's ID
+     */
+    constructor(readonly tenantField: string) { }
+
+    /**
+     * Restricts a query to the caller's tenant for external users.
+     *
+     * @param query - Query built from the request
+     * @param user - Authenticated user for tenant context
+     * @returns The query unchanged for internal users, otherwise wrapped
+     *          with a non-scoring tenant filter
+     */
+    apply(query: Record<string, unknown>, user: AuthenticatedUser): Record<string, unknown> {
+        if (user.tenantType !== 'external') {
+            return query;
+        }
+
+        return {
+            bool: {
+                must: [query],
+                filter: [{ term: { [this.tenantField]: user.tenantId } }],
+            },
+        };
+    }
+
+    /**
+     * Reads one document by ID within the caller's tenant.
+     *
+     * @param client - OpenSearch client
+     * @param params - Index, ID field, ID and source filter
+     * @param user - Authenticated user for tenant context
+     * @returns The document's source, or null if it does not exist or
+     *          belongs to another tenant
+     */
+    async findOne<T>(client: Client, params: ScopedReadParams, user: AuthenticatedUser): Promise<T | null> {
+        const response = await client.search({
+            index: params.index,
+            body: {
+                query: this.apply({ term: { [params.idField]: params.id } }, user),
+                ...(params.source && { _source: params.source }),
+                size: 1,
+            },
+        });
+
+        const hit = (response.body.hits.hits as Array<{ _source: T }>)[0];
+        return hit ? hit._source : null;
+    }
+}
@@ -61,12 +61,12 @@ describe('Full Stack E2E Test: Members → Locations → Agent', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
-            console.log(`[Members] Retrieved ${response.body.length} members`);
+            expect(Array.isArray(response.body.results)).toBe(true);
+            console.log(`[Members] Retrieved ${response.body.results.length} members`);
 
             // Store for later assertions
-            if (response.body.length > 0) {
-                const sample = response.body[0];
+            if (response.body.results.length > 0) {
+                const sample = response.body.results[0];
                 expect(sample).toHaveProperty('member_id');
             }
         });
@@ -77,7 +77,7 @@ describe('Full Stack E2E Test: Members → Locations → Agent', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
+            expect(Array.isArray(response.body.results)).toBe(true);
         });
     });
 
@@ -88,11 +88,11 @@ describe('Full Stack E2E Test: Members → Locations → Agent', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
-            console.log(`[Locations] Retrieved ${response.body.length} locations`);
+            expect(Array.isArray(response.body.results)).toBe(true);
+            console.log(`[Locations] Retrieved ${response.body.results.length} locations`);
 
-            if (response.body.length > 0) {
-                const sample = response.body[0];
+            if (response.body.results.length > 0) {
+                const sample = response.body.results[0];
                 expect(sample).toHaveProperty('location_id');
                 expect(sample).toHaveProperty('region');
                 expect(sample).toHaveProperty('rate_model');
@@ -105,8 +105,8 @@ describe('Full Stack E2E Test: Members → Locations → Agent', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
-            response.body.forEach((loc: { region: string }) => {
+            expect(Array.isArray(response.body.results)).toBe(true);
+            response.body.results.forEach((loc: { region: string }) => {
                 expect(loc.region).toBe('Southeast');
             });
         });
@@ -117,7 +117,7 @@ describe('Full Stack E2E Test: Members → Locations → Agent', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
+            expect(Array.isArray(response.body.results)).toBe(true);
         });
     });
 
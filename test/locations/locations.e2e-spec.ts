@@ -64,7 +64,7 @@ describe('Locations E2E Tests', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
+            expect(Array.isArray(response.body.results)).toBe(true);
         });
 
         it('should filter by region', async () => {
@@ -73,7 +73,7 @@ describe('Locations E2E Tests', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
+            expect(Array.isArray(response.body.results)).toBe(true);
         });
 
         it('should filter by rate_model', async () => {
@@ -82,7 +82,7 @@ describe('Locations E2E Tests', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
+            expect(Array.isArray(response.body.results)).toBe(true);
         });
 
         it('should support fuzzy search', async () => {
@@ -91,7 +91,72 @@ describe('Locations E2E Tests', () => {
                 .set('Authorization', `Bearer ${auditorToken}`)
                 .expect(200);
 
-            expect(Array.isArray(response.body)).toBe(true);
+            expect(Array.isArray(response.body.results)).toBe(true);
+        });
+
+        it('should page through results with the next link', async () => {
+            const first = await request(app.getHttpServer())
+                .get('/locations/search?limit=2')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+
+            expect(typeof first.body.total).toBe('number');
+            expect(first.body.results.length).toBeLessThanOrEqual(2);
+
+            if (!first.body.next) return;
+
+            const second = await request(app.getHttpServer())
+                .get(first.body.next)
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+
+            const firstIds = first.body.results.map((l: { location_id: string }) => l.location_id);
+            second.body.results.forEach((loc: { location_id: string }) => {
+                expect(firstIds).not.toContain(loc.location_id);
+            });
+        });
+
+        it('should reject a malformed cursor', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/search?cursor=garbage')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+
+        it('should return region facet counts', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/locations/search?facets=region')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+
+            const counted = res.body.facets.region
+                .reduce((sum: number, b: { count: number }) => sum + b.count, 0);
+            expect(counted).toBe(res.body.total);
+        });
+
+        it('should reject an unsupported facet', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/search?facets=coordinator_name')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+    });
+
+    describe('GET /locations/search/suggest', () => {
+        it('should suggest locations by name prefix', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/locations/search/suggest?prefix=down')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+
+            expect(Array.isArray(res.body.suggestions)).toBe(true);
+        });
+
+        it('should require a prefix', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/search/suggest')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
         });
     });
 
@@ -104,6 +169,75 @@ describe('Locations E2E Tests', () => {
         });
     });
 
+    describe('Status events', () => {
+        it('should filter by event type and date range', async () => {
+            const response = await request(app.getHttpServer())
+                .get('/locations/search?event_type=COORDINATOR_ASSIGNED&event_from=2025-10-01&event_to=2025-12-31')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+
+            response.body.results.forEach((loc: Record<string, unknown>) => {
+                expect(loc).not.toHaveProperty('status_events');
+            });
+        });
+
+        it('should reject an unparseable event date', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/search?event_from=last-quarter')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+
+        it('should require authentication for the timeline', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/GYM_101/timeline')
+                .expect(401);
+        });
+
+        it('should return 404 for another tenant\'s timeline', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/GYM_102/timeline')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(404);
+        });
+    });
+
+    describe('POST /locations/:id/payout-estimate', () => {
+        const body = {
+            period_start: '2025-11-01',
+            period_end: '2025-11-30',
+            activity: { enrollments: 10, visits: 400, conversions: 3, participants: 90, admin_enrollments: 4 },
+        };
+
+        it('should return an itemized payout', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/locations/GYM_101/payout-estimate')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .send(body)
+                .expect(200);
+
+            expect(response.body.location_id).toBe('GYM_101');
+            expect(response.body.line_items[0].code).toBe('base');
+            expect(typeof response.body.total).toBe('number');
+        });
+
+        it('should reject negative activity', async () => {
+            await request(app.getHttpServer())
+                .post('/locations/GYM_101/payout-estimate')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .send({ ...body, activity: { ...body.activity, visits: -1 } })
+                .expect(400);
+        });
+
+        it('should return 404 for another tenant\'s location', async () => {
+            await request(app.getHttpServer())
+                .post('/locations/GYM_102/payout-estimate')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .send(body)
+                .expect(404);
+        });
+    });
+
     describe('POST /admin/locations/reindex', () => {
         it('should require admin role', async () => {
             await request(app.getHttpServer())
@@ -112,19 +246,200 @@ describe('Locations E2E Tests', () => {
                 .expect(403);
         });
 
-        it('should allow admin to trigger reindex', async () => {
+        it('should start a reindex job and report its progress', async () => {
             const response = await request(app.getHttpServer())
                 .post('/admin/locations/reindex?batchSize=10')
                 .set('Authorization', `Bearer ${adminToken}`)
+                .expect(202);
+
+            expect(response.body.kind).toBe('locations-reindex');
+            expect(response.body.status).toBe('running');
+
+            const job = await request(app.getHttpServer())
+                .get(`/admin/jobs/${response.body.job_id}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .expect(200);
+
+            expect(job.body.progress).toHaveProperty('processed');
+        });
+
+        it('should require admin role to roll back', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations/reindex/rollback')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+
+        it('should refuse external admins a rollback', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations/reindex/rollback')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(403);
+        });
+
+        it('should require admin role to run a delta sync', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations/sync')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+
+        it('should refuse external admins a delta sync', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations/sync')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(403);
+        });
+
+        it('should require admin role to reconcile', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations/reconcile')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+
+        it('should refuse external admins a reconciliation', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations/reconcile?repair=true')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(403);
+        });
+
+        it('should roll back to the version the reindex replaced', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/admin/locations/reindex/rollback')
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            // 409 when the first reindex replaced a pre-alias index
+            expect([201, 409]).toContain(response.status);
+        });
+    });
+
+    describe('Admin location CRUD', () => {
+        const body = {
+            location_id: 'GYM_E2E',
+            metadata: { name: 'E2E Fitness', region: 'Southeast', market_segment: 'Premium' },
+            staffing: {
+                coordinator_id: 'COORD_E2E',
+                coordinator_name: 'Jordan Lee',
+                coordinator_tenure_days: 30,
+                last_manager_change_date: '2024-01-15',
+                org_path: 'rcm/southeast/e2e',
+            },
+            contract_logic: { rate_model: 'standard', base_rate: 15, conversion_bonus_enabled: false },
+            operational_rules: {
+                opening_hour: '06:00',
+                closing_hour: '22:00',
+                is_24_7: false,
+                max_capacity: 100,
+                guest_policy: 'One guest per visit',
+            },
+        };
+
+        it('should require admin role', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .send(body)
+                .expect(403);
+        });
+
+        it('should refuse external admins', async () => {
+            await request(app.getHttpServer())
+                .post('/admin/locations')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .send(body)
+                .expect(403);
+        });
+
+        it('should reject an invalid nested section', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/admin/locations')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ ...body, contract_logic: { ...body.contract_logic, rate_model: 'flat' } })
+                .expect(400);
+
+            expect(JSON.stringify(response.body.message)).toContain('rate_model');
+        });
+
+        it('should create, update and delete a location, keeping the index in step', async () => {
+            const server = app.getHttpServer();
+
+            const created = await request(server)
+                .post('/admin/locations')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send(body)
                 .expect(201);
+            expect(created.headers.etag).toBe('"1"');
+
+            await request(server)
+                .post('/admin/locations')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send(body)
+                .expect(409);
+
+            await request(server)
+                .patch('/admin/locations/GYM_E2E')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ metadata: { name: 'E2E Fitness Uptown' } })
+                .expect(428);
+
+            const patched = await request(server)
+                .patch('/admin/locations/GYM_E2E')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .set('If-Match', created.headers.etag)
+                .send({ metadata: { name: 'E2E Fitness Uptown' } })
+                .expect(200);
+            expect(patched.headers.etag).toBe('"2"');
+
+            // A second write based on the original version loses
+            await request(server)
+                .patch('/admin/locations/GYM_E2E')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .set('If-Match', created.headers.etag)
+                .send({ metadata: { name: 'Lost Update' } })
+                .expect(412);
+
+            const indexed = await request(server)
+                .get('/locations/search/GYM_E2E')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+            expect(indexed.body.name).toBe('E2E Fitness Uptown');
+
+            await request(server)
+                .delete('/admin/locations/GYM_E2E')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .set('If-Match', patched.headers.etag)
+                .expect(200);
 
-            expect(response.body).toHaveProperty('total');
-            expect(response.body).toHaveProperty('success');
-            expect(response.body).toHaveProperty('durationMs');
+            await request(server)
+                .get('/locations/search/GYM_E2E')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(404);
         });
     });
 
     describe('External tenant isolation', () => {
+        it('should return 404 when reading another tenant\'s location', async () => {
+            await request(app.getHttpServer())
+                .get('/locations/search/GYM_102')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(404);
+        });
+
+        it('should return the external user\'s own location', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/locations/search/GYM_101')
+                .set('Authorization', `Bearer ${externalAdminToken}`);
+
+            if (res.status === 200) {
+                expect(res.body.location_id).toBe('GYM_101');
+                expect(res.body).not.toHaveProperty('name_suggest');
+            } else {
+                expect(res.status).toBe(404);
+            }
+        });
+
         it('should filter locations for external users', async () => {
             const response = await request(app.getHttpServer())
                 .get('/locations/search')
@@ -132,7 +447,7 @@ describe('Locations E2E Tests', () => {
                 .expect(200);
 
             // External users should only see their own locations
-            response.body.forEach((loc: { location_id: string }) => {
+            response.body.results.forEach((loc: { location_id: string }) => {
                 expect(loc.location_id).toBe('GYM_101');
             });
         });
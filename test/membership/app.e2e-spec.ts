@@ -117,6 +117,72 @@ describe('MemberSearch E2E Tests', () => {
                     expect([401, 403]).not.toContain(res.status);
                 });
         });
+
+        it('POST /admin/reindex/rollback - should return 403 for non-admin role', () => {
+            return request(app.getHttpServer())
+                .post('/admin/reindex/rollback')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+
+        it('POST /admin/reconcile - should return 403 for non-admin role', () => {
+            return request(app.getHttpServer())
+                .post('/admin/reconcile')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+    });
+
+    describe('Admin Quarantine Endpoint', () => {
+        it('GET /admin/quarantine - should return 403 for non-admin role', () => {
+            return request(app.getHttpServer())
+                .get('/admin/quarantine')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+
+        it('GET /admin/quarantine - should return 403 for external admins', () => {
+            return request(app.getHttpServer())
+                .get('/admin/quarantine')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(403);
+        });
+
+        it('GET /admin/quarantine - should reject an unknown reason', () => {
+            return request(app.getHttpServer())
+                .get('/admin/quarantine?reason=bogus')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .expect(400);
+        });
+    });
+
+    describe('Admin Jobs Endpoint', () => {
+        it('GET /admin/jobs/:id - should return 403 for non-admin role', () => {
+            return request(app.getHttpServer())
+                .get('/admin/jobs/some-job')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(403);
+        });
+
+        it('GET /admin/jobs/:id - should return 403 for external admins', () => {
+            return request(app.getHttpServer())
+                .get('/admin/jobs/some-job')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(403);
+        });
+
+        it('DELETE /admin/jobs/:id - should return 404 for an unknown job', async () => {
+            const res = await request(app.getHttpServer())
+                .delete('/admin/jobs/no-such-job')
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(404);
+        });
     });
 
     describe('Health Endpoint', () => {
@@ -69,8 +69,8 @@ describe('Search Integration Tests', () => {
 
             expect(res.status).toBe(200);
 
-            if (res.body.length > 0) {
-                res.body.forEach((doc: Record<string, unknown>) => {
+            if (res.body.results.length > 0) {
+                res.body.results.forEach((doc: Record<string, unknown>) => {
                     expect(doc).not.toHaveProperty('status_notes');
                 });
             }
@@ -110,7 +110,7 @@ describe('Search Integration Tests', () => {
 
             // All returned records should have matching tenant_id
             // (if tenant_id is present in the data)
-            res.body.forEach((doc: Record<string, unknown>) => {
+            res.body.results.forEach((doc: Record<string, unknown>) => {
                 if (doc.tenant_id) {
                     expect(doc.tenant_id).toBe('loc-test-001');
                 }
@@ -145,7 +145,7 @@ describe('Search Integration Tests', () => {
             }
 
             expect(res.status).toBe(200);
-            expect(Array.isArray(res.body)).toBe(true);
+            expect(Array.isArray(res.body.results)).toBe(true);
         });
 
         it('should support exact email search', async () => {
@@ -161,6 +161,85 @@ describe('Search Integration Tests', () => {
             expect(res.status).toBe(200);
         });
 
+        it('should require every tag when tag_mode=all', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/search?tag=at-risk,vip&tag_mode=all')
+                .set('Authorization', `Bearer ${auditorToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(200);
+            res.body.results.forEach((doc: { tags: string[] }) => {
+                expect(doc.tags).toEqual(expect.arrayContaining(['at-risk', 'vip']));
+            });
+        });
+
+        it('should sort by updated_at descending', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/search?sort=updated_at&updated_from=2024-01-01')
+                .set('Authorization', `Bearer ${auditorToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(200);
+            const dates = res.body.results.map((doc: { updated_at: string }) => doc.updated_at);
+            expect(dates).toEqual([...dates].sort().reverse());
+        });
+
+        it('should report a match strategy in name-matching mode', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/search?q=Jon&name_match=true')
+                .set('Authorization', `Bearer ${auditorToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(200);
+            res.body.results.forEach((doc: { match_strategy: string }) => {
+                expect(['exact', 'nickname', 'fuzzy', 'phonetic']).toContain(doc.match_strategy);
+            });
+        });
+
+        it('should only expand the external tenant\'s own location', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/search?expand=location')
+                .set('Authorization', `Bearer ${externalAdminToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(200);
+            res.body.results.forEach((doc: { location?: { location_id: string } }) => {
+                if (doc.location) {
+                    expect(doc.location.location_id).toBe('loc-test-001');
+                }
+            });
+        });
+
+        it('should reject an unknown expansion', async () => {
+            await request(app.getHttpServer())
+                .get('/members/search?expand=coordinator')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+
+        it('should reject an unknown sort', async () => {
+            await request(app.getHttpServer())
+                .get('/members/search?sort=email')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+
         it('should respect limit parameter', async () => {
             const res = await request(app.getHttpServer())
                 .get('/members/search?q=*&limit=2')
@@ -172,7 +251,98 @@ describe('Search Integration Tests', () => {
             }
 
             expect(res.status).toBe(200);
-            expect(res.body.length).toBeLessThanOrEqual(2);
+            expect(res.body.results.length).toBeLessThanOrEqual(2);
+        });
+
+        it('should return total and a next link when more results exist', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/search?limit=1')
+                .set('Authorization', `Bearer ${auditorToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(200);
+            expect(typeof res.body.total).toBe('number');
+
+            if (res.body.total > 1) {
+                expect(res.body.next).toContain('cursor=');
+
+                const next = await request(app.getHttpServer())
+                    .get(res.body.next)
+                    .set('Authorization', `Bearer ${auditorToken}`)
+                    .expect(200);
+
+                expect(next.body.results[0].member_id).not.toBe(res.body.results[0].member_id);
+            }
+        });
+    });
+
+    describe('Suggest', () => {
+        it('should only suggest members from the external tenant', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/search/suggest?prefix=s')
+                .set('Authorization', `Bearer ${externalAdminToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(200);
+            res.body.suggestions.forEach((s: Record<string, unknown>) => {
+                expect(s).toHaveProperty('member_id');
+                expect(s).not.toHaveProperty('status_notes');
+            });
+        });
+
+        it('should require a prefix', async () => {
+            await request(app.getHttpServer())
+                .get('/members/search/suggest?prefix=%20')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+    });
+
+    describe('Get by ID', () => {
+        it('should return a member with role-filtered fields', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/members/mem-001')
+                .set('Authorization', `Bearer ${auditorToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            if (res.status === 200) {
+                expect(res.body.member_id).toBe('mem-001');
+                expect(res.body).not.toHaveProperty('status_notes');
+            } else {
+                expect(res.status).toBe(404);
+            }
+        });
+
+        it('should return 404 for a member in another tenant', async () => {
+            const otherTenantToken = generateToken('admin', 'external', 'loc-no-such-tenant');
+            const res = await request(app.getHttpServer())
+                .get('/members/mem-001')
+                .set('Authorization', `Bearer ${otherTenantToken}`);
+
+            if (res.status === 500) {
+                console.warn('Skipping: OpenSearch not available');
+                return;
+            }
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should require authentication', async () => {
+            await request(app.getHttpServer())
+                .get('/members/mem-001')
+                .expect(401);
         });
     });
 
@@ -192,7 +362,7 @@ describe('Search Integration Tests', () => {
             // Check that no raw SSN patterns appear in any text field
             const ssnPattern = /\b\d{3}-\d{2}-\d{4}\b/;
 
-            res.body.forEach((doc: Record<string, unknown>) => {
+            res.body.results.forEach((doc: Record<string, unknown>) => {
                 if (doc.status_notes) {
                     expect(doc.status_notes).not.toMatch(ssnPattern);
                 }
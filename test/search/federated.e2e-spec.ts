@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Federated Search E2E Tests
+ *
+ * Integration tests for GET /search across verticals.
+ * Requires Docker containers: OpenSearch, PostgreSQL, DynamoDB Local.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import * as jwt from 'jsonwebtoken';
+import { AppModule } from '../../src/app.module';
+
+describe('Federated Search E2E Tests', () => {
+    let app: INestApplication;
+
+    const JWT_SECRET = 'local-dev-secret-do-not-use-in-prod';
+    const JWT_ISSUER = 'http://localhost:3000';
+
+    const generateToken = (
+        role: string,
+        tenantType: 'internal' | 'external' = 'internal',
+        tenantId = 'rcm-internal',
+    ): string => {
+        return jwt.sign(
+            {
+                sub: `test-${role}`,
+                'cognito:groups': [role],
+                tenant_id: tenantId,
+                tenant_type: tenantType,
+            },
+            JWT_SECRET,
+            { issuer: JWT_ISSUER, expiresIn: '1h' }
+        );
+    };
+
+    const auditorToken = generateToken('auditor');
+    const externalAdminToken = generateToken('admin', 'external', 'GYM_101');
+
+    beforeAll(async () => {
+        const moduleFixture: TestingModule = await Test.createTestingModule({
+            imports: [AppModule],
+        }).compile();
+
+        app = moduleFixture.createNestApplication();
+        await app.init();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    describe('GET /search', () => {
+        it('should require authentication', async () => {
+            await request(app.getHttpServer())
+                .get('/search?q=fitness')
+                .expect(401);
+        });
+
+        it('should require q', async () => {
+            await request(app.getHttpServer())
+                .get('/search')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+
+        it('should group results by vertical with normalized scores', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/search?q=fitness')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(200);
+
+            expect(Object.keys(res.body.verticals).sort()).toEqual(['locations', 'members']);
+            Object.values(res.body.verticals).forEach((v: any) => {
+                v.hits.forEach((hit: { score: number }) => {
+                    expect(hit.score).toBeGreaterThanOrEqual(0);
+                    expect(hit.score).toBeLessThanOrEqual(1);
+                });
+            });
+        });
+
+        it('should keep external users inside their tenant', async () => {
+            const res = await request(app.getHttpServer())
+                .get('/search?q=fitness&verticals=locations')
+                .set('Authorization', `Bearer ${externalAdminToken}`)
+                .expect(200);
+
+            res.body.verticals.locations.hits.forEach((hit: { id: string }) => {
+                expect(hit.id).toBe('GYM_101');
+            });
+        });
+
+        it('should reject unknown verticals', async () => {
+            await request(app.getHttpServer())
+                .get('/search?q=fitness&verticals=orders')
+                .set('Authorization', `Bearer ${auditorToken}`)
+                .expect(400);
+        });
+    });
+});